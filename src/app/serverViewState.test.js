@@ -4,8 +4,10 @@
 import {MattermostServer} from 'common/servers/MattermostServer';
 import ServerManager from 'common/servers/serverManager';
 import {URLValidationStatus} from 'common/utils/constants';
-import {getDefaultViewsForConfigServer} from 'common/views/View';
+import PluginView from 'common/views/PluginView';
+import {getDefaultViewsForConfigServer, isValidPluginView} from 'common/views/View';
 import PermissionsManager from 'main/permissionsManager';
+import ServerHeaders from 'main/server/serverHeaders';
 import {ServerInfo} from 'main/server/serverInfo';
 import {getLocalPreload} from 'main/utils';
 import ModalManager from 'main/views/modalManager';
@@ -24,6 +26,9 @@ jest.mock('electron', () => ({
 
 jest.mock('common/servers/serverManager', () => ({
     setViewIsOpen: jest.fn(),
+    addPluginView: jest.fn(),
+    removeView: jest.fn(),
+    getOrderedTabsForServer: jest.fn(),
     getAllServers: jest.fn(),
     hasServers: jest.fn(),
     addServer: jest.fn(),
@@ -34,13 +39,19 @@ jest.mock('common/servers/serverManager', () => ({
     getLastActiveTabForServer: jest.fn(),
     getServerLog: jest.fn(),
     lookupViewByURL: jest.fn(),
+    lookupServerByURL: jest.fn(),
     getOrderedServers: jest.fn(),
 }));
 jest.mock('common/servers/MattermostServer', () => ({
     MattermostServer: jest.fn(),
 }));
+jest.mock('common/views/PluginView');
 jest.mock('common/views/View', () => ({
     getDefaultViewsForConfigServer: jest.fn(),
+    isValidPluginView: jest.fn(),
+}));
+jest.mock('main/server/serverHeaders', () => ({
+    setHeaders: jest.fn(),
 }));
 jest.mock('main/server/serverInfo', () => ({
     ServerInfo: jest.fn(),
@@ -86,6 +97,7 @@ const servers = [
         id: 'server-1',
         name: 'server-1',
         url: 'http://server-1.com',
+        primaryURL: 'http://server-1.com',
         tabs,
     },
 ];
@@ -103,9 +115,15 @@ describe('app/serverViewState', () => {
             jest.useFakeTimers();
             const server1 = {
                 id: 'server-1',
+                enabled: true,
             };
             const server2 = {
                 id: 'server-2',
+                enabled: true,
+            };
+            const server3 = {
+                id: 'server-3',
+                enabled: false,
             };
             ServerManager.getServer.mockImplementation((name) => {
                 switch (name) {
@@ -113,11 +131,13 @@ describe('app/serverViewState', () => {
                     return server1;
                 case 'server-2':
                     return server2;
+                case 'server-3':
+                    return server3;
                 default:
                     return undefined;
                 }
             });
-            ServerManager.getServerLog.mockReturnValue({debug: jest.fn(), error: jest.fn()});
+            ServerManager.getServerLog.mockReturnValue({debug: jest.fn(), error: jest.fn(), warn: jest.fn()});
             ViewManager.getView.mockImplementation((viewId) => views.get(viewId));
         });
 
@@ -132,6 +152,11 @@ describe('app/serverViewState', () => {
         });
 
         it('should do nothing if cannot find the server', () => {
+            serverViewState.switchServer('server-4');
+            expect(ViewManager.showById).not.toBeCalled();
+        });
+
+        it('should do nothing if the server is archived', () => {
             serverViewState.switchServer('server-3');
             expect(ViewManager.showById).not.toBeCalled();
         });
@@ -217,6 +242,30 @@ describe('app/serverViewState', () => {
             // TODO: For some reason jest won't recognize this as being called
             //expect(spy).toHaveBeenCalledWith('server-1', true);
         });
+
+        it('should set the headers of a new server', async () => {
+            const headers = [{name: 'X-Team', value: 'team-1'}];
+            const promise = Promise.resolve({name: 'new-server', url: 'http://new-server.com', headers});
+            ModalManager.addModal.mockReturnValue(promise);
+
+            serverViewState.showNewServerModal();
+            await promise;
+
+            expect(ServerHeaders.setHeaders).toHaveBeenCalledWith('server-1', headers);
+        });
+
+        it('should not replace the headers of a server that was already added', async () => {
+            const existingServer = {id: 'server-1', name: 'new-server', url: 'http://new-server.com'};
+            ServerManager.getAllServers.mockReturnValue([existingServer]);
+            ServerManager.addServer.mockReturnValue(existingServer);
+            const promise = Promise.resolve({name: 'new-server', url: 'http://new-server.com', headers: [{name: 'X-Team', value: 'team-1'}]});
+            ModalManager.addModal.mockReturnValue(promise);
+
+            serverViewState.showNewServerModal();
+            await promise;
+
+            expect(ServerHeaders.setHeaders).not.toHaveBeenCalled();
+        });
     });
 
     describe('handleEditServerModal', () => {
@@ -276,6 +325,20 @@ describe('app/serverViewState', () => {
             }));
         });
 
+        it('should save the headers', async () => {
+            const headers = [{name: 'X-Tenant', value: 'tenant-1'}, {name: 'X-Device-Token', value: 'token', secret: true}];
+            const promise = Promise.resolve({server: {
+                name: 'server-1',
+                url: 'http://server-1.com',
+                headers,
+            }});
+            ModalManager.addModal.mockReturnValue(promise);
+
+            serverViewState.showEditServerModal(null, 'server-1');
+            await promise;
+            expect(ServerHeaders.setHeaders).toHaveBeenCalledWith('server-1', headers);
+        });
+
         it('should edit the permissions', async () => {
             const promise = Promise.resolve({server: {
                 name: 'server-1',
@@ -410,6 +473,13 @@ describe('app/serverViewState', () => {
             expect(result.validatedURL).toBe('https://server.com/');
         });
 
+        it('should generate a warning when the server already exists with its URL written another way', async () => {
+            ServerManager.lookupServerByURL.mockImplementation((url) => (url.toString() === 'http://server.com/subpath/' ? {name: 'Server 1', id: 'server-1', url: new URL('http://Server.com/Subpath')} : undefined));
+            const result = await serverViewState.handleServerURLValidation({}, 'http://server.com/subpath/');
+            expect(result.status).toBe(URLValidationStatus.URLExists);
+            expect(result.existingServerName).toBe('Server 1');
+        });
+
         it('should generate a warning if the server exists when editing', async () => {
             ServerManager.lookupViewByURL.mockReturnValue({server: {name: 'Server 1', id: 'server-1', url: new URL('https://server.com')}});
             const result = await serverViewState.handleServerURLValidation({}, 'https://server.com', 'server-2');
@@ -557,6 +627,60 @@ describe('app/serverViewState', () => {
             expect(ServerManager.setViewIsOpen).toBeCalledWith('view-3', false);
             expect(ViewManager.showById).toBeCalledWith('view-2');
         });
+
+        it('should remove the plugin views instead of closing them', () => {
+            const view = new PluginView();
+            view.server = {id: 'server-1'};
+            ServerManager.getView.mockReturnValue(view);
+            ServerManager.getLastActiveTabForServer.mockReturnValue({id: 'view-2'});
+            serverViewState.handleCloseView(null, 'view-4');
+            expect(ServerManager.removeView).toBeCalledWith('view-4');
+            expect(ServerManager.setViewIsOpen).not.toBeCalledWith('view-4', false);
+            expect(ViewManager.showById).toBeCalledWith('view-2');
+        });
+    });
+
+    describe('showPluginViewModal', () => {
+        const serverViewState = new ServerViewState();
+
+        beforeEach(() => {
+            getLocalPreload.mockReturnValue('/some/preload.js');
+            MainWindow.get.mockReturnValue({});
+            ServerManager.getServer.mockReturnValue({id: 'server-1', name: 'server-1'});
+            ServerManager.getOrderedTabsForServer.mockReturnValue([]);
+            ServerManager.addPluginView.mockReturnValue({id: 'view-4'});
+        });
+
+        afterEach(() => {
+            jest.resetAllMocks();
+        });
+
+        it('should add the plugin view and show it', async () => {
+            const promise = Promise.resolve({path: 'plugins/plugin-1', displayName: 'Plugin 1'});
+            ModalManager.addModal.mockReturnValue(promise);
+            isValidPluginView.mockReturnValue(true);
+
+            serverViewState.showPluginViewModal(null, 'server-1');
+            await promise;
+            expect(ServerManager.addPluginView).toBeCalledWith('server-1', {path: 'plugins/plugin-1', displayName: 'Plugin 1'});
+            expect(ViewManager.showById).toBeCalledWith('view-4');
+        });
+
+        it('should not add a plugin view that is not valid', async () => {
+            const promise = Promise.resolve({path: '../admin', displayName: 'Plugin 1'});
+            ModalManager.addModal.mockReturnValue(promise);
+            isValidPluginView.mockReturnValue(false);
+
+            serverViewState.showPluginViewModal(null, 'server-1');
+            await promise;
+            expect(ServerManager.addPluginView).not.toBeCalled();
+        });
+
+        it('should not show the modal for the predefined servers', () => {
+            ServerManager.getServer.mockReturnValue({id: 'server-1', name: 'server-1', isPredefined: true});
+            serverViewState.showPluginViewModal(null, 'server-1');
+            expect(ModalManager.addModal).not.toBeCalled();
+        });
     });
 
     describe('handleOpenView', () => {
@@ -5,13 +5,20 @@ import type {IpcMainEvent, IpcMainInvokeEvent} from 'electron';
 import {ipcMain} from 'electron';
 
 import {
+    ADD_SERVER_GROUP,
     CLOSE_VIEW,
     GET_LAST_ACTIVE,
     GET_ORDERED_SERVERS,
     GET_ORDERED_TABS_FOR_SERVER,
+    MOVE_SERVER_TO_GROUP,
     OPEN_VIEW,
+    REMOVE_SERVER_GROUP,
+    RENAME_SERVER_GROUP,
+    SET_SERVER_ENABLED,
+    SET_SERVER_GROUP_COLLAPSED,
     SHOW_EDIT_SERVER_MODAL,
     SHOW_NEW_SERVER_MODAL,
+    SHOW_PLUGIN_VIEW_MODAL,
     SHOW_REMOVE_SERVER_MODAL,
     SWITCH_SERVER,
     TOGGLE_SECURE_INPUT,
@@ -26,14 +33,19 @@ import {MattermostServer} from 'common/servers/MattermostServer';
 import ServerManager from 'common/servers/serverManager';
 import {URLValidationStatus} from 'common/utils/constants';
 import {isValidURI, isValidURL, parseURL} from 'common/utils/url';
+import PluginView from 'common/views/PluginView';
+import {isValidPluginView} from 'common/views/View';
 import PermissionsManager from 'main/permissionsManager';
+import ServerAvatars from 'main/server/serverAvatars';
+import ServerHeaders from 'main/server/serverHeaders';
 import {ServerInfo} from 'main/server/serverInfo';
 import {getLocalPreload} from 'main/utils';
 import ModalManager from 'main/views/modalManager';
 import ViewManager from 'main/views/viewManager';
 import MainWindow from 'main/windows/mainWindow';
 
-import type {Server} from 'types/config';
+import type {PluginViewSettings, UniqueServer} from 'types/config';
+import type {PluginViewModalInfo} from 'types/modals';
 import type {Permissions, UniqueServerWithPermissions} from 'types/permissions';
 import type {URLValidationResult} from 'types/server';
 
@@ -47,9 +59,16 @@ export class ServerViewState {
         ipcMain.on(SHOW_NEW_SERVER_MODAL, this.showNewServerModal);
         ipcMain.on(SHOW_EDIT_SERVER_MODAL, this.showEditServerModal);
         ipcMain.on(SHOW_REMOVE_SERVER_MODAL, this.showRemoveServerModal);
+        ipcMain.on(SHOW_PLUGIN_VIEW_MODAL, this.showPluginViewModal);
         ipcMain.handle(VALIDATE_SERVER_URL, this.handleServerURLValidation);
         ipcMain.handle(GET_ORDERED_SERVERS, this.handleGetOrderedServers);
         ipcMain.on(UPDATE_SERVER_ORDER, this.updateServerOrder);
+        ipcMain.on(MOVE_SERVER_TO_GROUP, this.moveServerToGroup);
+        ipcMain.on(ADD_SERVER_GROUP, this.addServerGroup);
+        ipcMain.on(RENAME_SERVER_GROUP, this.renameServerGroup);
+        ipcMain.on(REMOVE_SERVER_GROUP, this.removeServerGroup);
+        ipcMain.on(SET_SERVER_GROUP_COLLAPSED, this.setServerGroupCollapsed);
+        ipcMain.on(SET_SERVER_ENABLED, this.setServerEnabled);
 
         ipcMain.on(CLOSE_VIEW, this.handleCloseView);
         ipcMain.on(OPEN_VIEW, this.handleOpenView);
@@ -60,11 +79,12 @@ export class ServerViewState {
 
     init = () => {
         const orderedServers = ServerManager.getOrderedServers();
-        if (orderedServers.length) {
-            if (Config.lastActiveServer && orderedServers[Config.lastActiveServer]) {
+        const enabledServers = ServerManager.getEnabledServers();
+        if (enabledServers.length) {
+            if (Config.lastActiveServer && orderedServers[Config.lastActiveServer]?.enabled) {
                 this.currentServerId = orderedServers[Config.lastActiveServer].id;
             } else {
-                this.currentServerId = orderedServers[0].id;
+                this.currentServerId = enabledServers[0].id;
             }
         }
     };
@@ -90,6 +110,10 @@ export class ServerViewState {
             ServerManager.getServerLog(serverId, 'WindowManager').error('Cannot find server in config');
             return;
         }
+        if (!server.enabled) {
+            ServerManager.getServerLog(serverId, 'WindowManager').warn('Cannot switch to an archived server');
+            return;
+        }
         ipcMain.emit(TOGGLE_SECURE_INPUT, null, false);
         this.currentServerId = serverId;
         const nextView = ServerManager.getLastActiveTabForServer(serverId);
@@ -131,7 +155,7 @@ export class ServerViewState {
             return;
         }
 
-        const modalPromise = ModalManager.addModal<null, Server>(
+        const modalPromise = ModalManager.addModal<null, UniqueServer>(
             'newServer',
             'mattermost-desktop://renderer/newServer.html',
             getLocalPreload('internalAPI.js'),
@@ -141,7 +165,13 @@ export class ServerViewState {
         );
 
         modalPromise.then((data) => {
+            const existingServers = ServerManager.getAllServers();
             const newServer = ServerManager.addServer(data);
+
+            // a server that was already added is switched to as is, without its headers being replaced
+            if (data.headers && !existingServers.includes(newServer)) {
+                ServerHeaders.setHeaders(newServer.id, data.headers);
+            }
             this.switchServer(newServer.id, true);
         }).catch((e) => {
             // e is undefined for user cancellation
@@ -163,15 +193,16 @@ export class ServerViewState {
             return;
         }
 
-        const modalPromise = ModalManager.addModal<UniqueServerWithPermissions, {server: Server; permissions: Permissions}>(
+        const modalPromise = ModalManager.addModal<UniqueServerWithPermissions, {server: UniqueServer; permissions: Permissions}>(
             'editServer',
             'mattermost-desktop://renderer/editServer.html',
             getLocalPreload('internalAPI.js'),
-            {server: server.toUniqueServer(), permissions: PermissionsManager.getForServer(server) ?? {}},
+            {server: ServerAvatars.toUniqueServer(server), permissions: PermissionsManager.getForServer(server) ?? {}},
             mainWindow);
 
         modalPromise.then((data) => {
             ServerManager.editServer(id, data.server);
+            ServerHeaders.setHeaders(id, data.server.headers);
             PermissionsManager.setForServer(server, data.permissions);
         }).catch((e) => {
             // e is undefined for user cancellation
@@ -222,6 +253,46 @@ export class ServerViewState {
         });
     };
 
+    private showPluginViewModal = (e: IpcMainEvent, id: string) => {
+        log.debug('showPluginViewModal', id);
+
+        const mainWindow = MainWindow.get();
+        if (!mainWindow) {
+            return;
+        }
+        const server = ServerManager.getServer(id);
+        if (!server || server.isPredefined) {
+            return;
+        }
+
+        const modalPromise = ModalManager.addModal<PluginViewModalInfo, PluginViewSettings>(
+            'pluginView',
+            'mattermost-desktop://renderer/pluginView.html',
+            getLocalPreload('internalAPI.js'),
+            {
+                serverName: server.name,
+                paths: ServerManager.getOrderedTabsForServer(server.id).reduce<string[]>((paths, view) => (view instanceof PluginView ? [...paths, view.path] : paths), []),
+            },
+            mainWindow,
+        );
+
+        modalPromise.then((data) => {
+            if (!isValidPluginView(data)) {
+                log.warn('showPluginViewModal: the plugin view is not valid', data.path);
+                return;
+            }
+            const view = ServerManager.addPluginView(server.id, data);
+            if (view) {
+                ViewManager.showById(view.id);
+            }
+        }).catch((e) => {
+            // e is undefined for user cancellation
+            if (e) {
+                log.error(`there was an error in the plugin view modal: ${e}`);
+            }
+        });
+    };
+
     /**
      * IPC Handlers
      */
@@ -257,10 +328,10 @@ export class ServerViewState {
             secureURL = parseURL(parsedURL.toString().replace(/^http:/, 'https:')) ?? parsedURL;
         }
 
-        // Tell the user if they already have a server for this URL
-        const existingServer = ServerManager.lookupViewByURL(secureURL, true);
-        if (existingServer && existingServer.server.id !== currentId) {
-            return {status: URLValidationStatus.URLExists, existingServerName: existingServer.server.name, validatedURL: existingServer.server.url.toString()};
+        // Tell the user if they already have a server for this URL, written in any form
+        const existingServer = ServerManager.lookupServerByURL(parsedURL) ?? ServerManager.lookupServerByURL(secureURL) ?? ServerManager.lookupViewByURL(secureURL, true)?.server;
+        if (existingServer && existingServer.id !== currentId) {
+            return {status: URLValidationStatus.URLExists, existingServerName: existingServer.name, validatedURL: existingServer.url.toString()};
         }
 
         // Try and get remote info from the most secure URL, otherwise use the insecure one
@@ -293,9 +364,9 @@ export class ServerViewState {
             const parsedSiteURL = parseURL(remoteInfo.siteURL);
             if (parsedSiteURL) {
                 // Check the Site URL as well to see if it's already pre-configured
-                const existingServer = ServerManager.lookupViewByURL(parsedSiteURL, true);
-                if (existingServer && existingServer.server.id !== currentId) {
-                    return {status: URLValidationStatus.URLExists, existingServerName: existingServer.server.name, validatedURL: existingServer.server.url.toString()};
+                const existingServer = ServerManager.lookupServerByURL(parsedSiteURL) ?? ServerManager.lookupViewByURL(parsedSiteURL, true)?.server;
+                if (existingServer && existingServer.id !== currentId) {
+                    return {status: URLValidationStatus.URLExists, existingServerName: existingServer.name, validatedURL: existingServer.url.toString()};
                 }
 
                 // If we can't reach the remote Site URL, there's probably a configuration issue
@@ -319,7 +390,13 @@ export class ServerViewState {
         if (!view) {
             return;
         }
-        ServerManager.setViewIsOpen(viewId, false);
+
+        // the plugin views were added by the user, so they are removed rather than kept closed
+        if (view instanceof PluginView) {
+            ServerManager.removeView(viewId);
+        } else {
+            ServerManager.setViewIsOpen(viewId, false);
+        }
         const nextView = ServerManager.getLastActiveTabForServer(view.server.id);
         ViewManager.showById(nextView.id);
     };
@@ -343,8 +420,14 @@ export class ServerViewState {
 
     private updateServerOrder = (event: IpcMainEvent, serverOrder: string[]) => ServerManager.updateServerOrder(serverOrder);
     private updateTabOrder = (event: IpcMainEvent, serverId: string, viewOrder: string[]) => ServerManager.updateTabOrder(serverId, viewOrder);
-
-    private handleGetOrderedServers = () => ServerManager.getOrderedServers().map((srv) => srv.toUniqueServer());
+    private moveServerToGroup = (event: IpcMainEvent, serverId: string, group: string | undefined, serverOrder: string[]) => ServerManager.moveServerToGroup(serverId, group, serverOrder);
+    private addServerGroup = (event: IpcMainEvent, name: string) => ServerManager.addServerGroup(name);
+    private renameServerGroup = (event: IpcMainEvent, name: string, newName: string) => ServerManager.renameServerGroup(name, newName);
+    private removeServerGroup = (event: IpcMainEvent, name: string) => ServerManager.removeServerGroup(name);
+    private setServerGroupCollapsed = (event: IpcMainEvent, name: string, collapsed: boolean) => ServerManager.setServerGroupCollapsed(name, collapsed);
+    private setServerEnabled = (event: IpcMainEvent, serverId: string, enabled: boolean) => ServerManager.setServerEnabled(serverId, enabled);
+
+    private handleGetOrderedServers = () => ServerManager.getOrderedServers().map(ServerAvatars.toUniqueServer);
 
     /**
      * Helper functions
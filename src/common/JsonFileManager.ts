@@ -3,23 +3,95 @@
 // See LICENSE.txt for license information.
 import fs from 'fs';
 
+import {restoreFromBackup, writeFileSafe} from 'common/utils/safeFile';
+import {WatchedFile} from 'common/utils/watchedFile';
+
+import type {ValidationProblem} from 'types/validation';
+
 export default class JsonFileManager<T> {
     jsonFile: string;
     json: T;
+    private validate?: (json: T, problems?: ValidationProblem[]) => T | null;
     private saving?: Promise<void>;
+    private watchedFile: WatchedFile;
 
-    constructor(file: string) {
+    constructor(file: string, validate?: (json: T, problems?: ValidationProblem[]) => T | null) {
         this.jsonFile = file;
+        this.validate = validate;
+        this.watchedFile = new WatchedFile(file);
         try {
-            this.json = JSON.parse(fs.readFileSync(file, 'utf-8'));
+            const data = fs.readFileSync(file, 'utf-8');
+            this.watchedFile.setKnownData(data);
+            this.json = JSON.parse(data);
+            if (validate && !validate(this.json)) {
+                throw new Error(`${file} does not validate`);
+            }
         } catch (err) {
-            this.json = {} as T;
+            this.json = this.restore(err);
+        }
+    }
+
+    private restore(err: unknown): T {
+        if (!fs.existsSync(this.jsonFile)) {
+            return {} as T;
         }
+
+        const backup = restoreFromBackup<T>(this.jsonFile, this.validate ?? ((json) => json));
+        if (!backup) {
+            // eslint-disable-next-line no-console
+            console.warn(`Unable to load ${this.jsonFile} and no valid backup was found, starting empty`, err);
+            return {} as T;
+        }
+
+        // eslint-disable-next-line no-console
+        console.warn(`Unable to load ${this.jsonFile}, recovered ${Object.keys(backup.data as object).length} entries from ${backup.backupPath}`, err);
+        return backup.data;
+    }
+
+    private loadExternalChange(data: string) {
+        try {
+            const json = JSON.parse(data);
+            const validJson = this.validate ? this.validate(json) : json;
+            if (!validJson) {
+                throw new Error(`${this.jsonFile} does not validate`);
+            }
+            this.json = validJson;
+            return true;
+        } catch (err) {
+            // eslint-disable-next-line no-console
+            console.warn(`${this.jsonFile} was changed outside of the app but could not be loaded, keeping the current data`, err);
+            return false;
+        }
+    }
+
+    /**
+     * Reloads the file when something else has changed it since it was last read or written,
+     * so that the next write is made on top of that change instead of overwriting it
+     */
+    syncWithFile(): boolean {
+        const data = this.watchedFile.readExternalChange();
+        if (typeof data === 'undefined') {
+            return false;
+        }
+        return this.loadExternalChange(data);
+    }
+
+    watch(onChange?: (json: T) => void): void {
+        this.watchedFile.watch((data) => {
+            if (this.loadExternalChange(data)) {
+                onChange?.(this.json);
+            }
+        });
+    }
+
+    unwatch(): void {
+        this.watchedFile.unwatch();
     }
 
     write(json: string): Promise<void> {
+        this.watchedFile.recordWrite(json);
         return new Promise((resolve, reject) => {
-            fs.writeFile(this.jsonFile, json, (err) => {
+            writeFileSafe(this.jsonFile, json, (err) => {
                 if (err) {
                     // No real point in bringing electron-log into this otherwise electron-free file
                     // eslint-disable-next-line no-console
@@ -28,7 +100,7 @@ export default class JsonFileManager<T> {
                     return;
                 }
                 resolve();
-            });
+            }, this.validate);
         });
     }
 
@@ -48,6 +120,7 @@ export default class JsonFileManager<T> {
     }
 
     setValue(key: keyof T, value: T[keyof T]): void {
+        this.syncWithFile();
         this.json[key] = value;
         this.writeToFile();
     }
@@ -79,12 +79,17 @@ describe('common/Validator', () => {
             });
         });
 
-        it('should invalidate bad spell checker locales', () => {
+        it('should default bad spell checker locales and report the problem', () => {
             const modifiedConfig = {
                 ...config,
                 spellCheckerLocale: 'not-a-locale',
             };
-            expect(Validator.validateV1ConfigData(modifiedConfig)).toStrictEqual(null);
+            const problems = [];
+            expect(Validator.validateV1ConfigData(modifiedConfig, problems)).toStrictEqual(config);
+            expect(problems).toStrictEqual([{
+                path: 'spellCheckerLocale',
+                reason: expect.stringContaining('"spellCheckerLocale"'),
+            }]);
         });
     });
 
@@ -187,6 +192,255 @@ describe('common/Validator', () => {
         });
     });
 
+    describe('validateV4ConfigData', () => {
+        const config = {
+            autoCheckForUpdates: true,
+            autostart: true,
+            hideOnStart: false,
+            darkMode: false,
+            enableHardwareAcceleration: true,
+            startInFullscreen: false,
+            lastActiveTeam: 0,
+            logLevel: 'info',
+            minimizeToTray: false,
+            showTrayIcon: false,
+            showUnreadBadge: true,
+            spellCheckerLocales: ['en-US'],
+            spellCheckerURL: 'http://spellcheckerservice.com',
+            teams: [
+                {
+                    lastActiveTab: 0,
+                    name: 'server-1',
+                    url: 'http://server-1.com',
+                    order: 1,
+                    tabs: [
+                        {
+                            name: 'TAB_MESSAGING',
+                            isOpen: true,
+                        },
+                    ],
+                    settings: {
+                        enableNotifications: false,
+                        zoomLevel: 1.5,
+                        spellCheckerLocales: ['fr'],
+                        downloadLocation: '/some/folder',
+                    },
+                },
+            ],
+            trayIconTheme: 'use_system',
+            useSpellChecker: true,
+            version: 4,
+        };
+
+        it('should keep per-server settings', () => {
+            expect(Validator.validateV4ConfigData(config)).toStrictEqual(config);
+        });
+
+        it('should leave alternate URLs of the wrong shape for the schema to drop', () => {
+            const problems = [];
+            const modifiedConfig = {
+                ...config,
+                teams: [
+                    {...config.teams[0], alternateURLs: ['http://server-1-backup.com', 42, 'not a url']},
+                    {...config.teams[0], name: 'server-2', url: 'http://server-2.com', alternateURLs: 'http://server-2-backup.com'},
+                ],
+            };
+            expect(Validator.validateV4ConfigData(modifiedConfig, problems).teams).toStrictEqual([
+                {...config.teams[0], alternateURLs: ['http://server-1-backup.com']},
+                {...config.teams[0], name: 'server-2', url: 'http://server-2.com'},
+            ]);
+            expect(problems.map(({path}) => path)).toStrictEqual(['teams.0.alternateURLs.1', 'teams.1.alternateURLs']);
+        });
+
+        it('should drop invalid per-server settings', () => {
+            const modifiedConfig = {
+                ...config,
+                teams: [
+                    {
+                        ...config.teams[0],
+                        settings: {
+                            ...config.teams[0].settings,
+                            zoomLevel: 'big',
+                        },
+                    },
+                ],
+            };
+            const problems = [];
+            const settings = {...config.teams[0].settings};
+            delete settings.zoomLevel;
+            expect(Validator.validateV4ConfigData(modifiedConfig, problems)).toStrictEqual({
+                ...config,
+                teams: [{...config.teams[0], settings}],
+            });
+            expect(problems.map(({path}) => path)).toStrictEqual(['teams.0.settings.zoomLevel']);
+        });
+
+        it('should keep the plugin views and drop the ones that leave the server', () => {
+            const pluginView = {name: 'TAB_PLUGIN', isOpen: true, path: 'plugins/plugin-1', displayName: 'Plugin 1', icon: 'chart-line'};
+            const modifiedConfig = {
+                ...config,
+                teams: [
+                    {
+                        ...config.teams[0],
+                        tabs: [
+                            ...config.teams[0].tabs,
+                            pluginView,
+                            {...pluginView, path: 'plugins/../../admin'},
+                        ],
+                    },
+                ],
+            };
+            const problems = [];
+            expect(Validator.validateV4ConfigData(modifiedConfig, problems).teams[0].tabs).toStrictEqual([...config.teams[0].tabs, pluginView]);
+            expect(problems[0].path).toBe('teams.0.tabs.2.path');
+        });
+
+        it('should report the problems at their place in the file after dropping earlier entries', () => {
+            const pluginView = {name: 'TAB_PLUGIN', isOpen: true, path: 'plugins/../../admin', displayName: 'Plugin 1'};
+            const modifiedConfig = {
+                ...config,
+                teams: [
+                    {...config.teams[0], name: undefined, url: 'http://server-0.com'},
+                    config.teams[0],
+                    {...config.teams[0], name: 'server-2', url: 'http://server-2.com', tabs: [pluginView]},
+                ],
+            };
+            const problems = [];
+            expect(Validator.validateV4ConfigData(modifiedConfig, problems).teams).toStrictEqual([config.teams[0], {...config.teams[0], name: 'server-2', url: 'http://server-2.com', tabs: []}]);
+            expect([...new Set(problems.map(({path}) => path))]).toStrictEqual(['teams.0.name', 'teams.2.tabs.0.path']);
+        });
+    });
+
+    describe('validateDownloads', () => {
+        const download = {
+            type: 'file',
+            filename: 'file1.txt',
+            state: 'completed',
+            progress: 100,
+            location: '/some/dir/file1.txt',
+            mimeType: 'text/plain',
+            addedAt: 1662545584346,
+            receivedBytes: 1234,
+            totalBytes: 1234,
+        };
+
+        it('should keep the valid entries and drop the invalid fields of the others', () => {
+            const recoveredDownload = {...download, filename: 'file2.txt'};
+            delete recoveredDownload.progress;
+            const problems = [];
+            expect(Validator.validateDownloads({
+                'file1.txt': download,
+                'file2.txt': {...download, filename: 'file2.txt', progress: 200},
+            }, problems)).toStrictEqual({
+                'file1.txt': download,
+                'file2.txt': recoveredDownload,
+            });
+            expect(problems).toStrictEqual([{path: 'file2.txt.progress', reason: expect.any(String)}]);
+        });
+    });
+
+    describe('validateTrustedOriginsStore', () => {
+        it('should drop the invalid entries', () => {
+            const problems = [];
+            expect(Validator.validateTrustedOriginsStore({
+                'http://server-1.com': {canBasicAuth: true},
+                'http://server-2.com': 'not-an-object',
+            }, problems)).toStrictEqual({
+                'http://server-1.com': {canBasicAuth: true},
+            });
+            expect(problems.map(({path}) => path)).toStrictEqual(['http://server-2.com']);
+        });
+    });
+
+    describe('validateConfigData', () => {
+        it('should drop servers that are missing required fields and report the invalid URLs', () => {
+            const problems = [];
+            const validData = Validator.validateConfigData({
+                version: 4,
+                teams: [
+                    {name: 'server-1', url: 'http://server-1.com', order: 0, tabs: []},
+                    {url: 'http://server-2.com', order: 1, tabs: []},
+                    {name: 'server-3', url: 'not-a-url', order: 2, tabs: []},
+                ],
+            }, problems);
+            expect(validData.teams).toStrictEqual([{name: 'server-1', url: 'http://server-1.com', order: 0, lastActiveTab: 0, tabs: []}]);
+            expect(problems.map(({path}) => path)).toStrictEqual(['teams.2.url', 'teams.1.name']);
+        });
+
+        it('should return null when the data cannot be recovered', () => {
+            const problems = [];
+            expect(Validator.validateConfigData({version: 0}, problems)).toBe(null);
+            expect(problems.map(({path}) => path)).toStrictEqual(['url']);
+        });
+    });
+
+    describe('validatePolicyConfig', () => {
+        it('should return null when not provided object', () => {
+            expect(Validator.validatePolicyConfig('notanobject')).toBe(null);
+        });
+
+        it('should default to no servers', () => {
+            expect(Validator.validatePolicyConfig({enableServerManagement: false})).toStrictEqual({
+                servers: [],
+                enableServerManagement: false,
+                lockedSettings: {},
+            });
+        });
+
+        it('should remove invalid server urls and unknown fields', () => {
+            const policy = {
+                servers: [
+                    {name: 'server-1', url: 'http://server-1.com'},
+                    {name: 'server-2', url: 'not-a-url'},
+                ],
+                enableAutoUpdater: false,
+                someOtherSetting: true,
+            };
+            expect(Validator.validatePolicyConfig(policy)).toStrictEqual({
+                servers: [{name: 'server-1', url: 'http://server-1.com'}],
+                enableAutoUpdater: false,
+                lockedSettings: {},
+            });
+        });
+
+        it('should drop invalid values', () => {
+            const problems = [];
+            expect(Validator.validatePolicyConfig({enableServerManagement: 'nope', enableAutoUpdater: false}, problems)).toStrictEqual({
+                servers: [],
+                enableAutoUpdater: false,
+                lockedSettings: {},
+            });
+            expect(problems.map(({path}) => path)).toStrictEqual(['enableServerManagement']);
+        });
+
+        it('should only keep the locked settings that were provided', () => {
+            const policy = {
+                lockedSettings: {
+                    useSpellChecker: false,
+                    downloadLocation: '/srv/downloads',
+                    teams: [],
+                    someOtherSetting: true,
+                },
+            };
+            expect(Validator.validatePolicyConfig(policy)).toStrictEqual({
+                servers: [],
+                lockedSettings: {
+                    useSpellChecker: false,
+                    downloadLocation: '/srv/downloads',
+                },
+            });
+        });
+
+        it('should drop invalid locked settings', () => {
+            const problems = [];
+            expect(Validator.validatePolicyConfig({lockedSettings: {useSpellChecker: 'nope', autostart: false}}, problems)).toStrictEqual({
+                servers: [],
+                lockedSettings: {autostart: false},
+            });
+            expect(problems.map(({path}) => path)).toStrictEqual(['lockedSettings.useSpellChecker']);
+        });
+    });
+
     describe('validateAllowedProtocols', () => {
         const allowedProtocols = [
             'spotify:',
@@ -198,8 +452,49 @@ describe('common/Validator', () => {
             expect(Validator.validateAllowedProtocols(allowedProtocols)).toStrictEqual(allowedProtocols);
         });
 
-        it('should reject invalid protocols', () => {
-            expect(Validator.validateAllowedProtocols([...allowedProtocols, 'not-a-protocol'])).toStrictEqual(null);
+        it('should drop invalid protocols', () => {
+            const problems = [];
+            expect(Validator.validateAllowedProtocols(['not-a-protocol', ...allowedProtocols, 'also not a protocol'], problems)).toStrictEqual(allowedProtocols);
+            expect(problems.map(({path}) => path)).toStrictEqual(['0', '4']);
+        });
+    });
+
+    describe('validateProfileBundle', () => {
+        const bundle = {
+            version: 1,
+            config: {
+                version: 4,
+                teams: [{name: 'server-1', url: 'http://server-1.com', order: 0, tabs: [{name: 'TAB_MESSAGING', order: 0, isOpen: true}]}],
+            },
+            certificates: {
+                'https://server-1.com': {data: 'certificate data', issuerName: 'issuer'},
+            },
+            trustedOrigins: {
+                'http://server-1.com': {canBasicAuth: true},
+            },
+            permissions: {
+                'http://server-1.com': {media: {allowed: true}},
+            },
+            allowedProtocols: ['spotify:'],
+        };
+
+        it('should accept a valid bundle', () => {
+            const validBundle = Validator.validateProfileBundle(JSON.parse(JSON.stringify(bundle)));
+            expect(validBundle.version).toBe(1);
+            expect(validBundle.config.teams).toHaveLength(1);
+            expect(validBundle.certificates).toStrictEqual(bundle.certificates);
+            expect(validBundle.trustedOrigins).toStrictEqual(bundle.trustedOrigins);
+            expect(validBundle.permissions).toStrictEqual(bundle.permissions);
+            expect(validBundle.allowedProtocols).toStrictEqual(bundle.allowedProtocols);
+        });
+
+        it('should reject an unknown bundle version', () => {
+            expect(Validator.validateProfileBundle({...bundle, version: 2})).toBe(null);
+        });
+
+        it('should reject a bundle with an invalid section', () => {
+            expect(Validator.validateProfileBundle({...bundle, permissions: {'http://server-1.com': {media: {allowed: 'yes'}}}})).toBe(null);
+            expect(Validator.validateProfileBundle({...bundle, allowedProtocols: ['not-a-protocol']})).toBe(null);
         });
     });
 });
@@ -4,16 +4,21 @@
 import Joi from 'joi';
 
 import {Logger} from 'common/log';
+import {HEADER_NAME_REGEX, PLUGIN_VIEW_ICON_REGEX, PLUGIN_VIEW_PATH_REGEX} from 'common/utils/constants';
 import {isValidURL} from 'common/utils/url';
-import {TAB_MESSAGING} from 'common/views/View';
+import {TAB_MESSAGING, TAB_PLUGIN} from 'common/views/View';
 
 import type {AppState} from 'types/appState';
 import type {Args} from 'types/args';
 import type {ComparableCertificate} from 'types/certificate';
-import type {AnyConfig, ConfigV0, ConfigV1, ConfigV2, ConfigV3, ConfigServer} from 'types/config';
+import type {AnyConfig, ConfigV0, ConfigV1, ConfigV2, ConfigV3, ConfigV4, ConfigServer, EnvironmentConfig, LockableSettings, PolicyConfig, ProvisioningConfig, ProvisioningDocument, PredefinedSiteURLDecision} from 'types/config';
 import type {DownloadedItems} from 'types/downloads';
 import type {SavedWindowState} from 'types/mainWindow';
+import type {Permissions} from 'types/permissions';
+import type {ProfileBundle} from 'types/profileBundle';
+import type {CachedRemoteInfo} from 'types/server';
 import type {PermissionType, TrustedOrigin} from 'types/trustedOrigin';
+import type {ValidationProblem} from 'types/validation';
 
 const log = new Logger('Validator');
 const defaultOptions = {
@@ -24,10 +29,15 @@ const defaultWindowHeight = 700;
 const minWindowWidth = 400;
 const minWindowHeight = 240;
 
+// each attempt drops every invalid field or entry reported by the previous one, so this only needs to cover nesting
+const maxRecoveryAttempts = 5;
+
 const argsSchema = Joi.object<Args>({
     hidden: Joi.boolean(),
     disableDevMode: Joi.boolean(),
     dataDir: Joi.string(),
+    profile: Joi.string(),
+    provisionURL: Joi.string(),
     version: Joi.boolean(),
     fullscreen: Joi.boolean(),
 });
@@ -113,19 +123,23 @@ const configDataSchemaV2 = Joi.object<ConfigV2>({
     downloadLocation: Joi.string(),
 });
 
-const configDataSchemaV3 = Joi.object<ConfigV3>({
+const viewSchemaV3 = Joi.object({
+    name: Joi.string().required(),
+    order: Joi.number().integer().min(0),
+    isOpen: Joi.boolean(),
+});
+
+const serverSchemaV3 = Joi.object({
+    name: Joi.string().required(),
+    url: Joi.string().required(),
+    order: Joi.number().integer().min(0),
+    lastActiveTab: Joi.number().integer().min(0).default(0),
+    tabs: Joi.array().items(viewSchemaV3).default([]),
+});
+
+const configDataKeysV3 = {
     version: Joi.number().min(3).default(3),
-    teams: Joi.array().items(Joi.object({
-        name: Joi.string().required(),
-        url: Joi.string().required(),
-        order: Joi.number().integer().min(0),
-        lastActiveTab: Joi.number().integer().min(0).default(0),
-        tabs: Joi.array().items(Joi.object({
-            name: Joi.string().required(),
-            order: Joi.number().integer().min(0),
-            isOpen: Joi.boolean(),
-        })).default([]),
-    })).default([]),
+    teams: Joi.array().items(serverSchemaV3).default([]),
     showTrayIcon: Joi.boolean().default(false),
     trayIconTheme: Joi.any().allow('').valid('light', 'dark', 'use_system').default('use_system'),
     minimizeToTray: Joi.boolean().default(false),
@@ -150,6 +164,100 @@ const configDataSchemaV3 = Joi.object<ConfigV3>({
     alwaysClose: Joi.boolean(),
     logLevel: Joi.string().default('info'),
     appLanguage: Joi.string().allow(''),
+};
+
+const configDataSchemaV3 = Joi.object<ConfigV3>(configDataKeysV3);
+
+const siteURLDecisionSchema = Joi.object({
+    siteURL: Joi.string().required(),
+    decision: Joi.string().valid('accepted', 'rejected', 'pinned').required(),
+    time: Joi.number().required(),
+});
+
+// v.4 only adds to the servers of v.3 and their views, along with the server groups
+const configDataSchemaV4 = Joi.object<ConfigV4>({
+    ...configDataKeysV3,
+    version: Joi.number().min(4).default(4),
+    teams: Joi.array().items(serverSchemaV3.keys({
+        tabs: Joi.array().items(viewSchemaV3.keys({
+            path: Joi.string().regex(PLUGIN_VIEW_PATH_REGEX).when('name', {is: TAB_PLUGIN, then: Joi.required()}),
+            displayName: Joi.string().when('name', {is: TAB_PLUGIN, then: Joi.required()}),
+            icon: Joi.string().regex(PLUGIN_VIEW_ICON_REGEX),
+        })).default([]),
+        settings: Joi.object({
+            enableNotifications: Joi.boolean(),
+            enableNotificationSounds: Joi.boolean(),
+            zoomLevel: Joi.number().min(-8).max(9),
+            spellCheckerLocales: Joi.array().items(Joi.string()),
+            downloadLocation: Joi.string(),
+        }),
+        group: Joi.string(),
+        icon: Joi.object({
+            color: Joi.string().regex(/^#[0-9a-f]{6}$/i),
+            image: Joi.string().dataUri(),
+        }),
+        siteURLDecision: siteURLDecisionSchema,
+        proxy: Joi.object({
+            mode: Joi.string().valid('system', 'direct', 'manual', 'pac').required(),
+            host: Joi.string().when('mode', {is: 'manual', then: Joi.required()}),
+            port: Joi.number().port().when('mode', {is: 'manual', then: Joi.required()}),
+            bypass: Joi.string().allow(''),
+            pacURL: Joi.string().uri({scheme: ['http', 'https', 'file', 'data']}).when('mode', {is: 'pac', then: Joi.required()}),
+        }),
+        partition: Joi.string().regex(/^[\w-]+$/),
+        proxyPartition: Joi.string().regex(/^[\w-]+$/),
+        headers: Joi.array().items(Joi.object({
+            name: Joi.string().regex(HEADER_NAME_REGEX).required(),
+            value: Joi.string().allow(''),
+            encryptedValue: Joi.string().base64(),
+        }).xor('value', 'encryptedValue')),
+        enabled: Joi.boolean(),
+        alternateURLs: Joi.array().items(Joi.string()),
+        allowDuplicate: Joi.boolean(),
+    })).default([]),
+    serverGroups: Joi.array().items(Joi.object({
+        name: Joi.string().required(),
+        collapsed: Joi.boolean().default(false),
+    })),
+});
+
+// locked settings are validated without defaults so that only the keys set by the administrator are locked
+const lockedSettingsSchema = configDataSchemaV4.keys({
+    version: Joi.any().strip(),
+    teams: Joi.any().strip(),
+    lastActiveTeam: Joi.any().strip(),
+    serverGroups: Joi.any().strip(),
+});
+
+const policyConfigSchema = Joi.object<PolicyConfig>({
+    servers: Joi.array().items(Joi.object({
+        name: Joi.string().required(),
+        url: Joi.string().required(),
+    })).default([]),
+    enableServerManagement: Joi.boolean(),
+    enableAutoUpdater: Joi.boolean(),
+    lockedSettings: Joi.object().default({}),
+    provisionURL: Joi.string().uri({scheme: 'https'}),
+});
+
+const provisioningDocumentSchema = Joi.object<ProvisioningDocument>({
+    payload: Joi.string().required(),
+    signature: Joi.string().base64().required(),
+});
+
+const provisioningConfigSchema = Joi.object<ProvisioningConfig>({
+    servers: policyConfigSchema.extract('servers'),
+    lockedSettings: Joi.object().default({}),
+
+    // same format as the allowed protocols in the build config, without the colon
+    allowedProtocols: Joi.array().items(Joi.string().regex(/^[a-z-]+$/i)).default([]),
+});
+
+// environment values are checked against the same rules as the matching config file settings
+const environmentConfigSchema = Joi.object<EnvironmentConfig>({
+    logLevel: configDataSchemaV3.extract('logLevel'),
+    downloadLocation: configDataSchemaV3.extract('downloadLocation'),
+    servers: policyConfigSchema.extract('servers'),
 });
 
 // eg. data['community.mattermost.com'] = { data: 'certificate data', issuerName: 'COMODO RSA Domain Validation Secure Server CA'};
@@ -174,29 +282,79 @@ const trustedOriginsSchema = Joi.object({}).pattern(
 
 const allowedProtocolsSchema = Joi.array().items(Joi.string().regex(/^[a-z-]+:$/i));
 
+const permissionsSchema = Joi.object<Record<string, Permissions>>().pattern(
+    Joi.string().uri(),
+    Joi.object().pattern(
+        Joi.string(),
+        Joi.object({
+            allowed: Joi.boolean().required(),
+            alwaysDeny: Joi.boolean(),
+        }),
+    ),
+);
+
+const remoteInfoCacheSchema = Joi.object<Record<string, CachedRemoteInfo>>().pattern(
+    Joi.string().uri(),
+    Joi.object({
+        remoteInfo: Joi.object({
+            serverVersion: Joi.string().allow(''),
+            siteName: Joi.string().allow(''),
+            siteURL: Joi.string().allow(''),
+            hasFocalboard: Joi.boolean(),
+            hasPlaybooks: Joi.boolean(),
+            hasCustomBrand: Joi.boolean(),
+            desktopPolicy: Joi.object({
+                allowedDownloadExtensions: Joi.array().items(Joi.string()),
+                externalLinks: Joi.string().valid('browser', 'confirm', 'block'),
+                minimumDesktopVersion: Joi.string(),
+                allowDevTools: Joi.boolean(),
+            }),
+        }).required(),
+        time: Joi.number().required(),
+    }),
+);
+
+const siteURLDecisionsSchema = Joi.object<Record<string, PredefinedSiteURLDecision>>().pattern(
+    Joi.string().uri(),
+    Joi.object({
+        url: Joi.string().uri().required(),
+        siteURLDecision: siteURLDecisionSchema.required(),
+    }),
+);
+
+// each section is only checked for its shape here, the contents are validated by their own schemas
+const profileBundleSchema = Joi.object<ProfileBundle>({
+    version: Joi.number().valid(1).required(),
+    config: Joi.object().unknown(true).required(),
+    certificates: Joi.object().unknown(true).default({}),
+    trustedOrigins: Joi.object().unknown(true).default({}),
+    permissions: Joi.object().unknown(true).default({}),
+    allowedProtocols: Joi.array().default([]),
+});
+
 // validate bounds_info.json
 export function validateArgs(data: Args) {
     return validateAgainstSchema(data, argsSchema);
 }
 
 // validate bounds_info.json
-export function validateBoundsInfo(data: SavedWindowState | null) {
-    return validateAgainstSchema(data, boundsInfoSchema);
+export function validateBoundsInfo(data: SavedWindowState | null, problems: ValidationProblem[] = []) {
+    return validateAndRecover(data, boundsInfoSchema, problems);
 }
 
 // validate app_state.json
-export function validateAppState(data: AppState) {
-    return validateAgainstSchema(data, appStateSchema);
+export function validateAppState(data: AppState, problems: ValidationProblem[] = []) {
+    return validateAndRecover(data, appStateSchema, problems);
 }
 
 // validate downloads.json
-export function validateDownloads(data: DownloadedItems) {
-    return validateAgainstSchema(data, downloadsSchema);
+export function validateDownloads(data: DownloadedItems, problems: ValidationProblem[] = []) {
+    return validateAndRecover(data, downloadsSchema, problems);
 }
 
 // validate v.0 config.json
-export function validateV0ConfigData(data: ConfigV0) {
-    return validateAgainstSchema(data, configDataSchemaV0);
+export function validateV0ConfigData(data: ConfigV0, problems: ValidationProblem[] = []) {
+    return validateAndRecover(data, configDataSchemaV0, problems);
 }
 
 function cleanURL(url: string): string {
@@ -214,9 +372,17 @@ function cleanServer<T extends {name: string; url: string}>(server: T) {
     };
 }
 
+// the entries that aren't strings are left for the schema to drop and report
+function cleanAlternateURLs(urls: unknown[]) {
+    return urls.
+        map((url) => (typeof url === 'string' ? cleanURL(url) : url)).
+        filter((url) => typeof url !== 'string' || isValidURL(url)) as string[];
+}
+
 function cleanServerWithViews(server: ConfigServer) {
     return {
         ...cleanServer(server),
+        ...(Array.isArray(server.alternateURLs) ? {alternateURLs: cleanAlternateURLs(server.alternateURLs)} : {}),
         tabs: server.tabs.map((view) => {
             return {
                 ...view,
@@ -226,69 +392,137 @@ function cleanServerWithViews(server: ConfigServer) {
     };
 }
 
-function cleanServers<T extends {name: string; url: string}>(servers: T[], func: (server: T) => T) {
+function cleanServers<T extends {name: string; url: string}>(servers: T[], func: (server: T) => T, problems: ValidationProblem[], key = 'teams') {
     let newServers = servers;
     if (Array.isArray(newServers) && newServers.length) {
         // first replace possible backslashes with forward slashes
         newServers = newServers.map((server) => func(server));
 
         // next filter out urls that are still invalid so all is not lost
+        newServers.forEach(({url}, index) => {
+            if (!isValidURL(url)) {
+                problems.push({path: `${key}.${index}.url`, reason: `"${url}" is not a valid URL, the server was removed`});
+            }
+        });
         newServers = newServers.filter(({url}) => isValidURL(url));
     }
     return newServers;
 }
 
-// validate v.1 config.json
-export function validateV1ConfigData(data: ConfigV1) {
-    data.teams = cleanServers(data.teams, cleanServer);
-    return validateAgainstSchema(data, configDataSchemaV1);
-}
-
-export function validateV2ConfigData(data: ConfigV2) {
-    data.teams = cleanServers(data.teams, cleanServer);
+function cleanSpellCheckerURL(data: {spellCheckerURL?: string}, problems: ValidationProblem[]) {
     if (data.spellCheckerURL && !isValidURL(data.spellCheckerURL)) {
         log.error('Invalid download location for spellchecker dictionary, removing from config');
+        problems.push({path: 'spellCheckerURL', reason: `"${data.spellCheckerURL}" is not a valid URL, the setting was removed`});
         delete data.spellCheckerURL;
     }
-    return validateAgainstSchema(data, configDataSchemaV2);
 }
 
-export function validateV3ConfigData(data: ConfigV3) {
-    data.teams = cleanServers(data.teams, cleanServerWithViews);
-    if (data.spellCheckerURL && !isValidURL(data.spellCheckerURL)) {
-        log.error('Invalid download location for spellchecker dictionary, removing from config');
-        delete data.spellCheckerURL;
-    }
-    return validateAgainstSchema(data, configDataSchemaV3);
+// validate v.1 config.json
+export function validateV1ConfigData(data: ConfigV1, problems: ValidationProblem[] = []) {
+    data.teams = cleanServers(data.teams, cleanServer, problems);
+    return validateAndRecover(data, configDataSchemaV1, problems);
 }
 
-export function validateConfigData(data: AnyConfig) {
+export function validateV2ConfigData(data: ConfigV2, problems: ValidationProblem[] = []) {
+    data.teams = cleanServers(data.teams, cleanServer, problems);
+    cleanSpellCheckerURL(data, problems);
+    return validateAndRecover(data, configDataSchemaV2, problems);
+}
+
+export function validateV3ConfigData(data: ConfigV3, problems: ValidationProblem[] = []) {
+    data.teams = cleanServers(data.teams, cleanServerWithViews, problems);
+    cleanSpellCheckerURL(data, problems);
+    return validateAndRecover(data, configDataSchemaV3, problems);
+}
+
+export function validateV4ConfigData(data: ConfigV4, problems: ValidationProblem[] = []) {
+    data.teams = cleanServers(data.teams, cleanServerWithViews, problems);
+    cleanSpellCheckerURL(data, problems);
+    return validateAndRecover(data, configDataSchemaV4, problems);
+}
+
+export function validateConfigData(data: AnyConfig, problems: ValidationProblem[] = []) {
     switch (data.version) {
+    case 4:
+        return validateV4ConfigData(data, problems)!;
     case 3:
-        return validateV3ConfigData(data)!;
+        return validateV3ConfigData(data, problems)!;
     case 2:
-        return validateV2ConfigData(data)!;
+        return validateV2ConfigData(data, problems)!;
     case 1:
-        return validateV1ConfigData(data)!;
+        return validateV1ConfigData(data, problems)!;
     default:
-        return validateV0ConfigData(data)!;
+        return validateV0ConfigData(data, problems)!;
+    }
+}
+
+// validate the system-wide policy.json
+export function validatePolicyConfig(data: PolicyConfig, problems: ValidationProblem[] = []) {
+    if (data && typeof data === 'object') {
+        data.servers = cleanServers(data.servers, cleanServer, problems, 'servers');
+    }
+    const validData = validateAndRecover(data, policyConfigSchema, problems);
+    if (!validData) {
+        return null;
+    }
+    const lockedSettings = validateLockedSettings(validData.lockedSettings, problems);
+    if (!lockedSettings) {
+        return null;
     }
+    return {...validData, lockedSettings};
+}
+
+// validate the signed document served from the provisioning URL, the payload is validated once the signature checks out
+export function validateProvisioningDocument(data: ProvisioningDocument) {
+    return validateAgainstSchema(data, provisioningDocumentSchema);
+}
+
+export function validateProvisioningConfig(data: ProvisioningConfig, problems: ValidationProblem[] = []) {
+    if (data && typeof data === 'object') {
+        data.servers = cleanServers(data.servers, cleanServer, problems, 'servers');
+    }
+    const validData = validateAndRecover(data, provisioningConfigSchema, problems);
+    if (!validData) {
+        return null;
+    }
+    const lockedSettings = validateLockedSettings(validData.lockedSettings, problems);
+    if (!lockedSettings) {
+        return null;
+    }
+    return {...validData, lockedSettings};
+}
+
+function validateLockedSettings(data: Partial<LockableSettings>, problems: ValidationProblem[]) {
+    const lockedSettingsProblems: ValidationProblem[] = [];
+    const lockedSettings = validateAndRecover(data, lockedSettingsSchema, lockedSettingsProblems, {...defaultOptions, noDefaults: true});
+    problems.push(...lockedSettingsProblems.map((problem) => ({...problem, path: `lockedSettings.${problem.path}`})));
+    return lockedSettings;
+}
+
+// validate the settings read from the MM_DESKTOP_* environment variables
+export function validateEnvironmentConfig(data: Partial<EnvironmentConfig>, problems: ValidationProblem[] = []) {
+    // the servers come from hand written JSON, so they are only cleaned up once they have the right shape
+    const validData = validateAndRecover(data, environmentConfigSchema, problems, {...defaultOptions, noDefaults: true});
+    if (validData?.servers) {
+        validData.servers = cleanServers(validData.servers, cleanServer, problems, 'servers');
+    }
+    return validData;
 }
 
 // validate certificate.json
-export function validateCertificateStore(data: string | Record<string, ComparableCertificate>) {
+export function validateCertificateStore(data: string | Record<string, ComparableCertificate>, problems: ValidationProblem[] = []) {
     const jsonData = (typeof data === 'object' ? data : JSON.parse(data));
-    return validateAgainstSchema(jsonData, certificateStoreSchema);
+    return validateAndRecover(jsonData, certificateStoreSchema, problems);
 }
 
 // validate allowedProtocols.json
-export function validateAllowedProtocols(data: string[]) {
-    return validateAgainstSchema(data, allowedProtocolsSchema);
+export function validateAllowedProtocols(data: string[], problems: ValidationProblem[] = []) {
+    return validateAndRecover(data, allowedProtocolsSchema, problems);
 }
 
-export function validateTrustedOriginsStore(data: string | Record<PermissionType, TrustedOrigin>) {
+export function validateTrustedOriginsStore(data: string | Record<PermissionType, TrustedOrigin>, problems: ValidationProblem[] = []) {
     const jsonData: Record<PermissionType, TrustedOrigin> = (typeof data === 'object' ? data : JSON.parse(data));
-    return validateAgainstSchema(jsonData, trustedOriginsSchema);
+    return validateAndRecover(jsonData, trustedOriginsSchema, problems);
 }
 
 export function validateOriginPermissions(data: string | TrustedOrigin) {
@@ -296,7 +530,49 @@ export function validateOriginPermissions(data: string | TrustedOrigin) {
     return validateAgainstSchema(jsonData, originPermissionsSchema);
 }
 
-function validateAgainstSchema<T>(data: T, schema: Joi.ObjectSchema<T> | Joi.ArraySchema): T | null {
+// validate permissions.json
+export function validatePermissions(data: Record<string, Permissions>, problems: ValidationProblem[] = []) {
+    return validateAndRecover(data, permissionsSchema, problems);
+}
+
+// validate remote-info.json
+export function validateRemoteInfoCache(data: Record<string, CachedRemoteInfo>, problems: ValidationProblem[] = []) {
+    return validateAndRecover(data, remoteInfoCacheSchema, problems);
+}
+
+// validate site-url-decisions.json
+export function validateSiteURLDecisions(data: Record<string, PredefinedSiteURLDecision>, problems: ValidationProblem[] = []) {
+    return validateAndRecover(data, siteURLDecisionsSchema, problems);
+}
+
+// validate an exported settings bundle, every section has to be fully valid for the bundle to be imported
+export function validateProfileBundle(data: ProfileBundle) {
+    const validData = validateAgainstSchema(data, profileBundleSchema);
+    if (!validData) {
+        return null;
+    }
+
+    const problems: ValidationProblem[] = [];
+    const config = validateConfigData(validData.config, problems);
+    const certificates = validateCertificateStore(validData.certificates, problems);
+    const trustedOrigins = validateTrustedOriginsStore(validData.trustedOrigins, problems);
+    const permissions = validatePermissions(validData.permissions, problems);
+    const allowedProtocols = validateAllowedProtocols(validData.allowedProtocols, problems);
+    if (problems.length || !(config && certificates && trustedOrigins && permissions && allowedProtocols)) {
+        return null;
+    }
+
+    return {
+        ...validData,
+        config,
+        certificates,
+        trustedOrigins,
+        permissions,
+        allowedProtocols,
+    };
+}
+
+function validateAgainstSchema<T>(data: T, schema: Joi.ObjectSchema<T> | Joi.ArraySchema, options: Joi.ValidationOptions = defaultOptions): T | null {
     if (typeof data !== 'object') {
         log.error(`Input 'data' is not an object we can validate: ${typeof data}`);
         return null;
@@ -305,10 +581,92 @@ function validateAgainstSchema<T>(data: T, schema: Joi.ObjectSchema<T> | Joi.Arr
         log.error('No schema provided to validate');
         return null;
     }
-    const {error, value} = schema.validate(data, defaultOptions);
+    const {error, value} = schema.validate(data, options);
     if (error) {
         log.error(`Validation failed due to: ${error}`);
         return null;
     }
     return value as T;
 }
+
+type Path = Array<string | number>;
+
+function comparePaths(path0: Path, path1: Path) {
+    for (let i = 0; i < Math.min(path0.length, path1.length); i++) {
+        if (path0[i] !== path1[i]) {
+            return path0[i] < path1[i] ? -1 : 1;
+        }
+    }
+    return path0.length - path1.length;
+}
+
+// returns whether an array entry was removed, since the entries after it move down an index
+function removeAtPath(data: Record<string, unknown> | unknown[], path: Path) {
+    const parent = path.slice(0, -1).reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string | number, unknown>)[key] : undefined), data);
+    const key = path[path.length - 1];
+    if (Array.isArray(parent)) {
+        parent.splice(key as number, 1);
+        return true;
+    }
+    if (parent && typeof parent === 'object') {
+        delete (parent as Record<string | number, unknown>)[key];
+    }
+    return false;
+}
+
+// the array entries removed by earlier attempts shift the indexes of the entries after them, so the paths are mapped back to the data as it was given
+function toOriginalPath(path: Path, removedEntries: Map<string, number[]>) {
+    return path.reduce<Path>((originalPath, key) => {
+        const removedIndexes = typeof key === 'number' ? removedEntries.get(originalPath.join('.')) : undefined;
+        const originalKey = removedIndexes ? removedIndexes.reduce((index, removedIndex) => (removedIndex <= index ? index + 1 : index), key as number) : key;
+        return [...originalPath, originalKey];
+    }, []);
+}
+
+/**
+ * Validates the data like validateAgainstSchema, but instead of giving up on the first invalid field
+ * it drops every invalid field or entry, so that they can be defaulted, and keeps everything else.
+ * Every problem found is added to the provided list, null is only returned when nothing can be salvaged.
+ */
+function validateAndRecover<T>(data: T, schema: Joi.ObjectSchema<T> | Joi.ArraySchema, problems: ValidationProblem[], options: Joi.ValidationOptions = defaultOptions): T | null {
+    if (typeof data !== 'object' || data === null) {
+        log.error(`Input 'data' is not an object we can validate: ${typeof data}`);
+        problems.push({path: '', reason: 'The data is not an object'});
+        return null;
+    }
+
+    let recoveredData = data;
+    const removedEntries = new Map<string, number[]>();
+    for (let attempt = 0; attempt < maxRecoveryAttempts; attempt++) {
+        const {error, value} = schema.validate(recoveredData, {...options, abortEarly: false});
+        if (!error) {
+            return value as T;
+        }
+
+        // a missing required field can't be dropped, so the entry that contains it is dropped instead
+        const paths = error.details.map((detail) => (detail.type === 'any.required' ? detail.path.slice(0, -1) : detail.path));
+        problems.push(...error.details.map((detail) => ({path: toOriginalPath(detail.path, removedEntries).join('.'), reason: detail.message})));
+        if (paths.some((path) => !path.length)) {
+            log.error(`Validation failed due to: ${error}`);
+            return null;
+        }
+
+        log.warn(`Validation failed due to: ${error}, dropping the invalid fields`);
+        const nextData = recoveredData === data ? JSON.parse(JSON.stringify(data)) : recoveredData;
+
+        // remove the deepest and last entries first so that array indexes stay correct
+        paths.sort(comparePaths).reverse().
+            filter((path, index, sortedPaths) => index === 0 || comparePaths(path, sortedPaths[index - 1]) !== 0).
+            forEach((path) => {
+                const originalPath = toOriginalPath(path, removedEntries);
+                if (removeAtPath(nextData, path)) {
+                    const arrayPath = originalPath.slice(0, -1).join('.');
+                    removedEntries.set(arrayPath, [...(removedEntries.get(arrayPath) ?? []), originalPath[originalPath.length - 1] as number].sort((a, b) => a - b));
+                }
+            });
+        recoveredData = nextData;
+    }
+
+    log.error('Validation failed, unable to recover the data');
+    return null;
+}
@@ -38,6 +38,7 @@ export const DOUBLE_CLICK_ON_WINDOW = 'double_click';
 export const SHOW_NEW_SERVER_MODAL = 'show_new_server_modal';
 export const SHOW_EDIT_SERVER_MODAL = 'show-edit-server-modal';
 export const SHOW_REMOVE_SERVER_MODAL = 'show-remove-server-modal';
+export const SHOW_PLUGIN_VIEW_MODAL = 'show-plugin-view-modal';
 
 export const RETRIEVE_MODAL_INFO = 'retrieve-modal-info';
 export const MODAL_CANCEL = 'modal-cancel';
@@ -159,7 +160,14 @@ export const DOWNLOADS_DROPDOWN_MENU_SHOW_FILE_IN_FOLDER = 'downloads-dropdown-m
 
 export const SERVERS_URL_MODIFIED = 'servers-modified';
 export const SERVERS_UPDATE = 'servers-update';
+export const SERVER_SITE_URL_CHANGED = 'server-site-url-changed';
 export const UPDATE_SERVER_ORDER = 'update-server-order';
+export const MOVE_SERVER_TO_GROUP = 'move-server-to-group';
+export const ADD_SERVER_GROUP = 'add-server-group';
+export const RENAME_SERVER_GROUP = 'rename-server-group';
+export const REMOVE_SERVER_GROUP = 'remove-server-group';
+export const SET_SERVER_GROUP_COLLAPSED = 'set-server-group-collapsed';
+export const SET_SERVER_ENABLED = 'set-server-enabled';
 export const UPDATE_TAB_ORDER = 'update-tab-order';
 export const GET_LAST_ACTIVE = 'get-last-active';
 export const GET_ORDERED_SERVERS = 'get-ordered-servers';
@@ -175,6 +183,10 @@ export const MAIN_WINDOW_FOCUSED = 'main-window-focused';
 
 export const VALIDATE_SERVER_URL = 'validate-server-url';
 
+export const GET_SERVER_COMPATIBILITY = 'get-server-compatibility';
+export const SERVER_COMPATIBILITY_UPDATED = 'server-compatibility-updated';
+export const DISMISS_SERVER_COMPATIBILITY = 'dismiss-server-compatibility';
+
 export const GET_IS_DEV_MODE = 'get-is-dev-mode';
 
 export const TOGGLE_SECURE_INPUT = 'toggle-secure-input';
@@ -0,0 +1,47 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import EnvironmentConfig from 'common/config/EnvironmentConfig';
+
+describe('common/config/EnvironmentConfig', () => {
+    it('should read the settings from the environment variables', () => {
+        const environmentConfig = new EnvironmentConfig({
+            MM_DESKTOP_LOG_LEVEL: 'debug',
+            MM_DESKTOP_DOWNLOAD_LOCATION: '/home/user/Downloads',
+            MM_DESKTOP_SERVERS: JSON.stringify([{name: 'server-1', url: 'http://server-1.com'}]),
+            OTHER_VARIABLE: 'other',
+        });
+        expect(environmentConfig.init()).toStrictEqual({
+            logLevel: 'debug',
+            downloadLocation: '/home/user/Downloads',
+            servers: [{name: 'server-1', url: 'http://server-1.com'}],
+        });
+    });
+
+    it('should return nothing when no variables are set', () => {
+        const environmentConfig = new EnvironmentConfig({});
+        expect(environmentConfig.init()).toStrictEqual({});
+    });
+
+    it('should skip servers that are not valid JSON', () => {
+        const environmentConfig = new EnvironmentConfig({
+            MM_DESKTOP_LOG_LEVEL: 'debug',
+            MM_DESKTOP_SERVERS: '[{name: server-1}',
+        });
+        expect(environmentConfig.init()).toStrictEqual({logLevel: 'debug'});
+    });
+
+    it('should drop servers that do not validate', () => {
+        const environmentConfig = new EnvironmentConfig({
+            MM_DESKTOP_SERVERS: JSON.stringify([
+                {name: 'server-1', url: 'http://server-1.com'},
+                {name: 'server-2'},
+                'server-3',
+                {name: 'server-4', url: 'not a url'},
+            ]),
+        });
+        expect(environmentConfig.init()).toStrictEqual({
+            servers: [{name: 'server-1', url: 'http://server-1.com'}],
+        });
+    });
+});
@@ -0,0 +1,70 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {Logger} from 'common/log';
+import * as Validator from 'common/Validator';
+
+import type {EnvironmentConfig as EnvironmentConfigType} from 'types/config';
+import type {ValidationProblem} from 'types/validation';
+
+const log = new Logger('EnvironmentConfig');
+
+export const ENVIRONMENT_VARIABLES: Record<string, keyof EnvironmentConfigType> = {
+    MM_DESKTOP_LOG_LEVEL: 'logLevel',
+    MM_DESKTOP_DOWNLOAD_LOCATION: 'downloadLocation',
+
+    // JSON array of servers, eg. [{"name": "Community", "url": "https://community.mattermost.com"}]
+    MM_DESKTOP_SERVERS: 'servers',
+};
+const JSON_KEYS: Array<keyof EnvironmentConfigType> = ['servers'];
+
+/**
+ * Handles loading config data from MM_DESKTOP_* environment variables, so that scripted deployments
+ * can set up the app without having to write the config file before the first launch
+ */
+export default class EnvironmentConfig {
+    data: Partial<EnvironmentConfigType>;
+    env: NodeJS.ProcessEnv;
+
+    constructor(env = process.env) {
+        this.env = env;
+        this.data = {};
+    }
+
+    /**
+     * Reads the environment variables, anything that can't be parsed or doesn't validate is skipped
+     */
+    init() {
+        const envData: Record<string, unknown> = {};
+        Object.entries(ENVIRONMENT_VARIABLES).forEach(([variable, key]) => {
+            const value = this.env[variable];
+            if (!value) {
+                return;
+            }
+
+            if (!JSON_KEYS.includes(key)) {
+                envData[key] = value;
+                return;
+            }
+            try {
+                envData[key] = JSON.parse(value);
+            } catch (error) {
+                log.warn(`Unable to parse ${variable}, ignoring it`, error);
+            }
+        });
+        if (!Object.keys(envData).length) {
+            return this.data;
+        }
+
+        const problems: ValidationProblem[] = [];
+        const validData = Validator.validateEnvironmentConfig(envData, problems);
+        problems.forEach((problem) => {
+            log.warn(`Ignoring invalid environment setting at "${problem.path}": ${problem.reason}`);
+        });
+        if (validData) {
+            this.data = validData;
+            log.info('Loaded settings from the environment', Object.keys(this.data));
+        }
+        return this.data;
+    }
+}
@@ -0,0 +1,87 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+
+import PolicyConfig, {POLICY_READ_EVENT} from 'common/config/PolicyConfig';
+import * as Validator from 'common/Validator';
+
+jest.mock('fs', () => ({
+    existsSync: jest.fn(),
+    readFileSync: jest.fn(),
+}));
+
+jest.mock('common/Validator', () => ({
+    validatePolicyConfig: jest.fn(),
+}));
+
+describe('common/config/PolicyConfig', () => {
+    const originalPlatform = process.platform;
+
+    beforeEach(() => {
+        Object.defineProperty(process, 'platform', {
+            value: 'linux',
+        });
+        fs.existsSync.mockReturnValue(true);
+        Validator.validatePolicyConfig.mockImplementation((data) => data);
+    });
+
+    afterEach(() => {
+        Object.defineProperty(process, 'platform', {
+            value: originalPlatform,
+        });
+        jest.resetAllMocks();
+    });
+
+    it('should load and emit the policy data', () => {
+        const policy = {
+            servers: [{name: 'server-1', url: 'http://server-1.com'}],
+            enableServerManagement: false,
+            enableAutoUpdater: false,
+        };
+        fs.readFileSync.mockReturnValue(JSON.stringify(policy));
+        const policyConfig = new PolicyConfig('/etc/policy.json');
+        const listener = jest.fn();
+        policyConfig.once(POLICY_READ_EVENT, listener);
+
+        policyConfig.init();
+        expect(fs.readFileSync).toHaveBeenCalledWith('/etc/policy.json', 'utf8');
+        expect(policyConfig.initialized).toBe(true);
+        expect(listener).toHaveBeenCalledWith(policy);
+    });
+
+    it('should not read the policy file when not on linux', () => {
+        Object.defineProperty(process, 'platform', {
+            value: 'win32',
+        });
+        const policyConfig = new PolicyConfig();
+        const listener = jest.fn();
+        policyConfig.once(POLICY_READ_EVENT, listener);
+
+        policyConfig.init();
+        expect(fs.readFileSync).not.toHaveBeenCalled();
+        expect(listener).toHaveBeenCalledWith({servers: []});
+    });
+
+    it('should ignore a missing policy file', () => {
+        fs.existsSync.mockReturnValue(false);
+        const policyConfig = new PolicyConfig();
+        expect(policyConfig.readPolicyFile()).toBe(undefined);
+        expect(fs.readFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a policy file that cannot be parsed', () => {
+        fs.readFileSync.mockReturnValue('{not json');
+        const policyConfig = new PolicyConfig();
+        policyConfig.init();
+        expect(policyConfig.data).toStrictEqual({servers: []});
+    });
+
+    it('should ignore a policy file that does not validate', () => {
+        fs.readFileSync.mockReturnValue('{"enableServerManagement": "nope"}');
+        Validator.validatePolicyConfig.mockReturnValue(null);
+        const policyConfig = new PolicyConfig();
+        policyConfig.init();
+        expect(policyConfig.data).toStrictEqual({servers: []});
+    });
+});
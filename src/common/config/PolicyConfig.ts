@@ -0,0 +1,78 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+
+import {EventEmitter} from 'events';
+
+import {Logger} from 'common/log';
+import * as Validator from 'common/Validator';
+
+import type {PolicyConfig as PolicyConfigType} from 'types/config';
+
+const log = new Logger('PolicyConfig');
+export const LINUX_POLICY_FILE_PATH = '/etc/mattermost-desktop/policy.json';
+export const POLICY_READ_EVENT = 'policy-read';
+
+/**
+ * Handles loading config data from a read-only, system-wide policy file set by an administrator on Linux
+ */
+export default class PolicyConfig extends EventEmitter {
+    initialized: boolean;
+    data: Partial<PolicyConfigType>;
+    policyFilePath: string;
+
+    constructor(policyFilePath = LINUX_POLICY_FILE_PATH) {
+        super();
+        this.initialized = false;
+        this.policyFilePath = policyFilePath;
+        this.data = {
+            servers: [],
+        };
+    }
+
+    /**
+     * Triggers loading data from the policy file
+     *
+     * @emits {policy-read} emitted once all data has been loaded from the policy file
+     */
+    init() {
+        if (process.platform === 'linux') {
+            const policyData = this.readPolicyFile();
+            if (policyData) {
+                this.data = policyData;
+            }
+        }
+
+        // this will happen whether we are on linux and load the info or not
+        this.initialized = true;
+        this.emit(POLICY_READ_EVENT, this.data);
+    }
+
+    /**
+     * Reads and validates the policy file, returns undefined if there is nothing usable
+     */
+    readPolicyFile() {
+        if (!fs.existsSync(this.policyFilePath)) {
+            log.debug('No policy file found at', this.policyFilePath);
+            return undefined;
+        }
+
+        let policyData;
+        try {
+            policyData = JSON.parse(fs.readFileSync(this.policyFilePath, 'utf8'));
+        } catch (error) {
+            log.warn(`Unable to read the policy file at ${this.policyFilePath}`, error);
+            return undefined;
+        }
+
+        const validData = Validator.validatePolicyConfig(policyData);
+        if (!validData) {
+            log.warn(`The policy file at ${this.policyFilePath} does not validate, ignoring it`);
+            return undefined;
+        }
+
+        log.info(`Loaded policy file from ${this.policyFilePath}`);
+        return validData;
+    }
+}
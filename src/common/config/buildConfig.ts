@@ -19,6 +19,8 @@ import type {BuildConfig} from 'types/config';
  *                                          when "enableServerManagement is set to false
  * @prop {[]} managedResources - Defines which paths are managed
  * @prop {[]} allowedProtocols - Defines which protocols should be automatically allowed
+ * @prop {string} provisioningPublicKey - PEM encoded public key used to verify the documents served from the provisioning URL.
+ *                                        Provisioning is disabled when it isn't set.
  */
 const buildConfig: BuildConfig = {
     defaultServers: [/*
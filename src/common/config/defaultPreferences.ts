@@ -10,7 +10,7 @@ import path from 'path';
  * @param {number} version - Scheme version. (Not application version)
  */
 
-import type {ConfigV3} from 'types/config';
+import type {ConfigV4} from 'types/config';
 
 export const getDefaultDownloadLocation = (): string | undefined => {
     // eslint-disable-next-line no-undef
@@ -27,8 +27,8 @@ export const getDefaultDownloadLocation = (): string | undefined => {
     return path.join(os.homedir(), 'Downloads');
 };
 
-const defaultPreferences: ConfigV3 = {
-    version: 3,
+const defaultPreferences: ConfigV4 = {
+    version: 4,
     teams: [],
     showTrayIcon: true,
     trayIconTheme: 'use_system',
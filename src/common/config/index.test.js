@@ -4,6 +4,7 @@
 import fs from 'fs';
 
 import {Config} from 'common/config';
+import EnvironmentConfig from 'common/config/EnvironmentConfig';
 
 const configPath = '/fake/config/path';
 const appName = 'app-name';
@@ -14,6 +15,7 @@ jest.mock('fs', () => ({
     writeFileSync: jest.fn(),
     existsSync: jest.fn(),
     mkdirSync: jest.fn(),
+    renameSync: jest.fn(),
 }));
 
 jest.mock('common/Validator', () => ({
@@ -62,6 +64,17 @@ const registryServer = {
     url: 'http://registry-server-1.com',
 };
 
+const policyServer = {
+    name: 'policy-server-1',
+    order: 0,
+    url: 'http://policy-server-1.com',
+};
+
+const environmentServer = {
+    name: 'environment-server-1',
+    url: 'http://environment-server-1.com',
+};
+
 const server = {
     name: 'server-1',
     order: 0,
@@ -87,6 +100,7 @@ jest.mock('common/config/migrationPreferences', () => jest.fn());
 jest.mock('common/config/buildConfig', () => {
     return {
         defaultServers: [buildServer],
+        allowedProtocols: ['mattermost'],
     };
 });
 
@@ -94,6 +108,16 @@ jest.mock('common/config/RegistryConfig', () => {
     return jest.fn();
 });
 
+jest.mock('common/config/PolicyConfig', () => {
+    return jest.fn();
+});
+
+jest.mock('common/config/EnvironmentConfig', () => {
+    return jest.fn().mockImplementation(() => ({
+        init: () => ({}),
+    }));
+});
+
 describe('common/config', () => {
     it('should load buildConfig', () => {
         const config = new Config();
@@ -102,6 +126,59 @@ describe('common/config', () => {
         expect(config.predefinedServers).toContainEqual(buildServerWithViews);
     });
 
+    it('should load the servers from the environment', () => {
+        EnvironmentConfig.mockImplementationOnce(() => ({
+            init: () => ({servers: [environmentServer], logLevel: 'debug'}),
+        }));
+        const config = new Config();
+        config.reload = jest.fn();
+        config.init(configPath, appName, appPath);
+        expect(config.environmentData).toStrictEqual({servers: [environmentServer], logLevel: 'debug'});
+        expect(config.predefinedServers).toContainEqual({
+            ...environmentServer,
+            order: 0,
+            tabs: [
+                {
+                    name: 'view1',
+                },
+                {
+                    name: 'view2',
+                },
+            ],
+        });
+    });
+
+    describe('setProvisioningData', () => {
+        it('should replace the provisioned servers and lock the provisioned settings', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.emit = jest.fn();
+            config.setProvisioningData({servers: [registryServer], lockedSettings: {autostart: false}, allowedProtocols: ['spotify']});
+            config.setProvisioningData({servers: [policyServer], lockedSettings: {autostart: false}, allowedProtocols: ['spotify']});
+
+            expect(config.predefinedServers).toStrictEqual([
+                buildServerWithViews,
+                {...policyServer, tabs: [{name: 'view1'}, {name: 'view2'}]},
+            ]);
+            expect(config.lockedSettings).toStrictEqual(['autostart']);
+            expect(config.combinedData.autostart).toBe(false);
+            expect(config.combinedData.allowedProtocols).toStrictEqual(['mattermost', 'spotify']);
+            expect(config.emit).toHaveBeenCalledWith('serversUpdate');
+        });
+
+        it('should let the policy file override the provisioned locked settings', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.policyConfigData = {lockedSettings: {autostart: true}};
+            config.setProvisioningData({servers: [], lockedSettings: {autostart: false, darkMode: true}, allowedProtocols: []});
+
+            expect(config.lockedSettingsData).toStrictEqual({autostart: true, darkMode: true});
+            expect(config.combinedData.autostart).toBe(true);
+        });
+    });
+
     describe('loadRegistry', () => {
         it('should load the registry items and reload the config', () => {
             const config = new Config();
@@ -123,6 +200,28 @@ describe('common/config', () => {
         });
     });
 
+    describe('loadPolicy', () => {
+        it('should load the policy items and reload the config', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.onLoadPolicy({servers: [policyServer], enableServerManagement: false});
+            expect(config.reload).toHaveBeenCalled();
+            expect(config.policyData).toStrictEqual({servers: [policyServer], enableServerManagement: false});
+            expect(config.predefinedServers).toContainEqual({
+                ...policyServer,
+                tabs: [
+                    {
+                        name: 'view1',
+                    },
+                    {
+                        name: 'view2',
+                    },
+                ],
+            });
+        });
+    });
+
     describe('reload', () => {
         it('should emit update event', () => {
             const config = new Config();
@@ -175,6 +274,50 @@ describe('common/config', () => {
         });
     });
 
+    describe('setMultiple', () => {
+        it('should reject changes to settings locked by policy', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.localConfigData = {useSpellChecker: true, autostart: true};
+            config.policyConfigData = {lockedSettings: {useSpellChecker: false}};
+            config.regenerateCombinedConfigData = jest.fn();
+            config.saveLocalConfigData = jest.fn();
+
+            config.setMultiple({useSpellChecker: true, autostart: false});
+            expect(config.localConfigData).toStrictEqual({useSpellChecker: true, autostart: false, teams: undefined});
+            expect(config.saveLocalConfigData).toHaveBeenCalled();
+        });
+
+        it('should reject changes to settings set through the environment', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.localConfigData = {logLevel: 'info', autostart: true};
+            config.environmentConfigData = {servers: [environmentServer], logLevel: 'debug'};
+            config.regenerateCombinedConfigData = jest.fn();
+            config.saveLocalConfigData = jest.fn();
+
+            config.setMultiple({logLevel: 'warn', autostart: false});
+            expect(config.lockedSettings).toStrictEqual(['logLevel']);
+            expect(config.localConfigData).toStrictEqual({logLevel: 'info', autostart: false, teams: undefined});
+        });
+
+        it('should not save if all changes are to locked settings', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.localConfigData = {useSpellChecker: true};
+            config.policyConfigData = {lockedSettings: {useSpellChecker: false}};
+            config.regenerateCombinedConfigData = jest.fn();
+            config.saveLocalConfigData = jest.fn();
+
+            config.set('useSpellChecker', false);
+            expect(config.regenerateCombinedConfigData).not.toHaveBeenCalled();
+            expect(config.saveLocalConfigData).not.toHaveBeenCalled();
+        });
+    });
+
     describe('setServers', () => {
         it('should set only local servers', () => {
             const config = new Config();
@@ -192,6 +335,95 @@ describe('common/config', () => {
             expect(config.regenerateCombinedConfigData).toHaveBeenCalled();
             expect(config.saveLocalConfigData).toHaveBeenCalled();
         });
+
+        it('should save the server groups along with the servers and keep them when none are given', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.localConfigData = {};
+            config.saveLocalConfigData = jest.fn();
+
+            config.setServers([server], 0, [{name: 'Customers', collapsed: true}]);
+            expect(config.serverGroups).toStrictEqual([{name: 'Customers', collapsed: true}]);
+            expect(config.combinedData.serverGroups).toBe(undefined);
+
+            config.setServers([server], 0);
+            expect(config.serverGroups).toStrictEqual([{name: 'Customers', collapsed: true}]);
+        });
+    });
+
+    describe('external changes', () => {
+        const localConfigData = {version: 3, teams: [server], lastActiveTeam: 0, autostart: true, darkMode: false};
+
+        it('should keep the changes made to the file when setting a value', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.localConfigData = {...localConfigData};
+            config.configFile.setKnownData(JSON.stringify(localConfigData));
+            config.saveLocalConfigData = jest.fn();
+            config.emit = jest.fn();
+            fs.readFileSync.mockReturnValueOnce(JSON.stringify({...localConfigData, autostart: false}));
+
+            config.set('darkMode', true);
+            expect(config.localConfigData).toStrictEqual({...localConfigData, autostart: false, darkMode: true});
+            expect(config.emit).toHaveBeenCalledWith('update', expect.objectContaining({autostart: false}));
+            expect(config.emit).not.toHaveBeenCalledWith('serversUpdate');
+            expect(config.saveLocalConfigData).toHaveBeenCalled();
+        });
+
+        it('should apply the server changes made in the app on top of the servers changed in the file', () => {
+            const server2 = {...server, name: 'server-2', url: 'http://server-2.com', order: 1};
+            const fileServer = {...server, name: 'file-server', url: 'http://file-server.com', order: 1};
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.localConfigData = {...localConfigData, teams: [server, server2]};
+            config.configFile.setKnownData(JSON.stringify(config.localConfigData));
+            config.saveLocalConfigData = jest.fn();
+            config.emit = jest.fn();
+            fs.readFileSync.mockReturnValueOnce(JSON.stringify({...localConfigData, teams: [{...server, name: 'renamed-in-file'}, fileServer]}));
+
+            config.setServers([server, {...server2, name: 'renamed-in-app'}, {...server, name: 'added-in-app', url: 'http://added-in-app.com', order: 2}], 2);
+            expect(config.localConfigData.teams).toStrictEqual([
+                {...server, name: 'renamed-in-file'},
+                fileServer,
+                {...server, name: 'added-in-app', url: 'http://added-in-app.com', order: 2},
+            ]);
+            expect(config.localConfigData.lastActiveTeam).toBe(2);
+            expect(config.saveLocalConfigData).toHaveBeenCalled();
+            expect(config.emit).toHaveBeenCalledTimes(2);
+            expect(config.emit).toHaveBeenLastCalledWith('serversUpdate');
+        });
+
+        it('should keep the servers removed in the app removed when the file changed', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.localConfigData = {...localConfigData};
+            config.configFile.setKnownData(JSON.stringify(localConfigData));
+            config.saveLocalConfigData = jest.fn();
+            config.emit = jest.fn();
+            fs.readFileSync.mockReturnValueOnce(JSON.stringify({...localConfigData, lastActiveTeam: 1, teams: [server, {...server, name: 'server-2', url: 'http://server-2.com', order: 1}]}));
+
+            config.setServers([], 0);
+            expect(config.localConfigData.teams).toStrictEqual([{...server, name: 'server-2', url: 'http://server-2.com', order: 1}]);
+            expect(config.localConfigData.lastActiveTeam).toBe(1);
+            expect(config.emit).toHaveBeenCalledWith('serversUpdate');
+        });
+
+        it('should ignore changes to the file that do not validate', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.localConfigData = {...localConfigData};
+            config.emit = jest.fn();
+
+            expect(config.onLocalConfigFileChange('{"version": 3, "teams": [}')).toBe(false);
+            expect(config.onLocalConfigFileChange(JSON.stringify({version: 'invalid'}))).toBe(false);
+            expect(config.localConfigData).toStrictEqual(localConfigData);
+            expect(config.emit).not.toHaveBeenCalled();
+        });
     });
 
     describe('saveLocalConfigData', () => {
@@ -289,6 +521,19 @@ describe('common/config', () => {
             expect(configData).toStrictEqual({test: 'test'});
         });
 
+        it('should restore the most recent valid backup if validation fails', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.defaultConfigData = {test: 'test'};
+            fs.existsSync.mockReturnValue(true);
+            fs.readFileSync.mockImplementation((filePath) => (filePath === `${configPath}.bak1` ? '{"version": 3, "teams": []}' : '{"version": -1}'));
+            config.writeFile = jest.fn();
+
+            const configData = config.loadLocalConfigFile();
+            expect(configData).toStrictEqual({version: 3, teams: []});
+        });
+
         it('should return config data if valid', () => {
             const config = new Config();
             config.init(configPath, appName, appPath);
@@ -322,15 +567,21 @@ describe('common/config', () => {
             config.defaultConfigData = {defaultSetting: 'default', otherDefaultSetting: 'default'};
             config.localConfigData = {otherDefaultSetting: 'local', localSetting: 'local', otherLocalSetting: 'local'};
             config.buildConfigData = {otherLocalSetting: 'build', buildSetting: 'build', otherBuildSetting: 'build'};
-            config.registryConfigData = {otherBuildSetting: 'registry', registrySetting: 'registry'};
+            config.environmentConfigData = {otherBuildSetting: 'environment', environmentSetting: 'environment', otherEnvironmentSetting: 'environment'};
+            config.registryConfigData = {otherEnvironmentSetting: 'registry', registrySetting: 'registry', otherRegistrySetting: 'registry'};
+            config.policyConfigData = {otherRegistrySetting: 'policy', policySetting: 'policy'};
 
             config.regenerateCombinedConfigData();
             config.combinedData.darkMode = false;
             expect(config.combinedData).toStrictEqual({
                 appName: 'app-name',
                 darkMode: false,
-                otherBuildSetting: 'registry',
+                otherRegistrySetting: 'policy',
+                policySetting: 'policy',
+                otherEnvironmentSetting: 'registry',
                 registrySetting: 'registry',
+                otherBuildSetting: 'environment',
+                environmentSetting: 'environment',
                 otherLocalSetting: 'build',
                 buildSetting: 'build',
                 otherDefaultSetting: 'local',
@@ -339,6 +590,27 @@ describe('common/config', () => {
             });
         });
 
+        it('should apply locked settings over all other sources', () => {
+            const config = new Config();
+            config.reload = jest.fn();
+            config.init(configPath, appName, appPath);
+            config.defaultConfigData = {useSpellChecker: true, autostart: true};
+            config.localConfigData = {useSpellChecker: true, autostart: false};
+            config.buildConfigData = {};
+            config.registryConfigData = {};
+            config.policyConfigData = {lockedSettings: {useSpellChecker: false}};
+
+            config.regenerateCombinedConfigData();
+            config.combinedData.darkMode = false;
+            expect(config.combinedData).toStrictEqual({
+                appName: 'app-name',
+                darkMode: false,
+                useSpellChecker: false,
+                autostart: false,
+            });
+            expect(config.lockedSettings).toStrictEqual(['useSpellChecker']);
+        });
+
         it('should not include any servers in the combined config', () => {
             const config = new Config();
             config.reload = jest.fn();
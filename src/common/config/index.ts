@@ -7,7 +7,10 @@ import path from 'path';
 import {EventEmitter} from 'events';
 
 import {Logger} from 'common/log';
+import {restoreFromBackup, writeFileSafe, writeFileSafeSync} from 'common/utils/safeFile';
+import {getCanonicalURL, isSameURL} from 'common/utils/url';
 import {copy} from 'common/utils/util';
+import {WatchedFile} from 'common/utils/watchedFile';
 import * as Validator from 'common/Validator';
 import {getDefaultViewsForConfigServer} from 'common/views/View';
 
@@ -16,29 +19,85 @@ import type {
     BuildConfig,
     CombinedConfig,
     ConfigServer,
+    ConfigServerGroup,
     Config as ConfigType,
+    EnvironmentConfig as EnvironmentConfigType,
+    LockableSettings,
+    PolicyConfig as PolicyConfigType,
+    ProvisioningConfig as ProvisioningConfigType,
     RegistryConfig as RegistryConfigType,
+    Server,
 } from 'types/config';
 
 import buildConfig from './buildConfig';
 import defaultPreferences, {getDefaultDownloadLocation} from './defaultPreferences';
+import EnvironmentConfig from './EnvironmentConfig';
 import migrateConfigItems from './migrationPreferences';
+import PolicyConfig, {POLICY_READ_EVENT} from './PolicyConfig';
 import RegistryConfig, {REGISTRY_READ_EVENT} from './RegistryConfig';
 import upgradeConfigData from './upgradePreferences';
 
 const log = new Logger('Config');
 
+// the same URL can be added more than once with isolated sessions, so the partition is part of what tells servers apart
+function getConfigServerKey(server: ConfigServer) {
+    return `${getCanonicalURL(server.url) ?? server.url}:${server.partition ?? ''}`;
+}
+
+/**
+ * Applies the servers that were added, edited or removed in the app on top of the servers read from the file,
+ * any server the app didn't touch is kept the way it is in the file
+ *
+ * @param previousServers the servers the changes made in the app were based on
+ * @param appServers the servers after the changes made in the app
+ * @param fileServers the servers that are now in the file
+ */
+function mergeServerChanges(previousServers: ConfigServer[], appServers: ConfigServer[], fileServers: ConfigServer[]) {
+    const previous = new Map(previousServers.map((server) => [getConfigServerKey(server), JSON.stringify(server)]));
+    const changed = new Map(appServers.map((server) => [getConfigServerKey(server), server]));
+
+    const mergedServers = fileServers.reduce((servers, fileServer) => {
+        const key = getConfigServerKey(fileServer);
+        const appServer = changed.get(key);
+        changed.delete(key);
+        if (!appServer) {
+            // servers removed in the app stay removed, the ones the app didn't know about yet are kept
+            if (!previous.has(key)) {
+                servers.push(fileServer);
+            }
+            return servers;
+        }
+        servers.push(previous.get(key) === JSON.stringify(appServer) ? fileServer : appServer);
+        return servers;
+    }, [] as ConfigServer[]);
+
+    // servers added in the app go after the ones from the file, while the ones removed from the file stay removed
+    let nextOrder = Math.max(-1, ...mergedServers.map((server) => server.order)) + 1;
+    changed.forEach((appServer, key) => {
+        if (!previous.has(key)) {
+            mergedServers.push({...appServer, order: nextOrder++});
+        }
+    });
+    return mergedServers;
+}
+
 export class Config extends EventEmitter {
     private configFilePath?: string;
+    private configFile?: WatchedFile;
     private appName?: string;
     private appPath?: string;
 
     private registryConfig: RegistryConfig;
+    private policyConfig: PolicyConfig;
     private _predefinedServers: ConfigServer[];
+    private provisionedServers: ConfigServer[];
 
     private combinedData?: CombinedConfig;
     private localConfigData?: ConfigType;
     private registryConfigData?: Partial<RegistryConfigType>;
+    private policyConfigData?: Partial<PolicyConfigType>;
+    private environmentConfigData?: Partial<EnvironmentConfigType>;
+    private provisioningConfigData?: ProvisioningConfigType;
     private defaultConfigData?: ConfigType;
     private buildConfigData?: BuildConfig;
     private canUpgradeValue?: boolean;
@@ -46,18 +105,26 @@ export class Config extends EventEmitter {
     constructor() {
         super();
         this.registryConfig = new RegistryConfig();
+        this.policyConfig = new PolicyConfig();
         this._predefinedServers = [];
+        this.provisionedServers = [];
         if (buildConfig.defaultServers) {
-            this._predefinedServers.push(...buildConfig.defaultServers.map((server, index) => getDefaultViewsForConfigServer({...server, order: index})));
+            this.addPredefinedServers(buildConfig.defaultServers);
         }
     }
 
     init = (configFilePath: string, appName: string, appPath: string) => {
         this.configFilePath = configFilePath;
+        this.configFile = new WatchedFile(configFilePath);
         this.appName = appName;
         this.appPath = appPath;
         this.canUpgradeValue = this.checkWriteableApp();
 
+        this.environmentConfigData = new EnvironmentConfig().init();
+        if (this.environmentConfigData.servers) {
+            this.addPredefinedServers(this.environmentConfigData.servers);
+        }
+
         this.reload();
     };
 
@@ -76,6 +143,21 @@ export class Config extends EventEmitter {
         });
     };
 
+    initPolicy = () => {
+        if (process.platform !== 'linux') {
+            return Promise.resolve();
+        }
+
+        return new Promise<void>((resolve) => {
+            this.policyConfig = new PolicyConfig();
+            this.policyConfig.once(POLICY_READ_EVENT, (data) => {
+                this.onLoadPolicy(data);
+                resolve();
+            });
+            this.policyConfig.init();
+        });
+    };
+
     /**
      * Reload all sources of config data
      *
@@ -109,7 +191,21 @@ export class Config extends EventEmitter {
     };
 
     setConfigPath = (configPath: string) => {
+        const isWatching = this.configFile?.isWatching;
+        this.configFile?.unwatch();
+
         this.configFilePath = configPath;
+        this.configFile = new WatchedFile(configPath);
+        if (isWatching) {
+            this.watchLocalConfigFile();
+        }
+    };
+
+    /**
+     * Starts merging in changes made to the config file while the app is running, eg. by support or a management tool
+     */
+    watchLocalConfigFile = () => {
+        this.configFile?.watch(this.onLocalConfigFileChange);
     };
 
     /**
@@ -117,8 +213,21 @@ export class Config extends EventEmitter {
      *
      * @param {array} properties an array of config properties to save
      */
-    setMultiple = (newData: Partial<ConfigType>) => {
-        log.debug('setMultiple', newData);
+    setMultiple = (data: Partial<ConfigType>) => {
+        log.debug('setMultiple', data);
+
+        const newData = {...data};
+        const rejectedKeys = Object.keys(newData).filter((key) => this.isLocked(key as keyof ConfigType));
+        if (rejectedKeys.length) {
+            log.warn('Cannot change settings that are managed by policy or the environment', rejectedKeys);
+            rejectedKeys.forEach((key) => delete newData[key as keyof ConfigType]);
+        }
+        if (!Object.keys(newData).length) {
+            return;
+        }
+
+        // only the keys being set are replaced, so any other change made to the file is kept
+        this.syncLocalConfigFile();
 
         if (newData.darkMode && newData.darkMode !== this.darkMode) {
             this.emit('darkModeChange', newData.darkMode);
@@ -128,12 +237,33 @@ export class Config extends EventEmitter {
         this.saveLocalConfigData();
     };
 
-    setServers = (servers: ConfigServer[], lastActiveServer?: number) => {
-        log.debug('setServers', servers, lastActiveServer);
+    setServers = (servers: ConfigServer[], lastActiveServer?: number, serverGroups?: ConfigServerGroup[]) => {
+        log.debug('setServers', servers, lastActiveServer, serverGroups);
+
+        const previousData = this.localConfigData;
+        let newData = {
+            teams: servers,
+            lastActiveTeam: lastActiveServer ?? previousData?.lastActiveTeam,
+            serverGroups: serverGroups ?? previousData?.serverGroups,
+        };
+
+        // the servers were changed in the file as well, ours were made to a stale copy so only what changed in the app is applied on top of the file
+        const serversChanged = this.syncLocalConfigFile(false);
+        if (serversChanged) {
+            log.warn('The servers were changed in the config file, applying the server changes made in the app on top of them');
+            newData = {
+                teams: mergeServerChanges(previousData?.teams ?? [], newData.teams, this.localConfigData?.teams ?? []),
+                lastActiveTeam: newData.lastActiveTeam === previousData?.lastActiveTeam ? this.localConfigData?.lastActiveTeam : newData.lastActiveTeam,
+                serverGroups: JSON.stringify(newData.serverGroups) === JSON.stringify(previousData?.serverGroups) ? this.localConfigData?.serverGroups : newData.serverGroups,
+            };
+        }
 
-        this.localConfigData = Object.assign({}, this.localConfigData, {teams: servers, lastActiveTeam: lastActiveServer ?? this.localConfigData?.lastActiveTeam});
+        this.localConfigData = Object.assign({}, this.localConfigData, newData);
         this.regenerateCombinedConfigData();
         this.saveLocalConfigData();
+        if (serversChanged) {
+            this.emit('serversUpdate');
+        }
     };
 
     // getters for accessing the various config data inputs
@@ -153,6 +283,30 @@ export class Config extends EventEmitter {
     get registryData() {
         return this.registryConfigData;
     }
+    get policyData() {
+        return this.policyConfigData;
+    }
+    get environmentData() {
+        return this.environmentConfigData;
+    }
+    get provisioningData() {
+        return this.provisioningConfigData;
+    }
+
+    // settings locked by the policy file take precedence over the ones locked by the provisioning document
+    get lockedSettingsData(): Partial<LockableSettings> {
+        return {...this.provisioningConfigData?.lockedSettings, ...this.policyConfigData?.lockedSettings};
+    }
+
+    // settings set through the environment would be overridden again on the next launch, so they are managed like the locked ones
+    get environmentSettingsData(): Partial<LockableSettings> {
+        const settings: Partial<EnvironmentConfigType> = {...this.environmentConfigData};
+        delete settings.servers;
+        return settings as Partial<LockableSettings>;
+    }
+    get lockedSettings() {
+        return Object.keys({...this.environmentSettingsData, ...this.lockedSettingsData}) as Array<keyof LockableSettings>;
+    }
 
     // convenience getters
 
@@ -165,8 +319,14 @@ export class Config extends EventEmitter {
     get localServers() {
         return this.localConfigData?.teams ?? defaultPreferences.teams;
     }
+    get serverGroups() {
+        return this.localConfigData?.serverGroups ?? [];
+    }
     get predefinedServers() {
-        return this._predefinedServers;
+        return [...this._predefinedServers, ...this.provisionedServers];
+    }
+    get allowedProtocols() {
+        return [...new Set([...this.buildData.allowedProtocols, ...this.provisioningConfigData?.allowedProtocols ?? []])];
     }
     get enableHardwareAcceleration() {
         return this.combinedData?.enableHardwareAcceleration ?? defaultPreferences.enableHardwareAcceleration;
@@ -230,7 +390,7 @@ export class Config extends EventEmitter {
     }
 
     get canUpgrade() {
-        return process.env.NODE_ENV === 'test' || (this.canUpgradeValue && this.buildConfigData?.enableAutoUpdater && !(process.platform === 'linux' && !process.env.APPIMAGE) && !(process.platform === 'win32' && this.registryConfigData?.enableAutoUpdater === false));
+        return process.env.NODE_ENV === 'test' || (this.canUpgradeValue && this.buildConfigData?.enableAutoUpdater && !(process.platform === 'linux' && !process.env.APPIMAGE) && !(process.platform === 'win32' && this.registryConfigData?.enableAutoUpdater === false) && !(process.platform === 'linux' && this.policyConfigData?.enableAutoUpdater === false));
     }
 
     get autoCheckForUpdates() {
@@ -241,6 +401,10 @@ export class Config extends EventEmitter {
         return this.combinedData?.appLanguage;
     }
 
+    isLocked = (key: keyof ConfigType) => {
+        return this.lockedSettings.includes(key as keyof LockableSettings);
+    };
+
     /**
      * Gets the servers from registry into the config object and reload
      *
@@ -252,11 +416,97 @@ export class Config extends EventEmitter {
 
         this.registryConfigData = registryData;
         if (this.registryConfigData.servers) {
-            this._predefinedServers.push(...this.registryConfigData.servers.map((server, index) => getDefaultViewsForConfigServer({...server, order: index})));
+            this.addPredefinedServers(this.registryConfigData.servers);
+        }
+        this.reload();
+    };
+
+    /**
+     * Gets the servers from the policy file into the config object and reload
+     *
+     * @param {object} policyData Server configuration from the policy file and if servers can be managed by user
+     */
+
+    private onLoadPolicy = (policyData: Partial<PolicyConfigType>): void => {
+        log.debug('loadPolicy', {policyData});
+
+        this.policyConfigData = policyData;
+        if (this.policyConfigData.servers) {
+            this.addPredefinedServers(this.policyConfigData.servers);
         }
         this.reload();
     };
 
+    /**
+     * Merges in the config file after it was changed by something other than the app
+     * Returns whether the servers have changed, in which case the ServerManager has to pick them up
+     *
+     * @emits {update} emitted once the new data has been merged
+     * @emits {serversUpdate} emitted when the servers in the file have changed, unless the caller takes care of it
+     */
+    private onLocalConfigFileChange = (data: string, emitServersUpdate = true) => {
+        let configData: AnyConfig | null;
+        try {
+            configData = Validator.validateConfigData(JSON.parse(data));
+        } catch (error) {
+            configData = null;
+        }
+        if (!configData) {
+            log.warn('The config file was changed outside of the app but does not validate, keeping the current configuration');
+            return false;
+        }
+
+        log.info('The config file was changed outside of the app, reloading it');
+        const previousServers = JSON.stringify([this.localConfigData?.teams, this.localConfigData?.lastActiveTeam, this.localConfigData?.serverGroups]);
+        this.localConfigData = this.checkForConfigUpdates(configData);
+        this.regenerateCombinedConfigData();
+        this.emit('update', this.combinedData);
+
+        const serversChanged = previousServers !== JSON.stringify([this.localConfigData.teams, this.localConfigData.lastActiveTeam, this.localConfigData.serverGroups]);
+        if (serversChanged && emitServersUpdate) {
+            this.emit('serversUpdate');
+        }
+        return serversChanged;
+    };
+
+    // picks up any change made to the file that the watcher hasn't seen yet, right before the in-memory copy is changed
+    private syncLocalConfigFile = (emitServersUpdate = true) => {
+        const data = this.configFile?.readExternalChange();
+        if (typeof data === 'undefined') {
+            return false;
+        }
+        return this.onLocalConfigFileChange(data, emitServersUpdate);
+    };
+
+    /**
+     * Applies the document from the provisioning URL as a managed layer, replacing any previously provisioned data
+     *
+     * @emits {update} emitted once the new data has been merged
+     * @emits {serversUpdate} emitted when the provisioned servers have changed
+     */
+    setProvisioningData = (provisioningData: ProvisioningConfigType) => {
+        log.debug('setProvisioningData', {provisioningData});
+
+        const previousServers = JSON.stringify(this.provisioningConfigData?.servers ?? []);
+        this.provisioningConfigData = provisioningData;
+        this.provisionedServers = provisioningData.servers.map((server, index) => getDefaultViewsForConfigServer({...server, order: index}));
+        this.regenerateCombinedConfigData();
+        this.emit('update', this.combinedData);
+
+        if (previousServers !== JSON.stringify(provisioningData.servers)) {
+            this.emit('serversUpdate');
+        }
+    };
+
+    // the same server can be set both in the build config and in the registry, or the registry can be read again, the first one is kept
+    private addPredefinedServers = (servers: Server[]) => {
+        const newServers = servers.filter((server, index) => {
+            return !this._predefinedServers.some((predefinedServer) => isSameURL(predefinedServer.url, server.url)) &&
+                servers.findIndex((otherServer) => isSameURL(otherServer.url, server.url)) === index;
+        });
+        this._predefinedServers.push(...newServers.map((server, index) => getDefaultViewsForConfigServer({...server, order: index})));
+    };
+
     /**
      * Config file loading methods
      */
@@ -301,7 +551,9 @@ export class Config extends EventEmitter {
 
         let configData: AnyConfig;
         try {
-            configData = JSON.parse(fs.readFileSync(this.configFilePath, 'utf8'));
+            const data = fs.readFileSync(this.configFilePath, 'utf8');
+            this.configFile?.setKnownData(data);
+            configData = JSON.parse(data);
 
             // validate based on config file version
             configData = Validator.validateConfigData(configData);
@@ -310,10 +562,20 @@ export class Config extends EventEmitter {
                 throw new Error('Provided configuration file does not validate, using defaults instead.');
             }
         } catch (e) {
-            log.warn('Failed to load configuration file from the filesystem. Using defaults.');
-            configData = copy(this.defaultConfigData);
-
-            this.writeFile(this.configFilePath, configData);
+            const backup = fs.existsSync(this.configFilePath) ? restoreFromBackup<AnyConfig>(this.configFilePath, Validator.validateConfigData) : undefined;
+            if (backup) {
+                log.warn(`Failed to load configuration file from the filesystem. Recovered configuration version ${backup.data.version} with ${'teams' in backup.data ? backup.data.teams.length : 0} servers from ${backup.backupPath}.`);
+                configData = backup.data;
+
+                // backups from an older version are written back once they have been upgraded
+                if (configData.version === this.defaultConfigData?.version) {
+                    this.writeFile(this.configFilePath, configData as ConfigType);
+                }
+            } else {
+                log.warn('Failed to load configuration file from the filesystem and no valid backup was found. Using defaults.');
+                configData = copy(this.defaultConfigData);
+                this.writeFile(this.configFilePath, configData);
+            }
         }
         return configData;
     };
@@ -351,6 +613,11 @@ export class Config extends EventEmitter {
 
     /**
      * Properly combines all sources of data into a single, manageable set of all config data
+     *
+     * Each source overrides the ones before it:
+     * defaults < config file < build config < environment variables < registry (Windows) < provisioning document < policy file (Linux) < locked settings
+     * The environment sits above the build config so that deployment scripts can change what was packaged,
+     * but below the registry, provisioning document and policy file so that administrators keep the final say.
      */
     private regenerateCombinedConfigData = () => {
         if (!this.appName) {
@@ -362,17 +629,29 @@ export class Config extends EventEmitter {
             this.defaultConfigData,
             this.localConfigData,
             this.buildConfigData,
+            this.environmentConfigData,
             this.registryConfigData,
+            this.provisioningConfigData,
+            this.policyConfigData,
+            this.lockedSettingsData,
         );
 
         // We don't want to include the servers in the combined config, they should only be accesible via the ServerManager
         delete (this.combinedData as any).teams;
+        delete (this.combinedData as any).serverGroups;
         delete (this.combinedData as any).servers;
         delete (this.combinedData as any).defaultServers;
+        delete (this.combinedData as any).lockedSettings;
+        delete (this.combinedData as any).provisionURL;
 
         if (this.combinedData) {
             this.combinedData.appName = this.appName;
         }
+
+        // the provisioned protocols are added to the ones from the build config instead of replacing them
+        if (this.combinedData && this.provisioningConfigData) {
+            this.combinedData.allowedProtocols = this.allowedProtocols;
+        }
     };
 
     // helper functions
@@ -385,16 +664,19 @@ export class Config extends EventEmitter {
             throw new Error('version ' + configData.version + ' is not equal to ' + this.defaultConfigData.version);
         }
         const json = JSON.stringify(configData, null, '  ');
+        if (filePath === this.configFilePath) {
+            this.configFile?.recordWrite(json);
+        }
 
         if (callback) {
-            fs.writeFile(filePath, json, 'utf8', callback);
+            writeFileSafe(filePath, json, callback, Validator.validateConfigData);
         } else {
             const dir = path.dirname(filePath);
             if (!fs.existsSync(dir)) {
                 fs.mkdirSync(dir);
             }
 
-            fs.writeFileSync(filePath, json, 'utf8');
+            writeFileSafeSync(filePath, json, Validator.validateConfigData);
         }
     };
 
@@ -1,7 +1,7 @@
 // Copyright (c) 2015-2016 Yuya Ochiai
 // Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
-import type {ConfigV0, ConfigV1, ConfigV2} from 'types/config';
+import type {ConfigV0, ConfigV1, ConfigV2, ConfigV3} from 'types/config';
 
 import defaultPreferences, {getDefaultDownloadLocation} from './defaultPreferences';
 
@@ -45,7 +45,30 @@ const pastDefaultPreferences = {
         darkMode: false,
         downloadLocation: getDefaultDownloadLocation(),
     } as ConfigV2,
-    3: defaultPreferences,
+    3: {
+        version: 3,
+        teams: [],
+        showTrayIcon: true,
+        trayIconTheme: 'use_system',
+        minimizeToTray: process.platform !== 'linux',
+        notifications: {
+            flashWindow: process.platform === 'linux' ? 0 : 2,
+            bounceIcon: true,
+            bounceIconType: 'informational',
+        },
+        showUnreadBadge: true,
+        useSpellChecker: true,
+        enableHardwareAcceleration: true,
+        autostart: true,
+        hideOnStart: false,
+        spellCheckerLocales: [],
+        darkMode: false,
+        lastActiveTeam: 0,
+        downloadLocation: getDefaultDownloadLocation(),
+        startInFullscreen: false,
+        logLevel: 'info',
+    } as ConfigV3,
+    4: defaultPreferences,
 };
 
 export default pastDefaultPreferences;
@@ -2,7 +2,7 @@
 // See LICENSE.txt for license information.
 
 import pastDefaultPreferences from 'common/config/pastDefaultPreferences';
-import {upgradeV0toV1, upgradeV1toV2, upgradeV2toV3} from 'common/config/upgradePreferences';
+import {upgradeV0toV1, upgradeV1toV2, upgradeV2toV3, upgradeV3toV4} from 'common/config/upgradePreferences';
 
 jest.mock('common/views/View', () => ({
     getDefaultViewsForConfigServer: (value) => ({
@@ -138,4 +138,24 @@ describe('common/config/upgradePreferences', () => {
             });
         });
     });
+    describe('upgradeV3toV4', () => {
+        it('should upgrade from v3', () => {
+            const config = {
+                version: 3,
+                teams: [{
+                    name: 'Primary server',
+                    url: 'http://server-1.com',
+                    order: 0,
+                    tabs: [{name: 'view1', order: 0, isOpen: true}],
+                }],
+                showTrayIcon: true,
+                downloadLocation: '/some/folder/name',
+            };
+            expect(upgradeV3toV4(config)).toStrictEqual({
+                ...pastDefaultPreferences[4],
+                ...config,
+                version: 4,
+            });
+        });
+    });
 });
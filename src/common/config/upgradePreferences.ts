@@ -4,7 +4,7 @@
 
 import {getDefaultViewsForConfigServer} from 'common/views/View';
 
-import type {ConfigV3, ConfigV2, ConfigV1, ConfigV0, AnyConfig} from 'types/config';
+import type {ConfigV4, ConfigV3, ConfigV2, ConfigV1, ConfigV0, AnyConfig} from 'types/config';
 
 import pastDefaultPreferences from './pastDefaultPreferences';
 
@@ -45,10 +45,18 @@ export function upgradeV2toV3(configV2: ConfigV2) {
     return config;
 }
 
-export default function upgradeToLatest(config: AnyConfig): ConfigV3 {
+export function upgradeV3toV4(configV3: ConfigV3) {
+    const config: ConfigV4 = Object.assign({}, deepCopy<ConfigV4>(pastDefaultPreferences[4]), configV3);
+    config.version = 4;
+    return config;
+}
+
+export default function upgradeToLatest(config: AnyConfig): ConfigV4 {
     switch (config.version) {
+    case 4:
+        return config as ConfigV4;
     case 3:
-        return config as ConfigV3;
+        return upgradeToLatest(upgradeV3toV4(config as ConfigV3));
     case 2:
         return upgradeToLatest(upgradeV2toV3(config as ConfigV2));
     case 1:
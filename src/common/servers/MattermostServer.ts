@@ -5,36 +5,89 @@ import {v4 as uuid} from 'uuid';
 
 import {parseURL} from 'common/utils/url';
 
-import type {UniqueServer, Server} from 'types/config';
+import type {ConfigServer, ConfigServerSettings, ServerHeader, ServerIcon, ServerProxy, SiteURLDecision, UniqueServer, Server} from 'types/config';
 
 export class MattermostServer {
     id: string;
     name: string;
+
+    // the URL the server is reached through right now, which is one of its alternate URLs while the primary one is down
     url!: URL;
+    primaryURL!: URL;
+    alternateURLs: URL[] = [];
     isPredefined: boolean;
+    settings: ConfigServerSettings;
+    group?: string;
+    icon?: ServerIcon;
+    siteURLDecision?: SiteURLDecision;
+    proxy?: ServerProxy;
+    partition?: string;
+    proxyPartition?: string;
+    headers?: ServerHeader[];
+    enabled: boolean;
+    allowDuplicate?: boolean;
 
-    constructor(server: Server, isPredefined: boolean) {
+    constructor(server: Server & Pick<ConfigServer, 'icon' | 'siteURLDecision' | 'proxy' | 'partition' | 'proxyPartition' | 'headers' | 'enabled' | 'alternateURLs' | 'allowDuplicate'>, isPredefined: boolean, settings?: ConfigServerSettings, group?: string) {
         this.id = uuid();
 
         this.name = server.name;
+        this.icon = server.icon;
+        this.siteURLDecision = server.siteURLDecision;
+        this.proxy = server.proxy;
+        this.partition = server.partition;
+        this.proxyPartition = server.proxyPartition;
+        this.headers = server.headers;
+        this.enabled = server.enabled ?? true;
+        this.allowDuplicate = server.allowDuplicate;
         this.updateURL(server.url);
+        this.updateAlternateURLs(server.alternateURLs);
 
         this.isPredefined = isPredefined;
+        this.settings = settings ?? {};
+        this.group = group;
+    }
+
+    get urls() {
+        return [this.primaryURL, ...this.alternateURLs];
     }
 
     updateURL = (url: string) => {
-        this.url = parseURL(url)!;
-        if (!this.url) {
+        this.primaryURL = parseURL(url)!;
+        if (!this.primaryURL) {
             throw new Error('Invalid url for creating a server');
         }
+        this.url = this.primaryURL;
+    };
+
+    /**
+     * Goes back to the primary URL if the one in use is no longer part of the server
+     */
+    updateAlternateURLs = (alternateURLs: string[] = []) => {
+        this.alternateURLs = alternateURLs.reduce<URL[]>((urls, alternateURL) => {
+            const url = parseURL(alternateURL);
+            if (url && !this.urls.concat(urls).some((existingURL) => existingURL.toString() === url.toString())) {
+                urls.push(url);
+            }
+            return urls;
+        }, []);
+        if (!this.urls.some((url) => url.toString() === this.url.toString())) {
+            this.url = this.primaryURL;
+        }
     };
 
     toUniqueServer = (): UniqueServer => {
         return {
             name: this.name,
-            url: this.url.toString(),
+            url: this.primaryURL.toString(),
             id: this.id,
             isPredefined: this.isPredefined,
+            ...(this.group ? {group: this.group} : {}),
+            ...(this.icon ? {icon: this.icon} : {}),
+            ...(this.proxy ? {proxy: this.proxy} : {}),
+            ...(this.partition ? {isolatedSession: true} : {}),
+            ...(this.enabled ? {} : {enabled: false}),
+            ...(this.alternateURLs.length ? {alternateURLs: this.alternateURLs.map((url) => url.toString()), activeURL: this.url.toString()} : {}),
+            ...(this.headers ? {headers: this.headers.map((header) => (header.encryptedValue ? {name: header.name, secret: true} : {name: header.name, value: header.value}))} : {}),
         };
     };
 }
@@ -0,0 +1,107 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {
+    getServersFromDeepLink,
+    isAddServersDeepLink,
+    parseServerList,
+    parseServerListCSV,
+    parseServerListJSON,
+    removeDuplicateServers,
+} from './serverList';
+
+describe('common/servers/serverList', () => {
+    describe('parseServerListCSV', () => {
+        it('should read one server per line', () => {
+            expect(parseServerListCSV('Team A,https://a.example.com\r\nTeam B,https://b.example.com\n')).toStrictEqual([
+                {name: 'Team A', url: 'https://a.example.com'},
+                {name: 'Team B', url: 'https://b.example.com'},
+            ]);
+        });
+
+        it('should skip the header line', () => {
+            expect(parseServerListCSV('Name,URL\nTeam A,https://a.example.com')).toStrictEqual([
+                {name: 'Team A', url: 'https://a.example.com'},
+            ]);
+        });
+
+        it('should support quoted fields', () => {
+            expect(parseServerListCSV('"Team ""A"", Inc.",https://a.example.com')).toStrictEqual([
+                {name: 'Team "A", Inc.', url: 'https://a.example.com'},
+            ]);
+        });
+
+        it('should read lines with a single field as a URL', () => {
+            expect(parseServerListCSV('https://a.example.com')).toStrictEqual([
+                {name: '', url: 'https://a.example.com'},
+            ]);
+        });
+
+        it('should skip lines without a URL', () => {
+            expect(parseServerListCSV('Team A,\n\nTeam B,https://b.example.com')).toStrictEqual([
+                {name: 'Team B', url: 'https://b.example.com'},
+            ]);
+        });
+    });
+
+    describe('parseServerListJSON', () => {
+        it('should read an array of servers', () => {
+            expect(parseServerListJSON('[{"name": "Team A", "url": "https://a.example.com"}, "https://b.example.com"]')).toStrictEqual([
+                {name: 'Team A', url: 'https://a.example.com'},
+                {name: '', url: 'https://b.example.com'},
+            ]);
+        });
+
+        it('should read the servers property of an object', () => {
+            expect(parseServerListJSON('{"servers": [{"name": "Team A", "url": "https://a.example.com"}]}')).toStrictEqual([
+                {name: 'Team A', url: 'https://a.example.com'},
+            ]);
+        });
+
+        it('should throw when there is no list of servers', () => {
+            expect(() => parseServerListJSON('{"name": "Team A"}')).toThrow();
+            expect(() => parseServerListJSON('not json')).toThrow();
+        });
+    });
+
+    describe('parseServerList', () => {
+        it('should pick the format based on the file extension', () => {
+            expect(parseServerList('Team A,https://a.example.com', 'servers.CSV')).toStrictEqual([{name: 'Team A', url: 'https://a.example.com'}]);
+            expect(parseServerList('[{"name": "Team A", "url": "https://a.example.com"}]', 'servers.json')).toStrictEqual([{name: 'Team A', url: 'https://a.example.com'}]);
+        });
+    });
+
+    describe('removeDuplicateServers', () => {
+        it('should keep the first server for each URL, written in any form', () => {
+            expect(removeDuplicateServers([
+                {name: 'Team A', url: 'https://a.example.com'},
+                {name: 'Team A again', url: 'https://A.example.com:443/'},
+                {name: 'Team B', url: 'https://b.example.com'},
+            ])).toStrictEqual([
+                {name: 'Team A', url: 'https://a.example.com'},
+                {name: 'Team B', url: 'https://b.example.com'},
+            ]);
+        });
+    });
+
+    describe('getServersFromDeepLink', () => {
+        it('should pair up the names and URLs', () => {
+            const url = new URL('mattermost://add-servers?name=Team%20A&url=https://a.example.com&name=Team%20B&url=https://b.example.com&url=https://c.example.com');
+            expect(isAddServersDeepLink(url, 'mattermost')).toBe(true);
+            expect(getServersFromDeepLink(url)).toStrictEqual([
+                {name: 'Team A', url: 'https://a.example.com'},
+                {name: 'Team B', url: 'https://b.example.com'},
+                {name: '', url: 'https://c.example.com'},
+            ]);
+        });
+
+        it('should not treat other deep links as add-servers links', () => {
+            expect(isAddServersDeepLink(new URL('mattermost://server-1.com/team/channels/town-square'), 'mattermost')).toBe(false);
+        });
+
+        it('should not treat add-servers links of another scheme as add-servers links', () => {
+            expect(isAddServersDeepLink(new URL('other://add-servers?url=https://a.example.com'), 'mattermost')).toBe(false);
+            expect(isAddServersDeepLink(new URL('https://add-servers/?url=https://a.example.com'), 'mattermost')).toBe(false);
+        });
+    });
+});
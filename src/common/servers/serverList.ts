@@ -0,0 +1,102 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {isSameURL} from 'common/utils/url';
+
+import type {Server} from 'types/config';
+
+export const ADD_SERVERS_DEEP_LINK_HOST = 'add-servers';
+
+function toServer(name: unknown, url: unknown): Server | undefined {
+    if (typeof url !== 'string' || !url.trim()) {
+        return undefined;
+    }
+    return {
+        name: typeof name === 'string' ? name.trim() : '',
+        url: url.trim(),
+    };
+}
+
+/**
+ * Splits a CSV line into its fields, supporting quoted fields with escaped quotes in them
+ */
+function parseCSVLine(line: string) {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    fields.push(field);
+    return fields;
+}
+
+/**
+ * Reads a CSV list of servers, one server per line as `name,url`.
+ * A line with a single field is read as a URL, and a `name,url` header line is skipped.
+ */
+export function parseServerListCSV(data: string) {
+    return data.split(/\r?\n/).
+        filter((line) => line.trim()).
+        map(parseCSVLine).
+        filter((fields, index) => !(index === 0 && fields.map((field) => field.trim().toLowerCase()).join(',') === 'name,url')).
+        map((fields) => (fields.length === 1 ? toServer('', fields[0]) : toServer(fields[0], fields[1]))).
+        filter((server): server is Server => Boolean(server));
+}
+
+/**
+ * Reads a JSON list of servers, either as an array of `{name, url}` objects or as an object with such an array in `servers`
+ */
+export function parseServerListJSON(data: string) {
+    const json = JSON.parse(data);
+    const list = Array.isArray(json) ? json : json?.servers;
+    if (!Array.isArray(list)) {
+        throw new Error('The JSON data does not contain a list of servers');
+    }
+    return list.
+        map((entry) => (typeof entry === 'string' ? toServer('', entry) : toServer(entry?.name, entry?.url))).
+        filter((server): server is Server => Boolean(server));
+}
+
+export function parseServerList(data: string, fileName: string) {
+    return fileName.toLowerCase().endsWith('.csv') ? parseServerListCSV(data) : parseServerListJSON(data);
+}
+
+/**
+ * Keeps the first of the servers that have the same URL, even when it is written another way or the servers have other names
+ */
+export function removeDuplicateServers(servers: Server[]) {
+    return servers.filter((server, index) => servers.findIndex((otherServer) => isSameURL(otherServer.url, server.url)) === index);
+}
+
+export function isAddServersDeepLink(url: URL, protocol?: string) {
+    return Boolean(protocol) && url.protocol === `${protocol}:` && url.hostname === ADD_SERVERS_DEEP_LINK_HOST;
+}
+
+/**
+ * Reads the servers from a deep link such as `mattermost://add-servers?name=Team&url=https://team.example.com&name=...`,
+ * where every `url` parameter is paired up with the `name` parameter in the same position
+ */
+export function getServersFromDeepLink(url: URL) {
+    const names = url.searchParams.getAll('name');
+    return url.searchParams.getAll('url').
+        map((serverURL, index) => toServer(names[index], serverURL)).
+        filter((server): server is Server => Boolean(server));
+}
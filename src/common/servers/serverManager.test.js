@@ -1,33 +1,49 @@
 // Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
+import {SERVER_SITE_URL_CHANGED, SERVERS_UPDATE, SERVERS_URL_MODIFIED} from 'common/communication';
+import Config from 'common/config';
 import {parseURL, isInternalURL} from 'common/utils/url';
 import Utils from 'common/utils/util';
-import {TAB_MESSAGING, TAB_FOCALBOARD, TAB_PLAYBOOKS} from 'common/views/View';
+import PluginView from 'common/views/PluginView';
+import {TAB_MESSAGING, TAB_FOCALBOARD, TAB_PLAYBOOKS, TAB_PLUGIN} from 'common/views/View';
+import SiteURLDecisions from 'main/server/siteURLDecisions';
 
 import {ServerManager} from './serverManager';
 
 jest.mock('common/config', () => ({
     set: jest.fn(),
+    serverGroups: [],
+    spellCheckerLocales: ['en-US'],
+    downloadLocation: '/global/downloads',
 }));
-jest.mock('common/utils/url', () => ({
-    parseURL: jest.fn(),
-    isInternalURL: jest.fn(),
-    getFormattedPathName: (pathname) => (pathname.endsWith('/') ? pathname : `${pathname}/`),
-}));
+jest.mock('common/utils/url', () => {
+    const actualUrl = jest.requireActual('common/utils/url');
+    return {
+        parseURL: jest.fn(),
+        isInternalURL: jest.fn(),
+        getFormattedPathName: (pathname) => (pathname.endsWith('/') ? pathname : `${pathname}/`),
+        getCanonicalURL: actualUrl.getCanonicalURL,
+        isSameURL: actualUrl.isSameURL,
+    };
+});
 jest.mock('common/utils/util', () => ({
     isVersionGreaterThanOrEqualTo: jest.fn(),
 }));
 jest.mock('main/server/serverInfo', () => ({
     ServerInfo: jest.fn(),
 }));
+jest.mock('main/server/siteURLDecisions', () => ({
+    get: jest.fn(),
+    save: jest.fn(),
+}));
 
 describe('common/servers/serverManager', () => {
     describe('updateRemoteInfos', () => {
         const serverManager = new ServerManager();
 
         beforeEach(() => {
-            const server = {id: 'server-1', url: new URL('http://server-1.com'), name: 'server-1'};
+            const server = {id: 'server-1', url: new URL('http://server-1.com'), primaryURL: new URL('http://server-1.com'), urls: [new URL('http://server-1.com')], alternateURLs: [], name: 'server-1'};
             server.updateURL = (url) => {
                 server.url = new URL(url);
             };
@@ -40,9 +56,12 @@ describe('common/servers/serverManager', () => {
             serverManager.viewOrder = new Map([['server-1', ['view-1', 'view-2', 'view-3']]]);
             serverManager.persistServers = jest.fn();
             Utils.isVersionGreaterThanOrEqualTo.mockImplementation((version) => version === '6.0.0');
+            parseURL.mockImplementation((url) => new URL(url));
         });
 
-        it('should not save when there is nothing to update', () => {
+        it('should not ask about the URL when it matches the site URL', () => {
+            const listener = jest.fn();
+            serverManager.on(SERVER_SITE_URL_CHANGED, listener);
             serverManager.updateRemoteInfos(new Map([['server-1', {
                 siteURL: 'http://server-1.com',
                 serverVersion: '6.0.0',
@@ -50,10 +69,14 @@ describe('common/servers/serverManager', () => {
                 hasFocalboard: false,
             }]]));
 
+            expect(listener).not.toHaveBeenCalled();
             expect(serverManager.persistServers).not.toHaveBeenCalled();
+            serverManager.off(SERVER_SITE_URL_CHANGED, listener);
         });
 
-        it('should update server URL using site URL', async () => {
+        it('should ask before changing the server URL to the site URL', () => {
+            const listener = jest.fn();
+            serverManager.on(SERVER_SITE_URL_CHANGED, listener);
             serverManager.updateRemoteInfos(new Map([['server-1', {
                 siteURL: 'http://server-2.com',
                 serverVersion: '6.0.0',
@@ -61,20 +84,165 @@ describe('common/servers/serverManager', () => {
                 hasFocalboard: true,
             }]]));
 
+            expect(listener).toHaveBeenCalledWith('server-1', 'http://server-1.com/', 'http://server-2.com/');
+            expect(serverManager.servers.get('server-1').url.toString()).toBe('http://server-1.com/');
+            expect(serverManager.persistServers).not.toHaveBeenCalled();
+            serverManager.off(SERVER_SITE_URL_CHANGED, listener);
+        });
+
+        it('should not ask about the site URL of cached remote info', () => {
+            const listener = jest.fn();
+            serverManager.on(SERVER_SITE_URL_CHANGED, listener);
+            serverManager.updateRemoteInfos(new Map([['server-1', {siteURL: 'http://server-2.com'}]]), true);
+
+            expect(serverManager.getRemoteInfo('server-1')).toStrictEqual({siteURL: 'http://server-2.com'});
+            expect(listener).not.toHaveBeenCalled();
+            serverManager.off(SERVER_SITE_URL_CHANGED, listener);
+        });
+
+        it('should not ask again about a site URL that was rejected', () => {
+            const listener = jest.fn();
+            serverManager.on(SERVER_SITE_URL_CHANGED, listener);
+            serverManager.servers.get('server-1').siteURLDecision = {siteURL: 'http://server-2.com/', decision: 'rejected', time: 1};
+            serverManager.updateRemoteInfos(new Map([['server-1', {siteURL: 'http://server-2.com'}]]));
+            expect(listener).not.toHaveBeenCalled();
+
+            serverManager.updateRemoteInfos(new Map([['server-1', {siteURL: 'http://server-3.com'}]]));
+            expect(listener).toHaveBeenCalledWith('server-1', 'http://server-1.com/', 'http://server-3.com/');
+            serverManager.off(SERVER_SITE_URL_CHANGED, listener);
+        });
+
+        it('should never ask when the URL was pinned', () => {
+            const listener = jest.fn();
+            serverManager.on(SERVER_SITE_URL_CHANGED, listener);
+            serverManager.servers.get('server-1').siteURLDecision = {siteURL: 'http://server-2.com/', decision: 'pinned', time: 1};
+            serverManager.updateRemoteInfos(new Map([['server-1', {siteURL: 'http://server-3.com'}]]));
+            expect(listener).not.toHaveBeenCalled();
+            serverManager.off(SERVER_SITE_URL_CHANGED, listener);
+        });
+    });
+
+    describe('setSiteURLDecision', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            const server = {id: 'server-1', url: new URL('http://server-1.com'), primaryURL: new URL('http://server-1.com'), urls: [new URL('http://server-1.com')], alternateURLs: [], name: 'server-1'};
+            server.updateURL = (url) => {
+                server.url = new URL(url);
+            };
+            serverManager.servers = new Map([['server-1', server]]);
+            serverManager.persistServers = jest.fn();
+        });
+
+        it('should switch to the site URL when accepted', () => {
+            const listener = jest.fn();
+            serverManager.on(SERVERS_URL_MODIFIED, listener);
+            serverManager.setSiteURLDecision('server-1', 'http://server-2.com/', 'accepted');
+
             expect(serverManager.servers.get('server-1').url.toString()).toBe('http://server-2.com/');
+            expect(serverManager.servers.get('server-1').siteURLDecision).toStrictEqual({siteURL: 'http://server-2.com/', decision: 'accepted', time: expect.any(Number)});
+            expect(listener).toHaveBeenCalledWith(['server-1']);
+            expect(serverManager.persistServers).toHaveBeenCalled();
+            serverManager.off(SERVERS_URL_MODIFIED, listener);
+        });
+
+        it('should keep the current URL when rejected or pinned', () => {
+            serverManager.setSiteURLDecision('server-1', 'http://server-2.com/', 'pinned');
+
+            expect(serverManager.servers.get('server-1').url.toString()).toBe('http://server-1.com/');
+            expect(serverManager.servers.get('server-1').siteURLDecision.decision).toBe('pinned');
+            expect(serverManager.persistServers).toHaveBeenCalled();
+        });
+
+        describe('predefined servers', () => {
+            let decisions;
+
+            const startServerManager = () => {
+                const newServerManager = new ServerManager();
+                newServerManager.persistServers = jest.fn();
+                newServerManager.reloadFromConfig();
+                return newServerManager;
+            };
+
+            beforeEach(() => {
+                decisions = {};
+                SiteURLDecisions.get.mockImplementation((url) => decisions[url]);
+                SiteURLDecisions.save.mockImplementation((url, decision) => {
+                    decisions[url] = decision;
+                });
+                parseURL.mockImplementation((url) => new URL(url));
+                Config.enableServerManagement = false;
+                Config.predefinedServers = [{name: 'server-1', url: 'http://server-1.com', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]}];
+            });
+
+            it('should not ask again about the URL of a pinned predefined server after a reload', () => {
+                const firstRun = startServerManager();
+                firstRun.setSiteURLDecision(firstRun.serverOrder[0], 'http://server-2.com/', 'pinned');
+                expect(SiteURLDecisions.save).toHaveBeenCalledWith('http://server-1.com', {url: 'http://server-1.com/', siteURLDecision: {siteURL: 'http://server-2.com/', decision: 'pinned', time: expect.any(Number)}}, ['http://server-1.com']);
+
+                const secondRun = startServerManager();
+                const listener = jest.fn();
+                secondRun.on(SERVER_SITE_URL_CHANGED, listener);
+                secondRun.updateRemoteInfos(new Map([[secondRun.serverOrder[0], {siteURL: 'http://server-2.com'}]]));
+                expect(listener).not.toHaveBeenCalled();
+            });
+
+            it('should keep a predefined server on the accepted Site URL after a reload', () => {
+                const firstRun = startServerManager();
+                firstRun.setSiteURLDecision(firstRun.serverOrder[0], 'http://server-2.com/', 'accepted');
+                firstRun.setSiteURLDecision(firstRun.serverOrder[0], 'http://server-3.com/', 'rejected');
+
+                const secondRun = startServerManager();
+                const server = secondRun.getServer(secondRun.serverOrder[0]);
+                expect(server.url.toString()).toBe('http://server-2.com/');
+                expect(server.siteURLDecision.decision).toBe('rejected');
+            });
+        });
+    });
+
+    describe('createProxyPartition', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            serverManager.servers = new Map([['server-1', {id: 'server-1', name: 'server-1'}]]);
+            serverManager.persistServers = jest.fn();
+        });
+
+        it('should give the server a partition once and keep it', () => {
+            const proxyPartition = serverManager.createProxyPartition('server-1');
+            expect(proxyPartition).toMatch(/^[\w-]+$/);
+            expect(serverManager.servers.get('server-1').proxyPartition).toBe(proxyPartition);
+            expect(serverManager.persistServers).toHaveBeenCalledTimes(1);
+
+            expect(serverManager.createProxyPartition('server-1')).toBe(proxyPartition);
+            expect(serverManager.persistServers).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not create a partition for unknown servers', () => {
+            expect(serverManager.createProxyPartition('server-2')).toBe(undefined);
+            expect(serverManager.persistServers).not.toHaveBeenCalled();
         });
     });
 
     describe('lookupViewByURL', () => {
         const serverManager = new ServerManager();
         serverManager.getAllServers = () => [
-            {id: 'server-1', url: new URL('http://server-1.com')},
-            {id: 'server-2', url: new URL('http://server-2.com/subpath')},
+            {id: 'server-1', url: new URL('http://server-1.com'), primaryURL: new URL('http://server-1.com'), urls: [new URL('http://server-1.com'), new URL('http://server-1-backup.com')], alternateURLs: [new URL('http://server-1-backup.com')], enabled: true},
+            {id: 'server-2', url: new URL('http://server-2.com/subpath'), primaryURL: new URL('http://server-2.com/subpath'), urls: [new URL('http://server-2.com/subpath')], alternateURLs: [], enabled: true},
+            {id: 'server-3', url: new URL('http://server-3.com'), primaryURL: new URL('http://server-3.com'), urls: [new URL('http://server-3.com')], alternateURLs: [], enabled: false},
+            {id: 'server-5', url: new URL('http://server-5.com/subpath'), primaryURL: new URL('http://server-5.com/subpath'), urls: [new URL('http://server-5.com/subpath'), new URL('http://server-5-backup.com')], alternateURLs: [new URL('http://server-5-backup.com')], enabled: true},
         ];
         serverManager.getOrderedTabsForServer = (serverId) => {
+            if (serverId === 'server-5') {
+                return [
+                    {id: 'view-5', type: TAB_MESSAGING, url: new URL('http://server-5.com/subpath')},
+                    {id: 'view-5-type-1', url: new URL('http://server-5.com/subpath/type1')},
+                ];
+            }
             if (serverId === 'server-1') {
                 return [
                     {id: 'view-1', url: new URL('http://server-1.com')},
+                    {id: 'view-1-type-1-plugin', url: new URL('http://server-1.com/type1/plugin')},
                     {id: 'view-1-type-1', url: new URL('http://server-1.com/type1')},
                     {id: 'view-1-type-2', url: new URL('http://server-1.com/type2')},
                 ];
@@ -113,6 +281,11 @@ describe('common/servers/serverManager', () => {
             expect(serverManager.lookupViewByURL(inputURL)).toStrictEqual({id: 'view-1-type-1', url: new URL('http://server-1.com/type1')});
         });
 
+        it('should match the view with the longest path', () => {
+            const inputURL = new URL('http://server-1.com/type1/plugin/page');
+            expect(serverManager.lookupViewByURL(inputURL)).toStrictEqual({id: 'view-1-type-1-plugin', url: new URL('http://server-1.com/type1/plugin')});
+        });
+
         it('should return undefined for server with subpath and URL without', () => {
             const inputURL = new URL('http://server-2.com');
             expect(serverManager.lookupViewByURL(inputURL)).toBe(undefined);
@@ -144,8 +317,535 @@ describe('common/servers/serverManager', () => {
         });
 
         it('should return undefined for wrong server', () => {
+            const inputURL = new URL('http://server-4.com');
+            expect(serverManager.lookupViewByURL(inputURL)).toBe(undefined);
+        });
+
+        it('should return undefined for an archived server', () => {
             const inputURL = new URL('http://server-3.com');
             expect(serverManager.lookupViewByURL(inputURL)).toBe(undefined);
         });
+
+        it('should match the correct server through one of its alternate URLs', () => {
+            const inputURL = new URL('http://server-1-backup.com/type1');
+            expect(serverManager.lookupViewByURL(inputURL)).toStrictEqual({id: 'view-1-type-1', url: new URL('http://server-1.com/type1')});
+        });
+
+        it('should match the views relative to the alternate URL when its path is different', () => {
+            expect(serverManager.lookupViewByURL(new URL('http://server-5-backup.com/type1/page'))).toStrictEqual({id: 'view-5-type-1', url: new URL('http://server-5.com/subpath/type1')});
+            expect(serverManager.lookupViewByURL(new URL('http://server-5-backup.com/subpath/type1'))).toStrictEqual({id: 'view-5', type: TAB_MESSAGING, url: new URL('http://server-5.com/subpath')});
+        });
+    });
+
+    describe('getServerSettings', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            serverManager.servers = new Map([
+                ['server-1', {id: 'server-1', settings: {}}],
+                ['server-2', {id: 'server-2', settings: {enableNotifications: false, zoomLevel: 2, spellCheckerLocales: ['fr'], downloadLocation: '/server-2/downloads'}}],
+            ]);
+        });
+
+        it('should fall back to the global settings when there are no overrides', () => {
+            expect(serverManager.getServerSettings('server-1')).toStrictEqual({
+                enableNotifications: true,
+                enableNotificationSounds: true,
+                zoomLevel: undefined,
+                spellCheckerLocales: ['en-US'],
+                downloadLocation: '/global/downloads',
+            });
+        });
+
+        it('should use the per-server overrides', () => {
+            expect(serverManager.getServerSettings('server-2')).toStrictEqual({
+                enableNotifications: false,
+                enableNotificationSounds: true,
+                zoomLevel: 2,
+                spellCheckerLocales: ['fr'],
+                downloadLocation: '/server-2/downloads',
+            });
+        });
+    });
+
+    describe('importServers', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            parseURL.mockImplementation((url) => new URL(url));
+            serverManager.servers = new Map([
+                ['server-1', {id: 'server-1', url: new URL('http://server-1.com'), primaryURL: new URL('http://server-1.com'), urls: [new URL('http://server-1.com')], alternateURLs: [], isPredefined: true}],
+                ['server-2', {id: 'server-2', url: new URL('http://server-2.com'), primaryURL: new URL('http://server-2.com'), urls: [new URL('http://server-2.com')], alternateURLs: []}],
+            ]);
+            serverManager.serverOrder = ['server-1', 'server-2'];
+            serverManager.views = new Map();
+            serverManager.viewOrder = new Map();
+            serverManager.persistServers = jest.fn();
+        });
+
+        const servers = [
+            {name: 'server-2', url: 'http://server-2.com', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+            {name: 'server-3', url: 'http://server-3.com', order: 1, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}], settings: {enableNotifications: false}},
+        ];
+
+        it('should only add servers that are not already added when merging', () => {
+            const ids = serverManager.importServers(servers, false);
+            expect(ids).toHaveLength(1);
+            expect(serverManager.servers.get(ids[0]).url).toStrictEqual(new URL('http://server-3.com'));
+            expect(serverManager.servers.get(ids[0]).settings).toStrictEqual({enableNotifications: false});
+            expect(serverManager.serverOrder).toStrictEqual(['server-1', 'server-2', ids[0]]);
+            expect(serverManager.persistServers).toHaveBeenCalled();
+        });
+
+        it('should remove the local servers but keep predefined ones when replacing', () => {
+            const ids = serverManager.importServers(servers, true);
+            expect(ids).toHaveLength(2);
+            expect(serverManager.servers.has('server-1')).toBe(true);
+            expect(serverManager.servers.has('server-2')).toBe(false);
+            expect(serverManager.serverOrder).toStrictEqual(['server-1', ...ids]);
+        });
+
+        it('should not add the same server twice when its URL is written another way', () => {
+            const ids = serverManager.importServers([
+                {name: 'other-server-2', url: 'HTTP://Server-2.com:80/', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+                {name: 'server-3', url: 'http://server-3.com', order: 1, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+                {name: 'other-server-3', url: 'http://server-3.com/', order: 2, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+            ], false);
+            expect(ids).toHaveLength(1);
+            expect(serverManager.servers.get(ids[0]).name).toBe('server-3');
+        });
+    });
+
+    describe('syncFromConfig', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            parseURL.mockImplementation((url) => new URL(url));
+            const server1 = {id: 'server-1', name: 'server-1', url: new URL('http://server-1.com'), primaryURL: new URL('http://server-1.com'), urls: [new URL('http://server-1.com')], alternateURLs: [], isPredefined: true, settings: {}, enabled: true};
+            const server2 = {id: 'server-2', name: 'server-2', url: new URL('http://server-2.com'), primaryURL: new URL('http://server-2.com'), urls: [new URL('http://server-2.com')], alternateURLs: [], isPredefined: false, settings: {}, enabled: true};
+            const server3 = {id: 'server-3', name: 'server-3', url: new URL('http://server-3.com'), primaryURL: new URL('http://server-3.com'), urls: [new URL('http://server-3.com')], alternateURLs: [], isPredefined: false, settings: {}};
+            serverManager.servers = new Map([['server-1', server1], ['server-2', server2], ['server-3', server3]]);
+            serverManager.serverOrder = ['server-1', 'server-2', 'server-3'];
+            serverManager.views = new Map([
+                ['view-2-1', {id: 'view-2-1', type: TAB_MESSAGING, isOpen: true, server: server2}],
+                ['view-2-2', {id: 'view-2-2', type: TAB_PLAYBOOKS, isOpen: false, server: server2}],
+                ['view-3-1', {id: 'view-3-1', type: TAB_MESSAGING, isOpen: true, server: server3}],
+            ]);
+            serverManager.viewOrder = new Map([['server-2', ['view-2-1', 'view-2-2']], ['server-3', ['view-3-1']]]);
+            serverManager.lastActiveView = new Map();
+            serverManager.remoteInfo = new Map();
+            serverManager.persistServers = jest.fn();
+            serverManager.emit = jest.fn();
+            Config.enableServerManagement = true;
+            Config.predefinedServers = [{name: 'server-1', url: 'http://server-1.com', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]}];
+        });
+
+        it('should keep the servers that are still there and apply the changes made in the file', () => {
+            Config.localServers = [
+                {
+                    name: 'renamed-server-2',
+                    url: 'http://server-2.com',
+                    order: 1,
+                    lastActiveTab: 0,
+                    tabs: [{name: TAB_PLAYBOOKS, order: 0, isOpen: true}, {name: TAB_MESSAGING, order: 1, isOpen: true}],
+                    settings: {enableNotifications: false},
+                },
+                {name: 'server-4', url: 'http://server-4.com', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+            ];
+            serverManager.syncFromConfig();
+
+            const server2 = serverManager.servers.get('server-2');
+            expect(server2.name).toBe('renamed-server-2');
+            expect(server2.settings).toStrictEqual({enableNotifications: false});
+            expect(serverManager.views.get('view-2-2').isOpen).toBe(true);
+            expect(serverManager.viewOrder.get('server-2')).toStrictEqual(['view-2-2', 'view-2-1']);
+            expect(serverManager.lastActiveView.get('server-2')).toBe('view-2-2');
+
+            expect(serverManager.servers.has('server-3')).toBe(false);
+            expect(serverManager.views.has('view-3-1')).toBe(false);
+
+            const newServerId = serverManager.serverOrder[1];
+            expect(serverManager.servers.get(newServerId).url).toStrictEqual(new URL('http://server-4.com'));
+            expect(serverManager.serverOrder).toStrictEqual(['server-1', newServerId, 'server-2']);
+            expect(serverManager.emit).toHaveBeenCalledWith(SERVERS_URL_MODIFIED, [newServerId]);
+            expect(serverManager.emit).toHaveBeenCalledWith(SERVERS_UPDATE);
+            expect(serverManager.persistServers).not.toHaveBeenCalled();
+        });
+
+        it('should only keep the predefined servers when server management is disabled', () => {
+            Config.enableServerManagement = false;
+            Config.localServers = [];
+            serverManager.syncFromConfig();
+            expect(serverManager.serverOrder).toStrictEqual(['server-1']);
+        });
+
+        it('should add and remove predefined servers', () => {
+            Config.predefinedServers = [{name: 'server-5', url: 'http://server-5.com', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]}];
+            Config.localServers = [];
+            serverManager.syncFromConfig();
+
+            expect(serverManager.servers.has('server-1')).toBe(false);
+            const newServerId = serverManager.serverOrder[0];
+            expect(serverManager.servers.get(newServerId).isPredefined).toBe(true);
+            expect(serverManager.servers.get(newServerId).url).toStrictEqual(new URL('http://server-5.com'));
+        });
+
+        it('should tell apart the servers with the same URL in separate sessions', () => {
+            serverManager.servers.get('server-2').partition = 'partition-1';
+            Config.localServers = [
+                {name: 'server-2', url: 'http://server-2.com', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+                {name: 'server-2-admin', url: 'http://server-2.com', order: 1, partition: 'partition-1', tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+            ];
+            serverManager.syncFromConfig();
+
+            expect(serverManager.servers.get('server-2').name).toBe('server-2-admin');
+            const newServerId = serverManager.serverOrder[1];
+            expect(newServerId).not.toBe('server-2');
+            expect(serverManager.servers.get(newServerId).partition).toBeUndefined();
+        });
+
+        it('should match the servers whose URL is written another way in the file', () => {
+            Config.localServers = [
+                {name: 'server-2', url: 'HTTP://SERVER-2.com/', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+                {name: 'server-3', url: 'http://server-3.com', order: 1, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+                {name: 'other-server-3', url: 'http://server-3.com:80', order: 2, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+            ];
+            serverManager.syncFromConfig();
+
+            expect(serverManager.serverOrder).toStrictEqual(['server-1', 'server-2', 'server-3']);
+            expect(serverManager.servers.get('server-3').name).toBe('server-3');
+        });
+
+        it('should keep a local server that has the same URL as a predefined server', () => {
+            Config.localServers = [
+                {name: 'my-server-1', url: 'http://server-1.com/', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+            ];
+            serverManager.syncFromConfig();
+
+            const newServerId = serverManager.serverOrder[1];
+            expect(serverManager.servers.get(newServerId).name).toBe('my-server-1');
+            expect(serverManager.getPredefinedDuplicates()).toStrictEqual([{server: serverManager.servers.get(newServerId), predefinedServer: serverManager.servers.get('server-1')}]);
+
+            serverManager.allowDuplicateServer(newServerId);
+            expect(serverManager.getPredefinedDuplicates()).toStrictEqual([]);
+            expect(serverManager.toConfigServer(serverManager.servers.get(newServerId)).allowDuplicate).toBe(true);
+        });
+
+        it('should tell apart the plugin views by their path', () => {
+            const server2 = serverManager.servers.get('server-2');
+            const pluginView = new PluginView(server2, {path: 'plugins/plugin-1', displayName: 'Plugin 1'}, true);
+            serverManager.views.set(pluginView.id, pluginView);
+            serverManager.viewOrder.set('server-2', ['view-2-1', 'view-2-2', pluginView.id]);
+            Config.localServers = [
+                {
+                    name: 'server-2',
+                    url: 'http://server-2.com',
+                    order: 0,
+                    tabs: [
+                        {name: TAB_MESSAGING, order: 0, isOpen: true},
+                        {name: TAB_PLUGIN, order: 1, isOpen: true, path: 'plugins/plugin-2', displayName: 'Plugin 2'},
+                        {name: TAB_PLUGIN, order: 2, isOpen: true, path: '/plugins/plugin-1/', displayName: 'Renamed Plugin 1', icon: 'chart-line'},
+                    ],
+                },
+            ];
+            serverManager.syncFromConfig();
+
+            const views = serverManager.getOrderedTabsForServer('server-2');
+            expect(views.map((view) => view.type)).toStrictEqual([TAB_MESSAGING, TAB_PLUGIN, TAB_PLUGIN, TAB_PLAYBOOKS]);
+            expect(views[1].url).toStrictEqual(new URL('http://server-2.com/plugins/plugin-2'));
+            expect(views[2]).toBe(pluginView);
+            expect(pluginView.displayName).toBe('Renamed Plugin 1');
+            expect(pluginView.icon).toBe('chart-line');
+        });
+
+        it('should fetch the remote info again for the servers enabled in the file', () => {
+            serverManager.servers.get('server-2').enabled = false;
+            Config.localServers = [
+                {name: 'server-2', url: 'http://server-2.com', order: 0, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+                {name: 'server-3', url: 'http://server-3.com', order: 1, enabled: false, tabs: [{name: TAB_MESSAGING, order: 0, isOpen: true}]},
+            ];
+            serverManager.syncFromConfig();
+
+            expect(serverManager.servers.get('server-2').enabled).toBe(true);
+            expect(serverManager.servers.get('server-3').enabled).toBe(false);
+            expect(serverManager.emit).toHaveBeenCalledWith(SERVERS_URL_MODIFIED, ['server-2']);
+        });
+    });
+
+    describe('setServerEnabled', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            parseURL.mockImplementation((url) => new URL(url));
+            serverManager.servers = new Map();
+            serverManager.serverOrder = [];
+            serverManager.views = new Map();
+            serverManager.viewOrder = new Map();
+            serverManager.persistServers = jest.fn();
+        });
+
+        it('should archive the server without removing it', () => {
+            const server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com'});
+            serverManager.setServerEnabled(server.id, false);
+
+            expect(serverManager.getServer(server.id)).toBe(server);
+            expect(serverManager.getEnabledServers()).toStrictEqual([]);
+            expect(server.toUniqueServer().enabled).toBe(false);
+            expect(serverManager.toConfigServer(server).enabled).toBe(false);
+            expect(serverManager.persistServers).toHaveBeenCalledTimes(2);
+        });
+
+        it('should fetch the remote info again when the server is enabled', () => {
+            const server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com'});
+            serverManager.setServerEnabled(server.id, false);
+            serverManager.emit = jest.fn();
+
+            serverManager.setServerEnabled(server.id, true);
+            expect(serverManager.getEnabledServers()).toStrictEqual([server]);
+            expect(serverManager.toConfigServer(server).enabled).toBeUndefined();
+            expect(serverManager.emit).toHaveBeenCalledWith(SERVERS_URL_MODIFIED, [server.id]);
+        });
+
+        it('should not archive the predefined servers', () => {
+            serverManager.servers.set('server-1', {id: 'server-1', isPredefined: true, enabled: true});
+            serverManager.setServerEnabled('server-1', false);
+            expect(serverManager.servers.get('server-1').enabled).toBe(true);
+            expect(serverManager.persistServers).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('setActiveURL', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            parseURL.mockImplementation((url) => new URL(url));
+            serverManager.servers = new Map();
+            serverManager.serverOrder = [];
+            serverManager.views = new Map();
+            serverManager.viewOrder = new Map();
+            serverManager.persistServers = jest.fn();
+        });
+
+        it('should switch the server over to one of its alternate URLs without saving it', () => {
+            const server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com', alternateURLs: ['http://backup.server-1.com']});
+            serverManager.persistServers.mockClear();
+            serverManager.emit = jest.fn();
+
+            serverManager.setActiveURL(server.id, 'http://backup.server-1.com');
+            expect(server.url.toString()).toBe('http://backup.server-1.com/');
+            expect(server.toUniqueServer()).toStrictEqual(expect.objectContaining({url: 'http://server-1.com/', activeURL: 'http://backup.server-1.com/'}));
+            expect(serverManager.toConfigServer(server)).toStrictEqual(expect.objectContaining({url: 'http://server-1.com/', alternateURLs: ['http://backup.server-1.com/']}));
+            expect(serverManager.emit).toHaveBeenCalledWith(SERVERS_URL_MODIFIED, [server.id]);
+            expect(serverManager.persistServers).not.toHaveBeenCalled();
+        });
+
+        it('should not switch to a URL that is not part of the server', () => {
+            const server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com', alternateURLs: ['http://backup.server-1.com']});
+            serverManager.emit = jest.fn();
+
+            serverManager.setActiveURL(server.id, 'http://server-2.com');
+            expect(server.url.toString()).toBe('http://server-1.com/');
+            expect(serverManager.emit).not.toHaveBeenCalled();
+        });
+
+        it('should go back to the primary URL when the alternate URL in use is removed', () => {
+            const server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com', alternateURLs: ['http://backup.server-1.com']});
+            serverManager.setActiveURL(server.id, 'http://backup.server-1.com');
+            serverManager.emit = jest.fn();
+
+            serverManager.editServer(server.id, {name: 'server-1', url: 'http://server-1.com'});
+            expect(server.url.toString()).toBe('http://server-1.com/');
+            expect(server.alternateURLs).toStrictEqual([]);
+            expect(serverManager.emit).toHaveBeenCalledWith(SERVERS_URL_MODIFIED, [server.id]);
+        });
+    });
+
+    describe('isolated sessions', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            parseURL.mockImplementation((url) => new URL(url));
+            serverManager.servers = new Map();
+            serverManager.serverOrder = [];
+            serverManager.views = new Map();
+            serverManager.viewOrder = new Map();
+            serverManager.persistServers = jest.fn();
+        });
+
+        it('should give a partition to the servers added with an isolated session', () => {
+            const server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com', isolatedSession: true});
+            const otherServer = serverManager.addServer({name: 'server-1', url: 'http://server-1.com'});
+
+            expect(server.partition).toBeTruthy();
+            expect(server.toUniqueServer().isolatedSession).toBe(true);
+            expect(otherServer.partition).toBeUndefined();
+            expect(serverManager.toConfigServer(server).partition).toBe(server.partition);
+        });
+
+        it('should not add the same server twice without an isolated session', () => {
+            const server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com'});
+            const otherServer = serverManager.addServer({name: 'other-server-1', url: 'http://SERVER-1.com/'});
+
+            expect(otherServer).toBe(server);
+            expect(serverManager.servers.size).toBe(1);
+        });
+
+        it('should keep the partition while the server stays isolated', () => {
+            const server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com', isolatedSession: true});
+            const partition = server.partition;
+
+            serverManager.editServer(server.id, {name: 'renamed', url: 'http://server-1.com', isolatedSession: true});
+            expect(server.partition).toBe(partition);
+
+            serverManager.editServer(server.id, {name: 'renamed', url: 'http://server-1.com'});
+            expect(server.partition).toBeUndefined();
+        });
+    });
+
+    describe('server groups', () => {
+        const serverManager = new ServerManager();
+
+        beforeEach(() => {
+            serverManager.servers = new Map([
+                ['server-1', {id: 'server-1', name: 'server-1', isPredefined: true}],
+                ['server-2', {id: 'server-2', name: 'server-2', isPredefined: false, group: 'Customers'}],
+                ['server-3', {id: 'server-3', name: 'server-3', isPredefined: false}],
+                ['server-4', {id: 'server-4', name: 'server-4', isPredefined: false, group: 'Internal'}],
+            ]);
+            serverManager.serverOrder = ['server-1', 'server-2', 'server-3', 'server-4'];
+            serverManager.serverGroups = [{name: 'Internal', collapsed: false}, {name: 'Customers', collapsed: true}];
+            serverManager.persistServers = jest.fn();
+        });
+
+        it('should keep the servers together by group when the order changes', () => {
+            serverManager.updateServerOrder(['server-2', 'server-4', 'server-3', 'server-1']);
+            expect(serverManager.serverOrder).toStrictEqual(['server-3', 'server-1', 'server-4', 'server-2']);
+            expect(serverManager.persistServers).toHaveBeenCalled();
+        });
+
+        it('should move a server into another group', () => {
+            serverManager.moveServerToGroup('server-2', 'Internal', ['server-1', 'server-3', 'server-2', 'server-4']);
+            expect(serverManager.servers.get('server-2').group).toBe('Internal');
+            expect(serverManager.serverOrder).toStrictEqual(['server-1', 'server-3', 'server-2', 'server-4']);
+            expect(serverManager.persistServers).toHaveBeenCalled();
+        });
+
+        it('should move a server out of its group', () => {
+            serverManager.moveServerToGroup('server-4', undefined, ['server-1', 'server-4', 'server-3', 'server-2']);
+            expect(serverManager.servers.get('server-4').group).toBe(undefined);
+            expect(serverManager.serverOrder).toStrictEqual(['server-1', 'server-4', 'server-3', 'server-2']);
+        });
+
+        it('should not move predefined servers or move servers into groups that do not exist', () => {
+            serverManager.moveServerToGroup('server-1', 'Internal', ['server-1', 'server-2', 'server-3', 'server-4']);
+            serverManager.moveServerToGroup('server-3', 'Community', ['server-1', 'server-2', 'server-3', 'server-4']);
+            expect(serverManager.servers.get('server-1').group).toBe(undefined);
+            expect(serverManager.servers.get('server-3').group).toBe(undefined);
+            expect(serverManager.persistServers).not.toHaveBeenCalled();
+        });
+
+        it('should add a group only once', () => {
+            serverManager.addServerGroup('Community');
+            serverManager.addServerGroup('Community');
+            expect(serverManager.serverGroups).toStrictEqual([
+                {name: 'Internal', collapsed: false},
+                {name: 'Customers', collapsed: true},
+                {name: 'Community', collapsed: false},
+            ]);
+        });
+
+        it('should rename a group along with the servers in it', () => {
+            serverManager.renameServerGroup('Customers', 'Clients');
+            expect(serverManager.serverGroups[1]).toStrictEqual({name: 'Clients', collapsed: true});
+            expect(serverManager.servers.get('server-2').group).toBe('Clients');
+        });
+
+        it('should not rename a group to the name of another one', () => {
+            serverManager.renameServerGroup('Customers', 'Internal');
+            expect(serverManager.serverGroups[1].name).toBe('Customers');
+            expect(serverManager.persistServers).not.toHaveBeenCalled();
+        });
+
+        it('should keep the servers of a removed group as ungrouped servers', () => {
+            serverManager.removeServerGroup('Internal');
+            expect(serverManager.serverGroups).toStrictEqual([{name: 'Customers', collapsed: true}]);
+            expect(serverManager.servers.get('server-4').group).toBe(undefined);
+            expect(serverManager.serverOrder).toStrictEqual(['server-1', 'server-3', 'server-4', 'server-2']);
+        });
+
+        it('should collapse and expand a group', () => {
+            serverManager.setServerGroupCollapsed('Internal', true);
+            expect(serverManager.serverGroups[0].collapsed).toBe(true);
+            serverManager.setServerGroupCollapsed('Customers', false);
+            expect(serverManager.serverGroups[1].collapsed).toBe(false);
+        });
+
+        it('should add the groups that servers in the config point to', () => {
+            parseURL.mockImplementation((url) => new URL(url));
+            Config.enableServerManagement = true;
+            Config.predefinedServers = [];
+            Config.localServers = [
+                {name: 'server-5', url: 'http://server-5.com', order: 0, tabs: [], group: 'Community'},
+                {name: 'server-6', url: 'http://server-6.com', order: 1, tabs: []},
+            ];
+            Config.serverGroups = [{name: 'Internal', collapsed: false}];
+            serverManager.servers = new Map();
+            serverManager.reloadFromConfig();
+
+            expect(serverManager.serverGroups).toStrictEqual([{name: 'Internal', collapsed: false}, {name: 'Community', collapsed: false}]);
+            expect(serverManager.getOrderedServers().map((server) => server.name)).toStrictEqual(['server-6', 'server-5']);
+            Config.serverGroups = [];
+        });
+    });
+
+    describe('plugin views', () => {
+        const serverManager = new ServerManager();
+        let server;
+
+        beforeEach(() => {
+            parseURL.mockImplementation((url) => new URL(url));
+            serverManager.servers = new Map();
+            serverManager.serverOrder = [];
+            serverManager.views = new Map();
+            serverManager.viewOrder = new Map();
+            serverManager.lastActiveView = new Map();
+            serverManager.persistServers = jest.fn();
+            server = serverManager.addServer({name: 'server-1', url: 'http://server-1.com/subpath'});
+        });
+
+        it('should add a tab for a page of the server', () => {
+            const view = serverManager.addPluginView(server.id, {path: '/plugins/plugin-1/', displayName: 'Plugin 1'});
+
+            expect(view.url).toStrictEqual(new URL('http://server-1.com/subpath/plugins/plugin-1'));
+            expect(view.isOpen).toBe(true);
+            expect(serverManager.getOrderedTabsForServer(server.id).pop()).toBe(view);
+            expect(serverManager.toConfigServer(server).tabs.pop()).toStrictEqual({name: TAB_PLUGIN, order: 3, isOpen: true, path: 'plugins/plugin-1', displayName: 'Plugin 1', icon: 'apps'});
+            expect(serverManager.persistServers).toHaveBeenCalled();
+        });
+
+        it('should not add the same page twice', () => {
+            const view = serverManager.addPluginView(server.id, {path: 'plugins/plugin-1', displayName: 'Plugin 1'});
+            expect(serverManager.addPluginView(server.id, {path: 'plugins/plugin-1/', displayName: 'Other Plugin 1'})).toBe(view);
+            expect(serverManager.getOrderedTabsForServer(server.id)).toHaveLength(4);
+        });
+
+        it('should not add tabs to the predefined servers', () => {
+            server.isPredefined = true;
+            expect(serverManager.addPluginView(server.id, {path: 'plugins/plugin-1', displayName: 'Plugin 1'})).toBeUndefined();
+        });
+
+        it('should only remove the plugin views', () => {
+            const view = serverManager.addPluginView(server.id, {path: 'plugins/plugin-1', displayName: 'Plugin 1'});
+            serverManager.updateLastActive(view.id);
+            serverManager.removeView(view.id);
+
+            expect(serverManager.views.has(view.id)).toBe(false);
+            expect(serverManager.getOrderedTabsForServer(server.id).map((view) => view.type)).toStrictEqual([TAB_MESSAGING, TAB_FOCALBOARD, TAB_PLAYBOOKS]);
+            expect(serverManager.lastActiveView.has(server.id)).toBe(false);
+
+            const messagingView = serverManager.getOrderedTabsForServer(server.id)[0];
+            serverManager.removeView(messagingView.id);
+            expect(serverManager.views.has(messagingView.id)).toBe(true);
+        });
     });
 });
@@ -2,30 +2,57 @@
 // See LICENSE.txt for license information.
 
 import EventEmitter from 'events';
+import {v4 as uuid} from 'uuid';
 
 import {
+    SERVER_SITE_URL_CHANGED,
     SERVERS_URL_MODIFIED,
     SERVERS_UPDATE,
 } from 'common/communication';
 import Config from 'common/config';
 import {Logger, getLevel} from 'common/log';
 import {MattermostServer} from 'common/servers/MattermostServer';
-import {getFormattedPathName, isInternalURL, parseURL} from 'common/utils/url';
+import {getCanonicalURL, getFormattedPathName, isInternalURL, isSameURL, parseURL} from 'common/utils/url';
 import FocalboardView from 'common/views/FocalboardView';
 import MessagingView from 'common/views/MessagingView';
 import PlaybooksView from 'common/views/PlaybooksView';
+import PluginView from 'common/views/PluginView';
 import type {MattermostView} from 'common/views/View';
-import {TAB_FOCALBOARD, TAB_MESSAGING, TAB_PLAYBOOKS, getDefaultViews} from 'common/views/View';
+import {TAB_FOCALBOARD, TAB_MESSAGING, TAB_PLAYBOOKS, TAB_PLUGIN, getDefaultViews, getPluginViewPath} from 'common/views/View';
+import SiteURLDecisions from 'main/server/siteURLDecisions';
 
-import type {Server, ConfigServer, ConfigView} from 'types/config';
+import type {ConfigServer, ConfigServerGroup, ConfigView, PluginViewSettings, ServerHeader, ServerProxy, ServerSettings, SiteURLDecisionType, UniqueServer, View} from 'types/config';
 import type {RemoteInfo} from 'types/server';
 
 const log = new Logger('ServerManager');
 
+// leaving out the proxy is the same as following the system settings
+function isSameProxy(proxy?: ServerProxy, otherProxy?: ServerProxy) {
+    return JSON.stringify(proxy ?? {mode: 'system'}) === JSON.stringify(otherProxy ?? {mode: 'system'});
+}
+
+function isSameAlternateURLs(alternateURLs: URL[], otherAlternateURLs: string[] = []) {
+    return alternateURLs.map((url) => url.toString()).join() === otherAlternateURLs.map((url) => parseURL(url)?.toString()).join();
+}
+
+// servers are the same when they have the same URL in any form and share the same session
+function getServerKey(url: URL | string, partition?: string) {
+    return `${getCanonicalURL(url) ?? url}:${partition ?? ''}`;
+}
+
+// a server can have several plugin views, which are told apart by their path
+function isSameView(view: MattermostView, configView: View) {
+    if (view.type !== configView.name) {
+        return false;
+    }
+    return !(view instanceof PluginView) || view.path === getPluginViewPath(configView.path ?? '');
+}
+
 export class ServerManager extends EventEmitter {
     private servers: Map<string, MattermostServer>;
     private remoteInfo: Map<string, RemoteInfo>;
     private serverOrder: string[];
+    private serverGroups: ConfigServerGroup[];
 
     private views: Map<string, MattermostView>;
     private viewOrder: Map<string, string[]>;
@@ -37,6 +64,7 @@ export class ServerManager extends EventEmitter {
         this.servers = new Map();
         this.remoteInfo = new Map();
         this.serverOrder = [];
+        this.serverGroups = [];
         this.views = new Map();
         this.viewOrder = new Map();
         this.lastActiveView = new Map();
@@ -95,24 +123,108 @@ export class ServerManager extends EventEmitter {
         return [...this.servers.values()];
     };
 
+    /**
+     * Returns the servers that aren't archived, in order. These are the only ones that get views or are checked on.
+     */
+    getEnabledServers = () => {
+        return this.getOrderedServers().filter((server) => server.enabled);
+    };
+
+    /**
+     * The servers added by the user that have the same URL as a predefined server, until the user chose what to do with them
+     */
+    getPredefinedDuplicates = () => {
+        const servers = this.getAllServers();
+        return servers.reduce<Array<{server: MattermostServer; predefinedServer: MattermostServer}>>((duplicates, server) => {
+            if (server.isPredefined || server.allowDuplicate) {
+                return duplicates;
+            }
+            const key = getServerKey(server.primaryURL, server.partition);
+            const predefinedServer = servers.find((srv) => srv.isPredefined && getServerKey(srv.primaryURL, srv.partition) === key);
+            if (predefinedServer) {
+                duplicates.push({server, predefinedServer});
+            }
+            return duplicates;
+        }, []);
+    };
+
     hasServers = () => {
         return Boolean(this.servers.size);
     };
 
+    getServerGroups = () => {
+        return this.serverGroups;
+    };
+
+    /**
+     * Resolves the effective settings for a server, using its overrides where they exist and the global config otherwise
+     */
+    getServerSettings = (serverId: string): ServerSettings => {
+        const settings = this.servers.get(serverId)?.settings ?? {};
+        return {
+            enableNotifications: settings.enableNotifications ?? true,
+            enableNotificationSounds: settings.enableNotificationSounds ?? true,
+            zoomLevel: settings.zoomLevel,
+            spellCheckerLocales: settings.spellCheckerLocales ?? Config.spellCheckerLocales,
+            downloadLocation: settings.downloadLocation ?? Config.downloadLocation,
+        };
+    };
+
     getRemoteInfo = (serverId: string) => {
         return this.remoteInfo.get(serverId);
     };
 
-    updateRemoteInfos = (remoteInfos: Map<string, RemoteInfo>) => {
-        let hasUpdates = false;
+    /**
+     * The Site URL is only checked against fresh remote info, the cached one may be from before the user decided about a change
+     */
+    updateRemoteInfos = (remoteInfos: Map<string, RemoteInfo>, fromCache = false) => {
         remoteInfos.forEach((remoteInfo, serverId) => {
             this.remoteInfo.set(serverId, remoteInfo);
-            hasUpdates = this.updateServerURL(serverId) || hasUpdates;
+            if (!fromCache) {
+                this.checkSiteURL(serverId);
+            }
         });
+    };
 
-        if (hasUpdates) {
+    /**
+     * Records what the user decided when the Site URL of a server stopped matching its URL,
+     * and moves the server over to the Site URL if they accepted it
+     */
+    setSiteURLDecision = (serverId: string, siteURL: string, decision: SiteURLDecisionType) => {
+        const server = this.servers.get(serverId);
+        if (!server) {
+            return;
+        }
+
+        log.withPrefix(serverId).info('setSiteURLDecision', decision);
+        const predefinedServer = server.isPredefined ? Config.predefinedServers.find((srv) => getServerKey(this.withSiteURLDecision(srv).url, srv.partition) === getServerKey(server.primaryURL, server.partition)) : undefined;
+        server.siteURLDecision = {siteURL, decision, time: Date.now()};
+        if (decision === 'accepted') {
+            server.updateURL(siteURL);
+
+            // Emit this event whenever we update a server URL to ensure remote info is fetched
+            this.emit(SERVERS_URL_MODIFIED, [serverId]);
+        }
+        if (predefinedServer) {
+            SiteURLDecisions.save(predefinedServer.url, {url: server.primaryURL.toString(), siteURLDecision: server.siteURLDecision}, Config.predefinedServers.map((srv) => srv.url));
+        }
+        this.persistServers();
+    };
+
+    /**
+     * Gives the server the partition its proxy goes through the first time it needs one, which it then keeps
+     */
+    createProxyPartition = (serverId: string) => {
+        const server = this.servers.get(serverId);
+        if (!server) {
+            return undefined;
+        }
+        if (!server.proxyPartition) {
+            log.withPrefix(serverId).debug('createProxyPartition');
+            server.proxyPartition = uuid();
             this.persistServers();
         }
+        return server.proxyPartition;
     };
 
     lookupViewByURL = (inputURL: URL | string, ignoreScheme = false) => {
@@ -122,30 +234,128 @@ export class ServerManager extends EventEmitter {
         if (!parsedURL) {
             return undefined;
         }
-        const server = this.getAllServers().find((server) => {
-            return isInternalURL(parsedURL, server.url, ignoreScheme) &&
-                getFormattedPathName(parsedURL.pathname).startsWith(getFormattedPathName(server.url.pathname));
-        });
+        const isMatchingURL = (url: URL) => isInternalURL(parsedURL, url, ignoreScheme) &&
+            getFormattedPathName(parsedURL.pathname).startsWith(getFormattedPathName(url.pathname));
+        const server = this.getAllServers().find((server) => server.enabled && server.urls.some(isMatchingURL));
         if (!server) {
             return undefined;
         }
         const views = this.getOrderedTabsForServer(server.id);
 
+        // the URLs of the views are built from the URL in use, which can have another path than the URL that matched
+        const serverPathName = getFormattedPathName(server.url.pathname);
+        const matchedPathName = getFormattedPathName(server.urls.find(isMatchingURL)!.pathname);
+
+        // the plugin views can be under the path of another view, so the view with the longest matching path wins
         let selectedView = views.find((view) => view && view.type === TAB_MESSAGING);
+        let selectedPathName = '';
         views.
             filter((view) => view && view.type !== TAB_MESSAGING).
             forEach((view) => {
-                if (getFormattedPathName(parsedURL.pathname).startsWith(getFormattedPathName(view.url.pathname))) {
+                const viewPathName = `${matchedPathName}${getFormattedPathName(view.url.pathname).slice(serverPathName.length)}`;
+                if (getFormattedPathName(parsedURL.pathname).startsWith(viewPathName) && viewPathName.length > selectedPathName.length) {
                     selectedView = view;
+                    selectedPathName = viewPathName;
                 }
             });
         return selectedView;
     };
 
+    /**
+     * Finds the server that has the URL as one of its own, no matter the case, a trailing slash or a default port.
+     * Unlike lookupViewByURL, the URL has to be the one of the server itself rather than one of its pages, and archived servers are found as well.
+     */
+    lookupServerByURL = (inputURL: URL | string) => {
+        return this.getAllServers().find((server) => server.urls.some((url) => isSameURL(url, inputURL)));
+    };
+
     updateServerOrder = (serverOrder: string[]) => {
         log.debug('updateServerOrder', serverOrder);
 
         this.serverOrder = serverOrder;
+        this.sortServerOrderByGroup();
+        this.persistServers();
+    };
+
+    /**
+     * Moves a server into a group, or out of all groups when none is given, along with the new order of the servers
+     */
+    moveServerToGroup = (serverId: string, group: string | undefined, serverOrder: string[]) => {
+        log.withPrefix(serverId).debug('moveServerToGroup', group, serverOrder);
+
+        const server = this.servers.get(serverId);
+        if (!server || server.isPredefined) {
+            return;
+        }
+        if (group && !this.serverGroups.some((serverGroup) => serverGroup.name === group)) {
+            log.warn('moveServerToGroup: the group does not exist', group);
+            return;
+        }
+
+        server.group = group;
+        this.serverOrder = serverOrder;
+        this.sortServerOrderByGroup();
+        this.persistServers();
+    };
+
+    addServerGroup = (name: string) => {
+        log.debug('addServerGroup', name);
+
+        if (this.serverGroups.some((serverGroup) => serverGroup.name === name)) {
+            return;
+        }
+        this.serverGroups.push({name, collapsed: false});
+        this.persistServers();
+    };
+
+    renameServerGroup = (name: string, newName: string) => {
+        log.debug('renameServerGroup', name, newName);
+
+        const serverGroup = this.serverGroups.find((serverGroup) => serverGroup.name === name);
+        if (!serverGroup || name === newName) {
+            return;
+        }
+        if (this.serverGroups.some((serverGroup) => serverGroup.name === newName)) {
+            log.warn('renameServerGroup: a group with the same name already exists', newName);
+            return;
+        }
+
+        serverGroup.name = newName;
+        this.servers.forEach((server) => {
+            if (server.group === name) {
+                server.group = newName;
+            }
+        });
+        this.persistServers();
+    };
+
+    removeServerGroup = (name: string) => {
+        log.debug('removeServerGroup', name);
+
+        const index = this.serverGroups.findIndex((serverGroup) => serverGroup.name === name);
+        if (index < 0) {
+            return;
+        }
+
+        // the servers in the group are kept, they just go back to being ungrouped
+        this.serverGroups.splice(index, 1);
+        this.servers.forEach((server) => {
+            if (server.group === name) {
+                delete server.group;
+            }
+        });
+        this.sortServerOrderByGroup();
+        this.persistServers();
+    };
+
+    setServerGroupCollapsed = (name: string, collapsed: boolean) => {
+        log.debug('setServerGroupCollapsed', name, collapsed);
+
+        const serverGroup = this.serverGroups.find((serverGroup) => serverGroup.name === name);
+        if (!serverGroup) {
+            return;
+        }
+        serverGroup.collapsed = collapsed;
         this.persistServers();
     };
 
@@ -156,8 +366,15 @@ export class ServerManager extends EventEmitter {
         this.persistServers();
     };
 
-    addServer = (server: Server) => {
-        const newServer = new MattermostServer(server, false);
+    addServer = (server: UniqueServer) => {
+        // the same server can only be added twice with a session of its own, the predefined servers are left to getPredefinedDuplicates
+        const existingServer = server.isolatedSession ? undefined : this.getAllServers().find((srv) => !srv.isPredefined && getServerKey(srv.primaryURL, srv.partition) === getServerKey(server.url));
+        if (existingServer) {
+            log.withPrefix(existingServer.id).info('addServer: the server was already added');
+            return existingServer;
+        }
+
+        const newServer = new MattermostServer({...server, partition: server.isolatedSession ? uuid() : undefined}, false);
 
         if (this.servers.has(newServer.id)) {
             throw new Error('ID Collision detected. Cannot add server.');
@@ -167,7 +384,7 @@ export class ServerManager extends EventEmitter {
         this.serverOrder.push(newServer.id);
         const viewOrder: string[] = [];
         getDefaultViews().forEach((view) => {
-            const newView = this.getNewView(newServer, view.name, view.isOpen);
+            const newView = this.getNewView(newServer, view);
             this.views.set(newView.id, newView);
             viewOrder.push(newView.id);
         });
@@ -179,19 +396,32 @@ export class ServerManager extends EventEmitter {
         return newServer;
     };
 
-    editServer = (serverId: string, server: Server) => {
+    editServer = (serverId: string, server: UniqueServer) => {
         const existingServer = this.servers.get(serverId);
         if (!existingServer) {
             return;
         }
 
         let urlModified;
-        if (existingServer.url.toString() !== parseURL(server.url)?.toString()) {
-            // Emit this event whenever we update a server URL to ensure remote info is fetched
+        const primaryURLModified = existingServer.primaryURL.toString() !== parseURL(server.url)?.toString();
+        if (primaryURLModified ||
+            !isSameAlternateURLs(existingServer.alternateURLs, server.alternateURLs) ||
+            !isSameProxy(existingServer.proxy, server.proxy)) {
+            // Emit this event whenever we update a server URL or the way to reach it to ensure remote info is fetched
             urlModified = () => this.emit(SERVERS_URL_MODIFIED, [serverId]);
         }
         existingServer.name = server.name;
-        existingServer.updateURL(server.url);
+        existingServer.icon = server.icon;
+        existingServer.proxy = server.proxy;
+        if (!server.isolatedSession) {
+            delete existingServer.partition;
+        } else if (!existingServer.partition) {
+            existingServer.partition = uuid();
+        }
+        if (primaryURLModified) {
+            existingServer.updateURL(server.url);
+        }
+        existingServer.updateAlternateURLs(server.alternateURLs);
         this.servers.set(serverId, existingServer);
 
         this.viewOrder.get(serverId)?.forEach((viewId) => {
@@ -206,16 +436,143 @@ export class ServerManager extends EventEmitter {
         this.persistServers();
     };
 
+    /**
+     * Switches the server over to another one of its URLs when the one in use can't be reached.
+     * It isn't saved, the primary URL is tried first again on the next start.
+     */
+    setActiveURL = (serverId: string, activeURL: string) => {
+        const server = this.servers.get(serverId);
+        const url = server?.urls.find((url) => url.toString() === parseURL(activeURL)?.toString());
+        if (!(server && url) || server.url.toString() === url.toString()) {
+            return;
+        }
+
+        log.withPrefix(serverId).info('setActiveURL', url.toString());
+        server.url = url;
+
+        // Emit this event whenever we update a server URL to ensure remote info is fetched
+        this.emit(SERVERS_URL_MODIFIED, [serverId]);
+        this.emit(SERVERS_UPDATE);
+    };
+
+    /**
+     * Keeps a server added by the user that has the same URL as a predefined server, without asking about it again
+     */
+    allowDuplicateServer = (serverId: string) => {
+        log.withPrefix(serverId).debug('allowDuplicateServer');
+
+        const server = this.servers.get(serverId);
+        if (!server || server.isPredefined) {
+            return;
+        }
+        server.allowDuplicate = true;
+        this.persistServers();
+    };
+
+    setServerHeaders = (serverId: string, headers: ServerHeader[]) => {
+        log.withPrefix(serverId).debug('setServerHeaders', headers.map((header) => header.name));
+
+        const server = this.servers.get(serverId);
+        if (!server) {
+            return;
+        }
+        server.headers = headers.length ? headers : undefined;
+        this.persistServers();
+    };
+
+    setServerEnabled = (serverId: string, enabled: boolean) => {
+        log.withPrefix(serverId).debug('setServerEnabled', enabled);
+
+        const server = this.servers.get(serverId);
+        if (!server || server.isPredefined || server.enabled === enabled) {
+            return;
+        }
+        server.enabled = enabled;
+        if (enabled) {
+            // the remote info isn't kept up to date while the server is archived
+            this.emit(SERVERS_URL_MODIFIED, [serverId]);
+        }
+        this.persistServers();
+    };
+
     removeServer = (serverId: string) => {
-        this.viewOrder.get(serverId)?.forEach((viewId) => this.views.delete(viewId));
-        this.viewOrder.delete(serverId);
-        this.lastActiveView.delete(serverId);
+        this.deleteServer(serverId);
+        this.persistServers();
+    };
 
-        const index = this.serverOrder.findIndex((id) => id === serverId);
-        this.serverOrder.splice(index, 1);
-        this.remoteInfo.delete(serverId);
-        this.servers.delete(serverId);
+    importServers = (servers: ConfigServer[], replace: boolean) => {
+        if (replace) {
+            [...this.servers.values()].
+                filter((server) => !server.isPredefined).
+                forEach((server) => this.removeServer(server.id));
+        }
 
+        // the list itself can have the same server more than once as well
+        const existingKeys = new Set(this.getAllServers().map((server) => getServerKey(server.primaryURL, server.partition)));
+        const newServerIds = servers.
+            filter((server) => {
+                const key = getServerKey(server.url, server.partition);
+                if (existingKeys.has(key)) {
+                    return false;
+                }
+                existingKeys.add(key);
+                return true;
+            }).
+            sort((a, b) => a.order - b.order).
+            map((server) => this.initServer(server, false));
+        if (!newServerIds.length) {
+            return newServerIds;
+        }
+
+        this.serverOrder.push(...newServerIds);
+        this.addMissingServerGroups();
+        this.sortServerOrderByGroup();
+
+        // Emit this event whenever we update a server URL to ensure remote info is fetched
+        this.emit(SERVERS_URL_MODIFIED, newServerIds);
+        this.persistServers();
+        return newServerIds;
+    };
+
+    /**
+     * Pins a page of the server as a tab, or returns the tab that already shows it.
+     * The views of the predefined servers are left to the administrator since they are never saved.
+     */
+    addPluginView = (serverId: string, settings: PluginViewSettings) => {
+        log.withPrefix(serverId).debug('addPluginView', settings.path);
+
+        const server = this.servers.get(serverId);
+        if (!server || server.isPredefined) {
+            return undefined;
+        }
+
+        const existingView = this.getOrderedTabsForServer(serverId).find((view) => isSameView(view, {...settings, name: TAB_PLUGIN}));
+        if (existingView) {
+            existingView.isOpen = true;
+            this.persistServers();
+            return existingView;
+        }
+
+        const newView = new PluginView(server, settings, true);
+        this.views.set(newView.id, newView);
+        this.viewOrder.set(serverId, [...(this.viewOrder.get(serverId) ?? []), newView.id]);
+        this.persistServers();
+        return newView;
+    };
+
+    // only the plugin views can be removed, the others are closed instead
+    removeView = (viewId: string) => {
+        const view = this.views.get(viewId);
+        if (!(view instanceof PluginView)) {
+            return;
+        }
+        log.withPrefix(view.server.id).debug('removeView', viewId);
+
+        this.views.delete(viewId);
+        this.viewOrder.set(view.server.id, (this.viewOrder.get(view.server.id) ?? []).filter((id) => id !== viewId));
+        if (this.lastActiveView.get(view.server.id) === viewId) {
+            this.lastActiveView.delete(view.server.id);
+        }
         this.persistServers();
     };
 
@@ -246,7 +603,7 @@ export class ServerManager extends EventEmitter {
 
     reloadFromConfig = () => {
         const serverOrder: string[] = [];
-        Config.predefinedServers.forEach((server) => {
+        Config.predefinedServers.map(this.withSiteURLDecision).forEach((server) => {
             const id = this.initServer(server, true);
             serverOrder.push(id);
         });
@@ -256,31 +613,159 @@ export class ServerManager extends EventEmitter {
                 serverOrder.push(id);
             });
         }
+        this.serverOrder = serverOrder;
         this.filterOutDuplicateServers();
+        this.serverGroups = Config.serverGroups.map((serverGroup) => ({...serverGroup}));
+        this.addMissingServerGroups();
+        this.sortServerOrderByGroup();
+    };
+
+    /**
+     * Brings the servers in line with the config after it was changed outside of the app, or when the provisioned servers changed.
+     * Servers are matched by URL so that the ones that are still there keep their ids, and their views don't have to be reloaded.
+     */
+    syncFromConfig = () => {
+        log.debug('syncFromConfig');
+
+        const existingServers = new Map([...this.servers.values()].map((server) => [`${server.isPredefined}:${getServerKey(server.primaryURL, server.partition)}`, server]));
+        const modifiedServerIds: string[] = [];
+        const syncServers = (configServers: ConfigServer[], isPredefined: boolean) => configServers.map((configServer) => {
+            const key = `${isPredefined}:${getServerKey(configServer.url, configServer.partition)}`;
+            const existingServer = existingServers.get(key);
+            if (!existingServer) {
+                const id = this.initServer(configServer, isPredefined);
+                modifiedServerIds.push(id);
+                return id;
+            }
+
+            existingServers.delete(key);
+            existingServer.name = configServer.name;
+            if (!isSameAlternateURLs(existingServer.alternateURLs, configServer.alternateURLs)) {
+                existingServer.updateAlternateURLs(configServer.alternateURLs);
+                modifiedServerIds.push(existingServer.id);
+            }
+
+            // the views of predefined servers aren't saved, so the config only ever has their defaults
+            if (!isPredefined) {
+                existingServer.settings = configServer.settings ?? {};
+                existingServer.group = configServer.group;
+                existingServer.icon = configServer.icon;
+                existingServer.siteURLDecision = configServer.siteURLDecision;
+                existingServer.proxy = configServer.proxy;
+                existingServer.proxyPartition = configServer.proxyPartition ?? existingServer.proxyPartition;
+                existingServer.headers = configServer.headers;
+                existingServer.allowDuplicate = configServer.allowDuplicate;
+                if (!existingServer.enabled && configServer.enabled !== false) {
+                    // the remote info isn't kept up to date while the server is archived
+                    modifiedServerIds.push(existingServer.id);
+                }
+                existingServer.enabled = configServer.enabled ?? true;
+                this.syncViewsFromConfig(existingServer, configServer);
+            }
+            return existingServer.id;
+        });
+
+        const serverOrder = syncServers(Config.predefinedServers.map(this.withSiteURLDecision), true);
+        if (Config.enableServerManagement) {
+            serverOrder.push(...syncServers([...Config.localServers].sort((a, b) => a.order - b.order), false));
+        }
+        existingServers.forEach((server) => this.deleteServer(server.id));
         this.serverOrder = serverOrder;
+        this.filterOutDuplicateServers();
+        this.serverGroups = Config.serverGroups.map((serverGroup) => ({...serverGroup}));
+        this.addMissingServerGroups();
+        this.sortServerOrderByGroup();
+
+        if (modifiedServerIds.length) {
+            // Emit this event whenever we update a server URL to ensure remote info is fetched
+            this.emit(SERVERS_URL_MODIFIED, modifiedServerIds);
+        }
+        this.emit(SERVERS_UPDATE);
+    };
+
+    private syncViewsFromConfig = (server: MattermostServer, configServer: ConfigServer) => {
+        const views = this.getOrderedTabsForServer(server.id);
+        const viewOrder = [...configServer.tabs].sort((a, b) => a.order - b.order).reduce((viewIds, configView) => {
+            const view = views.find((view) => isSameView(view, configView));
+            if (view) {
+                view.isOpen = configView.isOpen ?? view.isOpen;
+                if (view instanceof PluginView) {
+                    view.displayName = configView.displayName ?? view.displayName;
+                    view.icon = configView.icon ?? view.icon;
+                }
+                viewIds.push(view.id);
+            } else if (configView.name === TAB_PLUGIN) {
+                // plugin views can be added to the file by another instance of the app or by hand
+                const newView = this.getNewView(server, configView);
+                this.views.set(newView.id, newView);
+                viewIds.push(newView.id);
+            }
+            return viewIds;
+        }, [] as string[]);
+
+        // views that are missing from the file are kept at the end rather than removed
+        views.filter((view) => !viewOrder.includes(view.id)).forEach((view) => viewOrder.push(view.id));
+        this.viewOrder.set(server.id, viewOrder);
+
+        if (typeof configServer.lastActiveTab !== 'undefined' && viewOrder[configServer.lastActiveTab]) {
+            this.lastActiveView.set(server.id, viewOrder[configServer.lastActiveTab]);
+        }
+    };
+
+    private deleteServer = (serverId: string) => {
+        this.viewOrder.get(serverId)?.forEach((viewId) => this.views.delete(viewId));
+        this.viewOrder.delete(serverId);
+        this.lastActiveView.delete(serverId);
+
+        const index = this.serverOrder.findIndex((id) => id === serverId);
+        if (index >= 0) {
+            this.serverOrder.splice(index, 1);
+        }
+        this.remoteInfo.delete(serverId);
+        this.servers.delete(serverId);
+    };
+
+    // servers can point to a group that isn't in the list, when the config file was edited by hand or the servers were imported
+    private addMissingServerGroups = () => {
+        this.servers.forEach((server) => {
+            if (server.group && !this.serverGroups.some((serverGroup) => serverGroup.name === server.group)) {
+                this.serverGroups.push({name: server.group, collapsed: false});
+            }
+        });
     };
 
+    // the servers are kept together by group, the ungrouped ones (including the predefined ones) first and then each group in order
+    private sortServerOrderByGroup = () => {
+        const getGroupIndex = (serverId: string) => {
+            const group = this.servers.get(serverId)?.group;
+            return group ? this.serverGroups.findIndex((serverGroup) => serverGroup.name === group) + 1 : 0;
+        };
+        this.serverOrder = [...this.serverOrder].sort((a, b) => getGroupIndex(a) - getGroupIndex(b));
+    };
+
+    // a server added by the user is never dropped for having the same URL as a predefined server, the user is asked about it instead
     private filterOutDuplicateServers = () => {
-        const servers = [...this.servers.keys()].map((key) => ({key, value: this.servers.get(key)!}));
-        const uniqueServers = new Set();
-        servers.forEach((server) => {
-            if (uniqueServers.has(`${server.value.name}:${server.value.url}`)) {
-                this.servers.delete(server.key);
+        const uniqueServers = new Set<string>();
+        this.getAllServers().forEach((server) => {
+            const key = `${server.isPredefined}:${getServerKey(server.primaryURL, server.partition)}`;
+            if (uniqueServers.has(key)) {
+                log.withPrefix(server.id).warn('Removing a server that has the same URL as another one', server.primaryURL.toString());
+                this.deleteServer(server.id);
             } else {
-                uniqueServers.add(`${server.value.name}:${server.value.url}`);
+                uniqueServers.add(key);
             }
         });
     };
 
     private initServer = (configServer: ConfigServer, isPredefined: boolean) => {
-        const server = new MattermostServer(configServer, isPredefined);
+        const server = new MattermostServer(configServer, isPredefined, configServer.settings, isPredefined ? undefined : configServer.group);
         this.servers.set(server.id, server);
 
         log.withPrefix(server.id).debug('initialized server');
 
         const viewOrder: string[] = [];
         configServer.tabs.sort((a, b) => a.order - b.order).forEach((view) => {
-            const mattermostView = this.getNewView(server, view.name, view.isOpen);
+            const mattermostView = this.getNewView(server, view);
             log.withPrefix(mattermostView.id).debug('initialized view');
 
             this.views.set(mattermostView.id, mattermostView);
@@ -293,6 +778,15 @@ export class ServerManager extends EventEmitter {
         return server.id;
     };
 
+    // the decisions about the Site URL of predefined servers aren't saved to the config, so they are put back on the servers from their own file
+    private withSiteURLDecision = (configServer: ConfigServer): ConfigServer => {
+        const saved = SiteURLDecisions.get(configServer.url);
+        if (!saved) {
+            return configServer;
+        }
+        return {...configServer, url: saved.url, siteURLDecision: saved.siteURLDecision};
+    };
+
     private getFirstOpenViewForServer = (serverId: string) => {
         const viewOrder = this.getOrderedTabsForServer(serverId);
         const openViews = viewOrder.filter((view) => view.isOpen);
@@ -314,7 +808,7 @@ export class ServerManager extends EventEmitter {
                 servers.push(this.toConfigServer(srv));
                 return servers;
             }, [] as ConfigServer[]);
-        await Config.setServers(localServers, lastActiveServer);
+        await Config.setServers(localServers, lastActiveServer, this.serverGroups.map((serverGroup) => ({...serverGroup})));
     };
 
     private getLastActiveView = (serverId: string) => {
@@ -331,7 +825,7 @@ export class ServerManager extends EventEmitter {
     private toConfigServer = (server: MattermostServer): ConfigServer => {
         return {
             name: server.name,
-            url: `${server.url}`,
+            url: `${server.primaryURL}`,
             order: this.serverOrder.indexOf(server.id),
             lastActiveTab: this.getLastActiveView(server.id),
             tabs: this.viewOrder.get(server.id)?.reduce((views, viewId, index) => {
@@ -343,39 +837,55 @@ export class ServerManager extends EventEmitter {
                     name: view?.type,
                     order: index,
                     isOpen: view.isOpen,
+                    ...(view instanceof PluginView ? {path: view.path, displayName: view.displayName, icon: view.icon} : {}),
                 });
                 return views;
             }, [] as ConfigView[]) ?? [],
+            ...(Object.keys(server.settings).length ? {settings: server.settings} : {}),
+            ...(server.group ? {group: server.group} : {}),
+            ...(server.icon ? {icon: server.icon} : {}),
+            ...(server.siteURLDecision ? {siteURLDecision: server.siteURLDecision} : {}),
+            ...(server.proxy ? {proxy: server.proxy} : {}),
+            ...(server.partition ? {partition: server.partition} : {}),
+            ...(server.proxyPartition ? {proxyPartition: server.proxyPartition} : {}),
+            ...(server.headers ? {headers: server.headers} : {}),
+            ...(server.enabled ? {} : {enabled: false}),
+            ...(server.alternateURLs.length ? {alternateURLs: server.alternateURLs.map((url) => url.toString())} : {}),
+            ...(server.allowDuplicate ? {allowDuplicate: true} : {}),
         };
     };
 
-    private getNewView = (srv: MattermostServer, viewName: string, isOpen?: boolean) => {
-        switch (viewName) {
+    private getNewView = (srv: MattermostServer, view: View) => {
+        switch (view.name) {
         case TAB_MESSAGING:
-            return new MessagingView(srv, isOpen);
+            return new MessagingView(srv, view.isOpen);
         case TAB_FOCALBOARD:
-            return new FocalboardView(srv, isOpen);
+            return new FocalboardView(srv, view.isOpen);
         case TAB_PLAYBOOKS:
-            return new PlaybooksView(srv, isOpen);
+            return new PlaybooksView(srv, view.isOpen);
+        case TAB_PLUGIN:
+            return new PluginView(srv, {path: view.path ?? '', displayName: view.displayName ?? '', icon: view.icon}, view.isOpen);
         default:
             throw new Error('Not implemeneted');
         }
     };
 
-    private updateServerURL = (serverId: string) => {
+    // the URL is never changed here, the user is asked about it first unless they already decided to keep the current one
+    private checkSiteURL = (serverId: string) => {
         const server = this.servers.get(serverId);
-        const remoteInfo = this.remoteInfo.get(serverId);
-
-        if (!(server && remoteInfo)) {
-            return false;
+        const siteURL = parseURL(this.remoteInfo.get(serverId)?.siteURL ?? '');
+        if (!(server && siteURL) || server.urls.some((url) => isSameURL(url, siteURL))) {
+            return;
         }
 
-        if (remoteInfo.siteURL && server.url.toString() !== new URL(remoteInfo.siteURL).toString()) {
-            server.updateURL(remoteInfo.siteURL);
-            this.servers.set(serverId, server);
-            return true;
+        const decision = server.siteURLDecision;
+        if (decision?.decision === 'pinned' || (decision?.decision === 'rejected' && decision.siteURL === siteURL.toString())) {
+            log.withPrefix(serverId).debug('The Site URL does not match, keeping the current URL as decided by the user');
+            return;
         }
-        return false;
+
+        log.withPrefix(serverId).warn('The Site URL of the server does not match its URL');
+        this.emit(SERVER_SITE_URL_CHANGED, serverId, server.primaryURL.toString(), siteURL.toString());
     };
 
     private includeId = (id: string, ...prefixes: string[]) => {
@@ -16,6 +16,7 @@ export const MAX_LOADING_SCREEN_SECONDS = 4 * SECOND;
 export const TAB_BAR_HEIGHT = 40;
 export const TAB_BAR_PADDING = 4;
 export const BACK_BAR_HEIGHT = 36;
+export const COMPATIBILITY_BANNER_HEIGHT = 36;
 export const THREE_DOT_MENU_WIDTH = 40;
 export const THREE_DOT_MENU_WIDTH_MAC = 80;
 export const MENU_SHADOW_WIDTH = 24;
@@ -55,6 +56,15 @@ export const URLValidationStatus = {
     URLUpdated: 'URL_UPDATED',
 };
 
+// the characters allowed in a header name by RFC 9110
+export const HEADER_NAME_REGEX = /^[!#$%&'*+.^_`|~\w-]+$/;
+
+// the path of a plugin view is relative to the server URL, no part of it can start with a dot so that it can't leave the server
+export const PLUGIN_VIEW_PATH_REGEX = /^[\w~-][\w.~-]*(\/[\w~-][\w.~-]*)*$/;
+
+// the names of the compass icons
+export const PLUGIN_VIEW_ICON_REGEX = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
 // supported custom login paths (oath, saml)
 export const customLoginRegexPaths = [
     /^\/oauth\/authorize$/i,
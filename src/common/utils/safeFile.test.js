@@ -0,0 +1,115 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {backupFile, getBackupPath, restoreFromBackup, writeFileSafe, writeFileSafeSync} from './safeFile';
+
+describe('common/utils/safeFile', () => {
+    let tempDir;
+    let filePath;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'safeFile-'));
+        filePath = path.join(tempDir, 'config.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, {recursive: true, force: true});
+    });
+
+    describe('writeFileSafeSync', () => {
+        it('should write the file without leaving temp files behind', () => {
+            writeFileSafeSync(filePath, '{"version": 1}');
+            expect(fs.readFileSync(filePath, 'utf8')).toBe('{"version": 1}');
+            expect(fs.readdirSync(tempDir)).toStrictEqual(['config.json']);
+        });
+
+        it('should back up the previous contents', () => {
+            writeFileSafeSync(filePath, '{"version": 1}');
+            writeFileSafeSync(filePath, '{"version": 2}');
+            writeFileSafeSync(filePath, '{"version": 3}');
+            expect(fs.readFileSync(filePath, 'utf8')).toBe('{"version": 3}');
+            expect(fs.readFileSync(getBackupPath(filePath, 1), 'utf8')).toBe('{"version": 2}');
+            expect(fs.readFileSync(getBackupPath(filePath, 2), 'utf8')).toBe('{"version": 1}');
+        });
+
+        it('should remove the temp file when the file cannot be replaced', () => {
+            fs.mkdirSync(filePath);
+            expect(() => writeFileSafeSync(filePath, '{"version": 1}')).toThrow();
+            expect(fs.readdirSync(tempDir)).toStrictEqual(['config.json']);
+        });
+    });
+
+    describe('writeFileSafe', () => {
+        it('should write the file and call back', (done) => {
+            writeFileSafe(filePath, '{"version": 1}', (error) => {
+                expect(error).toBe(null);
+                expect(fs.readFileSync(filePath, 'utf8')).toBe('{"version": 1}');
+                done();
+            });
+        });
+
+        it('should remove the temp file when the file cannot be replaced', (done) => {
+            fs.mkdirSync(filePath);
+            writeFileSafe(filePath, '{"version": 1}', (error) => {
+                expect(error).toBeTruthy();
+                expect(fs.readdirSync(tempDir)).toStrictEqual(['config.json']);
+                done();
+            });
+        });
+    });
+
+    describe('backupFile', () => {
+        it('should only keep the configured number of generations', () => {
+            for (let version = 1; version <= 5; version++) {
+                fs.writeFileSync(filePath, `{"version": ${version}}`);
+                backupFile(filePath, undefined, 3);
+            }
+            expect(fs.readFileSync(getBackupPath(filePath, 1), 'utf8')).toBe('{"version": 5}');
+            expect(fs.readFileSync(getBackupPath(filePath, 3), 'utf8')).toBe('{"version": 3}');
+            expect(fs.existsSync(getBackupPath(filePath, 4))).toBe(false);
+        });
+
+        it('should not back up a file that is not valid', () => {
+            fs.writeFileSync(filePath, '{"version": 1}');
+            backupFile(filePath);
+            fs.writeFileSync(filePath, '{"vers');
+            backupFile(filePath);
+            fs.writeFileSync(filePath, '{"version": -1}');
+            backupFile(filePath, (data) => data.version > 0);
+            expect(fs.readFileSync(getBackupPath(filePath, 1), 'utf8')).toBe('{"version": 1}');
+            expect(fs.existsSync(getBackupPath(filePath, 2))).toBe(false);
+        });
+
+        it('should not back up a file that could only be recovered in part', () => {
+            fs.writeFileSync(filePath, '{"version": 1}');
+            backupFile(filePath);
+            fs.writeFileSync(filePath, '{"version": 2, "teams": "not-a-list"}');
+            backupFile(filePath, (data, problems) => {
+                problems.push({path: 'teams', reason: '"teams" must be an array'});
+                return {version: data.version};
+            });
+            expect(fs.readFileSync(getBackupPath(filePath, 1), 'utf8')).toBe('{"version": 1}');
+            expect(fs.existsSync(getBackupPath(filePath, 2))).toBe(false);
+        });
+    });
+
+    describe('restoreFromBackup', () => {
+        it('should return the most recent backup that validates', () => {
+            fs.writeFileSync(getBackupPath(filePath, 1), '{"version": -1}');
+            fs.writeFileSync(getBackupPath(filePath, 2), 'not json');
+            fs.writeFileSync(getBackupPath(filePath, 3), '{"version": 3}');
+            expect(restoreFromBackup(filePath, (data) => (data.version > 0 ? data : null))).toStrictEqual({
+                data: {version: 3},
+                backupPath: getBackupPath(filePath, 3),
+            });
+        });
+
+        it('should return undefined when there is no valid backup', () => {
+            expect(restoreFromBackup(filePath, (data) => data)).toBe(undefined);
+        });
+    });
+});
@@ -0,0 +1,137 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+// These helpers are shared with electron-free files, so they report back to the caller instead of logging
+
+import fs from 'fs';
+
+import type {ValidationProblem} from 'types/validation';
+
+export const BACKUP_GENERATIONS = 3;
+
+// the data is whatever JSON.parse found in the file, so the validator has to check its shape
+type Validate<T> = (data: T, problems?: ValidationProblem[]) => unknown;
+
+let tempFileCount = 0;
+
+export function getBackupPath(filePath: string, generation: number) {
+    return `${filePath}.bak${generation}`;
+}
+
+// every write gets its own temp file so that overlapping writes can't interleave their contents
+function getTempPath(filePath: string) {
+    tempFileCount += 1;
+    return `${filePath}.${process.pid}.${tempFileCount}.tmp`;
+}
+
+// a write that failed halfway leaves the temp file behind, the file itself is untouched
+function removeTempFile(tempPath: string) {
+    try {
+        fs.rmSync(tempPath, {force: true});
+    } catch (error) {
+        // nothing else can be done about it, the next write uses another temp file anyway
+    }
+}
+
+function isValidFile<T>(data: string, validate?: Validate<T>) {
+    try {
+        const json = JSON.parse(data);
+        if (!validate) {
+            return true;
+        }
+
+        // the validators recover what they can from almost any file, so a file is only good when nothing had to be dropped
+        const problems: ValidationProblem[] = [];
+        return Boolean(validate(json, problems)) && !problems.length;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Moves every backup of the file up one generation and copies the current file into the first one.
+ * Files that are missing or no longer valid are not backed up, so the backups only ever hold good data.
+ */
+export function backupFile<T>(filePath: string, validate?: Validate<T>, generations = BACKUP_GENERATIONS) {
+    let currentData;
+    try {
+        currentData = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+        return;
+    }
+    if (!isValidFile(currentData, validate)) {
+        return;
+    }
+
+    const latestBackupPath = getBackupPath(filePath, 1);
+    if (fs.existsSync(latestBackupPath) && fs.readFileSync(latestBackupPath, 'utf8') === currentData) {
+        return;
+    }
+
+    for (let generation = generations; generation > 1; generation--) {
+        const previousBackupPath = getBackupPath(filePath, generation - 1);
+        if (fs.existsSync(previousBackupPath)) {
+            fs.renameSync(previousBackupPath, getBackupPath(filePath, generation));
+        }
+    }
+    fs.writeFileSync(latestBackupPath, currentData, 'utf8');
+}
+
+/**
+ * Backs up the current file, then writes the new data to a temp file and renames it into place,
+ * so that a crash in the middle of a write can never leave a truncated file behind
+ */
+export function writeFileSafeSync<T>(filePath: string, data: string, validate?: Validate<T>) {
+    backupFile(filePath, validate);
+
+    const tempPath = getTempPath(filePath);
+    try {
+        fs.writeFileSync(tempPath, data, 'utf8');
+        fs.renameSync(tempPath, filePath);
+    } catch (error) {
+        removeTempFile(tempPath);
+        throw error;
+    }
+}
+
+export function writeFileSafe<T>(filePath: string, data: string, callback: fs.NoParamCallback, validate?: Validate<T>) {
+    try {
+        backupFile(filePath, validate);
+    } catch (error) {
+        callback(error as NodeJS.ErrnoException);
+        return;
+    }
+
+    const tempPath = getTempPath(filePath);
+    fs.writeFile(tempPath, data, 'utf8', (error) => {
+        if (error) {
+            removeTempFile(tempPath);
+            callback(error);
+            return;
+        }
+        fs.rename(tempPath, filePath, (renameError) => {
+            if (renameError) {
+                removeTempFile(tempPath);
+            }
+            callback(renameError);
+        });
+    });
+}
+
+/**
+ * Returns the data of the most recent backup that still validates, along with the backup it came from
+ */
+export function restoreFromBackup<T>(filePath: string, validate: (data: T) => T | null | undefined, generations = BACKUP_GENERATIONS) {
+    for (let generation = 1; generation <= generations; generation++) {
+        const backupPath = getBackupPath(filePath, generation);
+        try {
+            const data = validate(JSON.parse(fs.readFileSync(backupPath, 'utf8')));
+            if (data) {
+                return {data, backupPath};
+            }
+        } catch (error) {
+            // a missing or unreadable backup is skipped in favour of the next one
+        }
+    }
+    return undefined;
+}
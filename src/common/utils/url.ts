@@ -18,6 +18,25 @@ export const parseURL = (inputURL: string | URL) => {
     }
 };
 
+/**
+ * Reduces a server URL to the form used to tell whether two servers are the same,
+ * so that the case of the scheme and the host, a trailing slash, a default port, the credentials, the query or the hash don't make a difference.
+ * The path is kept as is since servers can tell paths apart by their case.
+ */
+export const getCanonicalURL = (inputURL: URL | string) => {
+    const parsedURL = parseURL(inputURL);
+    if (!parsedURL) {
+        return undefined;
+    }
+
+    // the scheme and the host are already lowercased by the URL parser
+    return `${parsedURL.protocol}//${parsedURL.host}${parsedURL.pathname.replace(/\/+$/, '')}`;
+};
+export const isSameURL = (url: URL | string, otherURL: URL | string) => {
+    const canonicalURL = getCanonicalURL(url);
+    return Boolean(canonicalURL) && canonicalURL === getCanonicalURL(otherURL);
+};
+
 /**
  * URL form checks
  */
@@ -0,0 +1,62 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {WatchedFile} from './watchedFile';
+
+describe('common/utils/watchedFile', () => {
+    let tempDir;
+    let filePath;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'watchedFile-'));
+        filePath = path.join(tempDir, 'config.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, {recursive: true, force: true});
+    });
+
+    describe('readExternalChange', () => {
+        it('should not report anything before the file has been read', () => {
+            fs.writeFileSync(filePath, '{"version": 1}');
+            const watchedFile = new WatchedFile(filePath);
+            expect(watchedFile.readExternalChange()).toBe(undefined);
+        });
+
+        it('should report a change made by something else once', () => {
+            fs.writeFileSync(filePath, '{"version": 1}');
+            const watchedFile = new WatchedFile(filePath);
+            watchedFile.setKnownData('{"version": 1}');
+            expect(watchedFile.readExternalChange()).toBe(undefined);
+
+            fs.writeFileSync(filePath, '{"version": 2}');
+            expect(watchedFile.readExternalChange()).toBe('{"version": 2}');
+            expect(watchedFile.readExternalChange()).toBe(undefined);
+        });
+
+        it('should not report our own writes, even when they land out of order', () => {
+            const watchedFile = new WatchedFile(filePath);
+            watchedFile.recordWrite('{"version": 1}');
+            watchedFile.recordWrite('{"version": 2}');
+
+            fs.writeFileSync(filePath, '{"version": 1}');
+            expect(watchedFile.readExternalChange()).toBe(undefined);
+            fs.writeFileSync(filePath, '{"version": 2}');
+            expect(watchedFile.readExternalChange()).toBe(undefined);
+
+            // once the latest write has landed, going back to older contents is an external change
+            fs.writeFileSync(filePath, '{"version": 1}');
+            expect(watchedFile.readExternalChange()).toBe('{"version": 1}');
+        });
+
+        it('should not report anything when the file is missing', () => {
+            const watchedFile = new WatchedFile(filePath);
+            watchedFile.setKnownData('{"version": 1}');
+            expect(watchedFile.readExternalChange()).toBe(undefined);
+        });
+    });
+});
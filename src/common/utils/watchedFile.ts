@@ -0,0 +1,94 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+// Like safeFile, this is shared with electron-free files, so it reports back to the caller instead of logging
+
+import fs from 'fs';
+
+export const WATCH_INTERVAL = 2000;
+const MAX_PENDING_WRITES = 10;
+
+/**
+ * Keeps track of what the app itself last read from and wrote to a file, so that changes made to it by anything else
+ * (a text editor, a management tool) can be told apart from our own writes
+ */
+export class WatchedFile {
+    filePath: string;
+
+    private knownData?: string;
+    private pendingWrites: string[];
+    private listener?: (current: fs.Stats, previous: fs.Stats) => void;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.pendingWrites = [];
+    }
+
+    setKnownData = (data: string) => {
+        this.knownData = data;
+        this.pendingWrites = [];
+    };
+
+    recordWrite = (data: string) => {
+        this.knownData = data;
+
+        // writes can land out of order, so any of the recent ones may still show up on disk
+        this.pendingWrites = [...this.pendingWrites.slice(1 - MAX_PENDING_WRITES), data];
+    };
+
+    /**
+     * Returns the contents of the file if it was changed by something else since the app last read or wrote it
+     */
+    readExternalChange = () => {
+        if (typeof this.knownData === 'undefined') {
+            return undefined;
+        }
+
+        let data;
+        try {
+            data = fs.readFileSync(this.filePath, 'utf8');
+        } catch (error) {
+            return undefined;
+        }
+        if (data === this.knownData) {
+            this.pendingWrites = [];
+            return undefined;
+        }
+        if (this.pendingWrites.includes(data)) {
+            return undefined;
+        }
+
+        this.setKnownData(data);
+        return data;
+    };
+
+    /**
+     * Polls the file for changes, as opposed to fs.watch this keeps working when the file is replaced by a rename
+     */
+    watch = (onChange: (data: string) => void, interval = WATCH_INTERVAL) => {
+        this.unwatch();
+
+        this.listener = (current, previous) => {
+            if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+                return;
+            }
+            const data = this.readExternalChange();
+            if (typeof data !== 'undefined') {
+                onChange(data);
+            }
+        };
+        fs.watchFile(this.filePath, {interval}, this.listener);
+    };
+
+    get isWatching() {
+        return Boolean(this.listener);
+    }
+
+    unwatch = () => {
+        if (!this.listener) {
+            return;
+        }
+        fs.unwatchFile(this.filePath, this.listener);
+        delete this.listener;
+    };
+}
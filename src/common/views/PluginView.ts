@@ -0,0 +1,47 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {MattermostServer} from 'common/servers/MattermostServer';
+import {getFormattedPathName} from 'common/utils/url';
+
+import type {PluginViewSettings, UniqueView} from 'types/config';
+
+import BaseView from './BaseView';
+import type {ViewType} from './View';
+import {DEFAULT_PLUGIN_VIEW_ICON, TAB_PLUGIN, getPluginViewPath} from './View';
+
+/**
+ * Shows the full page UI of a plugin, or any other page of the server, that the user pinned as a tab.
+ * Unlike the other views, a server can have any number of them as long as their paths are different.
+ */
+export default class PluginView extends BaseView {
+    path: string;
+    displayName: string;
+    icon: string;
+
+    constructor(server: MattermostServer, settings: PluginViewSettings, isOpen?: boolean) {
+        super(server, isOpen);
+        this.path = getPluginViewPath(settings.path);
+        this.displayName = settings.displayName;
+        this.icon = settings.icon || DEFAULT_PLUGIN_VIEW_ICON;
+    }
+
+    get url(): URL {
+        return new URL(`${this.server.url.origin}${getFormattedPathName(this.server.url.pathname)}${this.path}`);
+    }
+
+    get type(): ViewType {
+        return TAB_PLUGIN;
+    }
+
+    toUniqueView = (): UniqueView => {
+        return {
+            id: this.id,
+            name: this.type,
+            isOpen: this.isOpen,
+            path: this.path,
+            displayName: this.displayName,
+            icon: this.icon,
+        };
+    };
+}
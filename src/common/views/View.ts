@@ -2,13 +2,18 @@
 // See LICENSE.txt for license information.
 
 import type {MattermostServer} from 'common/servers/MattermostServer';
+import {PLUGIN_VIEW_ICON_REGEX, PLUGIN_VIEW_PATH_REGEX} from 'common/utils/constants';
 
-import type {UniqueView, Server} from 'types/config';
+import type {PluginViewSettings, UniqueView, Server} from 'types/config';
 
 export const TAB_MESSAGING = 'TAB_MESSAGING';
 export const TAB_FOCALBOARD = 'TAB_FOCALBOARD';
 export const TAB_PLAYBOOKS = 'TAB_PLAYBOOKS';
-export type ViewType = typeof TAB_MESSAGING | typeof TAB_FOCALBOARD | typeof TAB_PLAYBOOKS;
+export const TAB_PLUGIN = 'TAB_PLUGIN';
+export type ViewType = typeof TAB_MESSAGING | typeof TAB_FOCALBOARD | typeof TAB_PLAYBOOKS | typeof TAB_PLUGIN;
+
+// one of the compass icons, used when the user didn't pick one for a plugin view
+export const DEFAULT_PLUGIN_VIEW_ICON = 'apps';
 
 export interface MattermostView {
     id: string;
@@ -55,6 +60,8 @@ export function getViewDisplayName(viewType: ViewType) {
         return 'Boards';
     case TAB_PLAYBOOKS:
         return 'Playbooks';
+    case TAB_PLUGIN:
+        return 'Plugin';
     default:
         throw new Error('Not implemeneted');
     }
@@ -63,3 +70,13 @@ export function getViewDisplayName(viewType: ViewType) {
 export function canCloseView(viewType: ViewType) {
     return viewType !== TAB_MESSAGING;
 }
+
+export function getPluginViewPath(path: string) {
+    return path.trim().replace(/^\/+|\/+$/g, '');
+}
+
+export function isValidPluginView(settings: PluginViewSettings) {
+    return Boolean(settings.displayName.trim()) &&
+        PLUGIN_VIEW_PATH_REGEX.test(getPluginViewPath(settings.path)) &&
+        (!settings.icon || PLUGIN_VIEW_ICON_REGEX.test(settings.icon));
+}
@@ -14,6 +14,7 @@ jest.mock('electron', () => ({
 }));
 
 jest.mock('fs', () => ({
+    existsSync: jest.fn(),
     readFileSync: jest.fn(),
     writeFile: jest.fn(),
 }));
@@ -30,6 +31,6 @@ describe('main/AppVersionManager', () => {
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const appVersionManager = new AppVersionManager('somefilename.txt');
 
-        expect(fs.writeFile).toBeCalledWith('somefilename.txt', '{}', expect.any(Function));
+        expect(fs.writeFile).toBeCalledWith(expect.stringMatching(/^somefilename\.txt\..+\.tmp$/), '{}', 'utf8', expect.any(Function));
     });
 });
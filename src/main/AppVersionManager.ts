@@ -13,7 +13,7 @@ import type {AppState} from 'types/appState';
 
 export class AppVersionManager extends JsonFileManager<AppState> {
     constructor(file: string) {
-        super(file);
+        super(file, Validator.validateAppState);
 
         this.init();
     }
@@ -17,6 +17,16 @@ describe('main/ParseArgs', () => {
         expect(args.disableDevMode).toBe(true);
     });
 
+    it('should read the profile name', () => {
+        const args = parse(['mattermost', '--profile', 'work']);
+        expect(args.profile).toBe('work');
+    });
+
+    it('should read the provisioning URL', () => {
+        const args = parse(['mattermost', '--provision-url', 'https://provisioning.com/config.json']);
+        expect(args.provisionURL).toBe('https://provisioning.com/config.json');
+    });
+
     it('should show version and exit when specified', async () => {
         jest.spyOn(process.stdout, 'write').mockImplementation(() => {});
         const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => {});
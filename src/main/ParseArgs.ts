@@ -38,6 +38,13 @@ function parseArgs(args: string[]) {
         string('dataDir').
         describe('dataDir', 'Set the path to where user data is stored.').
 
+        string('profile').
+        describe('profile', 'Open the app using the named profile, which keeps its own servers, settings and data.').
+
+        alias('provisionURL', 'provision-url').
+        string('provisionURL').
+        describe('provisionURL', 'Set the HTTPS URL of a signed document with the servers and settings managed by your organization.').
+
         alias('disableDevMode', 'p').
         boolean('disableDevMode').
         describe('disableDevMode', 'Disable development mode. Allows for testing as if it was Production.').
@@ -6,6 +6,8 @@ import fs from 'fs';
 
 import {shell, dialog} from 'electron';
 
+import Config from 'common/config';
+
 import {AllowProtocolDialog} from './allowProtocolDialog';
 import MainWindow from './windows/mainWindow';
 
@@ -30,7 +32,7 @@ jest.mock('electron', () => ({
     },
 }));
 
-jest.mock('common/config/buildConfig', () => ({
+jest.mock('common/config', () => ({
     allowedProtocols: [
         'pone',
         'ptwo',
@@ -99,6 +101,36 @@ describe('main/allowProtocolDialog', () => {
         });
     });
 
+    describe('updateManagedProtocols', () => {
+        afterEach(() => {
+            Config.allowedProtocols = ['pone', 'ptwo'];
+        });
+
+        it('should stop allowing protocols the config no longer allows', () => {
+            fs.readFile.mockImplementation((fileName, encoding, callback) => {
+                callback(null, '["spotify:"]');
+            });
+            const allowProtocolDialog = new AllowProtocolDialog();
+            allowProtocolDialog.init();
+
+            Config.allowedProtocols = ['ptwo', 'pthree'];
+            allowProtocolDialog.updateManagedProtocols();
+
+            expect(allowProtocolDialog.allowedProtocols).toStrictEqual(['spotify:', 'http:', 'https:', 'ptwo:', 'pthree:']);
+        });
+
+        it('should not save the protocols allowed by the config', () => {
+            fs.readFile.mockImplementation((fileName, encoding, callback) => {
+                callback(null, '["spotify:"]');
+            });
+            const allowProtocolDialog = new AllowProtocolDialog();
+            allowProtocolDialog.init();
+            allowProtocolDialog.save();
+
+            expect(fs.writeFile).toHaveBeenCalledWith(expect.any(String), JSON.stringify(['spotify:', 'http:', 'https:']), expect.any(Function));
+        });
+    });
+
     describe('handleDialogEvent', () => {
         fs.readFile.mockImplementation((fileName, encoding, callback) => {
             callback(null, '["spotify:", "steam:", "git:"]');
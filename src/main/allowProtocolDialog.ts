@@ -7,7 +7,7 @@ import fs from 'fs';
 
 import {dialog, shell} from 'electron';
 
-import buildConfig from 'common/config/buildConfig';
+import Config from 'common/config';
 import {Logger} from 'common/log';
 import * as Validator from 'common/Validator';
 import {localizeMessage} from 'main/i18nManager';
@@ -20,8 +20,12 @@ const log = new Logger('AllowProtocolDialog');
 export class AllowProtocolDialog {
     allowedProtocols: string[];
 
+    // protocols that are only allowed by the config, they are not saved and are dropped once the config stops allowing them
+    private managedProtocols: string[];
+
     constructor() {
         this.allowedProtocols = [];
+        this.managedProtocols = [];
     }
 
     init = () => {
@@ -32,7 +36,7 @@ export class AllowProtocolDialog {
             }
             this.addScheme('http');
             this.addScheme('https');
-            buildConfig.allowedProtocols.forEach(this.addScheme);
+            this.addManagedSchemes();
         });
     };
 
@@ -43,6 +47,42 @@ export class AllowProtocolDialog {
         }
     };
 
+    setAllowedProtocols = (allowedProtocols: string[]) => {
+        this.allowedProtocols = allowedProtocols.filter((proto) => !this.managedProtocols.includes(proto));
+        this.addScheme('http');
+        this.addScheme('https');
+        this.addManagedSchemes();
+        this.save();
+    };
+
+    /**
+     * Replaces the protocols allowed by the config with the ones it allows now, for when the config changes while the app is running
+     */
+    updateManagedProtocols = () => {
+        this.allowedProtocols = this.allowedProtocols.filter((proto) => !this.managedProtocols.includes(proto));
+        this.addManagedSchemes();
+    };
+
+    private addManagedSchemes = () => {
+        this.managedProtocols = [];
+        Config.allowedProtocols.forEach((scheme) => {
+            const proto = `${scheme}:`;
+            if (!this.allowedProtocols.includes(proto)) {
+                this.allowedProtocols.push(proto);
+                this.managedProtocols.push(proto);
+            }
+        });
+    };
+
+    save = () => {
+        function handleError(err: NodeJS.ErrnoException | null) {
+            if (err) {
+                log.error(err);
+            }
+        }
+        fs.writeFile(allowedProtocolFile, JSON.stringify(this.allowedProtocols.filter((proto) => !this.managedProtocols.includes(proto))), handleError);
+    };
+
     handleDialogEvent = async (protocol: string, URL: string) => {
         try {
             if (this.allowedProtocols.indexOf(protocol) !== -1) {
@@ -71,12 +111,7 @@ export class AllowProtocolDialog {
             switch (response) {
             case 1: {
                 this.allowedProtocols.push(protocol);
-                function handleError(err: NodeJS.ErrnoException | null) {
-                    if (err) {
-                        log.error(err);
-                    }
-                }
-                fs.writeFile(allowedProtocolFile, JSON.stringify(this.allowedProtocols), handleError);
+                this.save();
                 await shell.openExternal(URL);
                 break;
             }
@@ -34,9 +34,12 @@ export function handleGetLocalConfiguration() {
 
     return {
         ...Config.localData,
+        ...Config.environmentSettingsData,
+        ...Config.lockedSettingsData,
         appName: app.name,
         enableServerManagement: Config.enableServerManagement,
         canUpgrade: Config.canUpgrade,
+        lockedSettings: Config.lockedSettings,
     };
 }
 
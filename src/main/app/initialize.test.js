@@ -7,6 +7,7 @@ import {app, session} from 'electron';
 
 import Config from 'common/config';
 import parseArgs from 'main/ParseArgs';
+import ProfileManager from 'main/profileManager';
 import ViewManager from 'main/views/viewManager';
 
 import {initialize} from './initialize';
@@ -19,6 +20,8 @@ jest.mock('fs', () => ({
     readFile: jest.fn(),
     readFileSync: jest.fn().mockImplementation((text) => text),
     unlinkSync: jest.fn(),
+    unwatchFile: jest.fn(),
+    watchFile: jest.fn(),
     writeFile: jest.fn(),
     writeFileSync: jest.fn(),
 }));
@@ -66,6 +69,7 @@ jest.mock('electron', () => ({
         defaultSession: {
             webRequest: {
                 onHeadersReceived: jest.fn(),
+                onBeforeSendHeaders: jest.fn(),
             },
             setSpellCheckerDictionaryDownloadURL: jest.fn(),
             setPermissionRequestHandler: jest.fn(),
@@ -109,6 +113,8 @@ jest.mock('common/config', () => ({
     on: jest.fn(),
     init: jest.fn(),
     initRegistry: jest.fn(),
+    initPolicy: jest.fn(),
+    watchLocalConfigFile: jest.fn(),
 }));
 
 jest.mock('main/allowProtocolDialog', () => ({
@@ -153,9 +159,41 @@ jest.mock('main/notifications', () => ({
     getDoNotDisturb: jest.fn(),
 }));
 jest.mock('main/ParseArgs', () => jest.fn());
+jest.mock('main/provisioning', () => ({
+    init: jest.fn(),
+    stop: jest.fn(),
+}));
+jest.mock('main/server/serverCompatibility', () => ({
+    init: jest.fn(),
+}));
+jest.mock('main/server/serverHealth', () => ({
+    init: jest.fn(),
+}));
+jest.mock('main/server/siteURLChanges', () => ({
+    init: jest.fn(),
+}));
+jest.mock('main/server/duplicateServers', () => ({
+    init: jest.fn(),
+}));
+jest.mock('main/server/serverHeaders', () => ({
+    createBeforeSendHeadersHandler: jest.fn(),
+}));
+jest.mock('main/server/remoteInfoCache', () => ({
+    load: jest.fn(),
+}));
+jest.mock('main/server/serverSessions', () => ({
+    init: jest.fn(),
+    on: jest.fn(),
+}));
+jest.mock('main/profileManager', () => ({
+    init: jest.fn(),
+    isValidProfileName: jest.fn(),
+    getProfileDataPath: jest.fn(),
+}));
 jest.mock('common/servers/serverManager', () => ({
     reloadFromConfig: jest.fn(),
     getAllServers: jest.fn(),
+    getEnabledServers: jest.fn(),
     on: jest.fn(),
 }));
 jest.mock('main/tray/tray', () => ({
@@ -224,6 +262,27 @@ describe('main/app/initialize', () => {
             await initialize();
             expect(app.setPath).toHaveBeenCalledWith('userData', '/basedir/some/dir');
         });
+
+        it('should use the profile data directory when a profile is specified', async () => {
+            parseArgs.mockReturnValue({
+                profile: 'work',
+            });
+            ProfileManager.isValidProfileName.mockReturnValue(true);
+            ProfileManager.getProfileDataPath.mockImplementation((name) => `/basedir/userData/profiles/${name}`);
+            await initialize();
+            expect(ProfileManager.init).toHaveBeenCalledWith('/basedir/userData', 'work');
+            expect(app.setPath).toHaveBeenCalledWith('userData', '/basedir/userData/profiles/work');
+        });
+
+        it('should use the default profile when the profile name is invalid', async () => {
+            parseArgs.mockReturnValue({
+                profile: '../other',
+            });
+            ProfileManager.isValidProfileName.mockReturnValue(false);
+            await initialize();
+            expect(ProfileManager.init).toHaveBeenCalledWith('/basedir/userData', undefined);
+            expect(app.setPath).not.toHaveBeenCalled();
+        });
     });
 
     describe('initializeConfig', () => {
@@ -4,6 +4,7 @@
 import path from 'path';
 import {pathToFileURL} from 'url';
 
+import type {Session} from 'electron';
 import {app, ipcMain, nativeTheme, net, protocol, session} from 'electron';
 import installExtension, {REACT_DEVELOPER_TOOLS} from 'electron-extension-installer';
 import isDev from 'electron-is-dev';
@@ -49,6 +50,15 @@ import NonceManager from 'main/nonceManager';
 import {getDoNotDisturb} from 'main/notifications';
 import parseArgs from 'main/ParseArgs';
 import PermissionsManager from 'main/permissionsManager';
+import ProfileManager from 'main/profileManager';
+import ProvisioningManager from 'main/provisioning';
+import DuplicateServers from 'main/server/duplicateServers';
+import RemoteInfoCache from 'main/server/remoteInfoCache';
+import ServerCompatibility from 'main/server/serverCompatibility';
+import ServerHeaders from 'main/server/serverHeaders';
+import ServerHealth from 'main/server/serverHealth';
+import ServerSessions from 'main/server/serverSessions';
+import SiteURLChanges from 'main/server/siteURLChanges';
 import Tray from 'main/tray/tray';
 import TrustedOriginsStore from 'main/trustedOrigins';
 import UserActivityMonitor from 'main/UserActivityMonitor';
@@ -117,10 +127,11 @@ export async function initialize() {
     initializeAppEventListeners();
     initializeBeforeAppReady();
 
-    // wait for registry config data to load and app ready event
+    // wait for registry and policy config data to load and app ready event
     await Promise.all([
         app.whenReady(),
         Config.initRegistry(),
+        Config.initPolicy(),
     ]);
 
     // no need to continue initializing if app is quitting
@@ -153,6 +164,18 @@ function initializeArgs() {
         app.setPath('userData', path.resolve(global.args.dataDir));
         updatePaths(true);
     }
+
+    // profiles live inside of the data directory, so this has to happen after it has been set
+    let profile = global.args.profile;
+    if (profile && !ProfileManager.isValidProfileName(profile)) {
+        log.warn(`Invalid profile name ${profile}, using the default profile`);
+        profile = undefined;
+    }
+    ProfileManager.init(app.getPath('userData'), profile);
+    if (profile) {
+        app.setPath('userData', ProfileManager.getProfileDataPath(profile));
+        updatePaths(true);
+    }
 }
 
 async function initializeConfig() {
@@ -193,6 +216,7 @@ function initializeAppEventListeners() {
     app.on('browser-window-created', handleAppBrowserWindowCreated);
     app.on('activate', () => MainWindow.show());
     app.on('before-quit', handleAppBeforeQuit);
+    app.on('before-quit', ProvisioningManager.stop);
     app.on('certificate-error', handleAppCertificateError);
     app.on('select-client-certificate', CertificateManager.handleSelectCertificate);
     app.on('child-process-gone', handleChildProcessGone);
@@ -304,14 +328,30 @@ async function initializeAfterAppReady() {
         return net.fetch(pathToFileURL(pathToServe).toString());
     });
 
+    // the provisioning URL from the policy file takes precedence over the one passed on the command line
+    await ProvisioningManager.init(Config.policyData?.provisionURL ?? global.args.provisionURL);
     ServerManager.reloadFromConfig();
-    updateServerInfos(ServerManager.getAllServers());
+    ServerSessions.on('created', initializeServerSession);
+    ServerSessions.init();
+    SiteURLChanges.init();
+    DuplicateServers.init();
+    ServerCompatibility.init();
+
+    // the remote info saved on the last run is used right away, while it is fetched again in the background
+    RemoteInfoCache.load(ServerManager.getEnabledServers());
+    updateServerInfos(ServerManager.getEnabledServers());
+    ServerHealth.init();
     ServerManager.on(SERVERS_URL_MODIFIED, (serverIds?: string[]) => {
         if (serverIds && serverIds.length) {
-            updateServerInfos(serverIds.map((srvId) => ServerManager.getServer(srvId)!));
+            updateServerInfos(serverIds.map((srvId) => ServerManager.getServer(srvId)!).filter((srv) => srv.enabled));
         }
     });
 
+    // pick up changes made to the config and permissions files while the app is running
+    Config.on('serversUpdate', ServerManager.syncFromConfig);
+    Config.watchLocalConfigFile();
+    PermissionsManager.watch();
+
     app.setAppUserModelId('Mattermost.Desktop'); // Use explicit AppUserModelID
     const defaultSession = session.defaultSession;
     defaultSession.webRequest.onHeadersReceived((details, callback) => {
@@ -328,25 +368,10 @@ async function initializeAfterAppReady() {
 
         downloadsManager.webRequestOnHeadersReceivedHandler(details, callback);
     });
+    defaultSession.webRequest.onBeforeSendHeaders(ServerHeaders.createBeforeSendHeadersHandler(defaultSession));
 
     if (process.platform !== 'darwin') {
-        defaultSession.on('spellcheck-dictionary-download-failure', (event, lang) => {
-            if (Config.spellCheckerURL) {
-                log.error(`There was an error while trying to load the dictionary definitions for ${lang} from fully the specified url. Please review you have access to the needed files. Url used was ${Config.spellCheckerURL}`);
-            } else {
-                log.warn(`There was an error while trying to download the dictionary definitions for ${lang}, spellchecking might not work properly.`);
-            }
-        });
-
-        if (Config.spellCheckerURL) {
-            const spellCheckerURL = Config.spellCheckerURL.endsWith('/') ? Config.spellCheckerURL : `${Config.spellCheckerURL}/`;
-            log.info(`Configuring spellchecker using download URL: ${spellCheckerURL}`);
-            defaultSession.setSpellCheckerDictionaryDownloadURL(spellCheckerURL);
-
-            defaultSession.on('spellcheck-dictionary-download-success', (event, lang) => {
-                log.info(`Dictionary definitions downloaded successfully for ${lang}`);
-            });
-        }
+        initializeSpellChecker(defaultSession);
         updateSpellCheckerLocales();
     }
 
@@ -445,6 +470,42 @@ async function initializeAfterAppReady() {
     handleMainWindowIsShown();
 }
 
+function initializeSpellChecker(serverSession: Session) {
+    serverSession.on('spellcheck-dictionary-download-failure', (event, lang) => {
+        if (Config.spellCheckerURL) {
+            log.error(`There was an error while trying to load the dictionary definitions for ${lang} from fully the specified url. Please review you have access to the needed files. Url used was ${Config.spellCheckerURL}`);
+        } else {
+            log.warn(`There was an error while trying to download the dictionary definitions for ${lang}, spellchecking might not work properly.`);
+        }
+    });
+
+    if (Config.spellCheckerURL) {
+        const spellCheckerURL = Config.spellCheckerURL.endsWith('/') ? Config.spellCheckerURL : `${Config.spellCheckerURL}/`;
+        log.info(`Configuring spellchecker using download URL: ${spellCheckerURL}`);
+        serverSession.setSpellCheckerDictionaryDownloadURL(spellCheckerURL);
+
+        serverSession.on('spellcheck-dictionary-download-success', (event, lang) => {
+            log.info(`Dictionary definitions downloaded successfully for ${lang}`);
+        });
+    }
+}
+
+// the servers with an isolated session or a proxy of their own get a partition, which has to handle headers, downloads, permissions and spellchecking like the default session
+// certificate errors, client certificates and logins are handled on the app, so they already cover every partition
+function initializeServerSession(serverSession: Session) {
+    serverSession.webRequest.onHeadersReceived(downloadsManager.webRequestOnHeadersReceivedHandler);
+    serverSession.webRequest.onBeforeSendHeaders(ServerHeaders.createBeforeSendHeadersHandler(serverSession));
+    serverSession.on('will-download', downloadsManager.handleNewDownload);
+    serverSession.setPermissionRequestHandler(PermissionsManager.handlePermissionRequest);
+
+    if (process.platform !== 'darwin') {
+        initializeSpellChecker(serverSession);
+        if (Config.spellCheckerLocales.length) {
+            serverSession.setSpellCheckerLanguages(Config.spellCheckerLocales);
+        }
+    }
+}
+
 function handleStartDownload() {
     if (updateManager) {
         updateManager.handleDownload();
@@ -51,6 +51,19 @@ jest.mock('main/i18nManager', () => ({
 }));
 jest.mock('main/menus/app', () => ({}));
 jest.mock('main/menus/tray', () => ({}));
+jest.mock('main/server/remoteInfoCache', () => ({
+    save: jest.fn(),
+}));
+jest.mock('main/server/siteURLDecisions', () => ({
+    get: jest.fn(),
+    save: jest.fn(),
+}));
+jest.mock('main/server/serverCompatibility', () => ({
+    update: jest.fn(),
+}));
+jest.mock('main/server/desktopPolicy', () => ({
+    update: jest.fn(),
+}));
 jest.mock('main/tray/tray', () => ({}));
 jest.mock('main/views/viewManager', () => ({}));
 jest.mock('main/windows/mainWindow', () => ({
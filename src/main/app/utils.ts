@@ -5,7 +5,7 @@ import fs from 'fs';
 import path from 'path';
 
 import type {BrowserWindow, Rectangle} from 'electron';
-import {app, Menu, session, dialog, nativeImage, screen} from 'electron';
+import {app, Menu, dialog, nativeImage, screen} from 'electron';
 import isDev from 'electron-is-dev';
 
 import {APP_MENU_WILL_CLOSE} from 'common/communication';
@@ -20,7 +20,12 @@ import {migrationInfoPath, updatePaths} from 'main/constants';
 import {localizeMessage} from 'main/i18nManager';
 import {createMenu as createAppMenu} from 'main/menus/app';
 import {createMenu as createTrayMenu} from 'main/menus/tray';
+import DesktopPolicy from 'main/server/desktopPolicy';
+import RemoteInfoCache from 'main/server/remoteInfoCache';
+import ServerAvatars from 'main/server/serverAvatars';
+import ServerCompatibility from 'main/server/serverCompatibility';
 import {ServerInfo} from 'main/server/serverInfo';
+import ServerSessions from 'main/server/serverSessions';
 import Tray from 'main/tray/tray';
 import ViewManager from 'main/views/viewManager';
 import MainWindow from 'main/windows/mainWindow';
@@ -47,7 +52,7 @@ export function openDeepLink(deeplinkingUrl: string) {
 
 export function updateSpellCheckerLocales() {
     if (Config.spellCheckerLocales.length && app.isReady()) {
-        session.defaultSession.setSpellCheckerLanguages(Config.spellCheckerLocales);
+        ServerSessions.getAllSessions().forEach((serverSession) => serverSession.setSpellCheckerLanguages(Config.spellCheckerLocales));
     }
 }
 
@@ -68,11 +73,15 @@ export function handleUpdateMenuEvent() {
     }
 }
 
+export function getDeeplinkingProtocol() {
+    return isDev ? 'mattermost-dev' : mainProtocol;
+}
+
 export function getDeeplinkingURL(args: string[]) {
     if (Array.isArray(args) && args.length) {
     // deeplink urls should always be the last argument, but may not be the first (i.e. Windows with the app already running)
         const url = args[args.length - 1];
-        const protocol = isDev ? 'mattermost-dev' : mainProtocol;
+        const protocol = getDeeplinkingProtocol();
         if (url && protocol && url.startsWith(protocol) && isValidURI(url)) {
             return url;
         }
@@ -178,8 +187,10 @@ export function resizeScreen(browserWindow: BrowserWindow) {
 
 export function flushCookiesStore() {
     log.debug('flushCookiesStore');
-    session.defaultSession.cookies.flushStore().catch((err) => {
-        log.error(`There was a problem flushing cookies:\n${err}`);
+    ServerSessions.getAllSessions().forEach((serverSession) => {
+        serverSession.cookies.flushStore().catch((err) => {
+            log.error(`There was a problem flushing cookies:\n${err}`);
+        });
     });
 }
 
@@ -247,10 +258,16 @@ export async function updateServerInfos(servers: MattermostServer[]) {
         return serverInfo.fetchRemoteInfo().
             then((data) => {
                 map.set(srv.id, data);
+
+                // the avatar isn't needed for anything else, so the remote info doesn't wait for it
+                ServerAvatars.updateFavicon(srv, serverInfo);
             }).
             catch((error) => {
                 log.warn('Could not get server info for', srv.name, error);
             });
     }));
     ServerManager.updateRemoteInfos(map);
+    RemoteInfoCache.save(map);
+    ServerCompatibility.update([...map.keys()]);
+    DesktopPolicy.update([...map.keys()]);
 }
@@ -20,6 +20,10 @@ export let boundsInfoPath = '';
 export let migrationInfoPath = '';
 export let downloadsJson = '';
 export let permissionsJson = '';
+export let provisioningCachePath = '';
+export let serverAvatarsPath = '';
+export let remoteInfoJson = '';
+export let siteURLDecisionsJson = '';
 
 export function updatePaths(emit = false) {
     userDataPath = app.getPath('userData');
@@ -33,6 +37,10 @@ export function updatePaths(emit = false) {
     migrationInfoPath = path.resolve(userDataPath, 'migration-info.json');
     downloadsJson = path.resolve(userDataPath, 'downloads.json');
     permissionsJson = path.resolve(userDataPath, 'permissions.json');
+    provisioningCachePath = path.resolve(userDataPath, 'provisioning.json');
+    serverAvatarsPath = path.resolve(userDataPath, 'avatars');
+    remoteInfoJson = path.resolve(userDataPath, 'remote-info.json');
+    siteURLDecisionsJson = path.resolve(userDataPath, 'site-url-decisions.json');
 
     if (emit) {
         ipcMain.emit(UPDATE_PATHS);
@@ -12,6 +12,9 @@ import Step0 from './steps/step0.logLevel';
 import Step1 from './steps/step1.internetConnection';
 import Step10 from './steps/step10.crashReports';
 import Step11 from './steps/step11.auth';
+import Step12 from './steps/step12.siteURLChanges';
+import Step13 from './steps/step13.remoteInfo';
+import Step14 from './steps/step14.desktopPolicy';
 import Step2 from './steps/step2.configValidation';
 import Step3 from './steps/step3.serverConnectivity';
 import Step4 from './steps/step4.sessionDataValidation';
@@ -34,6 +37,9 @@ const SORTED_STEPS: DiagnosticsStep[] = [
     Step9,
     Step10,
     Step11,
+    Step12,
+    Step13,
+    Step14,
 ];
 const maxStepNameLength = Math.max(...SORTED_STEPS.map((s) => s.name.length));
 const HASHTAGS = '#'.repeat(20);
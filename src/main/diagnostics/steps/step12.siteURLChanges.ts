@@ -0,0 +1,50 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {MainLogger} from 'electron-log';
+
+import SiteURLChanges from 'main/server/siteURLChanges';
+
+import type {DiagnosticStepResponse} from 'types/diagnostics';
+
+import DiagnosticsStep from '../DiagnosticStep';
+
+const stepName = 'Step-12';
+const stepDescriptiveName = 'SiteURLChanges';
+
+const run = async (logger: MainLogger): Promise<DiagnosticStepResponse> => {
+    try {
+        const payload = SiteURLChanges.getDiagnostics();
+        const flappingServers = payload.filter((server) => server.isFlapping);
+
+        if (flappingServers.length) {
+            logger.warn(`Diagnostics ${stepName}: the Site URL keeps changing`, {servers: flappingServers.map((server) => server.name)});
+            return {
+                message: `${stepName} failed, the Site URL of ${flappingServers.length} server(s) keeps changing`,
+                succeeded: false,
+                payload,
+            };
+        }
+
+        return {
+            message: `${stepName} finished successfully`,
+            succeeded: true,
+            payload,
+        };
+    } catch (error) {
+        logger.warn(`Diagnostics ${stepName} Failure`, {error});
+        return {
+            message: `${stepName} failed`,
+            succeeded: false,
+            payload: error,
+        };
+    }
+};
+
+const Step12 = new DiagnosticsStep({
+    name: `diagnostic-${stepName}: ${stepDescriptiveName}`,
+    retries: 0,
+    run,
+});
+
+export default Step12;
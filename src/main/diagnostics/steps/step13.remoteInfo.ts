@@ -0,0 +1,50 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {MainLogger} from 'electron-log';
+
+import RemoteInfoCache from 'main/server/remoteInfoCache';
+
+import type {DiagnosticStepResponse} from 'types/diagnostics';
+
+import DiagnosticsStep from '../DiagnosticStep';
+
+const stepName = 'Step-13';
+const stepDescriptiveName = 'RemoteInfo';
+
+const run = async (logger: MainLogger): Promise<DiagnosticStepResponse> => {
+    try {
+        const payload = RemoteInfoCache.getDiagnostics();
+        const staleServers = payload.filter((server) => server.isStale);
+
+        if (staleServers.length) {
+            logger.warn(`Diagnostics ${stepName}: the remote info is missing or out of date`, {servers: staleServers.map((server) => server.name)});
+            return {
+                message: `${stepName} failed, the remote info of ${staleServers.length} server(s) is missing or out of date`,
+                succeeded: false,
+                payload,
+            };
+        }
+
+        return {
+            message: `${stepName} finished successfully`,
+            succeeded: true,
+            payload,
+        };
+    } catch (error) {
+        logger.warn(`Diagnostics ${stepName} Failure`, {error});
+        return {
+            message: `${stepName} failed`,
+            succeeded: false,
+            payload: error,
+        };
+    }
+};
+
+const Step13 = new DiagnosticsStep({
+    name: `diagnostic-${stepName}: ${stepDescriptiveName}`,
+    retries: 0,
+    run,
+});
+
+export default Step13;
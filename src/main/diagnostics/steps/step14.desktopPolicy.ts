@@ -0,0 +1,50 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {MainLogger} from 'electron-log';
+
+import DesktopPolicy from 'main/server/desktopPolicy';
+
+import type {DiagnosticStepResponse} from 'types/diagnostics';
+
+import DiagnosticsStep from '../DiagnosticStep';
+
+const stepName = 'Step-14';
+const stepDescriptiveName = 'DesktopPolicy';
+
+const run = async (logger: MainLogger): Promise<DiagnosticStepResponse> => {
+    try {
+        const payload = DesktopPolicy.getDiagnostics();
+        const unsupportedServers = payload.filter((server) => !server.isDesktopVersionSupported);
+
+        if (unsupportedServers.length) {
+            logger.warn(`Diagnostics ${stepName}: the app is older than the version required by the server`, {servers: unsupportedServers.map((server) => server.name)});
+            return {
+                message: `${stepName} failed, ${unsupportedServers.length} server(s) require a newer version of the app`,
+                succeeded: false,
+                payload,
+            };
+        }
+
+        return {
+            message: `${stepName} finished successfully`,
+            succeeded: true,
+            payload,
+        };
+    } catch (error) {
+        logger.warn(`Diagnostics ${stepName} Failure`, {error});
+        return {
+            message: `${stepName} failed`,
+            succeeded: false,
+            payload: error,
+        };
+    }
+};
+
+const Step14 = new DiagnosticsStep({
+    name: `diagnostic-${stepName}: ${stepDescriptiveName}`,
+    retries: 0,
+    run,
+});
+
+export default Step14;
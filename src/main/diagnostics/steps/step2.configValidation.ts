@@ -9,6 +9,7 @@ import * as Validator from 'common/Validator';
 import {configPath} from 'main/constants';
 
 import type {DiagnosticStepResponse} from 'types/diagnostics';
+import type {ValidationProblem} from 'types/validation';
 
 import DiagnosticsStep from '../DiagnosticStep';
 
@@ -20,10 +21,22 @@ const run = async (logger: MainLogger): Promise<DiagnosticStepResponse> => {
         const configData = JSON.parse(fs.readFileSync(configPath, 'utf8'));
 
         // validate based on config file version
-        const validData = Validator.validateConfigData(configData);
+        const problems: ValidationProblem[] = [];
+        const validData = Validator.validateConfigData(configData, problems);
+        problems.forEach((problem) => {
+            logger.warn(`Diagnostics ${stepName} config problem at "${problem.path}": ${problem.reason}`);
+        });
 
         if (!validData) {
-            throw new Error(`Config validation failed. Config: ${JSON.stringify(Config.data, null, 4)}`);
+            throw new Error(`Config validation failed. Problems: ${JSON.stringify(problems, null, 4)} Config: ${JSON.stringify(Config.data, null, 4)}`);
+        }
+
+        if (problems.length) {
+            return {
+                message: `${stepName} found ${problems.length} invalid fields in the config, they are dropped when the config is loaded`,
+                succeeded: false,
+                payload: {problems},
+            };
         }
 
         return {
@@ -17,7 +17,7 @@ const stepDescriptiveName = 'serverConnectivity';
 
 const run = async (logger: MainLogger): Promise<DiagnosticStepResponse> => {
     try {
-        const servers = ServerManager.getAllServers();
+        const servers = ServerManager.getEnabledServers();
 
         await Promise.all(servers.map(async (server) => {
             logger.debug('Pinging server: ', server.url);
@@ -14,7 +14,13 @@ const stepDescriptiveName = 'Config';
 
 const run = async (logger: MainLogger): Promise<DiagnosticStepResponse> => {
     try {
-        const payload = config.data;
+        const payload = {
+            ...config.data,
+            environmentKeys: Object.keys(config.environmentData ?? {}),
+        };
+        if (payload.environmentKeys.length) {
+            logger.debug(`Diagnostics ${stepName} settings from the environment`, payload.environmentKeys);
+        }
 
         return {
             message: `${stepName} finished successfully`,
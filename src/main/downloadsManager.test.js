@@ -3,12 +3,14 @@
 import fs from 'fs';
 import path from 'path';
 
-import {shell} from 'electron';
+import {dialog, shell} from 'electron';
 import {getDoNotDisturb as getDarwinDoNotDisturb} from 'macos-notification-state';
 
 import Config from 'common/config';
 import {APP_UPDATE_KEY} from 'common/constants';
 import {DownloadsManager} from 'main/downloadsManager';
+import DesktopPolicy from 'main/server/desktopPolicy';
+import ViewManager from 'main/views/viewManager';
 
 const downloadLocationMock = '/path/to/downloads';
 const locationMock = '/some/dir/file.txt';
@@ -37,6 +39,9 @@ jest.mock('electron', () => {
             },
             setBounds: jest.fn(),
         })),
+        dialog: {
+            showErrorBox: jest.fn(),
+        },
         ipcMain: {
             emit: jest.fn(),
             handle: jest.fn(),
@@ -74,14 +79,26 @@ jest.mock('fs', () => ({
     readFileSync: jest.fn().mockImplementation((text) => text),
     writeFile: jest.fn(),
 }));
+jest.mock('common/utils/safeFile', () => ({
+    restoreFromBackup: jest.fn(),
+    writeFileSafe: jest.fn(),
+}));
 jest.mock('macos-notification-state', () => ({
     getDoNotDisturb: jest.fn(),
 }));
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
 jest.mock('main/notifications', () => ({}));
+jest.mock('main/server/desktopPolicy', () => ({
+    isDownloadAllowed: jest.fn(),
+}));
 jest.mock('main/windows/mainWindow', () => ({
     sendToRenderer: jest.fn(),
 }));
-jest.mock('main/views/viewManager', () => ({}));
+jest.mock('main/views/viewManager', () => ({
+    getViewByWebContentsId: jest.fn(),
+}));
 jest.mock('common/config', () => {
     const original = jest.requireActual('common/config');
     return {
@@ -166,6 +183,17 @@ describe('main/downloadsManager', () => {
         }});
     });
 
+    it('should not download the files that the server does not allow', async () => {
+        const dl = new DownloadsManager({});
+        const webContents = {id: 0, getURL: jest.fn(), downloadURL: jest.fn()};
+        ViewManager.getViewByWebContentsId.mockReturnValue({view: {server: {id: 'server-1'}}});
+        DesktopPolicy.isDownloadAllowed.mockReturnValue(false);
+        await dl.handleNewDownload({preventDefault: jest.fn()}, item, webContents);
+        expect(DesktopPolicy.isDownloadAllowed).toHaveBeenCalledWith('server-1', 'file.txt');
+        expect(dialog.showErrorBox).toHaveBeenCalled();
+        expect(webContents.downloadURL).not.toHaveBeenCalled();
+    });
+
     it('should monitor network to retrieve the file size of downloading items', () => {
         const dl = new DownloadsManager({});
         const details = {
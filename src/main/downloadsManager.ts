@@ -28,10 +28,12 @@ import Config from 'common/config';
 import {APP_UPDATE_KEY, UPDATE_DOWNLOAD_ITEM} from 'common/constants';
 import JsonFileManager from 'common/JsonFileManager';
 import {Logger} from 'common/log';
+import ServerManager from 'common/servers/serverManager';
 import {DOWNLOADS_DROPDOWN_AUTOCLOSE_TIMEOUT, DOWNLOADS_DROPDOWN_MAX_ITEMS} from 'common/utils/constants';
 import * as Validator from 'common/Validator';
 import {localizeMessage} from 'main/i18nManager';
 import NotificationManager from 'main/notifications';
+import DesktopPolicy from 'main/server/desktopPolicy';
 import {doubleSecToMs, getPercentage, isStringWithLength, readFilenameFromContentDispositionHeader, shouldIncrementFilename} from 'main/utils';
 import ViewManager from 'main/views/viewManager';
 import MainWindow from 'main/windows/mainWindow';
@@ -58,7 +60,7 @@ export class DownloadsManager extends JsonFileManager<DownloadedItems> {
     bookmarks: Map<string, {originalPath: string; bookmark: string}>;
 
     constructor(file: string) {
-        super(file);
+        super(file, Validator.validateDownloads);
 
         this.open = false;
         this.fileSizes = new Map();
@@ -131,15 +133,26 @@ export class DownloadsManager extends JsonFileManager<DownloadedItems> {
         } else {
             event.preventDefault();
 
-            if (this.shouldShowSaveDialog(item, Config.downloadLocation)) {
-                const saveDialogResult = await this.showSaveDialog(item);
+            const serverId = ViewManager.getViewByWebContentsId(webContents.id)?.view.server.id;
+            if (serverId && !DesktopPolicy.isDownloadAllowed(serverId, item.getFilename())) {
+                log.withPrefix(serverId).warn('The download is not allowed by the server', {filename: item.getFilename()});
+                dialog.showErrorBox(
+                    localizeMessage('main.downloadsManager.notAllowed.title', 'Download Blocked'),
+                    localizeMessage('main.downloadsManager.notAllowed.body', 'The file {filename} cannot be downloaded, the server only allows some types of files to be downloaded.', {filename: item.getFilename()}),
+                );
+                return;
+            }
+
+            const serverDownloadLocation = this.getDownloadLocationForWebContents(webContents);
+            if (this.shouldShowSaveDialog(item, serverDownloadLocation)) {
+                const saveDialogResult = await this.showSaveDialog(item, serverDownloadLocation);
                 if (saveDialogResult.canceled || !saveDialogResult.filePath) {
                     return;
                 }
                 this.willDownloadURLs.set(url, {filePath: saveDialogResult.filePath, bookmark: saveDialogResult.bookmark});
             } else {
-                const filename = this.createFilename(item);
-                const downloadLocation = await this.verifyMacAppStoreDownloadFolder(filename);
+                const filename = this.createFilename(item, serverDownloadLocation);
+                const downloadLocation = serverDownloadLocation === Config.downloadLocation ? await this.verifyMacAppStoreDownloadFolder(filename) : serverDownloadLocation;
                 const savePath = this.getSavePath(`${downloadLocation}`, filename);
                 this.willDownloadURLs.set(url, {filePath: savePath});
             }
@@ -473,14 +486,14 @@ export class DownloadsManager extends JsonFileManager<DownloadedItems> {
         return !item.hasUserGesture() || !downloadLocation;
     };
 
-    private showSaveDialog = (item: DownloadItem) => {
+    private showSaveDialog = (item: DownloadItem, downloadLocation = Config.downloadLocation) => {
         const filename = item.getFilename();
         const fileElements = filename.split('.');
         const filters = this.getFileFilters(fileElements.slice(fileElements.length - 1));
 
         return dialog.showSaveDialog({
             title: filename,
-            defaultPath: Config.downloadLocation ? path.join(Config.downloadLocation, filename) : filename,
+            defaultPath: downloadLocation ? path.join(downloadLocation, filename) : filename,
             filters,
             securityScopedBookmarks: true,
         });
@@ -684,12 +697,23 @@ export class DownloadsManager extends JsonFileManager<DownloadedItems> {
         return filters;
     };
 
-    private createFilename = (item: DownloadItem): string => {
+    private createFilename = (item: DownloadItem, downloadLocation = Config.downloadLocation): string => {
         const defaultFilename = item.getFilename();
-        const incrementedFilenameIfExists = shouldIncrementFilename(path.join(`${Config.downloadLocation}`, defaultFilename));
+        const incrementedFilenameIfExists = shouldIncrementFilename(path.join(`${downloadLocation}`, defaultFilename));
         return incrementedFilenameIfExists;
     };
 
+    /**
+     * Resolves the download location for the server that the download originated from, if there is one
+     */
+    private getDownloadLocationForWebContents = (webContents: WebContents) => {
+        const view = ViewManager.getViewByWebContentsId(webContents.id);
+        if (!view) {
+            return Config.downloadLocation;
+        }
+        return ServerManager.getServerSettings(view.view.server.id).downloadLocation;
+    };
+
     private readFilenameFromPath = (savePath: string) => {
         const pathObj = path.parse(savePath);
         return pathObj.base;
@@ -8,6 +8,8 @@ import {getDoNotDisturb as getDarwinDoNotDisturb} from 'macos-notification-state
 import ServerViewState from 'app/serverViewState';
 import ServerManager from 'common/servers/serverManager';
 import {localizeMessage} from 'main/i18nManager';
+import DesktopPolicy from 'main/server/desktopPolicy';
+import ViewManager from 'main/views/viewManager';
 import CallsWidgetWindow from 'main/windows/callsWidgetWindow';
 
 import {createTemplate} from './app';
@@ -66,7 +68,7 @@ jest.mock('main/i18nManager', () => ({
 }));
 jest.mock('common/servers/serverManager', () => ({
     hasServers: jest.fn(),
-    getOrderedServers: jest.fn(),
+    getEnabledServers: jest.fn(),
     getOrderedTabsForServer: jest.fn(),
 }));
 jest.mock('app/serverViewState', () => ({
@@ -77,7 +79,23 @@ jest.mock('main/diagnostics', () => ({}));
 jest.mock('main/downloadsManager', () => ({
     hasDownloads: jest.fn(),
 }));
-jest.mock('main/views/viewManager', () => ({}));
+jest.mock('main/profileBundle', () => ({
+    exportProfile: jest.fn(),
+    importProfile: jest.fn(),
+}));
+jest.mock('main/profileManager', () => ({
+    getProfiles: jest.fn().mockReturnValue([]),
+    showCreateProfileModal: jest.fn(),
+    showRenameProfileModal: jest.fn(),
+    showDeleteProfileDialog: jest.fn(),
+    switchProfile: jest.fn(),
+}));
+jest.mock('main/server/desktopPolicy', () => ({
+    areDevToolsAllowed: jest.fn(),
+}));
+jest.mock('main/views/viewManager', () => ({
+    getCurrentView: jest.fn(),
+}));
 jest.mock('main/windows/mainWindow', () => ({
     get: jest.fn(),
 }));
@@ -90,6 +108,7 @@ jest.mock('main/AutoLauncher', () => ({
 }));
 jest.mock('main/windows/callsWidgetWindow', () => ({
     isOpen: jest.fn(),
+    getServerId: jest.fn(),
 }));
 jest.mock('main/views/modalManager', () => ({
     addModal: jest.fn(),
@@ -132,7 +151,7 @@ describe('main/menus/app', () => {
 
     beforeEach(() => {
         ServerViewState.getCurrentServer.mockReturnValue(servers[0]);
-        ServerManager.getOrderedServers.mockReturnValue(servers);
+        ServerManager.getEnabledServers.mockReturnValue(servers);
         ServerManager.getOrderedTabsForServer.mockReturnValue(views);
         getDarwinDoNotDisturb.mockReturnValue(false);
     });
@@ -278,7 +297,7 @@ describe('main/menus/app', () => {
                 isOpen: true,
             },
         ];
-        ServerManager.getOrderedServers.mockReturnValue(modifiedServers);
+        ServerManager.getEnabledServers.mockReturnValue(modifiedServers);
         ServerManager.getOrderedTabsForServer.mockReturnValue(modifiedViews);
         const menu = createTemplate(config);
         const windowMenu = menu.find((item) => item.label === '&Window');
@@ -368,4 +387,16 @@ describe('main/menus/app', () => {
         const menuItem = devToolsSubMenu.submenu.find((item) => item.label === 'main.menus.app.view.devToolsCurrentCallWidget');
         expect(menuItem).not.toBe(undefined);
     });
+
+    it('should disable the developer tools for the current server when the server does not allow them', () => {
+        ViewManager.getCurrentView.mockReturnValue({view: {server: {id: 'server-1'}}});
+        DesktopPolicy.areDevToolsAllowed.mockReturnValue(false);
+        const menu = createTemplate(config);
+
+        const appMenu = menu.find((item) => item.label === 'main.menus.app.view');
+        const devToolsSubMenu = appMenu.submenu.find((item) => item.label === 'main.menus.app.view.devToolsSubMenu');
+        const menuItem = devToolsSubMenu.submenu.find((item) => item.label === 'main.menus.app.view.devToolsCurrentServer');
+        expect(DesktopPolicy.areDevToolsAllowed).toHaveBeenCalledWith('server-1');
+        expect(menuItem.enabled).toBe(false);
+    });
 });
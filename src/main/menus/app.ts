@@ -12,18 +12,28 @@ import {OPEN_SERVERS_DROPDOWN, SHOW_NEW_SERVER_MODAL} from 'common/communication
 import type {Config} from 'common/config';
 import ServerManager from 'common/servers/serverManager';
 import {t} from 'common/utils/util';
+import PluginView from 'common/views/PluginView';
 import {getViewDisplayName} from 'common/views/View';
 import type {ViewType} from 'common/views/View';
 import type {UpdateManager} from 'main/autoUpdater';
 import Diagnostics from 'main/diagnostics';
 import downloadsManager from 'main/downloadsManager';
 import {localizeMessage} from 'main/i18nManager';
+import ProfileBundleManager from 'main/profileBundle';
+import ProfileManager from 'main/profileManager';
+import DesktopPolicy from 'main/server/desktopPolicy';
+import ServerImportManager from 'main/serverImport';
 import {getLocalPreload} from 'main/utils';
 import ModalManager from 'main/views/modalManager';
 import ViewManager from 'main/views/viewManager';
 import CallsWidgetWindow from 'main/windows/callsWidgetWindow';
 import MainWindow from 'main/windows/mainWindow';
 
+// the servers can turn off the developer tools for their own views through their desktop policy
+function areDevToolsAllowed(serverId?: string) {
+    return !serverId || DesktopPolicy.areDevToolsAllowed(serverId);
+}
+
 export function createTemplate(config: Config, updateManager: UpdateManager) {
     const separatorItem: MenuItemConstructorOptions = {
         type: 'separator',
@@ -65,11 +75,76 @@ export function createTemplate(config: Config, updateManager: UpdateManager) {
         },
     });
 
-    if (config.enableServerManagement === true && ServerManager.hasServers()) {
+    platformAppMenu.push({
+        label: localizeMessage('main.menus.app.file.exportSettings', 'Export Settings...'),
+        click() {
+            ProfileBundleManager.exportProfile();
+        },
+    }, {
+        label: localizeMessage('main.menus.app.file.importSettings', 'Import Settings...'),
+        click() {
+            ProfileBundleManager.importProfile();
+        },
+    });
+
+    const profiles = ProfileManager.getProfiles();
+    const inactiveProfiles = profiles.filter((profile) => profile !== ProfileManager.activeProfile);
+    const profilesMenu: MenuItemConstructorOptions[] = [{
+        label: localizeMessage('main.menus.app.file.profiles.default', 'Default Profile'),
+        type: 'radio',
+        checked: !ProfileManager.activeProfile,
+        click() {
+            ProfileManager.switchProfile();
+        },
+    }, ...profiles.map((profile) => ({
+        label: profile,
+        type: 'radio' as const,
+        checked: profile === ProfileManager.activeProfile,
+        click() {
+            ProfileManager.switchProfile(profile);
+        },
+    })), separatorItem, {
+        label: localizeMessage('main.menus.app.file.profiles.new', 'New Profile...'),
+        click() {
+            ProfileManager.showCreateProfileModal();
+        },
+    }, {
+        label: localizeMessage('main.menus.app.file.profiles.rename', 'Rename Profile'),
+        enabled: inactiveProfiles.length > 0,
+        submenu: inactiveProfiles.map((profile) => ({
+            label: profile,
+            click() {
+                ProfileManager.showRenameProfileModal(profile);
+            },
+        })),
+    }, {
+        label: localizeMessage('main.menus.app.file.profiles.delete', 'Delete Profile'),
+        enabled: inactiveProfiles.length > 0,
+        submenu: inactiveProfiles.map((profile) => ({
+            label: profile,
+            click() {
+                ProfileManager.showDeleteProfileDialog(profile);
+            },
+        })),
+    }];
+    platformAppMenu.push({
+        label: localizeMessage('main.menus.app.file.profiles', 'Profiles'),
+        submenu: profilesMenu,
+    });
+
+    if (config.enableServerManagement === true) {
+        if (ServerManager.hasServers()) {
+            platformAppMenu.push({
+                label: localizeMessage('main.menus.app.file.signInToAnotherServer', 'Sign in to Another Server'),
+                click() {
+                    ipcMain.emit(SHOW_NEW_SERVER_MODAL);
+                },
+            });
+        }
         platformAppMenu.push({
-            label: localizeMessage('main.menus.app.file.signInToAnotherServer', 'Sign in to Another Server'),
+            label: localizeMessage('main.menus.app.file.importServers', 'Import Servers...'),
             click() {
-                ipcMain.emit(SHOW_NEW_SERVER_MODAL);
+                ServerImportManager.importFromFile();
             },
         });
     }
@@ -161,6 +236,7 @@ export function createTemplate(config: Config, updateManager: UpdateManager) {
         },
         {
             label: localizeMessage('main.menus.app.view.devToolsCurrentServer', 'Developer Tools for Current Server'),
+            enabled: areDevToolsAllowed(ViewManager.getCurrentView()?.view.server.id),
             click() {
                 ViewManager.getCurrentView()?.openDevTools();
             },
@@ -170,6 +246,7 @@ export function createTemplate(config: Config, updateManager: UpdateManager) {
     if (CallsWidgetWindow.isOpen()) {
         devToolsSubMenu.push({
             label: localizeMessage('main.menus.app.view.devToolsCurrentCallWidget', 'Developer Tools for Call Widget'),
+            enabled: areDevToolsAllowed(CallsWidgetWindow.getServerId()),
             click() {
                 CallsWidgetWindow.openDevTools();
             },
@@ -264,7 +341,7 @@ export function createTemplate(config: Config, updateManager: UpdateManager) {
         }],
     });
 
-    const servers = ServerManager.getOrderedServers();
+    const servers = ServerManager.getEnabledServers();
     const windowMenu = {
         id: 'window',
         label: localizeMessage('main.menus.app.window', '&Window'),
@@ -303,7 +380,7 @@ export function createTemplate(config: Config, updateManager: UpdateManager) {
             if (ServerViewState.getCurrentServer().id === server.id) {
                 ServerManager.getOrderedTabsForServer(server.id).slice(0, 9).forEach((view, i) => {
                     items.push({
-                        label: `    ${localizeMessage(`common.views.${view.type}`, getViewDisplayName(view.type as ViewType))}`,
+                        label: `    ${view instanceof PluginView ? view.displayName : localizeMessage(`common.views.${view.type}`, getViewDisplayName(view.type as ViewType))}`,
                         accelerator: `CmdOrCtrl+${i + 1}`,
                         click() {
                             ViewManager.showById(view.id);
@@ -12,7 +12,7 @@ jest.mock('main/i18nManager', () => ({
 }));
 
 jest.mock('common/servers/serverManager', () => ({
-    getOrderedServers: jest.fn(),
+    getEnabledServers: jest.fn(),
 }));
 jest.mock('app/serverViewState', () => ({
     switchServer: jest.fn(),
@@ -32,7 +32,7 @@ describe('main/menus/tray', () => {
             name: `server-${key}`,
             url: `http://server-${key}.com`,
         }));
-        ServerManager.getOrderedServers.mockReturnValue(servers);
+        ServerManager.getEnabledServers.mockReturnValue(servers);
         const menu = createTemplate();
         for (let i = 0; i < 9; i++) {
             const menuItem = menu.find((item) => item.label === `server-${i}`);
@@ -9,16 +9,20 @@ import {Menu} from 'electron';
 import ServerViewState from 'app/serverViewState';
 import ServerManager from 'common/servers/serverManager';
 import {localizeMessage} from 'main/i18nManager';
+import ServerAvatars from 'main/server/serverAvatars';
 import {getLocalPreload} from 'main/utils';
 import ModalManager from 'main/views/modalManager';
 import MainWindow from 'main/windows/mainWindow';
 
+const TRAY_MENU_AVATAR_SIZE = 16;
+
 export function createTemplate() {
-    const servers = ServerManager.getOrderedServers();
+    const servers = ServerManager.getEnabledServers();
     const template = [
         ...servers.slice(0, 9).map((server) => {
             return {
                 label: server.name.length > 50 ? `${server.name.slice(0, 50)}...` : server.name,
+                icon: ServerAvatars.getAvatarImage(server, TRAY_MENU_AVATAR_SIZE),
                 click: () => {
                     ServerViewState.switchServer(server.id);
                 },
@@ -31,8 +31,9 @@ export class Mention extends Notification {
 
     constructor(customOptions: MentionOptions, channelId: string, teamId: string) {
         const options = {...defaultOptions, ...customOptions};
-        if (process.platform === 'darwin' || (process.platform === 'win32' && Utils.isVersionGreaterThanOrEqualTo(os.release(), '10.0'))) {
+        if (!customOptions.icon && (process.platform === 'darwin' || (process.platform === 'win32' && Utils.isVersionGreaterThanOrEqualTo(os.release(), '10.0')))) {
             // Notification Center shows app's icon, so there were two icons on the notification.
+            // The avatar of the server is kept since it tells the servers apart.
             Reflect.deleteProperty(options, 'icon');
         }
         const isWin7 = (process.platform === 'win32' && !Utils.isVersionGreaterThanOrEqualTo(os.release(), '6.3') && DEFAULT_WIN7);
@@ -11,6 +11,7 @@ import {getFocusAssist as notMockedGetFocusAssist} from 'windows-focus-assist';
 
 import {PLAY_SOUND} from 'common/communication';
 import notMockedConfig from 'common/config';
+import notMockedServerManager from 'common/servers/serverManager';
 import {localizeMessage as notMockedLocalizeMessage} from 'main/i18nManager';
 import notMockedPermissionsManager from 'main/permissionsManager';
 import ViewManager from 'main/views/viewManager';
@@ -25,6 +26,7 @@ const getFocusAssist = jest.mocked(notMockedGetFocusAssist);
 const PermissionsManager = jest.mocked(notMockedPermissionsManager);
 const getDarwinDoNotDisturb = jest.mocked(notMockedGetDarwinDoNotDisturb);
 const Config = jest.mocked(notMockedConfig);
+const ServerManager = jest.mocked(notMockedServerManager);
 const MainWindow = jest.mocked(notMockedMainWindow);
 const localizeMessage = jest.mocked(notMockedLocalizeMessage);
 const cp = jest.mocked(notMockedCP);
@@ -95,6 +97,7 @@ jest.mock('../views/viewManager', () => ({
             server: {
                 name: 'server_name',
                 url: new URL('http://someurl.com'),
+                primaryURL: new URL('http://someurl.com'),
             },
             shouldNotify: true,
         },
@@ -115,6 +118,9 @@ jest.mock('main/permissionsManager', () => ({
 }));
 
 jest.mock('common/config', () => ({}));
+jest.mock('common/servers/serverManager', () => ({
+    getServerSettings: jest.fn(),
+}));
 
 describe('main/notifications', () => {
     describe('displayMention', () => {
@@ -133,6 +139,11 @@ describe('main/notifications', () => {
                 bounceIconType: 'informational',
             };
             MainWindow.get.mockReturnValue(mainWindow);
+            ServerManager.getServerSettings.mockReturnValue({
+                enableNotifications: true,
+                enableNotificationSounds: true,
+                spellCheckerLocales: [],
+            });
         });
 
         afterEach(() => {
@@ -251,6 +262,45 @@ describe('main/notifications', () => {
             expect(mentions.length).toBe(0);
         });
 
+        it('should do nothing when notifications are disabled for the server', async () => {
+            ServerManager.getServerSettings.mockReturnValue({
+                enableNotifications: false,
+                enableNotificationSounds: true,
+                spellCheckerLocales: [],
+            });
+            const result = await NotificationManager.displayMention(
+                'test',
+                'test body',
+                'channel_id',
+                'team_id',
+                'http://server-1.com/team_id/channel_id',
+                false,
+                {id: 1} as WebContents,
+                '',
+            );
+            expect(result).toStrictEqual({status: 'not_sent', reason: 'server_notifications_disabled'});
+            expect(mentions.length).toBe(0);
+        });
+
+        it('should not play notification sound when sounds are disabled for the server', async () => {
+            ServerManager.getServerSettings.mockReturnValue({
+                enableNotifications: true,
+                enableNotificationSounds: false,
+                spellCheckerLocales: [],
+            });
+            await NotificationManager.displayMention(
+                'test',
+                'test body',
+                'channel_id',
+                'team_id',
+                'http://server-1.com/team_id/channel_id',
+                false,
+                {id: 1} as WebContents,
+                'test_sound',
+            );
+            expect(MainWindow.sendToRenderer).not.toHaveBeenCalledWith(PLAY_SOUND, 'test_sound');
+        });
+
         it('should play notification sound when custom sound is provided', async () => {
             await NotificationManager.displayMention(
                 'test',
@@ -8,6 +8,7 @@ import {getDoNotDisturb as getDarwinDoNotDisturb} from 'macos-notification-state
 import {PLAY_SOUND, NOTIFICATION_CLICKED, BROWSER_HISTORY_PUSH, OPEN_NOTIFICATION_PREFERENCES} from 'common/communication';
 import Config from 'common/config';
 import {Logger} from 'common/log';
+import ServerManager from 'common/servers/serverManager';
 
 import getLinuxDoNotDisturb from './dnd-linux';
 import getWindowsDoNotDisturb from './dnd-windows';
@@ -16,6 +17,7 @@ import {Mention} from './Mention';
 import {NewVersionNotification, UpgradeNotification} from './Upgrade';
 
 import PermissionsManager from '../permissionsManager';
+import ServerAvatars, {AVATAR_SIZE} from '../server/serverAvatars';
 import ViewManager from '../views/viewManager';
 import MainWindow from '../windows/mainWindow';
 
@@ -55,10 +57,17 @@ class NotificationManager {
             return {status: 'not_sent', reason: 'view_should_not_notify'};
         }
 
+        const serverSettings = ServerManager.getServerSettings(view.view.server.id);
+        if (!serverSettings.enableNotifications) {
+            log.debug('notifications are disabled for this server', webcontents.id);
+            return {status: 'not_sent', reason: 'server_notifications_disabled'};
+        }
+
         const options = {
             title: `${serverName}: ${title}`,
             body,
-            silent,
+            icon: ServerAvatars.getAvatarImage(view.view.server, AVATAR_SIZE),
+            silent: silent || !serverSettings.enableNotificationSounds,
             soundName,
         };
 
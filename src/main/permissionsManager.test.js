@@ -11,6 +11,7 @@ import MainWindow from 'main/windows/mainWindow';
 import {PermissionsManager} from './permissionsManager';
 
 jest.mock('fs', () => ({
+    existsSync: jest.fn(),
     readFileSync: jest.fn(),
     writeFile: jest.fn(),
 }));
@@ -56,7 +57,7 @@ describe('main/PermissionsManager', () => {
         it('should ask for media permission when is not granted but the user explicitly granted it', () => {
             systemPreferences.getMediaAccessStatus.mockReturnValue('denied');
             const permissionsManager = new PermissionsManager('anyfile.json');
-            permissionsManager.setForServer({url: new URL('http://anyurl.com')}, {media: {allowed: true}});
+            permissionsManager.setForServer({primaryURL: new URL('http://anyurl.com')}, {media: {allowed: true}});
             expect(systemPreferences.askForMediaAccess).toHaveBeenNthCalledWith(1, 'microphone');
             expect(systemPreferences.askForMediaAccess).toHaveBeenNthCalledWith(2, 'camera');
         });
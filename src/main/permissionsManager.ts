@@ -27,6 +27,7 @@ import {Logger} from 'common/log';
 import type {MattermostServer} from 'common/servers/MattermostServer';
 import {isTrustedURL, parseURL} from 'common/utils/url';
 import {t} from 'common/utils/util';
+import * as Validator from 'common/Validator';
 import {permissionsJson} from 'main/constants';
 import {localizeMessage} from 'main/i18nManager';
 import ViewManager from 'main/views/viewManager';
@@ -67,7 +68,7 @@ export class PermissionsManager extends JsonFileManager<PermissionsByOrigin> {
     private inflightPermissionChecks: Map<string, Promise<boolean>>;
 
     constructor(file: string) {
-        super(file);
+        super(file, Validator.validatePermissions);
 
         this.inflightPermissionChecks = new Map();
 
@@ -90,7 +91,7 @@ export class PermissionsManager extends JsonFileManager<PermissionsByOrigin> {
     };
 
     getForServer = (server: MattermostServer): Permissions | undefined => {
-        return this.getValue(server.url.origin);
+        return this.getValue(server.primaryURL.origin);
     };
 
     setForServer = (server: MattermostServer, permissions: Permissions) => {
@@ -99,7 +100,7 @@ export class PermissionsManager extends JsonFileManager<PermissionsByOrigin> {
             this.checkMediaAccess('camera');
         }
 
-        return this.setValue(server.url.origin, permissions);
+        return this.setValue(server.primaryURL.origin, permissions);
     };
 
     private checkMediaAccess = (mediaType: 'microphone' | 'camera') => {
@@ -208,6 +209,7 @@ export class PermissionsManager extends JsonFileManager<PermissionsByOrigin> {
                         allowed: response === 2,
                         alwaysDeny: (response === 1) ? true : undefined,
                     };
+                    this.syncWithFile();
                     this.json[parsedURL.origin] = {
                         ...this.json[parsedURL.origin],
                         [permission]: newPermission,
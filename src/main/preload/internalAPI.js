@@ -63,6 +63,7 @@ import {
     SHOW_NEW_SERVER_MODAL,
     SHOW_EDIT_SERVER_MODAL,
     SHOW_REMOVE_SERVER_MODAL,
+    SHOW_PLUGIN_VIEW_MODAL,
     RECEIVE_DOWNLOADS_DROPDOWN_SIZE,
     REQUEST_CLEAR_DOWNLOADS_DROPDOWN,
     REQUEST_DOWNLOADS_DROPDOWN_INFO,
@@ -79,12 +80,21 @@ import {
     TOGGLE_LOADING_SCREEN_VISIBILITY,
     DOWNLOADS_DROPDOWN_FOCUSED,
     UPDATE_SERVER_ORDER,
+    MOVE_SERVER_TO_GROUP,
+    ADD_SERVER_GROUP,
+    RENAME_SERVER_GROUP,
+    REMOVE_SERVER_GROUP,
+    SET_SERVER_GROUP_COLLAPSED,
+    SET_SERVER_ENABLED,
     UPDATE_TAB_ORDER,
     GET_LAST_ACTIVE,
     GET_ORDERED_SERVERS,
     GET_ORDERED_TABS_FOR_SERVER,
     SERVERS_UPDATE,
     VALIDATE_SERVER_URL,
+    GET_SERVER_COMPATIBILITY,
+    SERVER_COMPATIBILITY_UPDATED,
+    DISMISS_SERVER_COMPATIBILITY,
     GET_APP_INFO,
     OPEN_NOTIFICATION_PREFERENCES,
     OPEN_WINDOWS_CAMERA_PREFERENCES,
@@ -115,6 +125,7 @@ contextBridge.exposeInMainWorld('desktop', {
     openServersDropdown: () => ipcRenderer.send(OPEN_SERVERS_DROPDOWN),
     switchTab: (viewId) => ipcRenderer.send(SWITCH_TAB, viewId),
     closeView: (viewId) => ipcRenderer.send(CLOSE_VIEW, viewId),
+    showPluginViewModal: (serverId) => ipcRenderer.send(SHOW_PLUGIN_VIEW_MODAL, serverId),
     exitFullScreen: () => ipcRenderer.send(EXIT_FULLSCREEN),
     doubleClickOnWindow: (windowName) => ipcRenderer.send(DOUBLE_CLICK_ON_WINDOW, windowName),
     focusCurrentView: () => ipcRenderer.send(FOCUS_BROWSERVIEW),
@@ -134,6 +145,9 @@ contextBridge.exposeInMainWorld('desktop', {
     getOrderedTabsForServer: (serverId) => ipcRenderer.invoke(GET_ORDERED_TABS_FOR_SERVER, serverId),
     onUpdateServers: (listener) => ipcRenderer.on(SERVERS_UPDATE, () => listener()),
     validateServerURL: (url, currentId) => ipcRenderer.invoke(VALIDATE_SERVER_URL, url, currentId),
+    getServerCompatibility: () => ipcRenderer.invoke(GET_SERVER_COMPATIBILITY),
+    onUpdateServerCompatibility: (listener) => ipcRenderer.on(SERVER_COMPATIBILITY_UPDATED, (_, compatibility) => listener(compatibility)),
+    dismissServerCompatibility: (serverId) => ipcRenderer.send(DISMISS_SERVER_COMPATIBILITY, serverId),
 
     getConfiguration: () => ipcRenderer.invoke(GET_CONFIGURATION),
     getVersion: () => ipcRenderer.invoke(GET_APP_INFO),
@@ -205,6 +219,12 @@ contextBridge.exposeInMainWorld('desktop', {
         showNewServerModal: () => ipcRenderer.send(SHOW_NEW_SERVER_MODAL),
         showEditServerModal: (serverId) => ipcRenderer.send(SHOW_EDIT_SERVER_MODAL, serverId),
         showRemoveServerModal: (serverId) => ipcRenderer.send(SHOW_REMOVE_SERVER_MODAL, serverId),
+        moveServerToGroup: (serverId, group, serverOrder) => ipcRenderer.send(MOVE_SERVER_TO_GROUP, serverId, group, serverOrder),
+        addServerGroup: (name) => ipcRenderer.send(ADD_SERVER_GROUP, name),
+        renameServerGroup: (name, newName) => ipcRenderer.send(RENAME_SERVER_GROUP, name, newName),
+        removeServerGroup: (name) => ipcRenderer.send(REMOVE_SERVER_GROUP, name),
+        setServerGroupCollapsed: (name, collapsed) => ipcRenderer.send(SET_SERVER_GROUP_COLLAPSED, name, collapsed),
+        setServerEnabled: (serverId, enabled) => ipcRenderer.send(SET_SERVER_ENABLED, serverId, enabled),
 
         onUpdateServerDropdown: (listener) => ipcRenderer.on(UPDATE_SERVERS_DROPDOWN, (_,
             servers,
@@ -216,6 +236,8 @@ contextBridge.exposeInMainWorld('desktop', {
             mentions,
             unreads,
             windowBounds,
+            serverGroups,
+            serverHealth,
         ) => listener(
             servers,
             activeServer,
@@ -226,6 +248,8 @@ contextBridge.exposeInMainWorld('desktop', {
             mentions,
             unreads,
             windowBounds,
+            serverGroups,
+            serverHealth,
         )),
     },
 
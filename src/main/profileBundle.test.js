@@ -0,0 +1,214 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+
+import Config from 'common/config';
+import ServerManager from 'common/servers/serverManager';
+import * as Validator from 'common/Validator';
+import AllowProtocolDialog from 'main/allowProtocolDialog';
+import CertificateStore from 'main/certificateStore';
+import PermissionsManager from 'main/permissionsManager';
+import TrustedOriginsStore from 'main/trustedOrigins';
+
+import {ProfileBundleManager} from './profileBundle';
+
+jest.mock('fs', () => ({
+    promises: {
+        readFile: jest.fn(),
+        writeFile: jest.fn(),
+    },
+}));
+jest.mock('electron', () => ({
+    app: {
+        getPath: jest.fn(),
+    },
+    dialog: {
+        showErrorBox: jest.fn(),
+        showMessageBox: jest.fn(),
+        showOpenDialog: jest.fn(),
+        showSaveDialog: jest.fn(),
+    },
+}));
+jest.mock('common/config', () => ({
+    setMultiple: jest.fn(),
+}));
+jest.mock('common/config/upgradePreferences', () => jest.fn((config) => config));
+jest.mock('common/servers/serverManager', () => ({
+    getAllServers: jest.fn(),
+    importServers: jest.fn(),
+}));
+jest.mock('common/Validator', () => ({
+    validateProfileBundle: jest.fn(),
+}));
+jest.mock('main/allowProtocolDialog', () => ({
+    setAllowedProtocols: jest.fn(),
+}));
+jest.mock('main/certificateStore', () => ({
+    save: jest.fn(),
+}));
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
+jest.mock('main/permissionsManager', () => ({
+    setJson: jest.fn(),
+}));
+jest.mock('main/trustedOrigins', () => ({
+    save: jest.fn(),
+}));
+jest.mock('main/windows/mainWindow', () => ({
+    get: jest.fn(),
+}));
+
+describe('main/profileBundle', () => {
+    const bundle = {
+        version: 1,
+        config: {
+            version: 4,
+            teams: [
+                {name: 'server-1', url: 'http://server-1.com', order: 0, tabs: []},
+                {name: 'server-2', url: 'http://server-2.com', order: 1, tabs: []},
+            ],
+            lastActiveTeam: 1,
+            darkMode: true,
+        },
+        certificates: {
+            'https://server-1.com': {data: 'imported', issuerName: 'issuer'},
+            'https://server-2.com': {data: 'imported', issuerName: 'issuer'},
+        },
+        trustedOrigins: {
+            'http://server-2.com': {canBasicAuth: true},
+        },
+        permissions: {
+            'http://server-1.com': {media: {allowed: true}},
+        },
+        allowedProtocols: ['http:', 'https:', 'spotify:'],
+    };
+
+    beforeEach(() => {
+        Config.enableServerManagement = true;
+        ServerManager.getAllServers.mockReturnValue([{primaryURL: new URL('http://server-1.com')}]);
+        CertificateStore.data = {
+            'https://server-1.com': {data: 'existing', issuerName: 'issuer'},
+        };
+        TrustedOriginsStore.data = new Map([['http://server-3.com', {canBasicAuth: true}]]);
+        PermissionsManager.json = {
+            'http://server-1.com': {media: {allowed: false}},
+        };
+        AllowProtocolDialog.allowedProtocols = ['http:', 'https:', 'zoommtg:'];
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('createBundle', () => {
+        it('should include every store', () => {
+            Config.localData = {version: 4, teams: []};
+            const profileBundleManager = new ProfileBundleManager();
+            expect(profileBundleManager.createBundle()).toStrictEqual({
+                version: 1,
+                config: {version: 4, teams: []},
+                certificates: CertificateStore.data,
+                trustedOrigins: {'http://server-3.com': {canBasicAuth: true}},
+                permissions: PermissionsManager.json,
+                allowedProtocols: ['http:', 'https:', 'zoommtg:'],
+            });
+        });
+
+        it('should leave the secret headers out and keep the other ones', () => {
+            Config.localData = {
+                version: 4,
+                teams: [
+                    {name: 'server-1', url: 'http://server-1.com', order: 0, tabs: [], headers: [{name: 'X-Team', value: 'team-1'}, {name: 'X-Token', encryptedValue: 'ZW5jcnlwdGVk'}]},
+                    {name: 'server-2', url: 'http://server-2.com', order: 1, tabs: [], headers: [{name: 'X-Token', encryptedValue: 'ZW5jcnlwdGVk'}]},
+                ],
+            };
+            const profileBundleManager = new ProfileBundleManager();
+            expect(profileBundleManager.createBundle().config.teams).toStrictEqual([
+                {name: 'server-1', url: 'http://server-1.com', order: 0, tabs: [], headers: [{name: 'X-Team', value: 'team-1'}]},
+                {name: 'server-2', url: 'http://server-2.com', order: 1, tabs: []},
+            ]);
+            expect(Config.localData.teams[0].headers).toHaveLength(2);
+        });
+    });
+
+    describe('readBundle', () => {
+        it('should return undefined when the file is not valid JSON', async () => {
+            fs.promises.readFile.mockResolvedValue('{not json');
+            const profileBundleManager = new ProfileBundleManager();
+            expect(await profileBundleManager.readBundle('/some/file.json')).toBe(undefined);
+            expect(Validator.validateProfileBundle).not.toHaveBeenCalled();
+        });
+
+        it('should return undefined when the bundle does not validate', async () => {
+            fs.promises.readFile.mockResolvedValue(JSON.stringify(bundle));
+            Validator.validateProfileBundle.mockReturnValue(null);
+            const profileBundleManager = new ProfileBundleManager();
+            expect(await profileBundleManager.readBundle('/some/file.json')).toBe(undefined);
+        });
+
+        it('should return the validated bundle', async () => {
+            fs.promises.readFile.mockResolvedValue(JSON.stringify(bundle));
+            Validator.validateProfileBundle.mockImplementation((data) => data);
+            const profileBundleManager = new ProfileBundleManager();
+            expect(await profileBundleManager.readBundle('/some/file.json')).toStrictEqual(bundle);
+        });
+    });
+
+    describe('getImportPreview', () => {
+        it('should count new and existing entries for each section', () => {
+            const profileBundleManager = new ProfileBundleManager();
+            expect(profileBundleManager.getImportPreview(bundle)).toStrictEqual({
+                servers: {added: 1, existing: 1},
+                certificates: {added: 1, existing: 1},
+                trustedOrigins: {added: 1, existing: 0},
+                permissions: {added: 0, existing: 1},
+                allowedProtocols: {added: 1, existing: 2},
+            });
+        });
+    });
+
+    describe('applyBundle', () => {
+        it('should keep existing data when merging', () => {
+            const profileBundleManager = new ProfileBundleManager();
+            profileBundleManager.applyBundle(bundle, 'merge');
+
+            expect(Config.setMultiple).toHaveBeenCalledWith({darkMode: true});
+            expect(ServerManager.importServers).toHaveBeenCalledWith(bundle.config.teams, false);
+            expect(CertificateStore.data).toStrictEqual({
+                'https://server-1.com': {data: 'existing', issuerName: 'issuer'},
+                'https://server-2.com': {data: 'imported', issuerName: 'issuer'},
+            });
+            expect(CertificateStore.save).toHaveBeenCalled();
+            expect(TrustedOriginsStore.data).toStrictEqual(new Map([
+                ['http://server-2.com', {canBasicAuth: true}],
+                ['http://server-3.com', {canBasicAuth: true}],
+            ]));
+            expect(TrustedOriginsStore.save).toHaveBeenCalled();
+            expect(PermissionsManager.setJson).toHaveBeenCalledWith({
+                'http://server-1.com': {media: {allowed: false}},
+            });
+            expect(AllowProtocolDialog.setAllowedProtocols).toHaveBeenCalledWith(['http:', 'https:', 'zoommtg:', 'spotify:']);
+        });
+
+        it('should discard existing data when replacing', () => {
+            const profileBundleManager = new ProfileBundleManager();
+            profileBundleManager.applyBundle(bundle, 'replace');
+
+            expect(ServerManager.importServers).toHaveBeenCalledWith(bundle.config.teams, true);
+            expect(CertificateStore.data).toStrictEqual(bundle.certificates);
+            expect(TrustedOriginsStore.data).toStrictEqual(new Map([['http://server-2.com', {canBasicAuth: true}]]));
+            expect(PermissionsManager.setJson).toHaveBeenCalledWith(bundle.permissions);
+            expect(AllowProtocolDialog.setAllowedProtocols).toHaveBeenCalledWith(bundle.allowedProtocols);
+        });
+
+        it('should not import servers when server management is disabled', () => {
+            Config.enableServerManagement = false;
+            const profileBundleManager = new ProfileBundleManager();
+            profileBundleManager.applyBundle(bundle, 'merge');
+
+            expect(ServerManager.importServers).not.toHaveBeenCalled();
+        });
+    });
+});
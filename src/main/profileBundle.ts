@@ -0,0 +1,243 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+import path from 'path';
+
+import type {BrowserWindow} from 'electron';
+import {app, dialog} from 'electron';
+
+import Config from 'common/config';
+import upgradeConfigData from 'common/config/upgradePreferences';
+import {Logger} from 'common/log';
+import ServerManager from 'common/servers/serverManager';
+import {parseURL} from 'common/utils/url';
+import * as Validator from 'common/Validator';
+import AllowProtocolDialog from 'main/allowProtocolDialog';
+import CertificateStore from 'main/certificateStore';
+import {localizeMessage} from 'main/i18nManager';
+import PermissionsManager from 'main/permissionsManager';
+import TrustedOriginsStore from 'main/trustedOrigins';
+import MainWindow from 'main/windows/mainWindow';
+
+import type {ConfigServer, ConfigV4} from 'types/config';
+import type {ProfileBundle, ProfileBundleImportMode} from 'types/profileBundle';
+
+const log = new Logger('ProfileBundle');
+
+export const PROFILE_BUNDLE_VERSION = 1;
+const PROFILE_BUNDLE_FILE_NAME = 'mattermost-desktop-settings.json';
+const fileFilters = [{name: 'JSON', extensions: ['json']}];
+
+type ImportCounts = {
+    added: number;
+    existing: number;
+};
+
+export type ProfileBundlePreview = {
+    servers: ImportCounts;
+    certificates: ImportCounts;
+    trustedOrigins: ImportCounts;
+    permissions: ImportCounts;
+    allowedProtocols: ImportCounts;
+};
+
+function countKeys(imported: string[], current: string[]): ImportCounts {
+    const currentKeys = new Set(current);
+    const existing = imported.filter((key) => currentKeys.has(key)).length;
+    return {added: imported.length - existing, existing};
+}
+
+// the secret headers are encrypted with the keychain of this computer, so they are left out rather than exported in a form that can't be decrypted anywhere else
+function removeSecretHeaders(server: ConfigServer): ConfigServer {
+    const headers = server.headers?.filter((header) => !header.encryptedValue);
+    if (headers?.length === server.headers?.length) {
+        return server;
+    }
+
+    log.info('Leaving the secret headers of a server out of the export', {count: server.headers!.length - headers!.length});
+    const exportedServer = {...server, headers};
+    if (!headers?.length) {
+        delete exportedServer.headers;
+    }
+    return exportedServer;
+}
+
+/**
+ * Exports and imports everything a user has set up in the app (config, certificates, trusted origins,
+ * permissions and allowed protocols) as a single JSON file, so that it can be moved to another machine
+ */
+export class ProfileBundleManager {
+    exportProfile = async () => {
+        const mainWindow = MainWindow.get();
+        if (!mainWindow) {
+            return;
+        }
+
+        const result = await dialog.showSaveDialog(mainWindow, {
+            title: localizeMessage('main.profileBundle.export.title', 'Export Settings'),
+            defaultPath: path.join(app.getPath('documents'), PROFILE_BUNDLE_FILE_NAME),
+            filters: fileFilters,
+        });
+        if (result.canceled || !result.filePath) {
+            return;
+        }
+
+        try {
+            await fs.promises.writeFile(result.filePath, JSON.stringify(this.createBundle(), null, '  '), 'utf8');
+            log.info('Exported settings');
+        } catch (error) {
+            log.error('Failed to export settings', error);
+            dialog.showErrorBox(
+                localizeMessage('main.profileBundle.export.title', 'Export Settings'),
+                localizeMessage('main.profileBundle.export.error', 'The settings could not be saved to {filePath}.', {filePath: result.filePath}),
+            );
+        }
+    };
+
+    importProfile = async () => {
+        const mainWindow = MainWindow.get();
+        if (!mainWindow) {
+            return;
+        }
+
+        const result = await dialog.showOpenDialog(mainWindow, {
+            title: localizeMessage('main.profileBundle.import.title', 'Import Settings'),
+            defaultPath: app.getPath('documents'),
+            filters: fileFilters,
+            properties: ['openFile'],
+        });
+        if (result.canceled || !result.filePaths.length) {
+            return;
+        }
+
+        const filePath = result.filePaths[0];
+        const bundle = await this.readBundle(filePath);
+        if (!bundle) {
+            dialog.showErrorBox(
+                localizeMessage('main.profileBundle.import.title', 'Import Settings'),
+                localizeMessage('main.profileBundle.import.invalid', 'The file {filePath} is not a valid settings export.', {filePath}),
+            );
+            return;
+        }
+
+        const mode = await this.showImportPreview(mainWindow, path.basename(filePath), bundle);
+        if (!mode) {
+            return;
+        }
+        this.applyBundle(bundle, mode);
+    };
+
+    createBundle = (): ProfileBundle => {
+        return {
+            version: PROFILE_BUNDLE_VERSION,
+            config: {...Config.localData!, teams: Config.localData!.teams.map(removeSecretHeaders)},
+            certificates: CertificateStore.data,
+            trustedOrigins: Object.fromEntries(TrustedOriginsStore.data?.entries() ?? []),
+            permissions: PermissionsManager.json,
+            allowedProtocols: AllowProtocolDialog.allowedProtocols,
+        };
+    };
+
+    readBundle = async (filePath: string) => {
+        let bundle;
+        try {
+            bundle = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+        } catch (error) {
+            log.warn('Unable to read the settings file', error);
+            return undefined;
+        }
+
+        const validBundle = Validator.validateProfileBundle(bundle);
+        if (!validBundle) {
+            log.warn('The settings file does not validate');
+            return undefined;
+        }
+
+        // bundles exported by older versions of the app may contain an older config version
+        return {...validBundle, config: upgradeConfigData(validBundle.config)};
+    };
+
+    getImportPreview = (bundle: ProfileBundle): ProfileBundlePreview => {
+        const config = bundle.config as ConfigV4;
+        return {
+            servers: countKeys(
+                config.teams.map((server) => parseURL(server.url)?.toString() ?? server.url),
+                ServerManager.getAllServers().map((server) => server.primaryURL.toString()),
+            ),
+            certificates: countKeys(Object.keys(bundle.certificates), Object.keys(CertificateStore.data)),
+            trustedOrigins: countKeys(Object.keys(bundle.trustedOrigins), [...(TrustedOriginsStore.data?.keys() ?? [])]),
+            permissions: countKeys(Object.keys(bundle.permissions), Object.keys(PermissionsManager.json)),
+            allowedProtocols: countKeys(bundle.allowedProtocols, AllowProtocolDialog.allowedProtocols),
+        };
+    };
+
+    applyBundle = (bundle: ProfileBundle, mode: ProfileBundleImportMode) => {
+        log.info('Importing settings', mode);
+
+        const replace = mode === 'replace';
+        const settings: Partial<ConfigV4> = {...bundle.config as ConfigV4};
+        delete settings.version;
+        delete settings.teams;
+        delete settings.lastActiveTeam;
+        delete settings.serverGroups;
+        Config.setMultiple(settings);
+        if (Config.enableServerManagement) {
+            ServerManager.importServers((bundle.config as ConfigV4).teams, replace);
+        } else {
+            log.warn('Server management is disabled, skipping the imported servers');
+        }
+
+        // when merging, anything the user has already set up on this machine takes precedence
+        CertificateStore.data = replace ? {...bundle.certificates} : {...bundle.certificates, ...CertificateStore.data};
+        CertificateStore.save();
+
+        const currentOrigins = Object.fromEntries(TrustedOriginsStore.data?.entries() ?? []);
+        TrustedOriginsStore.data = new Map(Object.entries(replace ? bundle.trustedOrigins : {...bundle.trustedOrigins, ...currentOrigins}));
+        TrustedOriginsStore.save();
+
+        PermissionsManager.setJson(replace ? {...bundle.permissions} : {...bundle.permissions, ...PermissionsManager.json});
+
+        AllowProtocolDialog.setAllowedProtocols(replace ? bundle.allowedProtocols : [...new Set([...AllowProtocolDialog.allowedProtocols, ...bundle.allowedProtocols])]);
+    };
+
+    private showImportPreview = async (mainWindow: BrowserWindow, fileName: string, bundle: ProfileBundle): Promise<ProfileBundleImportMode | undefined> => {
+        const preview = this.getImportPreview(bundle);
+        const detail = [
+            localizeMessage('main.profileBundle.import.preview.servers', 'Servers: {added} new, {existing} already added', {...preview.servers}),
+            localizeMessage('main.profileBundle.import.preview.certificates', 'Certificates: {added} new, {existing} already trusted', {...preview.certificates}),
+            localizeMessage('main.profileBundle.import.preview.trustedOrigins', 'Trusted sign-in origins: {added} new, {existing} already trusted', {...preview.trustedOrigins}),
+            localizeMessage('main.profileBundle.import.preview.permissions', 'Site permissions: {added} new, {existing} already set', {...preview.permissions}),
+            localizeMessage('main.profileBundle.import.preview.allowedProtocols', 'Allowed protocols: {added} new, {existing} already allowed', {...preview.allowedProtocols}),
+            '',
+            localizeMessage('main.profileBundle.import.preview.explanation', 'Merge keeps what is already set up on this computer and adds what is missing. Replace removes your current servers, certificates, trusted origins, permissions and allowed protocols and uses the ones from the file instead. Your settings are updated in both cases.'),
+        ].join('\n');
+
+        const {response} = await dialog.showMessageBox(mainWindow, {
+            title: localizeMessage('main.profileBundle.import.title', 'Import Settings'),
+            message: localizeMessage('main.profileBundle.import.preview.message', 'Import settings from {fileName}?', {fileName}),
+            detail,
+            type: 'question',
+            buttons: [
+                localizeMessage('main.profileBundle.import.preview.merge', 'Merge'),
+                localizeMessage('main.profileBundle.import.preview.replace', 'Replace'),
+                localizeMessage('label.cancel', 'Cancel'),
+            ],
+            defaultId: 0,
+            cancelId: 2,
+            noLink: true,
+        });
+
+        switch (response) {
+        case 0:
+            return 'merge';
+        case 1:
+            return 'replace';
+        default:
+            return undefined;
+        }
+    };
+}
+
+const profileBundleManager = new ProfileBundleManager();
+export default profileBundleManager;
@@ -0,0 +1,177 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+
+import {app} from 'electron';
+
+import {ProfileManager} from './profileManager';
+
+jest.mock('fs', () => ({
+    existsSync: jest.fn(),
+    mkdirSync: jest.fn(),
+    readdirSync: jest.fn(),
+    renameSync: jest.fn(),
+    rmSync: jest.fn(),
+}));
+jest.mock('path', () => ({
+    join: (...args) => args.join('/'),
+}));
+jest.mock('electron', () => ({
+    app: {
+        relaunch: jest.fn(),
+        quit: jest.fn(),
+    },
+    dialog: {
+        showErrorBox: jest.fn(),
+        showMessageBox: jest.fn(),
+    },
+    ipcMain: {
+        emit: jest.fn(),
+    },
+}));
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
+jest.mock('main/utils', () => ({
+    getLocalPreload: jest.fn(),
+}));
+jest.mock('main/views/modalManager', () => ({
+    addModal: jest.fn(),
+}));
+jest.mock('main/windows/mainWindow', () => ({
+    get: jest.fn(),
+}));
+
+describe('main/profileManager', () => {
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('init', () => {
+        it('should create the profile when it does not exist', () => {
+            fs.existsSync.mockReturnValue(false);
+            const profileManager = new ProfileManager();
+            profileManager.init('/data', 'work');
+            expect(fs.mkdirSync).toHaveBeenCalledWith('/data/profiles/work', {recursive: true});
+            expect(profileManager.activeProfile).toBe('work');
+        });
+
+        it('should not create anything for the default profile', () => {
+            const profileManager = new ProfileManager();
+            profileManager.init('/data');
+            expect(fs.mkdirSync).not.toHaveBeenCalled();
+            expect(profileManager.activeProfile).toBe(undefined);
+        });
+    });
+
+    describe('getProfileDataPath', () => {
+        it('should not allow names that leave the profiles directory', () => {
+            const profileManager = new ProfileManager();
+            profileManager.init('/data');
+            expect(() => profileManager.getProfileDataPath('../other')).toThrow();
+            expect(() => profileManager.getProfileDataPath('')).toThrow();
+            expect(profileManager.getProfileDataPath('My profile-1')).toBe('/data/profiles/My profile-1');
+        });
+    });
+
+    describe('getProfiles', () => {
+        it('should return the sorted profile directories', () => {
+            fs.readdirSync.mockReturnValue([
+                {name: 'work', isDirectory: () => true},
+                {name: 'file.json', isDirectory: () => false},
+                {name: 'home', isDirectory: () => true},
+                {name: '.hidden', isDirectory: () => true},
+            ]);
+            const profileManager = new ProfileManager();
+            profileManager.init('/data');
+            expect(profileManager.getProfiles()).toStrictEqual(['home', 'work']);
+        });
+
+        it('should return no profiles when the directory is missing', () => {
+            fs.readdirSync.mockImplementation(() => {
+                throw new Error('ENOENT');
+            });
+            const profileManager = new ProfileManager();
+            profileManager.init('/data');
+            expect(profileManager.getProfiles()).toStrictEqual([]);
+        });
+    });
+
+    describe('renameProfile', () => {
+        it('should not rename the active profile', () => {
+            fs.existsSync.mockReturnValue(true);
+            const profileManager = new ProfileManager();
+            profileManager.init('/data', 'work');
+            expect(() => profileManager.renameProfile('work', 'home')).toThrow();
+            expect(fs.renameSync).not.toHaveBeenCalled();
+        });
+
+        it('should not overwrite another profile', () => {
+            fs.existsSync.mockReturnValue(true);
+            const profileManager = new ProfileManager();
+            profileManager.init('/data');
+            expect(() => profileManager.renameProfile('work', 'home')).toThrow();
+            expect(fs.renameSync).not.toHaveBeenCalled();
+        });
+
+        it('should rename the profile directory', () => {
+            fs.existsSync.mockReturnValue(false);
+            const profileManager = new ProfileManager();
+            profileManager.init('/data');
+            profileManager.renameProfile('work', 'home');
+            expect(fs.renameSync).toHaveBeenCalledWith('/data/profiles/work', '/data/profiles/home');
+        });
+    });
+
+    describe('deleteProfile', () => {
+        it('should not delete the active profile', () => {
+            fs.existsSync.mockReturnValue(true);
+            const profileManager = new ProfileManager();
+            profileManager.init('/data', 'work');
+            expect(() => profileManager.deleteProfile('work')).toThrow();
+            expect(fs.rmSync).not.toHaveBeenCalled();
+        });
+
+        it('should remove the profile directory', () => {
+            const profileManager = new ProfileManager();
+            profileManager.init('/data', 'work');
+            profileManager.deleteProfile('home');
+            expect(fs.rmSync).toHaveBeenCalledWith('/data/profiles/home', {recursive: true, force: true});
+        });
+    });
+
+    describe('switchProfile', () => {
+        const originalArgv = process.argv;
+
+        afterEach(() => {
+            process.argv = originalArgv;
+        });
+
+        it('should relaunch with the new profile replacing the current one', () => {
+            process.argv = ['mattermost', '--dataDir', '/some/dir', '--profile', 'work'];
+            fs.existsSync.mockReturnValue(true);
+            const profileManager = new ProfileManager();
+            profileManager.init('/data', 'work');
+            profileManager.switchProfile('home');
+            expect(app.relaunch).toHaveBeenCalledWith({args: ['--dataDir', '/some/dir', '--profile', 'home']});
+            expect(app.quit).toHaveBeenCalled();
+        });
+
+        it('should relaunch without a profile for the default profile', () => {
+            process.argv = ['mattermost', '--profile=work'];
+            fs.existsSync.mockReturnValue(true);
+            const profileManager = new ProfileManager();
+            profileManager.init('/data', 'work');
+            profileManager.switchProfile();
+            expect(app.relaunch).toHaveBeenCalledWith({args: []});
+        });
+
+        it('should do nothing when switching to the active profile', () => {
+            const profileManager = new ProfileManager();
+            profileManager.init('/data');
+            profileManager.switchProfile();
+            expect(app.relaunch).not.toHaveBeenCalled();
+        });
+    });
+});
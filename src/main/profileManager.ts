@@ -0,0 +1,220 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+import path from 'path';
+
+import {app, dialog, ipcMain} from 'electron';
+
+import {UPDATE_SHORTCUT_MENU} from 'common/communication';
+import {Logger} from 'common/log';
+import {localizeMessage} from 'main/i18nManager';
+import {getLocalPreload} from 'main/utils';
+import ModalManager from 'main/views/modalManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import type {ProfileNameModalInfo} from 'types/modals';
+
+const log = new Logger('ProfileManager');
+
+export const PROFILES_DIRECTORY_NAME = 'profiles';
+const profileNameRegex = /^[\w][\w -]{0,49}$/;
+
+/**
+ * Manages the named profiles, each one of them being a separate data directory inside of the main one.
+ * The profile is picked with the --profile argument, so switching to another one relaunches the app.
+ */
+export class ProfileManager {
+    private baseDataPath?: string;
+    private currentProfile?: string;
+
+    init = (baseDataPath: string, profile?: string) => {
+        this.baseDataPath = baseDataPath;
+        this.currentProfile = profile;
+
+        // launching with a profile that doesn't exist yet creates it
+        if (profile && !fs.existsSync(this.getProfileDataPath(profile))) {
+            this.createProfile(profile);
+        }
+    };
+
+    get activeProfile() {
+        return this.currentProfile;
+    }
+
+    isValidProfileName = (name: string) => {
+        return profileNameRegex.test(name);
+    };
+
+    getProfileDataPath = (name: string) => {
+        if (!this.baseDataPath) {
+            throw new Error('ProfileManager not initialized');
+        }
+        if (!this.isValidProfileName(name)) {
+            throw new Error(`Invalid profile name: ${name}`);
+        }
+        return path.join(this.baseDataPath, PROFILES_DIRECTORY_NAME, name);
+    };
+
+    getProfiles = () => {
+        if (!this.baseDataPath) {
+            return [];
+        }
+
+        try {
+            return fs.readdirSync(path.join(this.baseDataPath, PROFILES_DIRECTORY_NAME), {withFileTypes: true}).
+                filter((entry) => entry.isDirectory() && this.isValidProfileName(entry.name)).
+                map((entry) => entry.name).
+                sort((a, b) => a.localeCompare(b));
+        } catch (error) {
+            return [];
+        }
+    };
+
+    createProfile = (name: string) => {
+        const profilePath = this.getProfileDataPath(name);
+        if (fs.existsSync(profilePath)) {
+            throw new Error(`Profile ${name} already exists`);
+        }
+
+        log.info('createProfile', name);
+        fs.mkdirSync(profilePath, {recursive: true});
+    };
+
+    renameProfile = (name: string, newName: string) => {
+        if (name === this.currentProfile) {
+            throw new Error('Cannot rename the profile that is currently in use');
+        }
+        const newProfilePath = this.getProfileDataPath(newName);
+        if (fs.existsSync(newProfilePath)) {
+            throw new Error(`Profile ${newName} already exists`);
+        }
+
+        log.info('renameProfile', name, newName);
+        fs.renameSync(this.getProfileDataPath(name), newProfilePath);
+        ipcMain.emit(UPDATE_SHORTCUT_MENU);
+    };
+
+    deleteProfile = (name: string) => {
+        if (name === this.currentProfile) {
+            throw new Error('Cannot delete the profile that is currently in use');
+        }
+
+        log.info('deleteProfile', name);
+        fs.rmSync(this.getProfileDataPath(name), {recursive: true, force: true});
+        ipcMain.emit(UPDATE_SHORTCUT_MENU);
+    };
+
+    /**
+     * Relaunches the app with the same arguments, except for the profile which is replaced by the provided one.
+     * Leaving out the profile relaunches into the default one.
+     */
+    switchProfile = (name?: string) => {
+        if (name === this.currentProfile) {
+            return;
+        }
+
+        log.info('switchProfile', name);
+        const args = process.argv.slice(1).filter((arg, index, allArgs) => {
+            return !(arg === '--profile' || arg.startsWith('--profile=') || allArgs[index - 1] === '--profile');
+        });
+        if (name) {
+            args.push('--profile', name);
+        }
+
+        app.relaunch({args});
+        app.quit();
+    };
+
+    showCreateProfileModal = async () => {
+        const name = await this.showProfileNameModal();
+        if (!name) {
+            return;
+        }
+
+        try {
+            this.createProfile(name);
+        } catch (error) {
+            this.showError(error);
+            return;
+        }
+        this.switchProfile(name);
+    };
+
+    showRenameProfileModal = async (name: string) => {
+        const newName = await this.showProfileNameModal(name);
+        if (!newName || newName === name) {
+            return;
+        }
+
+        try {
+            this.renameProfile(name, newName);
+        } catch (error) {
+            this.showError(error);
+        }
+    };
+
+    showDeleteProfileDialog = async (name: string) => {
+        const mainWindow = MainWindow.get();
+        if (!mainWindow) {
+            return;
+        }
+
+        const {response} = await dialog.showMessageBox(mainWindow, {
+            title: localizeMessage('main.profileManager.delete.title', 'Delete Profile'),
+            message: localizeMessage('main.profileManager.delete.message', 'Delete the profile {name}?', {name}),
+            detail: localizeMessage('main.profileManager.delete.detail', 'All of the servers, settings and data stored in this profile will be permanently removed from this computer.'),
+            type: 'warning',
+            buttons: [
+                localizeMessage('label.remove', 'Remove'),
+                localizeMessage('label.cancel', 'Cancel'),
+            ],
+            defaultId: 1,
+            cancelId: 1,
+            noLink: true,
+        });
+        if (response !== 0) {
+            return;
+        }
+
+        try {
+            this.deleteProfile(name);
+        } catch (error) {
+            this.showError(error);
+        }
+    };
+
+    private showProfileNameModal = async (name?: string) => {
+        const mainWindow = MainWindow.get();
+        if (!mainWindow) {
+            return undefined;
+        }
+
+        try {
+            return await ModalManager.addModal<ProfileNameModalInfo, string>(
+                'profileName',
+                'mattermost-desktop://renderer/profileName.html',
+                getLocalPreload('internalAPI.js'),
+                {name, profiles: this.getProfiles()},
+                mainWindow,
+            );
+        } catch (e) {
+            // e is undefined for user cancellation
+            if (e) {
+                log.error(`there was an error in the profile name modal: ${e}`);
+            }
+            return undefined;
+        }
+    };
+
+    private showError = (error: unknown) => {
+        log.error('Unable to update the profiles', error);
+        dialog.showErrorBox(
+            localizeMessage('main.profileManager.error.title', 'Profiles'),
+            localizeMessage('main.profileManager.error.body', 'The profile could not be updated: {error}', {error: (error as Error).message}),
+        );
+    };
+}
+
+const profileManager = new ProfileManager();
+export default profileManager;
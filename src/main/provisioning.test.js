@@ -0,0 +1,158 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import crypto from 'crypto';
+import fs from 'fs';
+
+import Config from 'common/config';
+import {writeFileSafe} from 'common/utils/safeFile';
+import {getServerAPI} from 'main/server/serverAPI';
+
+import {ProvisioningManager, PROVISIONING_REQUEST_TIMEOUT} from './provisioning';
+
+jest.mock('fs', () => ({
+    promises: {
+        readFile: jest.fn(),
+    },
+}));
+jest.mock('common/config', () => ({
+    buildData: {},
+    allowedProtocols: ['mattermost'],
+    setProvisioningData: jest.fn(),
+}));
+jest.mock('common/utils/safeFile', () => ({
+    writeFileSafe: jest.fn(),
+}));
+jest.mock('main/allowProtocolDialog', () => ({
+    updateManagedProtocols: jest.fn(),
+}));
+jest.mock('main/constants', () => ({
+    provisioningCachePath: '/provisioning.json',
+}));
+jest.mock('main/server/serverAPI', () => ({
+    getServerAPI: jest.fn(),
+}));
+
+describe('main/provisioning', () => {
+    const {publicKey, privateKey} = crypto.generateKeyPairSync('ed25519');
+    const payload = JSON.stringify({
+        servers: [{name: 'server-1', url: 'https://server-1.com'}],
+        lockedSettings: {autostart: true},
+        allowedProtocols: ['spotify'],
+    });
+    const signDocument = (data, key = privateKey) => ({
+        payload: data,
+        signature: crypto.sign(null, Buffer.from(data), key).toString('base64'),
+    });
+
+    beforeEach(() => {
+        Config.buildData.provisioningPublicKey = publicKey.export({type: 'spki', format: 'pem'});
+        fs.promises.readFile.mockRejectedValue(new Error('ENOENT'));
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('init', () => {
+        it('should not do anything for URLs that are not HTTPS', async () => {
+            const provisioningManager = new ProvisioningManager();
+            await provisioningManager.init('http://provisioning.com/config.json');
+            expect(getServerAPI).not.toHaveBeenCalled();
+        });
+
+        it('should not do anything without a public key', async () => {
+            delete Config.buildData.provisioningPublicKey;
+            const provisioningManager = new ProvisioningManager();
+            await provisioningManager.init('https://provisioning.com/config.json');
+            expect(getServerAPI).not.toHaveBeenCalled();
+        });
+
+        it('should apply the cached document and fetch a new one', async () => {
+            fs.promises.readFile.mockResolvedValue(JSON.stringify(signDocument(payload)));
+            const provisioningManager = new ProvisioningManager();
+            await provisioningManager.init('https://provisioning.com/config.json');
+            provisioningManager.stop();
+
+            expect(Config.setProvisioningData).toHaveBeenCalledWith({
+                servers: [{name: 'server-1', url: 'https://server-1.com'}],
+                lockedSettings: {autostart: true},
+                allowedProtocols: ['spotify'],
+            });
+            expect(getServerAPI).toHaveBeenCalledWith(new URL('https://provisioning.com/config.json'), false, expect.any(Function), expect.any(Function), expect.any(Function), undefined, PROVISIONING_REQUEST_TIMEOUT);
+        });
+    });
+
+    describe('refresh', () => {
+        it('should apply and cache a fetched document', async () => {
+            const document = signDocument(payload);
+            getServerAPI.mockImplementation((url, isAuthenticated, onSuccess) => onSuccess(JSON.stringify(document)));
+            const provisioningManager = new ProvisioningManager();
+            await provisioningManager.init('https://provisioning.com/config.json');
+            provisioningManager.stop();
+            await provisioningManager.refresh();
+
+            expect(Config.setProvisioningData).toHaveBeenCalledTimes(1);
+            expect(writeFileSafe).toHaveBeenCalledWith('/provisioning.json', JSON.stringify(document), expect.any(Function));
+        });
+
+        it('should not rewrite the cache when the fetched document did not change', async () => {
+            const document = signDocument(payload);
+            getServerAPI.mockImplementation((url, isAuthenticated, onSuccess) => onSuccess(JSON.stringify(document)));
+            const provisioningManager = new ProvisioningManager();
+            await provisioningManager.init('https://provisioning.com/config.json');
+            provisioningManager.stop();
+            await provisioningManager.refresh();
+            await provisioningManager.refresh();
+
+            expect(Config.setProvisioningData).toHaveBeenCalledTimes(1);
+            expect(writeFileSafe).toHaveBeenCalledTimes(1);
+        });
+
+        it('should keep the current document when the fetch fails', async () => {
+            getServerAPI.mockImplementation((url, isAuthenticated, onSuccess, onAbort, onError) => onError(new Error('offline')));
+            const provisioningManager = new ProvisioningManager();
+            await provisioningManager.init('https://provisioning.com/config.json');
+            provisioningManager.stop();
+            await provisioningManager.refresh();
+
+            expect(Config.setProvisioningData).not.toHaveBeenCalled();
+            expect(writeFileSafe).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('applyDocument', () => {
+        let provisioningManager;
+
+        beforeEach(async () => {
+            provisioningManager = new ProvisioningManager();
+            await provisioningManager.init('https://provisioning.com/config.json');
+            provisioningManager.stop();
+        });
+
+        it('should reject documents signed with another key', () => {
+            const otherKey = crypto.generateKeyPairSync('ed25519').privateKey;
+            expect(provisioningManager.applyDocument(signDocument(payload, otherKey))).toBe(false);
+            expect(Config.setProvisioningData).not.toHaveBeenCalled();
+        });
+
+        it('should reject documents where the payload was changed after signing', () => {
+            const document = signDocument(payload);
+            document.payload = document.payload.replace('server-1', 'server-2');
+            expect(provisioningManager.applyDocument(document)).toBe(false);
+            expect(Config.setProvisioningData).not.toHaveBeenCalled();
+        });
+
+        it('should reject malformed documents', () => {
+            expect(provisioningManager.applyDocument({payload})).toBe(false);
+            expect(provisioningManager.applyDocument(signDocument('{not json'))).toBe(false);
+            expect(Config.setProvisioningData).not.toHaveBeenCalled();
+        });
+
+        it('should only apply a payload once', () => {
+            expect(provisioningManager.applyDocument(signDocument(payload))).toBe(true);
+            expect(provisioningManager.applyDocument(signDocument(payload))).toBe(true);
+            expect(Config.setProvisioningData).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,179 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import crypto from 'crypto';
+import fs from 'fs';
+
+import Config from 'common/config';
+import {Logger} from 'common/log';
+import {SECOND} from 'common/utils/constants';
+import {writeFileSafe} from 'common/utils/safeFile';
+import {parseURL} from 'common/utils/url';
+import * as Validator from 'common/Validator';
+import AllowProtocolDialog from 'main/allowProtocolDialog';
+import {provisioningCachePath} from 'main/constants';
+import {getServerAPI} from 'main/server/serverAPI';
+
+import type {ProvisioningDocument} from 'types/config';
+import type {ValidationProblem} from 'types/validation';
+
+const log = new Logger('Provisioning');
+
+export const PROVISIONING_REFRESH_INTERVAL = 60 * 60 * 1000;
+export const PROVISIONING_REQUEST_TIMEOUT = 30 * SECOND;
+
+/**
+ * Fetches the servers, locked settings and allowed protocols managed by an organization from a provisioning URL,
+ * set by the policy file or the --provision-url argument. The document has to be signed with the private key
+ * matching the public key in the build config, and the last good one is cached so that offline starts keep the same setup.
+ */
+export class ProvisioningManager {
+    private provisionURL?: URL;
+    private publicKey?: crypto.KeyObject;
+    private lastPayload?: string;
+    private refreshInterval?: NodeJS.Timeout;
+
+    init = async (provisionURL?: string) => {
+        if (!provisionURL) {
+            return;
+        }
+
+        const url = parseURL(provisionURL);
+        if (url?.protocol !== 'https:') {
+            log.warn('The provisioning URL has to use HTTPS, ignoring it');
+            return;
+        }
+        if (!Config.buildData.provisioningPublicKey) {
+            log.warn('There is no public key to verify the provisioning document with, ignoring the provisioning URL');
+            return;
+        }
+        try {
+            this.publicKey = crypto.createPublicKey(Config.buildData.provisioningPublicKey);
+        } catch (error) {
+            log.error('The provisioning public key is invalid', error);
+            return;
+        }
+        this.provisionURL = url;
+
+        const cachedDocument = await this.readCache();
+        if (cachedDocument) {
+            log.info('Applying the cached provisioning document');
+            this.applyDocument(cachedDocument);
+        }
+
+        this.refresh();
+        this.refreshInterval = setInterval(this.refresh, PROVISIONING_REFRESH_INTERVAL);
+    };
+
+    stop = () => {
+        clearInterval(this.refreshInterval);
+        delete this.refreshInterval;
+    };
+
+    refresh = async () => {
+        if (!this.provisionURL) {
+            return;
+        }
+
+        let document: ProvisioningDocument;
+        try {
+            document = await this.fetchDocument(this.provisionURL);
+        } catch (error) {
+            log.warn('Unable to fetch the provisioning document, keeping the current one', error);
+            return;
+        }
+
+        // the cache is only rewritten when the document changed, rather than on every refresh
+        const previousPayload = this.lastPayload;
+        if (this.applyDocument(document) && this.lastPayload !== previousPayload) {
+            writeFileSafe(provisioningCachePath, JSON.stringify(document), (error) => {
+                if (error) {
+                    log.error('Unable to cache the provisioning document', error);
+                }
+            });
+        }
+    };
+
+    /**
+     * Verifies the signature and the contents of the document, and hands it over to the config if they check out
+     */
+    applyDocument = (data: ProvisioningDocument) => {
+        const document = Validator.validateProvisioningDocument(data);
+        if (!document) {
+            log.warn('The provisioning document is malformed, ignoring it');
+            return false;
+        }
+        if (!this.verifySignature(document)) {
+            log.warn('The signature of the provisioning document does not match, ignoring it');
+            return false;
+        }
+        if (document.payload === this.lastPayload) {
+            return true;
+        }
+
+        let payload;
+        try {
+            payload = JSON.parse(document.payload);
+        } catch (error) {
+            log.warn('The provisioning payload is not valid JSON, ignoring it', error);
+            return false;
+        }
+
+        const problems: ValidationProblem[] = [];
+        const provisioningData = Validator.validateProvisioningConfig(payload, problems);
+        problems.forEach((problem) => {
+            log.warn(`Ignoring invalid provisioning setting at "${problem.path}": ${problem.reason}`);
+        });
+        if (!provisioningData) {
+            log.warn('The provisioning payload does not validate, ignoring it');
+            return false;
+        }
+
+        log.info('Applying the provisioning document', {servers: provisioningData.servers.length, lockedSettings: Object.keys(provisioningData.lockedSettings)});
+        this.lastPayload = document.payload;
+        Config.setProvisioningData(provisioningData);
+        AllowProtocolDialog.updateManagedProtocols();
+        return true;
+    };
+
+    private verifySignature = (document: ProvisioningDocument) => {
+        if (!this.publicKey) {
+            return false;
+        }
+
+        // Ed25519 and Ed448 keys sign the data directly, the other key types sign a SHA-256 digest
+        const algorithm = ['ed25519', 'ed448'].includes(this.publicKey.asymmetricKeyType ?? '') ? null : 'sha256';
+        try {
+            return crypto.verify(algorithm, Buffer.from(document.payload, 'utf8'), this.publicKey, Buffer.from(document.signature, 'base64'));
+        } catch (error) {
+            log.warn('Unable to verify the provisioning signature', error);
+            return false;
+        }
+    };
+
+    private fetchDocument = (url: URL) => {
+        return new Promise<ProvisioningDocument>((resolve, reject) => {
+            getServerAPI(
+                url,
+                false,
+                (raw: string) => resolve(JSON.parse(raw)),
+                () => reject(new Error('Aborted')),
+                reject,
+                undefined,
+                PROVISIONING_REQUEST_TIMEOUT,
+            );
+        });
+    };
+
+    private readCache = async () => {
+        try {
+            return JSON.parse(await fs.promises.readFile(provisioningCachePath, 'utf8')) as ProvisioningDocument;
+        } catch (error) {
+            log.debug('No cached provisioning document', error);
+            return undefined;
+        }
+    };
+}
+
+const provisioningManager = new ProvisioningManager();
+export default provisioningManager;
@@ -0,0 +1,109 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {app, dialog, ipcMain} from 'electron';
+
+import {UPDATE_SHORTCUT_MENU} from 'common/communication';
+import ServerManager from 'common/servers/serverManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import {DesktopPolicyManager} from './desktopPolicy';
+
+jest.mock('electron', () => ({
+    app: {
+        getVersion: jest.fn(),
+    },
+    dialog: {
+        showMessageBox: jest.fn(),
+    },
+    ipcMain: {
+        emit: jest.fn(),
+    },
+}));
+
+jest.mock('common/servers/serverManager', () => ({
+    getRemoteInfo: jest.fn(),
+    getServer: jest.fn(),
+    getAllServers: jest.fn(),
+}));
+
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
+
+jest.mock('main/windows/mainWindow', () => ({
+    get: jest.fn(),
+    once: jest.fn(),
+}));
+
+describe('main/server/desktopPolicy', () => {
+    const server = {id: 'server-1', name: 'server-1', primaryURL: new URL('http://server-1.com')};
+    let manager;
+    let desktopPolicy;
+
+    beforeEach(() => {
+        manager = new DesktopPolicyManager();
+        desktopPolicy = undefined;
+        ServerManager.getRemoteInfo.mockImplementation(() => ({desktopPolicy}));
+        ServerManager.getServer.mockReturnValue(server);
+        ServerManager.getAllServers.mockReturnValue([server]);
+        MainWindow.get.mockReturnValue({});
+        app.getVersion.mockReturnValue('5.10.0');
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should keep the usual behavior when the server has no policy', () => {
+        expect(manager.isDownloadAllowed('server-1', 'file.exe')).toBe(true);
+        expect(manager.getExternalLinks('server-1')).toBe('browser');
+        expect(manager.areDevToolsAllowed('server-1')).toBe(true);
+        expect(manager.isDesktopVersionSupported('server-1')).toBe(true);
+    });
+
+    it('should only allow downloading the extensions set by the server', () => {
+        desktopPolicy = {allowedDownloadExtensions: ['pdf', 'png']};
+        expect(manager.isDownloadAllowed('server-1', 'document.PDF')).toBe(true);
+        expect(manager.isDownloadAllowed('server-1', 'file.exe')).toBe(false);
+        expect(manager.isDownloadAllowed('server-1', 'README')).toBe(false);
+    });
+
+    it('should follow the rest of the policy of the server', () => {
+        desktopPolicy = {externalLinks: 'block', allowDevTools: false, minimumDesktopVersion: '6.0.0'};
+        expect(manager.getExternalLinks('server-1')).toBe('block');
+        expect(manager.areDevToolsAllowed('server-1')).toBe(false);
+        expect(manager.isDesktopVersionSupported('server-1')).toBe(false);
+        expect(manager.getDiagnostics()).toStrictEqual([{
+            id: 'server-1',
+            name: 'server-1',
+            url: 'http://server-1.com/',
+            policy: desktopPolicy,
+            isDesktopVersionSupported: false,
+        }]);
+    });
+
+    describe('update', () => {
+        it('should warn once when the app is older than the version required by the server', () => {
+            desktopPolicy = {minimumDesktopVersion: '6.0.0'};
+            manager.update(['server-1']);
+            manager.update(['server-1']);
+            expect(dialog.showMessageBox).toHaveBeenCalledTimes(1);
+            expect(ipcMain.emit).toHaveBeenCalledWith(UPDATE_SHORTCUT_MENU);
+        });
+
+        it('should not warn when the app is recent enough', () => {
+            desktopPolicy = {minimumDesktopVersion: '5.9.0'};
+            manager.update(['server-1']);
+            expect(dialog.showMessageBox).not.toHaveBeenCalled();
+        });
+
+        it('should wait for the main window before warning', () => {
+            desktopPolicy = {minimumDesktopVersion: '6.0.0'};
+            MainWindow.get.mockReturnValue(undefined);
+            manager.update(['server-1']);
+            expect(dialog.showMessageBox).not.toHaveBeenCalled();
+            expect(MainWindow.once).toHaveBeenCalled();
+        });
+    });
+});
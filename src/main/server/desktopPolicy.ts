@@ -0,0 +1,107 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import path from 'path';
+
+import {app, dialog, ipcMain} from 'electron';
+
+import {MAIN_WINDOW_CREATED, UPDATE_SHORTCUT_MENU} from 'common/communication';
+import {Logger} from 'common/log';
+import ServerManager from 'common/servers/serverManager';
+import Utils from 'common/utils/util';
+import {localizeMessage} from 'main/i18nManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import type {ServerDesktopPolicy} from 'types/server';
+
+const log = new Logger('DesktopPolicy');
+
+/**
+ * Enforces the desktop policy that the admin of each server can send along with its client config.
+ * The policy only ever applies to the server that sent it, and it is kept with the rest of the remote info between runs.
+ */
+export class DesktopPolicyManager {
+    private versionWarnings: Map<string, string>;
+
+    constructor() {
+        this.versionWarnings = new Map();
+    }
+
+    getPolicy = (serverId: string): ServerDesktopPolicy => {
+        return ServerManager.getRemoteInfo(serverId)?.desktopPolicy ?? {};
+    };
+
+    isDownloadAllowed = (serverId: string, filename: string) => {
+        const allowedExtensions = this.getPolicy(serverId).allowedDownloadExtensions;
+        if (!allowedExtensions) {
+            return true;
+        }
+        return allowedExtensions.includes(path.extname(filename).slice(1).toLowerCase());
+    };
+
+    getExternalLinks = (serverId: string) => {
+        return this.getPolicy(serverId).externalLinks ?? 'browser';
+    };
+
+    areDevToolsAllowed = (serverId: string) => {
+        return this.getPolicy(serverId).allowDevTools !== false;
+    };
+
+    isDesktopVersionSupported = (serverId: string) => {
+        const minimumDesktopVersion = this.getPolicy(serverId).minimumDesktopVersion;
+        return !minimumDesktopVersion || Utils.isVersionGreaterThanOrEqualTo(app.getVersion(), minimumDesktopVersion);
+    };
+
+    getDiagnostics = () => {
+        return ServerManager.getAllServers().map((server) => ({
+            id: server.id,
+            name: server.name,
+            url: server.primaryURL.toString(),
+            policy: this.getPolicy(server.id),
+            isDesktopVersionSupported: this.isDesktopVersionSupported(server.id),
+        }));
+    };
+
+    /**
+     * Called once the remote info of the servers was fetched again, since their policy may have changed
+     */
+    update = (serverIds: string[]) => {
+        serverIds.forEach((serverId) => {
+            const minimumDesktopVersion = this.getPolicy(serverId).minimumDesktopVersion;
+            if (!minimumDesktopVersion || this.isDesktopVersionSupported(serverId) || this.versionWarnings.get(serverId) === minimumDesktopVersion) {
+                return;
+            }
+
+            // only warned once for each version required by the server, the user can't do anything about it until the app is updated
+            this.versionWarnings.set(serverId, minimumDesktopVersion);
+            log.withPrefix(serverId).warn('The server requires a newer version of the app', {minimumDesktopVersion, version: app.getVersion()});
+            if (MainWindow.get()) {
+                this.showVersionWarning(serverId, minimumDesktopVersion);
+            } else {
+                MainWindow.once(MAIN_WINDOW_CREATED, () => this.showVersionWarning(serverId, minimumDesktopVersion));
+            }
+        });
+
+        // the menus change along with the policy of the current server
+        ipcMain.emit(UPDATE_SHORTCUT_MENU);
+    };
+
+    private showVersionWarning = (serverId: string, minimumDesktopVersion: string) => {
+        const server = ServerManager.getServer(serverId);
+        const mainWindow = MainWindow.get();
+        if (!server || !mainWindow) {
+            return;
+        }
+
+        dialog.showMessageBox(mainWindow, {
+            title: localizeMessage('main.desktopPolicy.unsupportedVersion.title', 'Update Required'),
+            message: localizeMessage('main.desktopPolicy.unsupportedVersion.message', 'The server {name} requires version {minimumDesktopVersion} of the app or newer', {name: server.name, minimumDesktopVersion}),
+            detail: localizeMessage('main.desktopPolicy.unsupportedVersion.detail', 'You are using version {version}. Some features of the server may not work until you update the app.', {version: app.getVersion()}),
+            type: 'warning',
+            buttons: [localizeMessage('label.ok', 'OK')],
+        });
+    };
+}
+
+const desktopPolicyManager = new DesktopPolicyManager();
+export default desktopPolicyManager;
@@ -0,0 +1,106 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {dialog} from 'electron';
+
+import ServerViewState from 'app/serverViewState';
+import {MAIN_WINDOW_CREATED} from 'common/communication';
+import ServerManager from 'common/servers/serverManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import {DuplicateServerManager} from './duplicateServers';
+
+jest.mock('electron', () => ({
+    dialog: {
+        showMessageBox: jest.fn(),
+    },
+}));
+
+jest.mock('app/serverViewState', () => ({
+    getCurrentServer: jest.fn(),
+    switchServer: jest.fn(),
+}));
+
+jest.mock('common/servers/serverManager', () => ({
+    on: jest.fn(),
+    getServer: jest.fn(),
+    getPredefinedDuplicates: jest.fn(),
+    removeServer: jest.fn(),
+    allowDuplicateServer: jest.fn(),
+}));
+
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
+
+jest.mock('main/windows/mainWindow', () => ({
+    get: jest.fn(),
+    once: jest.fn(),
+}));
+
+describe('main/server/duplicateServers', () => {
+    const server = {id: 'server-1', name: 'server-1', primaryURL: new URL('http://server-1.com')};
+    const predefinedServer = {id: 'predefined-1', name: 'predefined-1', primaryURL: new URL('http://server-1.com'), isPredefined: true};
+    let manager;
+
+    beforeEach(() => {
+        manager = new DuplicateServerManager();
+        ServerManager.getServer.mockReturnValue(server);
+        ServerManager.getPredefinedDuplicates.mockReturnValue([{server, predefinedServer}]);
+        ServerViewState.getCurrentServer.mockReturnValue(predefinedServer);
+        MainWindow.get.mockReturnValue({});
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should remove the server when the user picks the predefined one', async () => {
+        dialog.showMessageBox.mockResolvedValue({response: 0});
+        manager.checkDuplicates();
+        await new Promise(setImmediate);
+        expect(ServerManager.removeServer).toHaveBeenCalledWith('server-1');
+        expect(ServerManager.allowDuplicateServer).not.toHaveBeenCalled();
+    });
+
+    it('should switch to the predefined server when removing the current one', async () => {
+        ServerViewState.getCurrentServer.mockReturnValue(server);
+        dialog.showMessageBox.mockResolvedValue({response: 0});
+        manager.checkDuplicates();
+        await new Promise(setImmediate);
+        expect(ServerViewState.switchServer).toHaveBeenCalledWith('predefined-1');
+    });
+
+    it('should remember when the user keeps both servers', async () => {
+        dialog.showMessageBox.mockResolvedValue({response: 1});
+        manager.checkDuplicates();
+        await new Promise(setImmediate);
+        expect(ServerManager.allowDuplicateServer).toHaveBeenCalledWith('server-1');
+        expect(ServerManager.removeServer).not.toHaveBeenCalled();
+    });
+
+    it('should leave both servers when the dialog fails and ask again next time', async () => {
+        dialog.showMessageBox.mockRejectedValue(new Error('failed'));
+        manager.checkDuplicates();
+        await new Promise(setImmediate);
+        expect(ServerManager.removeServer).not.toHaveBeenCalled();
+        expect(ServerManager.allowDuplicateServer).not.toHaveBeenCalled();
+
+        manager.checkDuplicates();
+        expect(dialog.showMessageBox).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only ask once while the dialog is open', () => {
+        dialog.showMessageBox.mockReturnValue(new Promise(() => {}));
+        manager.checkDuplicates();
+        manager.checkDuplicates();
+        expect(dialog.showMessageBox).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for the main window before asking', () => {
+        MainWindow.get.mockReturnValue(undefined);
+        manager.checkDuplicates();
+        expect(dialog.showMessageBox).not.toHaveBeenCalled();
+        expect(MainWindow.once).toHaveBeenCalledWith(MAIN_WINDOW_CREATED, expect.any(Function));
+    });
+});
@@ -0,0 +1,91 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {dialog} from 'electron';
+
+import ServerViewState from 'app/serverViewState';
+import {MAIN_WINDOW_CREATED, SERVERS_UPDATE} from 'common/communication';
+import {Logger} from 'common/log';
+import type {MattermostServer} from 'common/servers/MattermostServer';
+import ServerManager from 'common/servers/serverManager';
+import {localizeMessage} from 'main/i18nManager';
+import MainWindow from 'main/windows/mainWindow';
+
+const log = new Logger('DuplicateServers');
+
+/**
+ * Asks the user what to do with a server they added that has the same URL as a predefined server,
+ * whether it was there before the administrator set up the predefined one or it was added since, instead of silently dropping either of them.
+ */
+export class DuplicateServerManager {
+    private pending: Set<string>;
+
+    constructor() {
+        this.pending = new Set();
+    }
+
+    init = () => {
+        ServerManager.on(SERVERS_UPDATE, this.checkDuplicates);
+        this.checkDuplicates();
+    };
+
+    private checkDuplicates = () => {
+        ServerManager.getPredefinedDuplicates().forEach(({server, predefinedServer}) => {
+            if (this.pending.has(server.id)) {
+                return;
+            }
+            this.pending.add(server.id);
+
+            log.withPrefix(server.id).warn('The server has the same URL as a predefined server', {predefinedServerId: predefinedServer.id});
+            if (MainWindow.get()) {
+                this.askForDecision(server, predefinedServer);
+            } else {
+                MainWindow.once(MAIN_WINDOW_CREATED, () => this.askForDecision(server, predefinedServer));
+            }
+        });
+    };
+
+    private askForDecision = async (server: MattermostServer, predefinedServer: MattermostServer) => {
+        const mainWindow = MainWindow.get();
+        if (!mainWindow || !ServerManager.getServer(server.id)) {
+            this.pending.delete(server.id);
+            return;
+        }
+
+        let response;
+        try {
+            ({response} = await dialog.showMessageBox(mainWindow, {
+                title: localizeMessage('main.duplicateServers.title', 'Duplicate Server'),
+                message: localizeMessage('main.duplicateServers.message', 'The server {name} was also set up by your organization', {name: server.name}),
+                detail: localizeMessage('main.duplicateServers.detail', 'The server {name} that you added has the same URL as {predefinedName}, which was set up by your organization: {url}. You can remove your copy, or keep both of them.', {name: server.name, predefinedName: predefinedServer.name, url: predefinedServer.primaryURL.toString()}),
+                type: 'question',
+                buttons: [
+                    localizeMessage('main.duplicateServers.remove', 'Remove My Copy'),
+                    localizeMessage('main.duplicateServers.keep', 'Keep Both'),
+                ],
+                defaultId: 0,
+                cancelId: 1,
+                noLink: true,
+            }));
+        } catch (e) {
+            log.withPrefix(server.id).error(`there was an error asking about the duplicate server: ${e}`);
+            return;
+        } finally {
+            this.pending.delete(server.id);
+        }
+
+        if (response === 0) {
+            log.withPrefix(server.id).info('Removing the server in favor of the predefined one');
+            if (ServerViewState.getCurrentServer().id === server.id) {
+                ServerViewState.switchServer(predefinedServer.id);
+            }
+            ServerManager.removeServer(server.id);
+        } else {
+            log.withPrefix(server.id).info('Keeping the server next to the predefined one');
+            ServerManager.allowDuplicateServer(server.id);
+        }
+    };
+}
+
+const duplicateServerManager = new DuplicateServerManager();
+export default duplicateServerManager;
@@ -0,0 +1,75 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import ServerManager from 'common/servers/serverManager';
+
+import {REMOTE_INFO_STALE_AGE, RemoteInfoCache} from './remoteInfoCache';
+
+jest.mock('fs', () => ({
+    existsSync: jest.fn(),
+    readFileSync: jest.fn(),
+    writeFile: jest.fn(),
+}));
+
+jest.mock('electron', () => ({
+    ipcMain: {
+        on: jest.fn(),
+    },
+}));
+
+jest.mock('common/servers/serverManager', () => ({
+    getServer: jest.fn(),
+    getAllServers: jest.fn(),
+    getEnabledServers: jest.fn(),
+    updateRemoteInfos: jest.fn(),
+}));
+
+jest.mock('main/constants', () => ({
+    remoteInfoJson: 'remote-info.json',
+}));
+
+describe('main/server/remoteInfoCache', () => {
+    const server1 = {id: 'server-1', name: 'server-1', url: new URL('http://server-1.com'), primaryURL: new URL('http://server-1.com')};
+    const server2 = {id: 'server-2', name: 'server-2', url: new URL('http://server-2.com'), primaryURL: new URL('http://server-2.com')};
+    let cache;
+
+    beforeEach(() => {
+        cache = new RemoteInfoCache('remote-info.json');
+        cache.syncWithFile = jest.fn();
+        cache.writeToFile = jest.fn();
+        cache.json = {
+            'http://server-1.com/': {remoteInfo: {serverVersion: '9.0.0', siteURL: 'http://server-1.com'}, time: Date.now() - 1000},
+            'http://removed-server.com/': {remoteInfo: {serverVersion: '8.0.0'}, time: Date.now() - 1000},
+        };
+        ServerManager.getServer.mockImplementation((id) => [server1, server2].find((server) => server.id === id));
+        ServerManager.getAllServers.mockReturnValue([server1, server2]);
+        ServerManager.getEnabledServers.mockReturnValue([server1, server2]);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should hand the saved remote info over to the server manager', () => {
+        cache.load([server1, server2]);
+        expect(ServerManager.updateRemoteInfos).toHaveBeenCalledWith(new Map([['server-1', {serverVersion: '9.0.0', siteURL: 'http://server-1.com'}]]), true);
+    });
+
+    it('should save the remote info by URL and drop the servers that are gone', () => {
+        cache.save(new Map([['server-2', {serverVersion: '10.0.0'}]]));
+        expect(Object.keys(cache.json)).toStrictEqual(['http://server-1.com/', 'http://server-2.com/']);
+        expect(cache.json['http://server-2.com/']).toStrictEqual({remoteInfo: {serverVersion: '10.0.0'}, time: expect.any(Number)});
+        expect(cache.writeToFile).toHaveBeenCalled();
+    });
+
+    it('should report the servers with missing or old remote info', () => {
+        cache.json['http://server-1.com/'].time = Date.now() - REMOTE_INFO_STALE_AGE - 1000;
+        expect(cache.getDiagnostics()).toStrictEqual([
+            {id: 'server-1', name: 'server-1', url: 'http://server-1.com/', time: cache.json['http://server-1.com/'].time, age: expect.any(Number), isStale: true},
+            {id: 'server-2', name: 'server-2', url: 'http://server-2.com/', time: undefined, age: undefined, isStale: true},
+        ]);
+
+        cache.save(new Map([['server-1', {serverVersion: '9.0.0'}], ['server-2', {serverVersion: '10.0.0'}]]));
+        expect(cache.getDiagnostics().map((server) => server.isStale)).toStrictEqual([false, false]);
+    });
+});
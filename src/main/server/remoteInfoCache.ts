@@ -0,0 +1,84 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {ipcMain} from 'electron';
+
+import {UPDATE_PATHS} from 'common/communication';
+import JsonFileManager from 'common/JsonFileManager';
+import {Logger} from 'common/log';
+import type {MattermostServer} from 'common/servers/MattermostServer';
+import ServerManager from 'common/servers/serverManager';
+import * as Validator from 'common/Validator';
+import {remoteInfoJson} from 'main/constants';
+
+import type {CachedRemoteInfo, RemoteInfo} from 'types/server';
+
+const log = new Logger('RemoteInfoCache');
+
+export const REMOTE_INFO_STALE_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps the last remote info fetched from each server, so that it is known right away on the next start and while the server can't be reached.
+ * It is stored by URL, since the ids of the servers change on every start.
+ */
+export class RemoteInfoCache extends JsonFileManager<Record<string, CachedRemoteInfo>> {
+    constructor(file: string) {
+        super(file, Validator.validateRemoteInfoCache);
+    }
+
+    /**
+     * Hands the saved remote info of the servers over to the server manager, to be used until it is fetched again
+     */
+    load = (servers: MattermostServer[]) => {
+        const remoteInfos = servers.reduce((map, server) => {
+            const cached = this.getValue(server.primaryURL.toString());
+            if (cached) {
+                map.set(server.id, cached.remoteInfo);
+            }
+            return map;
+        }, new Map<string, RemoteInfo>());
+
+        log.debug('load', remoteInfos.size);
+        ServerManager.updateRemoteInfos(remoteInfos, true);
+    };
+
+    save = (remoteInfos: Map<string, RemoteInfo>) => {
+        this.syncWithFile();
+
+        const time = Date.now();
+        remoteInfos.forEach((remoteInfo, serverId) => {
+            const server = ServerManager.getServer(serverId);
+            if (server) {
+                this.json[server.primaryURL.toString()] = {remoteInfo, time};
+            }
+        });
+
+        // the servers that were removed or moved to another URL since are dropped along the way
+        const urls = new Set(ServerManager.getAllServers().map((server) => server.primaryURL.toString()));
+        Object.keys(this.json).filter((url) => !urls.has(url)).forEach((url) => delete this.json[url]);
+        this.writeToFile();
+    };
+
+    getDiagnostics = () => {
+        const now = Date.now();
+        return ServerManager.getEnabledServers().map((server) => {
+            const time = this.getValue(server.primaryURL.toString())?.time;
+            return {
+                id: server.id,
+                name: server.name,
+                url: server.primaryURL.toString(),
+                time,
+                age: time ? now - time : undefined,
+                isStale: !time || now - time > REMOTE_INFO_STALE_AGE,
+            };
+        });
+    };
+}
+
+let remoteInfoCache = new RemoteInfoCache(remoteInfoJson);
+
+ipcMain.on(UPDATE_PATHS, () => {
+    remoteInfoCache = new RemoteInfoCache(remoteInfoJson);
+});
+
+export default remoteInfoCache;
@@ -115,6 +115,39 @@ describe('main/server/serverAPI', () => {
         expect(abortFn).toHaveBeenCalled();
     });
 
+    it('should abort the request when it takes longer than the timeout', async () => {
+        jest.useFakeTimers();
+        const listeners = {};
+        const request = {
+            on: jest.fn().mockImplementation((event, callback) => {
+                listeners[event] = callback;
+            }),
+            abort: jest.fn().mockImplementation(() => {
+                listeners.abort();
+                listeners.close();
+            }),
+            end: jest.fn(),
+        };
+        net.request.mockImplementation(() => request);
+
+        const abortFn = jest.fn();
+        await getServerAPI(
+            validURL,
+            false,
+            jest.fn(),
+            abortFn,
+            null,
+            undefined,
+            5000,
+        );
+        jest.advanceTimersByTime(4999);
+        expect(request.abort).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+        expect(request.abort).toHaveBeenCalled();
+        expect(abortFn).toHaveBeenCalled();
+        jest.useRealTimers();
+    });
+
     it('should call onError when request errors', async () => {
         net.request.mockImplementation(() => ({
             on: jest.fn().mockImplementation((event, requestCallback) => {
@@ -1,6 +1,7 @@
 // Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
+import type {Session} from 'electron';
 import {net, session} from 'electron';
 
 import {COOKIE_NAME_AUTH_TOKEN, COOKIE_NAME_CSRF, COOKIE_NAME_USER_ID} from 'common/constants';
@@ -8,9 +9,17 @@ import {Logger} from 'common/log';
 
 const log = new Logger('serverAPI');
 
-export async function getServerAPI(url: URL, isAuthenticated: boolean, onSuccess?: (raw: string) => void, onAbort?: () => void, onError?: (error: Error) => void) {
+export async function getServerAPI(
+    url: URL,
+    isAuthenticated: boolean,
+    onSuccess?: (raw: string) => void,
+    onAbort?: () => void,
+    onError?: (error: Error) => void,
+    serverSession: Session = session.defaultSession,
+    timeout?: number,
+) {
     if (isAuthenticated) {
-        const cookies = await session.defaultSession.cookies.get({});
+        const cookies = await serverSession.cookies.get({});
         if (!cookies) {
             log.error('Cannot authenticate, no cookies present');
             return;
@@ -32,7 +41,7 @@ export async function getServerAPI(url: URL, isAuthenticated: boolean, onSuccess
 
     const req = net.request({
         url: url.toString(),
-        session: session.defaultSession,
+        session: serverSession,
         useSessionCookies: true,
     });
 
@@ -66,5 +75,38 @@ export async function getServerAPI(url: URL, isAuthenticated: boolean, onSuccess
     if (onError) {
         req.on('error', onError);
     }
+
+    // the request is aborted when the server takes too long to answer, which calls onAbort
+    if (timeout) {
+        const timer = setTimeout(() => req.abort(), timeout);
+        req.on('close', () => clearTimeout(timer));
+    }
     req.end();
 }
+
+/**
+ * Downloads a file as-is, for the binary responses that can't go through getServerAPI, such as images
+ */
+export function getServerFile(url: URL, serverSession: Session = session.defaultSession) {
+    return new Promise<Buffer>((resolve, reject) => {
+        const req = net.request({
+            url: url.toString(),
+            session: serverSession,
+            useSessionCookies: true,
+        });
+
+        req.on('response', (response: Electron.IncomingMessage) => {
+            if (response.statusCode !== 200) {
+                reject(new Error(`Bad status code requesting from ${url.toString()}`));
+                return;
+            }
+            const chunks: Buffer[] = [];
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+            response.on('end', () => resolve(Buffer.concat(chunks)));
+            response.on('error', reject);
+        });
+        req.on('abort', () => reject(new Error('Aborted')));
+        req.on('error', reject);
+        req.end();
+    });
+}
@@ -0,0 +1,128 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+
+import {ipcMain, nativeImage} from 'electron';
+
+import {ServerAvatars} from './serverAvatars';
+
+jest.mock('fs', () => ({
+    promises: {
+        mkdir: jest.fn(),
+        writeFile: jest.fn(),
+    },
+}));
+
+jest.mock('electron', () => ({
+    ipcMain: {
+        emit: jest.fn(),
+    },
+    nativeImage: {
+        createFromBitmap: jest.fn(),
+        createFromBuffer: jest.fn(),
+        createFromDataURL: jest.fn(),
+        createFromPath: jest.fn(),
+    },
+}));
+
+jest.mock('main/constants', () => ({
+    serverAvatarsPath: '/path/to/avatars',
+}));
+
+const makeImage = (dataURL, isEmpty = false) => {
+    const image = {
+        isEmpty: () => isEmpty,
+        toDataURL: () => dataURL,
+        toPNG: () => Buffer.from(dataURL),
+    };
+    image.resize = jest.fn(() => image);
+    return image;
+};
+
+describe('main/server/serverAvatars', () => {
+    const server = {id: 'server-1', url: new URL('http://server-1.com'), primaryURL: new URL('http://server-1.com')};
+
+    beforeEach(() => {
+        nativeImage.createFromPath.mockReturnValue(makeImage('', true));
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('getAvatarImage', () => {
+        it('should prefer the custom image over everything else', () => {
+            const serverAvatars = new ServerAvatars();
+            const image = makeImage('data:image/png;base64,custom');
+            nativeImage.createFromDataURL.mockReturnValue(image);
+            expect(serverAvatars.getAvatarImage({...server, icon: {image: 'data:image/png;base64,custom', color: '#ff0000'}}, 16)).toBe(image);
+            expect(nativeImage.createFromDataURL).toHaveBeenCalledWith('data:image/png;base64,custom');
+            expect(image.resize).toHaveBeenCalledWith({width: 16, height: 16});
+            expect(nativeImage.createFromBitmap).not.toHaveBeenCalled();
+        });
+
+        it('should draw a circle of the custom color', () => {
+            const serverAvatars = new ServerAvatars();
+            serverAvatars.getAvatarImage({...server, icon: {color: '#102030'}}, 2);
+            const [bitmap, size] = nativeImage.createFromBitmap.mock.calls[0];
+            expect(size).toStrictEqual({width: 2, height: 2});
+            expect([...bitmap.subarray(0, 4)]).toStrictEqual([0x30, 0x20, 0x10, 255]);
+        });
+
+        it('should fall back to the cached favicon', () => {
+            nativeImage.createFromPath.mockReturnValue(makeImage('data:image/png;base64,cached'));
+            const serverAvatars = new ServerAvatars();
+            const image = makeImage('data:image/png;base64,cached');
+            nativeImage.createFromDataURL.mockReturnValue(image);
+            expect(serverAvatars.getAvatarImage(server, 16)).toBe(image);
+            expect(nativeImage.createFromDataURL).toHaveBeenCalledWith('data:image/png;base64,cached');
+        });
+
+        it('should return nothing when there is no avatar', () => {
+            const serverAvatars = new ServerAvatars();
+            expect(serverAvatars.getAvatarImage(server, 16)).toBeUndefined();
+        });
+    });
+
+    describe('updateFavicon', () => {
+        it('should cache the new favicon and notify about it', async () => {
+            const serverAvatars = new ServerAvatars();
+            const listener = jest.fn();
+            serverAvatars.on('update', listener);
+            nativeImage.createFromBuffer.mockReturnValue(makeImage('data:image/png;base64,new'));
+            nativeImage.createFromDataURL.mockReturnValue(makeImage('data:image/png;base64,new'));
+
+            await serverAvatars.updateFavicon(server, {fetchAvatar: () => Promise.resolve(Buffer.from('image'))});
+
+            expect(serverAvatars.toUniqueServer({...server, toUniqueServer: () => ({id: server.id})})).toStrictEqual({id: server.id, favicon: 'data:image/png;base64,new'});
+            expect(listener).toHaveBeenCalled();
+            expect(ipcMain.emit).toHaveBeenCalled();
+            expect(fs.promises.mkdir).toHaveBeenCalledWith('/path/to/avatars', {recursive: true});
+        });
+
+        it('should not notify when the favicon is unchanged', async () => {
+            nativeImage.createFromPath.mockReturnValue(makeImage('data:image/png;base64,same'));
+            const serverAvatars = new ServerAvatars();
+            const listener = jest.fn();
+            serverAvatars.on('update', listener);
+            nativeImage.createFromBuffer.mockReturnValue(makeImage('data:image/png;base64,same'));
+
+            await serverAvatars.updateFavicon(server, {fetchAvatar: () => Promise.resolve(Buffer.from('image'))});
+
+            expect(listener).not.toHaveBeenCalled();
+            expect(fs.promises.writeFile).not.toHaveBeenCalled();
+        });
+
+        it('should keep the current favicon when the server avatar cannot be fetched', async () => {
+            const serverAvatars = new ServerAvatars();
+            const listener = jest.fn();
+            serverAvatars.on('update', listener);
+
+            await serverAvatars.updateFavicon(server, {fetchAvatar: () => Promise.reject(new Error('404'))});
+
+            expect(listener).not.toHaveBeenCalled();
+            expect(nativeImage.createFromBuffer).not.toHaveBeenCalled();
+        });
+    });
+});
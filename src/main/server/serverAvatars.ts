@@ -0,0 +1,144 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import {ipcMain, nativeImage} from 'electron';
+import {EventEmitter} from 'events';
+
+import {UPDATE_SHORTCUT_MENU} from 'common/communication';
+import {Logger} from 'common/log';
+import type {MattermostServer} from 'common/servers/MattermostServer';
+import {serverAvatarsPath} from 'main/constants';
+
+import type {ServerInfo} from './serverInfo';
+
+const log = new Logger('ServerAvatars');
+
+export const AVATAR_SIZE = 64;
+
+/**
+ * Draws a filled circle, used in place of an image for the servers that were given a custom color
+ */
+export function createColorImage(color: string, size: number) {
+    const [red, green, blue] = [1, 3, 5].map((index) => parseInt(color.slice(index, index + 2), 16));
+    const radius = size / 2;
+    const bitmap = Buffer.alloc(size * size * 4);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            if ((((x + 0.5) - radius) ** 2) + (((y + 0.5) - radius) ** 2) > radius ** 2) {
+                continue;
+            }
+
+            // the bitmap is in BGRA order
+            const offset = ((y * size) + x) * 4;
+            bitmap[offset] = blue;
+            bitmap[offset + 1] = green;
+            bitmap[offset + 2] = red;
+            bitmap[offset + 3] = 255;
+        }
+    }
+    return nativeImage.createFromBitmap(bitmap, {width: size, height: size});
+}
+
+/**
+ * Keeps the favicon or brand image of each server, which is shown as its avatar unless the user picked a custom icon.
+ * The images are cached on disk so that the avatars show up right away on the next start, even when the server can't be reached.
+ *
+ * @emits {update} emitted whenever the favicon of a server has changed
+ */
+export class ServerAvatars extends EventEmitter {
+    private favicons: Map<string, string | undefined>;
+
+    constructor() {
+        super();
+        this.favicons = new Map();
+    }
+
+    getFavicon = (server: MattermostServer) => {
+        const key = server.primaryURL.toString();
+        if (!this.favicons.has(key)) {
+            this.favicons.set(key, this.readCache(key));
+        }
+        return this.favicons.get(key);
+    };
+
+    toUniqueServer = (server: MattermostServer) => {
+        const favicon = this.getFavicon(server);
+        return {
+            ...server.toUniqueServer(),
+            ...(favicon ? {favicon} : {}),
+        };
+    };
+
+    /**
+     * Returns the avatar of the server as an image for the places that can't render it themselves, like menus and notifications
+     */
+    getAvatarImage = (server: MattermostServer, size: number) => {
+        if (server.icon?.image) {
+            return nativeImage.createFromDataURL(server.icon.image).resize({width: size, height: size});
+        }
+        if (server.icon?.color) {
+            return createColorImage(server.icon.color, size);
+        }
+        const favicon = this.getFavicon(server);
+        if (favicon) {
+            return nativeImage.createFromDataURL(favicon).resize({width: size, height: size});
+        }
+        return undefined;
+    };
+
+    updateFavicon = async (server: MattermostServer, serverInfo: ServerInfo) => {
+        let data;
+        try {
+            data = await serverInfo.fetchAvatar();
+        } catch (error) {
+            log.withPrefix(server.id).debug('Could not fetch the server avatar', error);
+            return;
+        }
+
+        const image = nativeImage.createFromBuffer(data);
+        if (image.isEmpty()) {
+            log.withPrefix(server.id).debug('The server avatar is not an image that can be shown');
+            return;
+        }
+
+        const key = server.primaryURL.toString();
+        const favicon = image.resize({width: AVATAR_SIZE, height: AVATAR_SIZE, quality: 'best'}).toDataURL();
+        if (favicon === this.getFavicon(server)) {
+            return;
+        }
+        this.favicons.set(key, favicon);
+        this.writeCache(key, favicon);
+
+        this.emit('update');
+        ipcMain.emit(UPDATE_SHORTCUT_MENU);
+    };
+
+    private getCachePath = (key: string) => {
+        return path.join(serverAvatarsPath, `${crypto.createHash('sha256').update(key).digest('hex')}.png`);
+    };
+
+    private readCache = (key: string) => {
+        try {
+            const image = nativeImage.createFromPath(this.getCachePath(key));
+            return image.isEmpty() ? undefined : image.toDataURL();
+        } catch (error) {
+            return undefined;
+        }
+    };
+
+    private writeCache = async (key: string, favicon: string) => {
+        try {
+            await fs.promises.mkdir(serverAvatarsPath, {recursive: true});
+            await fs.promises.writeFile(this.getCachePath(key), nativeImage.createFromDataURL(favicon).toPNG());
+        } catch (error) {
+            log.warn('Could not cache the server avatar', error);
+        }
+    };
+}
+
+const serverAvatars = new ServerAvatars();
+export default serverAvatars;
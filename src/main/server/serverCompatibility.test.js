@@ -0,0 +1,117 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {SERVER_COMPATIBILITY_UPDATED} from 'common/communication';
+import ServerManager from 'common/servers/serverManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import {MINIMUM_SERVER_VERSION, ServerCompatibilityManager} from './serverCompatibility';
+
+jest.mock('electron', () => ({
+    ipcMain: {
+        handle: jest.fn(),
+        on: jest.fn(),
+    },
+}));
+
+jest.mock('common/servers/serverManager', () => ({
+    getRemoteInfo: jest.fn(),
+    getEnabledServers: jest.fn(),
+}));
+
+jest.mock('main/windows/mainWindow', () => ({
+    sendToRenderer: jest.fn(),
+}));
+
+describe('main/server/serverCompatibility', () => {
+    let manager;
+    let serverVersion;
+
+    beforeEach(() => {
+        manager = new ServerCompatibilityManager();
+        serverVersion = '7.0.0';
+        ServerManager.getRemoteInfo.mockImplementation(() => (serverVersion ? {serverVersion} : undefined));
+        ServerManager.getEnabledServers.mockReturnValue([{id: 'server-1'}]);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('getCompatibility', () => {
+        it('should return nothing until the version of the server is known', () => {
+            serverVersion = undefined;
+            expect(manager.getCompatibility('server-1')).toBeUndefined();
+        });
+
+        it('should list the features the server is too old for', () => {
+            expect(manager.getCompatibility('server-1')).toStrictEqual({
+                serverVersion: '7.0.0',
+                minimumVersion: MINIMUM_SERVER_VERSION,
+                isSupported: false,
+                unsupportedFeatures: ['callsWidget'],
+            });
+        });
+
+        it('should support servers at the minimum version', () => {
+            serverVersion = MINIMUM_SERVER_VERSION;
+            expect(manager.getCompatibility('server-1').isSupported).toBe(true);
+        });
+    });
+
+    describe('isFeatureSupported', () => {
+        it('should only use features once the server is known to support them', () => {
+            expect(manager.isFeatureSupported('server-1', 'historyPush')).toBe(true);
+            expect(manager.isFeatureSupported('server-1', 'callsWidget')).toBe(false);
+            serverVersion = undefined;
+            expect(manager.isFeatureSupported('server-1', 'historyPush')).toBe(false);
+        });
+    });
+
+    describe('isFeatureUnsupported', () => {
+        it('should only turn off features once the server is known to be too old for them', () => {
+            expect(manager.isFeatureUnsupported('server-1', 'callsWidget')).toBe(true);
+            expect(manager.isFeatureUnsupported('server-1', 'historyPush')).toBe(false);
+            serverVersion = undefined;
+            expect(manager.isFeatureUnsupported('server-1', 'callsWidget')).toBe(false);
+        });
+    });
+
+    describe('shouldShowBanner', () => {
+        it('should show the banner for servers older than the minimum version', () => {
+            expect(manager.shouldShowBanner('server-1')).toBe(true);
+            serverVersion = '9.4.0';
+            expect(manager.shouldShowBanner('server-1')).toBe(false);
+        });
+
+        it('should hide the banner once dismissed', () => {
+            manager.dismiss('server-1');
+            expect(manager.shouldShowBanner('server-1')).toBe(false);
+            expect(MainWindow.sendToRenderer).toHaveBeenCalledWith(SERVER_COMPATIBILITY_UPDATED, {});
+        });
+
+        it('should show the banner again when the server is updated to another unsupported version', () => {
+            manager.dismiss('server-1');
+            serverVersion = '7.1.0';
+            expect(manager.shouldShowBanner('server-1')).toBe(true);
+        });
+    });
+
+    describe('getBanners', () => {
+        it('should only return the servers that should show the banner', () => {
+            ServerManager.getEnabledServers.mockReturnValue([{id: 'server-1'}, {id: 'server-2'}]);
+            ServerManager.getRemoteInfo.mockImplementation((serverId) => ({serverVersion: serverId === 'server-1' ? '7.0.0' : '9.4.0'}));
+            expect(Object.keys(manager.getBanners())).toStrictEqual(['server-1']);
+        });
+    });
+
+    describe('update', () => {
+        it('should let the views and the renderer know', () => {
+            const listener = jest.fn();
+            manager.on('update', listener);
+            manager.update(['server-1']);
+            expect(listener).toHaveBeenCalled();
+            expect(MainWindow.sendToRenderer).toHaveBeenCalledWith(SERVER_COMPATIBILITY_UPDATED, {'server-1': expect.objectContaining({serverVersion: '7.0.0'})});
+        });
+    });
+});
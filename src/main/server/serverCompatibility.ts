@@ -0,0 +1,135 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {IpcMainEvent} from 'electron';
+import {ipcMain} from 'electron';
+import {EventEmitter} from 'events';
+
+import {DISMISS_SERVER_COMPATIBILITY, GET_SERVER_COMPATIBILITY, SERVER_COMPATIBILITY_UPDATED} from 'common/communication';
+import {Logger} from 'common/log';
+import ServerManager from 'common/servers/serverManager';
+import Utils from 'common/utils/util';
+import MainWindow from 'main/windows/mainWindow';
+
+import type {ServerCompatibility, ServerFeature} from 'types/server';
+
+const log = new Logger('ServerCompatibility');
+
+export const MINIMUM_SERVER_VERSION = '7.8.0';
+
+/**
+ * The oldest server version that each feature of the app works with.
+ * The features are left out for older servers, falling back to what those servers support where there is something to fall back to.
+ */
+export const FEATURE_MINIMUM_VERSIONS: Record<ServerFeature, string> = {
+
+    // the webapp navigates to deep links by itself, older servers get the whole view reloaded on the link instead
+    historyPush: '6.0.0',
+
+    // calls are joined in a widget window of the app, older servers can't be joined from the app
+    callsWidget: '7.6.0',
+};
+
+/**
+ * Checks the version reported by each server against the versions the app supports.
+ * The servers older than the minimum version get a banner above their views until the user dismisses it.
+ *
+ * @emits {update} emitted whenever the banner of a server was shown or dismissed
+ */
+export class ServerCompatibilityManager extends EventEmitter {
+    private dismissed: Map<string, string>;
+
+    constructor() {
+        super();
+        this.dismissed = new Map();
+    }
+
+    init = () => {
+        ipcMain.handle(GET_SERVER_COMPATIBILITY, this.getBanners);
+        ipcMain.on(DISMISS_SERVER_COMPATIBILITY, this.handleDismiss);
+    };
+
+    /**
+     * Returns nothing until the version of the server is known
+     */
+    getCompatibility = (serverId: string): ServerCompatibility | undefined => {
+        const serverVersion = ServerManager.getRemoteInfo(serverId)?.serverVersion;
+        if (!serverVersion) {
+            return undefined;
+        }
+        const features = Object.keys(FEATURE_MINIMUM_VERSIONS) as ServerFeature[];
+        return {
+            serverVersion,
+            minimumVersion: MINIMUM_SERVER_VERSION,
+            isSupported: Utils.isVersionGreaterThanOrEqualTo(serverVersion, MINIMUM_SERVER_VERSION),
+            unsupportedFeatures: features.filter((feature) => !Utils.isVersionGreaterThanOrEqualTo(serverVersion, FEATURE_MINIMUM_VERSIONS[feature])),
+        };
+    };
+
+    /**
+     * Features are only used once the version of the server is known to support them
+     */
+    isFeatureSupported = (serverId: string, feature: ServerFeature) => {
+        const compatibility = this.getCompatibility(serverId);
+        return Boolean(compatibility && !compatibility.unsupportedFeatures.includes(feature));
+    };
+
+    /**
+     * Features are only turned off once the version of the server is known to be too old for them
+     */
+    isFeatureUnsupported = (serverId: string, feature: ServerFeature) => {
+        return Boolean(this.getCompatibility(serverId)?.unsupportedFeatures.includes(feature));
+    };
+
+    shouldShowBanner = (serverId: string) => {
+        const compatibility = this.getCompatibility(serverId);
+        return Boolean(compatibility && !compatibility.isSupported && this.dismissed.get(serverId) !== compatibility.serverVersion);
+    };
+
+    getBanners = () => {
+        return ServerManager.getEnabledServers().reduce<Record<string, ServerCompatibility>>((banners, server) => {
+            const compatibility = this.getCompatibility(server.id);
+            if (compatibility && this.shouldShowBanner(server.id)) {
+                banners[server.id] = compatibility;
+            }
+            return banners;
+        }, {});
+    };
+
+    /**
+     * Called once the remote info of the servers was fetched again, since their version may have changed
+     */
+    update = (serverIds: string[]) => {
+        serverIds.forEach((serverId) => {
+            const compatibility = this.getCompatibility(serverId);
+            if (compatibility?.unsupportedFeatures.length) {
+                log.withPrefix(serverId).warn('Some features are not available for the version of the server', compatibility);
+            }
+        });
+        this.sendUpdate();
+    };
+
+    dismiss = (serverId: string) => {
+        const compatibility = this.getCompatibility(serverId);
+        if (!compatibility) {
+            return;
+        }
+
+        // dismissed for the current version only, so that the banner comes back if the server is updated to another unsupported version
+        this.dismissed.set(serverId, compatibility.serverVersion);
+        this.sendUpdate();
+    };
+
+    private sendUpdate = () => {
+        this.emit('update');
+        MainWindow.sendToRenderer(SERVER_COMPATIBILITY_UPDATED, this.getBanners());
+    };
+
+    private handleDismiss = (event: IpcMainEvent, serverId: string) => {
+        log.withPrefix(serverId).debug('handleDismiss');
+        this.dismiss(serverId);
+    };
+}
+
+const serverCompatibilityManager = new ServerCompatibilityManager();
+export default serverCompatibilityManager;
@@ -0,0 +1,118 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {safeStorage} from 'electron';
+
+import ServerManager from 'common/servers/serverManager';
+
+import {ServerHeaderManager} from './serverHeaders';
+import ServerSessions from './serverSessions';
+
+jest.mock('electron', () => ({
+    safeStorage: {
+        isEncryptionAvailable: jest.fn(),
+        encryptString: jest.fn(),
+        decryptString: jest.fn(),
+    },
+}));
+
+jest.mock('common/servers/serverManager', () => ({
+    getServer: jest.fn(),
+    getAllServers: jest.fn(),
+    setServerHeaders: jest.fn(),
+}));
+
+jest.mock('./serverSessions', () => ({
+    getSession: jest.fn(),
+}));
+
+describe('main/server/serverHeaders', () => {
+    let manager;
+
+    beforeEach(() => {
+        manager = new ServerHeaderManager();
+        safeStorage.isEncryptionAvailable.mockReturnValue(true);
+        safeStorage.encryptString.mockImplementation((value) => Buffer.from(`encrypted-${value}`));
+        safeStorage.decryptString.mockImplementation((buffer) => buffer.toString().replace('encrypted-', ''));
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('setHeaders', () => {
+        it('should encrypt the secret values only', () => {
+            ServerManager.getServer.mockReturnValue({id: 'server-1'});
+            manager.setHeaders('server-1', [
+                {name: 'X-Team', value: 'sales'},
+                {name: 'Authorization', value: 'Bearer token', secret: true},
+            ]);
+            expect(ServerManager.setServerHeaders).toHaveBeenCalledWith('server-1', [
+                {name: 'X-Team', value: 'sales'},
+                {name: 'Authorization', encryptedValue: Buffer.from('encrypted-Bearer token').toString('base64')},
+            ]);
+        });
+
+        it('should keep the saved value of the secret headers left empty', () => {
+            ServerManager.getServer.mockReturnValue({id: 'server-1', headers: [{name: 'Authorization', encryptedValue: 'c2F2ZWQ='}]});
+            manager.setHeaders('server-1', [{name: 'Authorization', value: '', secret: true}]);
+            expect(ServerManager.setServerHeaders).toHaveBeenCalledWith('server-1', [{name: 'Authorization', encryptedValue: 'c2F2ZWQ='}]);
+            expect(safeStorage.encryptString).not.toHaveBeenCalled();
+        });
+
+        it('should leave out the secret headers when encryption is not available', () => {
+            ServerManager.getServer.mockReturnValue({id: 'server-1'});
+            safeStorage.isEncryptionAvailable.mockReturnValue(false);
+            manager.setHeaders('server-1', [{name: 'Authorization', value: 'Bearer token', secret: true}]);
+            expect(ServerManager.setServerHeaders).toHaveBeenCalledWith('server-1', []);
+        });
+    });
+
+    describe('createBeforeSendHeadersHandler', () => {
+        const serverSession = {};
+        const server = {
+            id: 'server-1',
+            url: new URL('https://server-1.com/subpath'),
+            urls: [new URL('https://server-1.com/subpath')],
+            headers: [
+                {name: 'X-Team', value: 'sales'},
+                {name: 'Authorization', encryptedValue: Buffer.from('encrypted-Bearer token').toString('base64')},
+            ],
+        };
+
+        beforeEach(() => {
+            ServerManager.getAllServers.mockReturnValue([server]);
+            ServerSessions.getSession.mockReturnValue(serverSession);
+        });
+
+        it('should add the headers to the requests made to the server', () => {
+            const callback = jest.fn();
+            manager.createBeforeSendHeadersHandler(serverSession)({url: 'https://server-1.com/api/v4/users/me', requestHeaders: {Accept: '*/*'}}, callback);
+            expect(callback).toHaveBeenCalledWith({requestHeaders: {Accept: '*/*', 'X-Team': 'sales', Authorization: 'Bearer token'}});
+        });
+
+        it('should leave the other requests alone', () => {
+            const callback = jest.fn();
+            manager.createBeforeSendHeadersHandler(serverSession)({url: 'https://other-server.com/', requestHeaders: {Accept: '*/*'}}, callback);
+            expect(callback).toHaveBeenCalledWith({requestHeaders: {Accept: '*/*'}});
+        });
+
+        it('should leave alone the requests made from another session', () => {
+            const callback = jest.fn();
+            manager.createBeforeSendHeadersHandler({})({url: 'https://server-1.com/', requestHeaders: {}}, callback);
+            expect(callback).toHaveBeenCalledWith({requestHeaders: {}});
+        });
+
+        it('should leave out the values that cannot be decrypted, and only try once', () => {
+            safeStorage.decryptString.mockImplementation(() => {
+                throw new Error('could not decrypt');
+            });
+            const callback = jest.fn();
+            const handler = manager.createBeforeSendHeadersHandler(serverSession);
+            handler({url: 'https://server-1.com/', requestHeaders: {}}, callback);
+            handler({url: 'https://server-1.com/', requestHeaders: {}}, callback);
+            expect(callback).toHaveBeenLastCalledWith({requestHeaders: {'X-Team': 'sales'}});
+            expect(safeStorage.decryptString).toHaveBeenCalledTimes(1);
+        });
+    });
+});
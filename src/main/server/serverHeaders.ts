@@ -0,0 +1,112 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {BeforeSendResponse, OnBeforeSendHeadersListenerDetails, Session} from 'electron';
+import {safeStorage} from 'electron';
+
+import {Logger} from 'common/log';
+import type {MattermostServer} from 'common/servers/MattermostServer';
+import ServerManager from 'common/servers/serverManager';
+import {parseURL} from 'common/utils/url';
+
+import type {ServerHeader, UniqueServerHeader} from 'types/config';
+
+import ServerSessions from './serverSessions';
+
+const log = new Logger('ServerHeaders');
+
+/**
+ * Adds the custom headers of each server to every request made to its origin, whether it comes from its views,
+ * its popups or the requests made by the app itself. The values marked as secret are encrypted with the OS keychain.
+ */
+export class ServerHeaderManager {
+    private decryptedValues: Map<string, string | undefined>;
+
+    constructor() {
+        this.decryptedValues = new Map();
+    }
+
+    /**
+     * Saves the headers picked in the server modal. Secret values are never sent back to the modal,
+     * so the secret headers left empty keep the value they already had.
+     */
+    setHeaders = (serverId: string, headers: UniqueServerHeader[] = []) => {
+        const server = ServerManager.getServer(serverId);
+        if (!server) {
+            return;
+        }
+
+        const serverHeaders = headers.reduce<ServerHeader[]>((result, header) => {
+            if (!header.secret) {
+                result.push({name: header.name, value: header.value ?? ''});
+                return result;
+            }
+            if (header.value) {
+                const encryptedValue = this.encrypt(header.value);
+                if (encryptedValue) {
+                    result.push({name: header.name, encryptedValue});
+                }
+                return result;
+            }
+            const existingHeader = server.headers?.find((serverHeader) => serverHeader.name === header.name && serverHeader.encryptedValue);
+            if (existingHeader) {
+                result.push(existingHeader);
+            }
+            return result;
+        }, []);
+        ServerManager.setServerHeaders(serverId, serverHeaders);
+    };
+
+    getHeaders = (server: MattermostServer) => {
+        return (server.headers ?? []).reduce<Record<string, string>>((result, header) => {
+            const value = header.encryptedValue ? this.decrypt(header.encryptedValue) : header.value;
+            if (typeof value !== 'undefined') {
+                result[header.name] = value;
+            }
+            return result;
+        }, {});
+    };
+
+    /**
+     * Each session only ever handles the servers using it, so that the same server added with an isolated session can send other headers
+     */
+    createBeforeSendHeadersHandler = (serverSession: Session) => {
+        return (details: OnBeforeSendHeadersListenerDetails, callback: (response: BeforeSendResponse) => void) => {
+            const url = parseURL(details.url);
+            const server = url && ServerManager.getAllServers().find((server) => {
+                return server.headers?.length && server.urls.some((serverURL) => serverURL.origin === url.origin) && ServerSessions.getSession(server) === serverSession;
+            });
+            if (!server) {
+                callback({requestHeaders: details.requestHeaders});
+                return;
+            }
+            callback({requestHeaders: {...details.requestHeaders, ...this.getHeaders(server)}});
+        };
+    };
+
+    private encrypt = (value: string) => {
+        if (!safeStorage.isEncryptionAvailable()) {
+            log.error('Encryption is not available, the secret header will not be saved');
+            return undefined;
+        }
+        const encryptedValue = safeStorage.encryptString(value).toString('base64');
+        this.decryptedValues.set(encryptedValue, value);
+        return encryptedValue;
+    };
+
+    private decrypt = (encryptedValue: string) => {
+        if (!this.decryptedValues.has(encryptedValue)) {
+            try {
+                this.decryptedValues.set(encryptedValue, safeStorage.decryptString(Buffer.from(encryptedValue, 'base64')));
+            } catch (error) {
+                // remembered as well, so that the warning isn't logged for every request
+                log.warn('Could not decrypt a secret header, leaving it out', error);
+                this.decryptedValues.set(encryptedValue, undefined);
+            }
+        }
+        return this.decryptedValues.get(encryptedValue);
+    };
+}
+
+const serverHeaderManager = new ServerHeaderManager();
+export default serverHeaderManager;
@@ -0,0 +1,185 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import ServerManager from 'common/servers/serverManager';
+
+import {getServerAPI} from './serverAPI';
+import {
+    HEALTH_CHECK_INTERVAL,
+    HEALTH_CHECK_MAX_BACKOFF,
+    HEALTH_CHECK_MIN_BACKOFF,
+    HEALTH_CHECK_TIMEOUT,
+    HEALTH_HISTORY_LENGTH,
+    ServerHealthMonitor,
+    getNextCheckDelay,
+} from './serverHealth';
+import ServerSessions from './serverSessions';
+
+jest.mock('common/servers/serverManager', () => ({
+    on: jest.fn(),
+    off: jest.fn(),
+    getEnabledServers: jest.fn(),
+    getServer: jest.fn(),
+    setActiveURL: jest.fn(),
+}));
+
+jest.mock('./serverAPI', () => ({
+    getServerAPI: jest.fn(),
+}));
+
+jest.mock('./serverSessions', () => ({
+    getSession: jest.fn(),
+    getPendingProxy: jest.fn(),
+}));
+
+const reachable = () => getServerAPI.mockImplementation((url, auth, success) => success('{"status":"OK"}'));
+const unreachable = () => getServerAPI.mockImplementation((url, auth, success, abort, fail) => fail(new Error('ECONNREFUSED')));
+
+describe('main/server/serverHealth', () => {
+    describe('getNextCheckDelay', () => {
+        afterEach(() => {
+            jest.spyOn(Math, 'random').mockRestore();
+        });
+
+        it('should use the regular interval while the server is up', () => {
+            jest.spyOn(Math, 'random').mockReturnValue(1);
+            expect(getNextCheckDelay(0)).toBe(HEALTH_CHECK_INTERVAL);
+        });
+
+        it('should back off exponentially while the server is down', () => {
+            jest.spyOn(Math, 'random').mockReturnValue(1);
+            expect(getNextCheckDelay(1)).toBe(HEALTH_CHECK_MIN_BACKOFF);
+            expect(getNextCheckDelay(2)).toBe(HEALTH_CHECK_MIN_BACKOFF * 2);
+            expect(getNextCheckDelay(3)).toBe(HEALTH_CHECK_MIN_BACKOFF * 4);
+            expect(getNextCheckDelay(100)).toBe(HEALTH_CHECK_MAX_BACKOFF);
+        });
+
+        it('should randomize half of the delay', () => {
+            jest.spyOn(Math, 'random').mockReturnValue(0);
+            expect(getNextCheckDelay(1)).toBe(HEALTH_CHECK_MIN_BACKOFF / 2);
+        });
+    });
+
+    describe('check', () => {
+        let monitor;
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            ServerManager.getEnabledServers.mockReturnValue([{id: 'server-1', url: new URL('http://server-1.com'), urls: [new URL('http://server-1.com')]}]);
+            reachable();
+            monitor = new ServerHealthMonitor();
+        });
+
+        afterEach(() => {
+            monitor.stop();
+            jest.clearAllTimers();
+            jest.useRealTimers();
+            jest.clearAllMocks();
+        });
+
+        it('should ping every server when starting', async () => {
+            ServerManager.getServer.mockReturnValue({id: 'server-1', url: new URL('http://server-1.com'), urls: [new URL('http://server-1.com')]});
+            ServerSessions.getSession.mockReturnValue('server-session');
+            monitor.init();
+            await monitor.check('server-1');
+            expect(getServerAPI).toHaveBeenCalledWith(new URL('http://server-1.com/api/v4/system/ping'), false, expect.any(Function), expect.any(Function), expect.any(Function), 'server-session', HEALTH_CHECK_TIMEOUT);
+            expect(monitor.getHealth('server-1')).toStrictEqual(expect.objectContaining({status: 'up', latency: expect.any(Number)}));
+        });
+
+        it('should record the history of the checks', async () => {
+            monitor.init();
+            await monitor.check('server-1');
+            unreachable();
+            await monitor.check('server-1');
+            expect(monitor.getHealth('server-1').status).toBe('down');
+            expect(monitor.getHealth('server-1').history.map((check) => check.up)).toStrictEqual([true, true, false]);
+        });
+
+        it('should only keep the most recent checks', async () => {
+            monitor.init();
+            for (let i = 0; i < HEALTH_HISTORY_LENGTH + 5; i++) {
+                // eslint-disable-next-line no-await-in-loop
+                await monitor.check('server-1');
+            }
+            expect(monitor.getHealth('server-1').history.length).toBe(HEALTH_HISTORY_LENGTH);
+        });
+
+        it('should emit serverUp when a server comes back', async () => {
+            unreachable();
+            monitor.init();
+            await monitor.check('server-1');
+            const listener = jest.fn();
+            monitor.on('serverUp', listener);
+
+            reachable();
+            await monitor.check('server-1');
+            expect(listener).toHaveBeenCalledWith('server-1');
+
+            listener.mockClear();
+            await monitor.check('server-1');
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('should emit serverUp when a view failed to load a server that is still up', async () => {
+            monitor.init();
+            await monitor.check('server-1');
+            const listener = jest.fn();
+            monitor.on('serverUp', listener);
+
+            monitor.reportFailure('server-1');
+            await monitor.check('server-1');
+            expect(listener).toHaveBeenCalledWith('server-1');
+        });
+
+        it('should stop monitoring the servers that were removed', async () => {
+            monitor.init();
+            ServerManager.getEnabledServers.mockReturnValue([]);
+            ServerManager.on.mock.calls[0][1]();
+            expect(monitor.getHealth('server-1')).toBeUndefined();
+        });
+
+        it('should start over when the URL of a server changed', async () => {
+            monitor.init();
+            await monitor.check('server-1');
+            ServerManager.getEnabledServers.mockReturnValue([{id: 'server-1', url: new URL('http://server-2.com'), urls: [new URL('http://server-2.com')]}]);
+            ServerManager.on.mock.calls[0][1]();
+            expect(monitor.getHealth('server-1')).toStrictEqual({status: 'unknown', history: []});
+        });
+
+        describe('alternate URLs', () => {
+            beforeEach(() => {
+                ServerManager.getEnabledServers.mockReturnValue([{
+                    id: 'server-1',
+                    url: new URL('http://server-1.com'),
+                    urls: [new URL('http://server-1.com'), new URL('http://backup-1.com'), new URL('http://backup-2.com')],
+                }]);
+                getServerAPI.mockImplementation((url, auth, success, abort, fail) => (url.host === 'server-1.com' ? fail(new Error('ECONNREFUSED')) : success('{"status":"OK"}')));
+            });
+
+            it('should switch the server over to the first URL that can be reached', async () => {
+                monitor.init();
+                await monitor.check('server-1');
+                expect(getServerAPI).not.toHaveBeenCalledWith(new URL('http://backup-2.com/api/v4/system/ping'), false, expect.any(Function), expect.any(Function), expect.any(Function), undefined, HEALTH_CHECK_TIMEOUT);
+                expect(ServerManager.setActiveURL).toHaveBeenCalledWith('server-1', 'http://backup-1.com/');
+                expect(monitor.getHealth('server-1').status).toBe('up');
+            });
+
+            it('should go back to the primary URL once it can be reached again', async () => {
+                monitor.init();
+                await monitor.check('server-1');
+                reachable();
+                await monitor.check('server-1');
+                expect(ServerManager.setActiveURL).toHaveBeenLastCalledWith('server-1', 'http://server-1.com/');
+            });
+
+            it('should only be down when none of the URLs can be reached', async () => {
+                unreachable();
+                monitor.init();
+                await monitor.check('server-1');
+                expect(getServerAPI).toHaveBeenCalledTimes(6);
+                expect(ServerManager.setActiveURL).not.toHaveBeenCalled();
+                expect(monitor.getHealth('server-1').status).toBe('down');
+            });
+        });
+    });
+});
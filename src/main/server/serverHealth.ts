@@ -0,0 +1,196 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {EventEmitter} from 'events';
+
+import {SERVERS_UPDATE} from 'common/communication';
+import {Logger} from 'common/log';
+import ServerManager from 'common/servers/serverManager';
+import {SECOND} from 'common/utils/constants';
+import {parseURL} from 'common/utils/url';
+
+import type {ServerHealth, ServerHealthStatus} from 'types/server';
+
+import {getServerAPI} from './serverAPI';
+import ServerSessions from './serverSessions';
+
+const log = new Logger('ServerHealth');
+
+export const HEALTH_CHECK_INTERVAL = 60 * SECOND;
+export const HEALTH_CHECK_MIN_BACKOFF = 5 * SECOND;
+export const HEALTH_CHECK_MAX_BACKOFF = 5 * 60 * SECOND;
+export const HEALTH_HISTORY_LENGTH = 20;
+export const HEALTH_CHECK_TIMEOUT = 10 * SECOND;
+
+type MonitoredServer = {
+    urls: string[];
+    health: ServerHealth;
+    failures: number;
+    failureReported: boolean;
+    timeout?: NodeJS.Timeout;
+};
+
+/**
+ * Returns how long to wait before checking on a server again, backing off exponentially while it stays down.
+ * Half of the delay is randomized so that servers that went down together don't all get checked at the same time.
+ */
+export function getNextCheckDelay(failures: number) {
+    const delay = failures ? Math.min(HEALTH_CHECK_MAX_BACKOFF, HEALTH_CHECK_MIN_BACKOFF * (2 ** (failures - 1))) : HEALTH_CHECK_INTERVAL;
+    return (delay / 2) + (Math.random() * (delay / 2));
+}
+
+/**
+ * Pings every configured server in the background to keep track of which ones can be reached and how fast they respond.
+ * Servers with alternate URLs are switched over to the first one of their URLs that responds, so they only count as down when none of them do.
+ *
+ * @emits {update} emitted whenever a server has been checked
+ * @emits {serverUp} emitted with the server id when a server can be reached again, or when it can still be reached after a view failed to load it
+ */
+export class ServerHealthMonitor extends EventEmitter {
+    private servers: Map<string, MonitoredServer>;
+
+    constructor() {
+        super();
+        this.servers = new Map();
+    }
+
+    init = () => {
+        ServerManager.on(SERVERS_UPDATE, this.syncServers);
+        this.syncServers();
+    };
+
+    stop = () => {
+        ServerManager.off(SERVERS_UPDATE, this.syncServers);
+        this.servers.forEach((monitored) => clearTimeout(monitored.timeout));
+        this.servers.clear();
+    };
+
+    getHealth = (serverId: string) => {
+        return this.servers.get(serverId)?.health;
+    };
+
+    getAllHealth = () => {
+        return new Map([...this.servers.entries()].map(([serverId, monitored]) => [serverId, monitored.health]));
+    };
+
+    /**
+     * Called when a view gave up on loading a server, to check on it right away instead of waiting for the next scheduled check
+     */
+    reportFailure = (serverId: string) => {
+        const monitored = this.servers.get(serverId);
+        if (!monitored) {
+            return;
+        }
+        monitored.failureReported = true;
+        if (monitored.health.status !== 'down') {
+            this.check(serverId);
+        }
+    };
+
+    check = async (serverId: string) => {
+        const monitored = this.servers.get(serverId);
+        if (!monitored) {
+            return;
+        }
+        clearTimeout(monitored.timeout);
+        delete monitored.timeout;
+
+        let reachableURL: string | undefined;
+        let latency = 0;
+        for (const url of monitored.urls) {
+            const start = Date.now();
+            try {
+                // eslint-disable-next-line no-await-in-loop
+                await this.ping(serverId, url);
+                reachableURL = url;
+                latency = Date.now() - start;
+                break;
+            } catch (error) {
+                log.withPrefix(serverId).debug('Server health check failed', url, error);
+            }
+        }
+
+        // the server may have been removed or changed while the check was running
+        if (this.servers.get(serverId) !== monitored) {
+            return;
+        }
+        if (reachableURL && monitored.urls.length > 1) {
+            ServerManager.setActiveURL(serverId, reachableURL);
+        }
+        this.recordCheck(serverId, monitored, Boolean(reachableURL), latency);
+    };
+
+    private syncServers = () => {
+        const servers = ServerManager.getEnabledServers();
+        const serverIds = new Set(servers.map((server) => server.id));
+
+        for (const [serverId, monitored] of this.servers) {
+            if (!serverIds.has(serverId)) {
+                clearTimeout(monitored.timeout);
+                this.servers.delete(serverId);
+            }
+        }
+
+        for (const server of servers) {
+            const urls = server.urls.map((url) => url.toString());
+            const existing = this.servers.get(server.id);
+            if (existing?.urls.join() === urls.join()) {
+                continue;
+            }
+            clearTimeout(existing?.timeout);
+            this.servers.set(server.id, {urls, health: {status: 'unknown', history: []}, failures: 0, failureReported: false});
+            this.check(server.id);
+        }
+    };
+
+    private recordCheck = (serverId: string, monitored: MonitoredServer, up: boolean, latency: number) => {
+        const now = Date.now();
+        const previousStatus = monitored.health.status;
+        const status: ServerHealthStatus = up ? 'up' : 'down';
+
+        monitored.failures = up ? 0 : monitored.failures + 1;
+        monitored.health = {
+            status,
+            latency: up ? latency : undefined,
+            since: status === previousStatus ? monitored.health.since : now,
+            lastChecked: now,
+            history: [...monitored.health.history, {time: now, up, latency: up ? latency : undefined}].slice(-HEALTH_HISTORY_LENGTH),
+        };
+        monitored.timeout = setTimeout(() => this.check(serverId), getNextCheckDelay(monitored.failures));
+
+        if (status !== previousStatus) {
+            log.withPrefix(serverId).info(`Server is now ${up ? 'reachable' : 'unreachable'}`);
+        }
+        this.emit('update', serverId, monitored.health);
+        if (up && (previousStatus !== 'up' || monitored.failureReported)) {
+            monitored.failureReported = false;
+            this.emit('serverUp', serverId);
+        }
+    };
+
+    private ping = async (serverId: string, url: string) => {
+        const pingURL = parseURL(`${url}/api/v4/system/ping`);
+        if (!pingURL) {
+            throw new Error('Malformed URL');
+        }
+        const server = ServerManager.getServer(serverId);
+        const serverSession = server && ServerSessions.getSession(server);
+        if (server) {
+            await ServerSessions.getPendingProxy(server);
+        }
+        return new Promise<void>((resolve, reject) => {
+            getServerAPI(
+                pingURL,
+                false,
+                () => resolve(),
+                () => reject(new Error('Timed out')),
+                reject,
+                serverSession,
+                HEALTH_CHECK_TIMEOUT,
+            );
+        });
+    };
+}
+
+const serverHealthMonitor = new ServerHealthMonitor();
+export default serverHealthMonitor;
@@ -2,12 +2,17 @@
 // See LICENSE.txt for license information.
 
 import {getServerAPI} from './serverAPI';
-import {ServerInfo} from './serverInfo';
+import {ServerInfo, parseDesktopPolicy} from './serverInfo';
 
 jest.mock('./serverAPI', () => ({
     getServerAPI: jest.fn(),
 }));
 
+jest.mock('./serverSessions', () => ({
+    getSession: jest.fn(),
+    getPendingProxy: jest.fn(),
+}));
+
 describe('main/server/serverInfo', () => {
     describe('getRemoteInfo', () => {
         const serverInfo = new ServerInfo({url: 'http://someurl.com'});
@@ -51,4 +56,30 @@ describe('main/server/serverInfo', () => {
             expect(callback).not.toHaveBeenCalled();
         });
     });
+
+    describe('parseDesktopPolicy', () => {
+        it('should read the settings of the policy', () => {
+            expect(parseDesktopPolicy(JSON.stringify({
+                AllowedDownloadExtensions: ['.PDF', 'png', 1],
+                ExternalLinks: 'confirm',
+                MinimumDesktopVersion: '5.10.0',
+                AllowDevTools: false,
+            }))).toStrictEqual({
+                allowedDownloadExtensions: ['pdf', 'png'],
+                externalLinks: 'confirm',
+                minimumDesktopVersion: '5.10.0',
+                allowDevTools: false,
+            });
+        });
+
+        it('should leave out the settings that are not understood', () => {
+            expect(parseDesktopPolicy(JSON.stringify({ExternalLinks: 'sometimes', AllowDevTools: 'no'}))).toStrictEqual({});
+        });
+
+        it('should return undefined when there is no policy that can be read', () => {
+            expect(parseDesktopPolicy()).toBeUndefined();
+            expect(parseDesktopPolicy('{not json')).toBeUndefined();
+            expect(parseDesktopPolicy('"a string"')).toBeUndefined();
+        });
+    });
 });
@@ -1,12 +1,57 @@
 // Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
+import {Logger} from 'common/log';
 import type {MattermostServer} from 'common/servers/MattermostServer';
 import {parseURL} from 'common/utils/url';
 
-import type {ClientConfig, RemoteInfo} from 'types/server';
+import type {ClientConfig, RemoteInfo, ServerDesktopPolicy, ServerDesktopPolicyExternalLinks} from 'types/server';
 
-import {getServerAPI} from './serverAPI';
+import {getServerAPI, getServerFile} from './serverAPI';
+import ServerSessions from './serverSessions';
+
+const log = new Logger('ServerInfo');
+
+const EXTERNAL_LINKS: ServerDesktopPolicyExternalLinks[] = ['browser', 'confirm', 'block'];
+
+/**
+ * Reads the desktop policy sent along with the client config, keeping only the settings that are understood.
+ * A policy that can't be read is left out rather than failing the rest of the remote info.
+ */
+export function parseDesktopPolicy(data?: string): ServerDesktopPolicy | undefined {
+    if (!data) {
+        return undefined;
+    }
+
+    let json;
+    try {
+        json = JSON.parse(data);
+    } catch (error) {
+        log.warn('Could not read the desktop policy of the server', error);
+        return undefined;
+    }
+    if (typeof json !== 'object' || !json) {
+        return undefined;
+    }
+
+    const policy: ServerDesktopPolicy = {};
+    if (Array.isArray(json.AllowedDownloadExtensions)) {
+        policy.allowedDownloadExtensions = json.AllowedDownloadExtensions.
+            filter((extension: unknown): extension is string => typeof extension === 'string').
+            map((extension: string) => extension.trim().replace(/^\./, '').toLowerCase()).
+            filter(Boolean);
+    }
+    if (EXTERNAL_LINKS.includes(json.ExternalLinks)) {
+        policy.externalLinks = json.ExternalLinks;
+    }
+    if (typeof json.MinimumDesktopVersion === 'string' && json.MinimumDesktopVersion) {
+        policy.minimumDesktopVersion = json.MinimumDesktopVersion;
+    }
+    if (typeof json.AllowDevTools === 'boolean') {
+        policy.allowDevTools = json.AllowDevTools;
+    }
+    return policy;
+}
 
 export class ServerInfo {
     private server: MattermostServer;
@@ -36,13 +81,28 @@ export class ServerInfo {
         return this.remoteInfo;
     };
 
-    private getRemoteInfo = <T>(
+    /**
+     * Downloads the image used as the default avatar of the server, the custom brand image when there is one and the favicon otherwise
+     */
+    fetchAvatar = async () => {
+        const url = parseURL(this.remoteInfo.hasCustomBrand ? `${this.server.url}/api/v4/brand/image` : `${this.server.url}/static/images/favicon/favicon-default-64x64.png`);
+        if (!url) {
+            throw new Error('Malformed URL');
+        }
+        const serverSession = ServerSessions.getSession(this.server);
+        await ServerSessions.getPendingProxy(this.server);
+        return getServerFile(url, serverSession);
+    };
+
+    private getRemoteInfo = async <T>(
         callback: (data: T) => void,
         url?: URL,
     ) => {
         if (!url) {
-            return Promise.reject(new Error('Malformed URL'));
+            throw new Error('Malformed URL');
         }
+        const serverSession = ServerSessions.getSession(this.server);
+        await ServerSessions.getPendingProxy(this.server);
         return new Promise<void>((resolve, reject) => {
             getServerAPI(
                 url,
@@ -57,7 +117,9 @@ export class ServerInfo {
                     }
                 },
                 () => reject(new Error('Aborted')),
-                (error: Error) => reject(error));
+                (error: Error) => reject(error),
+                serverSession,
+            );
         });
     };
 
@@ -66,6 +128,8 @@ export class ServerInfo {
         this.remoteInfo.siteURL = data.SiteURL;
         this.remoteInfo.siteName = data.SiteName;
         this.remoteInfo.hasFocalboard = this.remoteInfo.hasFocalboard || data.BuildBoards === 'true';
+        this.remoteInfo.hasCustomBrand = data.EnableCustomBrand === 'true';
+        this.remoteInfo.desktopPolicy = parseDesktopPolicy(data.DesktopPolicy);
     };
 
     private onGetPlugins = (data: Array<{id: string; version: string}>) => {
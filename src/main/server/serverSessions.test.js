@@ -0,0 +1,127 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {session} from 'electron';
+
+import ServerManager from 'common/servers/serverManager';
+
+import {ServerSessionManager, getProxyConfig} from './serverSessions';
+
+jest.mock('electron', () => ({
+    session: {
+        defaultSession: {},
+        fromPartition: jest.fn(),
+    },
+}));
+
+jest.mock('common/servers/serverManager', () => ({
+    on: jest.fn(),
+    getAllServers: jest.fn(),
+    createProxyPartition: jest.fn(),
+}));
+
+const makeSession = () => ({
+    setProxy: jest.fn().mockResolvedValue(),
+    closeAllConnections: jest.fn(),
+});
+
+describe('main/server/serverSessions', () => {
+    describe('getProxyConfig', () => {
+        it('should follow the system settings by default', () => {
+            expect(getProxyConfig()).toStrictEqual({mode: 'system'});
+            expect(getProxyConfig({mode: 'system'})).toStrictEqual({mode: 'system'});
+        });
+
+        it('should map the manual settings to fixed proxy rules', () => {
+            expect(getProxyConfig({mode: 'manual', host: 'proxy.example.com', port: 3128, bypass: '*.internal'})).toStrictEqual({
+                mode: 'fixed_servers',
+                proxyRules: 'proxy.example.com:3128',
+                proxyBypassRules: '*.internal',
+            });
+        });
+
+        it('should map the other modes', () => {
+            expect(getProxyConfig({mode: 'direct'})).toStrictEqual({mode: 'direct'});
+            expect(getProxyConfig({mode: 'pac', pacURL: 'https://example.com/proxy.pac'})).toStrictEqual({mode: 'pac_script', pacScript: 'https://example.com/proxy.pac'});
+        });
+    });
+
+    describe('getSession', () => {
+        let manager;
+
+        beforeEach(() => {
+            manager = new ServerSessionManager();
+            session.fromPartition.mockImplementation(makeSession);
+            ServerManager.createProxyPartition.mockReturnValue('proxy-partition');
+        });
+
+        afterEach(() => {
+            jest.resetAllMocks();
+        });
+
+        it('should use the default session for servers following the system settings', () => {
+            expect(manager.getSession({id: 'server-1', primaryURL: new URL('http://server-1.com')})).toBe(session.defaultSession);
+            expect(manager.getSession({id: 'server-1', primaryURL: new URL('http://server-1.com'), proxy: {mode: 'system'}})).toBe(session.defaultSession);
+            expect(session.fromPartition).not.toHaveBeenCalled();
+        });
+
+        it('should create a partition once for each server with its own proxy', () => {
+            const created = jest.fn();
+            manager.on('created', created);
+            const server = {id: 'server-1', primaryURL: new URL('http://server-1.com'), proxy: {mode: 'direct'}};
+
+            const serverSession = manager.getSession(server);
+            expect(manager.getSession(server)).toBe(serverSession);
+            expect(session.fromPartition).toHaveBeenCalledTimes(1);
+            expect(session.fromPartition).toHaveBeenCalledWith('persist:server-proxy-partition');
+            expect(ServerManager.createProxyPartition).toHaveBeenCalledWith('server-1');
+            expect(created).toHaveBeenCalledWith(serverSession);
+            expect(serverSession.setProxy).toHaveBeenCalledTimes(1);
+            expect(serverSession.setProxy).toHaveBeenCalledWith({mode: 'direct'});
+        });
+
+        it('should give every isolated server a partition of its own', () => {
+            const server = {id: 'server-1', primaryURL: new URL('http://server-1.com'), partition: 'partition-1'};
+            const otherServer = {id: 'server-2', primaryURL: new URL('http://server-1.com'), partition: 'partition-2'};
+
+            expect(manager.getSession(server)).not.toBe(manager.getSession(otherServer));
+            expect(session.fromPartition).toHaveBeenCalledWith('persist:server-partition-1');
+            expect(session.fromPartition).toHaveBeenCalledWith('persist:server-partition-2');
+            expect(manager.getAllSessions()).toHaveLength(3);
+        });
+
+        it('should keep using the partition of the server when its URL changes', () => {
+            const server = {id: 'server-1', primaryURL: new URL('http://server-1.com'), proxy: {mode: 'direct'}, proxyPartition: 'proxy-partition-1'};
+            const serverSession = manager.getSession(server);
+
+            server.primaryURL = new URL('http://server-2.com');
+            server.proxy = {mode: 'manual', host: 'proxy.example.com', port: 8080};
+            expect(manager.getSession(server)).toBe(serverSession);
+            expect(session.fromPartition).toHaveBeenCalledTimes(1);
+            expect(session.fromPartition).toHaveBeenCalledWith('persist:server-proxy-partition-1');
+            expect(ServerManager.createProxyPartition).not.toHaveBeenCalled();
+        });
+
+        it('should hand out the pending proxy settings until they are applied', async () => {
+            const server = {id: 'server-1', primaryURL: new URL('http://server-1.com'), proxy: {mode: 'direct'}};
+            expect(manager.getPendingProxy({id: 'server-2', primaryURL: new URL('http://server-2.com')})).toBe(undefined);
+
+            manager.getSession(server);
+            const pendingProxy = manager.getPendingProxy(server);
+            expect(pendingProxy).toBeInstanceOf(Promise);
+
+            await pendingProxy;
+            expect(manager.getPendingProxy(server)).toBe(undefined);
+        });
+
+        it('should apply the proxy again when it changes', () => {
+            const server = {id: 'server-1', primaryURL: new URL('http://server-1.com'), proxy: {mode: 'direct'}};
+            const serverSession = manager.getSession(server);
+
+            server.proxy = {mode: 'manual', host: 'proxy.example.com', port: 8080};
+            ServerManager.getAllServers.mockReturnValue([server]);
+            manager.updateProxies();
+            expect(serverSession.setProxy).toHaveBeenLastCalledWith({mode: 'fixed_servers', proxyRules: 'proxy.example.com:8080', proxyBypassRules: ''});
+        });
+    });
+});
@@ -0,0 +1,124 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {ProxyConfig, Session} from 'electron';
+import {session} from 'electron';
+import {EventEmitter} from 'events';
+
+import {SERVERS_UPDATE} from 'common/communication';
+import {Logger} from 'common/log';
+import type {MattermostServer} from 'common/servers/MattermostServer';
+import ServerManager from 'common/servers/serverManager';
+
+import type {ServerProxy} from 'types/config';
+
+const log = new Logger('ServerSessions');
+
+export function getProxyConfig(proxy?: ServerProxy): ProxyConfig {
+    switch (proxy?.mode) {
+    case 'direct':
+        return {mode: 'direct'};
+    case 'manual':
+        return {mode: 'fixed_servers', proxyRules: `${proxy.host}:${proxy.port}`, proxyBypassRules: proxy.bypass ?? ''};
+    case 'pac':
+        return {mode: 'pac_script', pacScript: proxy.pacURL};
+    default:
+        return {mode: 'system'};
+    }
+}
+
+/**
+ * Hands out the session that the views and requests of each server go through.
+ * Servers set to use an isolated session keep their cookies and storage in a persistent partition of their own,
+ * which lets the same server be added more than once and signed in to with different accounts.
+ * The proxy can only be set for a whole session, so the servers that don't follow the system proxy settings get a partition as well,
+ * which is kept when the proxy or the URL changes so that the user stays signed in, and the other ones share the default session.
+ *
+ * @emits {created} emitted with every new partition, so that it can get the same handlers as the default session
+ */
+export class ServerSessionManager extends EventEmitter {
+    private sessions: Map<string, Session>;
+    private proxies: Map<string, string>;
+    private pendingProxies: Map<string, Promise<void>>;
+
+    constructor() {
+        super();
+        this.sessions = new Map();
+        this.proxies = new Map();
+        this.pendingProxies = new Map();
+    }
+
+    init = () => {
+        ServerManager.on(SERVERS_UPDATE, this.updateProxies);
+    };
+
+    getSession = (server: MattermostServer) => {
+        const partition = this.getPartition(server);
+        if (!partition) {
+            return session.defaultSession;
+        }
+
+        let serverSession = this.sessions.get(partition);
+        if (!serverSession) {
+            serverSession = session.fromPartition(partition);
+            this.sessions.set(partition, serverSession);
+            this.emit('created', serverSession);
+        }
+        this.applyProxy(server, partition, serverSession);
+        return serverSession;
+    };
+
+    getAllSessions = () => {
+        return [session.defaultSession, ...this.sessions.values()];
+    };
+
+    /**
+     * Returns the promise of the proxy settings still being applied to the session of the server, if any,
+     * anything requested through the session before it settles could go around the proxy
+     */
+    getPendingProxy = (server: MattermostServer) => {
+        const partition = this.getPartition(server);
+        if (!partition) {
+            return undefined;
+        }
+        return this.pendingProxies.get(partition);
+    };
+
+    private getPartition = (server: MattermostServer) => {
+        if (server.partition) {
+            return `persist:server-${server.partition}`;
+        }
+        if (server.proxy && server.proxy.mode !== 'system') {
+            const proxyPartition = server.proxyPartition ?? ServerManager.createProxyPartition(server.id);
+            return proxyPartition && `persist:server-${proxyPartition}`;
+        }
+        return undefined;
+    };
+
+    private applyProxy = (server: MattermostServer, partition: string, serverSession: Session) => {
+        const proxyConfig = getProxyConfig(server.proxy);
+        const key = JSON.stringify(proxyConfig);
+        if (this.proxies.get(partition) === key) {
+            return;
+        }
+        this.proxies.set(partition, key);
+
+        log.withPrefix(server.id).info('Applying the proxy settings', {mode: proxyConfig.mode});
+        const pendingProxy = serverSession.setProxy(proxyConfig).
+            then(() => serverSession.closeAllConnections()).
+            catch((error) => log.withPrefix(server.id).error('Could not apply the proxy settings', error)).
+            finally(() => {
+                if (this.pendingProxies.get(partition) === pendingProxy) {
+                    this.pendingProxies.delete(partition);
+                }
+            });
+        this.pendingProxies.set(partition, pendingProxy);
+    };
+
+    private updateProxies = () => {
+        ServerManager.getAllServers().forEach((server) => this.getSession(server));
+    };
+}
+
+const serverSessionManager = new ServerSessionManager();
+export default serverSessionManager;
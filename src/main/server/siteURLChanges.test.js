@@ -0,0 +1,100 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {dialog} from 'electron';
+
+import {MAIN_WINDOW_CREATED} from 'common/communication';
+import ServerManager from 'common/servers/serverManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import {FLAPPING_THRESHOLD, FLAPPING_WINDOW, SiteURLChangeManager} from './siteURLChanges';
+
+jest.mock('electron', () => ({
+    dialog: {
+        showMessageBox: jest.fn(),
+    },
+}));
+
+jest.mock('common/servers/serverManager', () => ({
+    on: jest.fn(),
+    getServer: jest.fn(),
+    getAllServers: jest.fn(),
+    setSiteURLDecision: jest.fn(),
+}));
+
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
+
+jest.mock('main/windows/mainWindow', () => ({
+    get: jest.fn(),
+    once: jest.fn(),
+}));
+
+describe('main/server/siteURLChanges', () => {
+    const server = {id: 'server-1', name: 'server-1', url: new URL('http://server-1.com'), primaryURL: new URL('http://server-1.com')};
+    let manager;
+
+    beforeEach(() => {
+        manager = new SiteURLChangeManager();
+        ServerManager.getServer.mockReturnValue(server);
+        ServerManager.getAllServers.mockReturnValue([server]);
+        MainWindow.get.mockReturnValue({});
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+        jest.useRealTimers();
+    });
+
+    it('should record the decision picked in the dialog', async () => {
+        dialog.showMessageBox.mockResolvedValue({response: 2});
+        await manager.handleSiteURLChanged('server-1', 'http://server-1.com/', 'http://server-2.com/');
+        expect(ServerManager.setSiteURLDecision).toHaveBeenCalledWith('server-1', 'http://server-2.com/', 'pinned');
+    });
+
+    it('should wait for the main window before asking', async () => {
+        MainWindow.get.mockReturnValue(undefined);
+        dialog.showMessageBox.mockResolvedValue({response: 0});
+        manager.handleSiteURLChanged('server-1', 'http://server-1.com/', 'http://server-2.com/');
+        expect(dialog.showMessageBox).not.toHaveBeenCalled();
+        expect(MainWindow.once).toHaveBeenCalledWith(MAIN_WINDOW_CREATED, expect.any(Function));
+
+        MainWindow.get.mockReturnValue({});
+        await MainWindow.once.mock.calls[0][1]();
+        expect(ServerManager.setSiteURLDecision).toHaveBeenCalledWith('server-1', 'http://server-2.com/', 'accepted');
+    });
+
+    it('should only show one dialog per server at a time', () => {
+        dialog.showMessageBox.mockReturnValue(new Promise(() => {}));
+        manager.handleSiteURLChanged('server-1', 'http://server-1.com/', 'http://server-2.com/');
+        manager.handleSiteURLChanged('server-1', 'http://server-1.com/', 'http://server-3.com/');
+        expect(dialog.showMessageBox).toHaveBeenCalledTimes(1);
+        expect(manager.getChanges('server-1')).toHaveLength(2);
+    });
+
+    it('should flag servers whose site URL keeps changing', async () => {
+        jest.useFakeTimers();
+        dialog.showMessageBox.mockResolvedValue({response: 1});
+        await manager.handleSiteURLChanged('server-1', 'http://server-1.com/', 'http://server-2.com/');
+        await manager.handleSiteURLChanged('server-1', 'http://server-1.com/', 'http://server-3.com/');
+        expect(manager.isFlapping('server-1')).toBe(false);
+
+        await manager.handleSiteURLChanged('server-1', 'http://server-1.com/', 'http://server-2.com/');
+        expect(manager.isFlapping('server-1')).toBe(true);
+        expect(manager.getDiagnostics()).toStrictEqual([expect.objectContaining({id: 'server-1', isFlapping: true})]);
+
+        jest.advanceTimersByTime(FLAPPING_WINDOW + 1);
+        expect(manager.isFlapping('server-1')).toBe(false);
+    });
+
+    it('should not count the same site URL being reported again as a change', async () => {
+        dialog.showMessageBox.mockResolvedValue({response: 1});
+        for (let i = 0; i < FLAPPING_THRESHOLD; i++) {
+            // eslint-disable-next-line no-await-in-loop
+            await manager.handleSiteURLChanged('server-1', 'http://server-1.com/', 'http://server-2.com/');
+        }
+        expect(manager.getChanges('server-1')).toStrictEqual([{from: 'http://server-1.com/', to: 'http://server-2.com/', time: expect.any(Number)}]);
+        expect(manager.isFlapping('server-1')).toBe(false);
+    });
+});
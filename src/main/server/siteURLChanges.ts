@@ -0,0 +1,121 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {dialog} from 'electron';
+
+import {MAIN_WINDOW_CREATED, SERVER_SITE_URL_CHANGED} from 'common/communication';
+import {Logger} from 'common/log';
+import ServerManager from 'common/servers/serverManager';
+import {localizeMessage} from 'main/i18nManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import type {SiteURLDecisionType} from 'types/config';
+
+const log = new Logger('SiteURLChanges');
+
+export const FLAPPING_WINDOW = 24 * 60 * 60 * 1000;
+export const FLAPPING_THRESHOLD = 3;
+
+const DECISIONS: SiteURLDecisionType[] = ['accepted', 'rejected', 'pinned'];
+
+type SiteURLChange = {
+    from: string;
+    to: string;
+    time: number;
+};
+
+/**
+ * Asks the user what to do when the Site URL reported by a server no longer matches the URL it was added with,
+ * instead of silently following it. Every change is kept so that a server bouncing between URLs shows up in the diagnostics.
+ */
+export class SiteURLChangeManager {
+    private changes: Map<string, SiteURLChange[]>;
+    private pending: Set<string>;
+
+    constructor() {
+        this.changes = new Map();
+        this.pending = new Set();
+    }
+
+    init = () => {
+        ServerManager.on(SERVER_SITE_URL_CHANGED, this.handleSiteURLChanged);
+    };
+
+    getChanges = (serverId: string) => {
+        return this.changes.get(serverId) ?? [];
+    };
+
+    isFlapping = (serverId: string) => {
+        const since = Date.now() - FLAPPING_WINDOW;
+        return this.getChanges(serverId).filter((change) => change.time >= since).length >= FLAPPING_THRESHOLD;
+    };
+
+    getDiagnostics = () => {
+        return ServerManager.getAllServers().map((server) => ({
+            id: server.id,
+            name: server.name,
+            url: server.primaryURL.toString(),
+            siteURLDecision: server.siteURLDecision,
+            changes: this.getChanges(server.id),
+            isFlapping: this.isFlapping(server.id),
+        }));
+    };
+
+    private handleSiteURLChanged = (serverId: string, url: string, siteURL: string) => {
+        // the same Site URL is reported again every time the remote info is fetched until the user decides, which isn't a change
+        const changes = this.getChanges(serverId);
+        if (changes[changes.length - 1]?.to !== siteURL) {
+            this.changes.set(serverId, [...changes, {from: url, to: siteURL, time: Date.now()}]);
+            if (this.isFlapping(serverId)) {
+                log.withPrefix(serverId).warn('The Site URL of the server keeps changing', this.getChanges(serverId));
+            }
+        }
+
+        if (this.pending.has(serverId)) {
+            return;
+        }
+        this.pending.add(serverId);
+
+        if (MainWindow.get()) {
+            this.askForDecision(serverId, url, siteURL);
+        } else {
+            MainWindow.once(MAIN_WINDOW_CREATED, () => this.askForDecision(serverId, url, siteURL));
+        }
+    };
+
+    private askForDecision = async (serverId: string, url: string, siteURL: string) => {
+        const server = ServerManager.getServer(serverId);
+        const mainWindow = MainWindow.get();
+        if (!server || !mainWindow) {
+            this.pending.delete(serverId);
+            return;
+        }
+
+        let response;
+        try {
+            ({response} = await dialog.showMessageBox(mainWindow, {
+                title: localizeMessage('main.siteURLChange.title', 'Server URL Changed'),
+                message: localizeMessage('main.siteURLChange.message', 'The server {name} reports a new URL', {name: server.name}),
+                detail: localizeMessage('main.siteURLChange.detail', 'The server was added as {url}, but it is now configured to use {siteURL}. Only switch to the new URL if you expected this change.', {url, siteURL}),
+                type: 'question',
+                buttons: [
+                    localizeMessage('main.siteURLChange.accept', 'Switch to New URL'),
+                    localizeMessage('main.siteURLChange.reject', 'Keep Current URL'),
+                    localizeMessage('main.siteURLChange.pin', 'Always Keep Current URL'),
+                ],
+                defaultId: 1,
+                cancelId: 1,
+                noLink: true,
+            }));
+        } finally {
+            this.pending.delete(serverId);
+        }
+
+        const decision = DECISIONS[response];
+        log.withPrefix(serverId).info('Site URL change decided', {decision});
+        ServerManager.setSiteURLDecision(serverId, siteURL, decision);
+    };
+}
+
+const siteURLChangeManager = new SiteURLChangeManager();
+export default siteURLChangeManager;
@@ -0,0 +1,45 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {SiteURLDecisions} from './siteURLDecisions';
+
+jest.mock('fs', () => ({
+    existsSync: jest.fn(),
+    readFileSync: jest.fn(),
+    writeFile: jest.fn(),
+}));
+
+jest.mock('electron', () => ({
+    ipcMain: {
+        on: jest.fn(),
+    },
+}));
+
+jest.mock('main/constants', () => ({
+    siteURLDecisionsJson: 'site-url-decisions.json',
+}));
+
+describe('main/server/siteURLDecisions', () => {
+    const pinned = {url: 'https://server-1.com/', siteURLDecision: {siteURL: 'https://server-2.com/', decision: 'pinned', time: 1}};
+    let siteURLDecisions;
+
+    beforeEach(() => {
+        siteURLDecisions = new SiteURLDecisions('site-url-decisions.json');
+        siteURLDecisions.syncWithFile = jest.fn();
+        siteURLDecisions.writeToFile = jest.fn();
+        siteURLDecisions.json = {
+            'https://removed-server.com': pinned,
+        };
+    });
+
+    it('should find the decision by the URL in any form', () => {
+        siteURLDecisions.save('https://server-1.com/', pinned, ['https://server-1.com/']);
+        expect(siteURLDecisions.get('HTTPS://SERVER-1.COM')).toBe(pinned);
+    });
+
+    it('should drop the decisions of servers that are no longer predefined', () => {
+        siteURLDecisions.save('https://server-1.com', pinned, ['https://server-1.com', 'https://server-2.com']);
+        expect(Object.keys(siteURLDecisions.json)).toStrictEqual(['https://server-1.com']);
+        expect(siteURLDecisions.writeToFile).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,48 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {ipcMain} from 'electron';
+
+import {UPDATE_PATHS} from 'common/communication';
+import JsonFileManager from 'common/JsonFileManager';
+import {getCanonicalURL} from 'common/utils/url';
+import * as Validator from 'common/Validator';
+import {siteURLDecisionsJson} from 'main/constants';
+
+import type {PredefinedSiteURLDecision} from 'types/config';
+
+function getKey(url: string) {
+    return getCanonicalURL(url) ?? url;
+}
+
+/**
+ * Keeps what the user decided about the Site URL of the predefined servers, since those servers aren't saved to the config.
+ * It is stored by the URL the server is configured with, which is how the server is found again on the next start.
+ */
+export class SiteURLDecisions extends JsonFileManager<Record<string, PredefinedSiteURLDecision>> {
+    constructor(file: string) {
+        super(file, Validator.validateSiteURLDecisions);
+    }
+
+    get = (url: string) => {
+        return this.getValue(getKey(url));
+    };
+
+    save = (url: string, decision: PredefinedSiteURLDecision, configuredURLs: string[]) => {
+        this.syncWithFile();
+        this.json[getKey(url)] = decision;
+
+        // the servers that are no longer predefined are dropped along the way
+        const keys = new Set(configuredURLs.map(getKey));
+        Object.keys(this.json).filter((key) => !keys.has(key)).forEach((key) => delete this.json[key]);
+        this.writeToFile();
+    };
+}
+
+let siteURLDecisions = new SiteURLDecisions(siteURLDecisionsJson);
+
+ipcMain.on(UPDATE_PATHS, () => {
+    siteURLDecisions = new SiteURLDecisions(siteURLDecisionsJson);
+});
+
+export default siteURLDecisions;
@@ -0,0 +1,134 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+
+import {dialog} from 'electron';
+
+import ServerViewState from 'app/serverViewState';
+import Config from 'common/config';
+import ServerManager from 'common/servers/serverManager';
+import ModalManager from 'main/views/modalManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import {ServerImportManager} from './serverImport';
+
+jest.mock('fs', () => ({
+    promises: {
+        readFile: jest.fn(),
+    },
+}));
+jest.mock('electron', () => ({
+    app: {
+        getPath: jest.fn(),
+    },
+    dialog: {
+        showErrorBox: jest.fn(),
+        showOpenDialog: jest.fn(),
+    },
+}));
+jest.mock('app/serverViewState', () => ({
+    switchServer: jest.fn(),
+}));
+jest.mock('common/config', () => ({
+    enableServerManagement: true,
+}));
+jest.mock('common/servers/serverManager', () => ({
+    addServer: jest.fn(),
+}));
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
+jest.mock('main/utils', () => ({
+    getLocalPreload: (file) => file,
+}));
+jest.mock('main/views/modalManager', () => ({
+    addModal: jest.fn(),
+}));
+jest.mock('main/windows/mainWindow', () => ({
+    get: jest.fn(),
+}));
+
+describe('main/serverImport', () => {
+    const servers = [
+        {name: 'Team A', url: 'https://a.example.com'},
+        {name: 'Team B', url: 'https://b.example.com'},
+    ];
+
+    beforeEach(() => {
+        MainWindow.get.mockReturnValue({});
+        Config.enableServerManagement = true;
+        ModalManager.addModal.mockResolvedValue(servers);
+        ServerManager.addServer.mockImplementation((server) => ({id: server.name}));
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('importFromFile', () => {
+        it('should review the servers in the picked file', async () => {
+            const serverImportManager = new ServerImportManager();
+            dialog.showOpenDialog.mockResolvedValue({canceled: false, filePaths: ['/path/to/servers.csv']});
+            fs.promises.readFile.mockResolvedValue('Team A,https://a.example.com\nTeam B,https://b.example.com');
+
+            await serverImportManager.importFromFile();
+            await new Promise(setImmediate);
+
+            expect(ModalManager.addModal).toHaveBeenCalledWith('importServers', expect.any(String), expect.any(String), {servers}, expect.any(Object));
+            expect(ServerManager.addServer).toHaveBeenCalledTimes(2);
+            expect(ServerViewState.switchServer).toHaveBeenCalledWith('Team A', true);
+        });
+
+        it('should show an error when the file does not contain any servers', async () => {
+            const serverImportManager = new ServerImportManager();
+            dialog.showOpenDialog.mockResolvedValue({canceled: false, filePaths: ['/path/to/servers.json']});
+            fs.promises.readFile.mockResolvedValue('{"name": "Team A"}');
+
+            await serverImportManager.importFromFile();
+
+            expect(dialog.showErrorBox).toHaveBeenCalled();
+            expect(ModalManager.addModal).not.toHaveBeenCalled();
+        });
+
+        it('should do nothing when no file was picked', async () => {
+            const serverImportManager = new ServerImportManager();
+            dialog.showOpenDialog.mockResolvedValue({canceled: true, filePaths: []});
+
+            await serverImportManager.importFromFile();
+
+            expect(fs.promises.readFile).not.toHaveBeenCalled();
+            expect(ModalManager.addModal).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('importFromDeepLink', () => {
+        it('should review the servers in the link', async () => {
+            const serverImportManager = new ServerImportManager();
+            serverImportManager.importFromDeepLink(new URL('mattermost://add-servers?name=Team%20A&url=https://a.example.com&name=Team%20B&url=https://b.example.com'));
+            await new Promise(setImmediate);
+
+            expect(ModalManager.addModal).toHaveBeenCalledWith('importServers', expect.any(String), expect.any(String), {servers}, expect.any(Object));
+        });
+
+        it('should not add any servers when server management is disabled', async () => {
+            Config.enableServerManagement = false;
+            const serverImportManager = new ServerImportManager();
+            serverImportManager.importFromDeepLink(new URL('mattermost://add-servers?url=https://a.example.com'));
+            await new Promise(setImmediate);
+
+            expect(dialog.showErrorBox).toHaveBeenCalled();
+            expect(ModalManager.addModal).not.toHaveBeenCalled();
+        });
+
+        it('should only add the servers kept in the review', async () => {
+            ModalManager.addModal.mockResolvedValue([servers[1]]);
+            const serverImportManager = new ServerImportManager();
+            serverImportManager.importFromDeepLink(new URL('mattermost://add-servers?url=https://a.example.com&url=https://b.example.com'));
+            await new Promise(setImmediate);
+
+            expect(ServerManager.addServer).toHaveBeenCalledTimes(1);
+            expect(ServerManager.addServer).toHaveBeenCalledWith(servers[1]);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import fs from 'fs';
+import path from 'path';
+
+import {app, dialog} from 'electron';
+
+import ServerViewState from 'app/serverViewState';
+import Config from 'common/config';
+import {Logger} from 'common/log';
+import {getServersFromDeepLink, parseServerList, removeDuplicateServers} from 'common/servers/serverList';
+import ServerManager from 'common/servers/serverManager';
+import {localizeMessage} from 'main/i18nManager';
+import {getLocalPreload} from 'main/utils';
+import ModalManager from 'main/views/modalManager';
+import MainWindow from 'main/windows/mainWindow';
+
+import type {Server} from 'types/config';
+import type {ImportServersModalInfo} from 'types/modals';
+
+const log = new Logger('ServerImport');
+
+const fileFilters = [{name: 'JSON, CSV', extensions: ['json', 'csv']}];
+
+/**
+ * Adds several servers at once from a JSON or CSV file, or from an add-servers deep link.
+ * Every server is validated in a review screen before any of them gets added.
+ */
+export class ServerImportManager {
+    importFromFile = async () => {
+        const mainWindow = MainWindow.get();
+        if (!mainWindow) {
+            return;
+        }
+
+        const result = await dialog.showOpenDialog(mainWindow, {
+            title: localizeMessage('main.serverImport.title', 'Import Servers'),
+            defaultPath: app.getPath('documents'),
+            filters: fileFilters,
+            properties: ['openFile'],
+        });
+        if (result.canceled || !result.filePaths.length) {
+            return;
+        }
+
+        const filePath = result.filePaths[0];
+        let servers: Server[] | undefined;
+        try {
+            servers = parseServerList(await fs.promises.readFile(filePath, 'utf8'), path.basename(filePath));
+        } catch (error) {
+            log.warn('Unable to read the server list', error);
+        }
+        if (!servers?.length) {
+            dialog.showErrorBox(
+                localizeMessage('main.serverImport.title', 'Import Servers'),
+                localizeMessage('main.serverImport.invalid', 'The file {filePath} does not contain a list of servers.', {filePath}),
+            );
+            return;
+        }
+
+        this.showReviewModal(servers);
+    };
+
+    importFromDeepLink = (url: URL) => {
+        const servers = getServersFromDeepLink(url);
+        if (!servers.length) {
+            log.warn('The add-servers link does not contain any servers');
+            return;
+        }
+
+        this.showReviewModal(servers);
+    };
+
+    addServers = (servers: Server[]) => {
+        log.info('Adding imported servers', servers.length);
+
+        const newServers = servers.map((server) => ServerManager.addServer(server));
+        if (newServers.length) {
+            ServerViewState.switchServer(newServers[0].id, true);
+        }
+    };
+
+    private showReviewModal = async (servers: Server[]) => {
+        const mainWindow = MainWindow.get();
+        if (!mainWindow) {
+            return;
+        }
+        if (!Config.enableServerManagement) {
+            log.warn('Server management is disabled, not importing any servers');
+            dialog.showErrorBox(
+                localizeMessage('main.serverImport.title', 'Import Servers'),
+                localizeMessage('main.serverImport.disabled', 'Adding servers has been disabled by your administrator.'),
+            );
+            return;
+        }
+
+        let serversToAdd;
+        try {
+            serversToAdd = await ModalManager.addModal<ImportServersModalInfo, Server[]>(
+                'importServers',
+                'mattermost-desktop://renderer/importServers.html',
+                getLocalPreload('internalAPI.js'),
+                {servers: removeDuplicateServers(servers)},
+                mainWindow,
+            );
+        } catch (e) {
+            // e is undefined for user cancellation
+            if (e) {
+                log.error(`there was an error in the import servers modal: ${e}`);
+            }
+            return;
+        }
+
+        if (serversToAdd.length) {
+            this.addServers(serversToAdd);
+        }
+    };
+}
+
+const serverImportManager = new ServerImportManager();
+export default serverImportManager;
@@ -43,12 +43,18 @@ describe('Trusted Origins', () => {
         });
 
         it('should throw an error if data isn\'t in the expected format', () => {
-            const tos = mockTOS('badobject', '{"https://mattermost.com": "this is not my object!"}');
+            const tos = mockTOS('badobject', '["https://mattermost.com"]');
             expect(() => {
                 tos.load();
             }).toThrow(/^Provided TrustedOrigins file does not validate, using defaults instead\.$/);
         });
 
+        it('should drop entries that aren\'t in the expected format', () => {
+            const tos = mockTOS('badentry', `{"https://mattermost.com": "this is not my object!", "https://other.mattermost.com": {"${BASIC_AUTH_PERMISSION}": true}}`);
+            tos.load();
+            expect(Object.fromEntries(tos.data.entries())).toStrictEqual({'https://other.mattermost.com': {[BASIC_AUTH_PERMISSION]: true}});
+        });
+
         it('should drop keys that aren\'t urls', () => {
             const tos = mockTOS('badobject2', `{"this is not an uri": {"${BASIC_AUTH_PERMISSION}": true}}`);
             tos.load();
@@ -11,7 +11,7 @@ const exec = promisify(execOriginal);
 import type {BrowserWindow} from 'electron';
 import {app} from 'electron';
 
-import {BACK_BAR_HEIGHT, customLoginRegexPaths, TAB_BAR_HEIGHT} from 'common/utils/constants';
+import {BACK_BAR_HEIGHT, COMPATIBILITY_BANNER_HEIGHT, customLoginRegexPaths, TAB_BAR_HEIGHT} from 'common/utils/constants';
 import {isAdminUrl, isPluginUrl, isTeamUrl, isUrlType, parseURL} from 'common/utils/url';
 
 import type {Args} from 'types/args';
@@ -48,17 +48,18 @@ export function shouldBeHiddenOnStartup(parsedArgv: Args) {
     return false;
 }
 
-export function getWindowBoundaries(win: BrowserWindow, hasBackBar = false) {
+export function getWindowBoundaries(win: BrowserWindow, hasBackBar = false, hasBanner = false) {
     const {width, height} = win.getContentBounds();
-    return getAdjustedWindowBoundaries(width, height, hasBackBar);
+    return getAdjustedWindowBoundaries(width, height, hasBackBar, hasBanner);
 }
 
-export function getAdjustedWindowBoundaries(width: number, height: number, hasBackBar = false) {
+export function getAdjustedWindowBoundaries(width: number, height: number, hasBackBar = false, hasBanner = false) {
+    const top = TAB_BAR_HEIGHT + (hasBackBar ? BACK_BAR_HEIGHT : 0) + (hasBanner ? COMPATIBILITY_BANNER_HEIGHT : 0);
     return {
         x: 0,
-        y: TAB_BAR_HEIGHT + (hasBackBar ? BACK_BAR_HEIGHT : 0),
+        y: top,
         width,
-        height: height - TAB_BAR_HEIGHT - (hasBackBar ? BACK_BAR_HEIGHT : 0),
+        height: height - top,
     };
 }
 
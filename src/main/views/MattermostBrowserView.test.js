@@ -6,7 +6,10 @@
 import AppState from 'common/appState';
 import {LOAD_FAILED, TOGGLE_BACK_BUTTON, UPDATE_TARGET_URL} from 'common/communication';
 import {MattermostServer} from 'common/servers/MattermostServer';
+import ServerManager from 'common/servers/serverManager';
 import MessagingView from 'common/views/MessagingView';
+import ServerHealth from 'main/server/serverHealth';
+import ServerSessions from 'main/server/serverSessions';
 
 import {MattermostBrowserView} from './MattermostBrowserView';
 
@@ -30,6 +33,10 @@ jest.mock('electron', () => ({
             canGoForward: jest.fn(),
             goToOffset: jest.fn(),
             canGoToOffset: jest.fn(),
+            session: {
+                getSpellCheckerLanguages: () => ['en-US'],
+                setSpellCheckerLanguages: jest.fn(),
+            },
         },
     })),
     ipcMain: {
@@ -42,6 +49,16 @@ jest.mock('../windows/mainWindow', () => ({
     get: jest.fn(),
     sendToRenderer: jest.fn(),
 }));
+jest.mock('main/server/serverCompatibility', () => ({
+    shouldShowBanner: jest.fn(),
+}));
+jest.mock('main/server/serverHealth', () => ({
+    reportFailure: jest.fn(),
+    check: jest.fn(),
+}));
+jest.mock('main/server/serverSessions', () => ({
+    getPendingProxy: jest.fn(),
+}));
 jest.mock('common/appState', () => ({
     clear: jest.fn(),
     updateMentions: jest.fn(),
@@ -82,6 +99,24 @@ describe('main/views/MattermostBrowserView', () => {
             expect(mattermostView.loadSuccess).toBeCalledWith('http://server-2.com/');
         });
 
+        it('should wait for the proxy of the session before loading', async () => {
+            let applyProxy;
+            const pendingProxy = new Promise((resolve) => {
+                applyProxy = resolve;
+            });
+            ServerSessions.getPendingProxy.mockReturnValueOnce(pendingProxy);
+            const promise = Promise.resolve();
+            mattermostView.browserView.webContents.loadURL.mockClear();
+            mattermostView.browserView.webContents.loadURL.mockImplementation(() => promise);
+            mattermostView.load('http://server-2.com');
+            expect(mattermostView.browserView.webContents.loadURL).not.toBeCalled();
+
+            applyProxy();
+            await pendingProxy;
+            await promise;
+            expect(mattermostView.browserView.webContents.loadURL).toBeCalledWith('http://server-2.com/', expect.any(Object));
+        });
+
         it('should load server URL when not provided', async () => {
             const promise = Promise.resolve();
             mattermostView.browserView.webContents.loadURL.mockImplementation(() => promise);
@@ -108,6 +143,19 @@ describe('main/views/MattermostBrowserView', () => {
             await expect(promise).rejects.toThrow(error);
             expect(mattermostView.browserView.webContents.loadURL).toBeCalledWith('http://server-1.com/', expect.any(Object));
             expect(mattermostView.loadRetry).toBeCalledWith('http://server-1.com/', error);
+            expect(ServerHealth.check).not.toBeCalled();
+        });
+
+        it('should check on the other URLs of the server when failing to load', async () => {
+            const error = new Error('test');
+            const promise = Promise.reject(error);
+            mattermostView.browserView.webContents.loadURL.mockImplementation(() => promise);
+            server.updateAlternateURLs(['http://backup.server-1.com']);
+            mattermostView.load();
+            await expect(promise).rejects.toThrow(error);
+            expect(ServerHealth.check).toBeCalledWith(server.id);
+            expect(mattermostView.loadRetry).toBeCalledWith('http://server-1.com/', error);
+            server.updateAlternateURLs([]);
         });
 
         it('should not retry when failing to load due to cert error', async () => {
@@ -125,7 +173,6 @@ describe('main/views/MattermostBrowserView', () => {
     describe('retry', () => {
         const window = {on: jest.fn()};
         const mattermostView = new MattermostBrowserView(view, {}, {});
-        const retryInBackgroundFn = jest.fn();
 
         beforeEach(() => {
             jest.useFakeTimers();
@@ -134,7 +181,6 @@ describe('main/views/MattermostBrowserView', () => {
             mattermostView.loadSuccess = jest.fn();
             mattermostView.loadRetry = jest.fn();
             mattermostView.emit = jest.fn();
-            mattermostView.retryInBackground = () => retryInBackgroundFn;
         });
 
         afterAll(() => {
@@ -170,7 +216,7 @@ describe('main/views/MattermostBrowserView', () => {
             expect(mattermostView.loadRetry).toBeCalledWith('http://server-1.com', error);
         });
 
-        it('should set to error status and retry in the background when max retries are reached', async () => {
+        it('should set to error status and report the failure to the health monitor when max retries are reached', async () => {
             mattermostView.maxRetries = 0;
             const error = new Error('test');
             const promise = Promise.reject(error);
@@ -181,8 +227,27 @@ describe('main/views/MattermostBrowserView', () => {
             expect(mattermostView.loadRetry).not.toBeCalled();
             expect(MainWindow.sendToRenderer).toBeCalledWith(LOAD_FAILED, mattermostView.view.id, expect.any(String), expect.any(String));
             expect(mattermostView.status).toBe(-1);
-            jest.runAllTimers();
-            expect(retryInBackgroundFn).toBeCalled();
+            expect(ServerHealth.reportFailure).toBeCalledWith(mattermostView.view.server.id);
+        });
+    });
+
+    describe('reloadAfterOutage', () => {
+        const mattermostView = new MattermostBrowserView(view, {}, {});
+
+        beforeEach(() => {
+            mattermostView.reload = jest.fn();
+        });
+
+        it('should reload the URL that failed to load', () => {
+            mattermostView.failedLoadURL = 'http://server-1.com/team/channels/town-square';
+            mattermostView.reloadAfterOutage();
+            expect(mattermostView.reload).toBeCalledWith('http://server-1.com/team/channels/town-square');
+        });
+
+        it('should do nothing when the view did not fail to load', () => {
+            delete mattermostView.failedLoadURL;
+            mattermostView.reloadAfterOutage();
+            expect(mattermostView.reload).not.toBeCalled();
         });
     });
 
@@ -311,6 +376,23 @@ describe('main/views/MattermostBrowserView', () => {
             mattermostView.show();
             expect(mattermostView.focus).toBeCalled();
         });
+
+        it('should set the spellchecker languages of the server, and go back to the previous ones for the servers that do not pick any', () => {
+            const otherMattermostView = new MattermostBrowserView(view, {}, {});
+            otherMattermostView.browserView.webContents.session = mattermostView.browserView.webContents.session;
+            otherMattermostView.setBounds = jest.fn();
+            otherMattermostView.focus = jest.fn();
+            const getServerSettings = jest.spyOn(ServerManager, 'getServerSettings').mockReturnValue({spellCheckerLocales: ['fr-FR']});
+            mattermostView.isVisible = false;
+            mattermostView.show();
+            getServerSettings.mockReturnValue({spellCheckerLocales: []});
+            otherMattermostView.show();
+            getServerSettings.mockRestore();
+
+            const {setSpellCheckerLanguages} = mattermostView.browserView.webContents.session;
+            expect(setSpellCheckerLanguages).toHaveBeenNthCalledWith(1, ['fr-FR']);
+            expect(setSpellCheckerLanguages).toHaveBeenNthCalledWith(2, ['en-US']);
+        });
     });
 
     describe('hide', () => {
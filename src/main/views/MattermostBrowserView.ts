@@ -2,7 +2,7 @@
 // See LICENSE.txt for license information.
 
 import {BrowserView, app, ipcMain} from 'electron';
-import type {BrowserViewConstructorOptions, Event, Input} from 'electron/main';
+import type {BrowserViewConstructorOptions, Event, Input, Session} from 'electron/main';
 import {EventEmitter} from 'events';
 
 import AppState from 'common/appState';
@@ -24,7 +24,9 @@ import ServerManager from 'common/servers/serverManager';
 import {RELOAD_INTERVAL, MAX_SERVER_RETRIES, SECOND, MAX_LOADING_SCREEN_SECONDS} from 'common/utils/constants';
 import {isInternalURL, parseURL} from 'common/utils/url';
 import type {MattermostView} from 'common/views/View';
-import {getServerAPI} from 'main/server/serverAPI';
+import ServerCompatibility from 'main/server/serverCompatibility';
+import ServerHealth from 'main/server/serverHealth';
+import ServerSessions from 'main/server/serverSessions';
 import MainWindow from 'main/windows/mainWindow';
 
 import WebContentsEventManager from './webContentEvents';
@@ -42,6 +44,9 @@ enum Status {
 const MENTIONS_GROUP = 2;
 const titleParser = /(\((\d+)\) )?(\* )?/g;
 
+// the languages of each session before any server picked its own, which are the ones from the app settings or the system
+const systemSpellCheckerLanguages = new WeakMap<Session, string[]>();
+
 export class MattermostBrowserView extends EventEmitter {
     view: MattermostView;
     isVisible: boolean;
@@ -55,6 +60,7 @@ export class MattermostBrowserView extends EventEmitter {
     private contextMenu: ContextMenu;
     private status?: Status;
     private retryLoad?: NodeJS.Timeout;
+    private failedLoadURL?: string;
     private maxRetries: number;
     private altPressStatus: boolean;
 
@@ -126,6 +132,9 @@ export class MattermostBrowserView extends EventEmitter {
     get webContentsId() {
         return this.browserView.webContents.id;
     }
+    get session() {
+        return this.browserView.webContents.session;
+    }
 
     onLogin = (loggedIn: boolean) => {
         if (this.isLoggedIn === loggedIn) {
@@ -179,6 +188,13 @@ export class MattermostBrowserView extends EventEmitter {
             return;
         }
 
+        // the server would be loaded around its proxy while the session is still switching over to it
+        const pendingProxy = ServerSessions.getPendingProxy(this.view.server);
+        if (pendingProxy) {
+            pendingProxy.then(() => this.load(someURL));
+            return;
+        }
+
         let loadURL: string;
         if (someURL) {
             const parsedURL = parseURL(someURL);
@@ -205,6 +221,10 @@ export class MattermostBrowserView extends EventEmitter {
                 // If the loading was aborted, we shouldn't be retrying
                 return;
             }
+            if (this.view.server.alternateURLs.length) {
+                // switches the server over to one of its other URLs if that one can be reached, which reloads the view
+                ServerHealth.check(this.view.server.id);
+            }
             this.loadRetry(loadURL, err);
         });
     };
@@ -221,9 +241,10 @@ export class MattermostBrowserView extends EventEmitter {
             return;
         }
         this.isVisible = true;
+        this.applySpellCheckerLocales();
         mainWindow.addBrowserView(this.browserView);
         mainWindow.setTopBrowserView(this.browserView);
-        this.setBounds(getWindowBoundaries(mainWindow, shouldHaveBackBar(this.view.url || '', this.currentURL)));
+        this.setBounds(getWindowBoundaries(mainWindow, shouldHaveBackBar(this.view.url || '', this.currentURL), ServerCompatibility.shouldShowBanner(this.view.server.id)));
         if (this.status === Status.READY) {
             this.focus();
         }
@@ -237,11 +258,21 @@ export class MattermostBrowserView extends EventEmitter {
     };
 
     reload = (loadURL?: URL | string) => {
+        delete this.failedLoadURL;
         this.resetLoadingStatus();
         AppState.updateExpired(this.id, false);
         this.load(loadURL);
     };
 
+    /**
+     * Picks the loading back up once the server can be reached again, for the views that ran out of retries
+     */
+    reloadAfterOutage = () => {
+        if (this.failedLoadURL) {
+            this.reload(this.failedLoadURL);
+        }
+    };
+
     getBounds = () => {
         return this.browserView.getBounds();
     };
@@ -352,6 +383,31 @@ export class MattermostBrowserView extends EventEmitter {
         }
     };
 
+    /**
+     * Per-server settings
+     */
+
+    private applySpellCheckerLocales = () => {
+        if (process.platform === 'darwin') {
+            return;
+        }
+
+        // the session is shared with the other servers unless the server has a partition, so the languages are always set back when showing the view
+        const session = this.browserView.webContents.session;
+        if (!systemSpellCheckerLanguages.has(session)) {
+            systemSpellCheckerLanguages.set(session, session.getSpellCheckerLanguages());
+        }
+        const {spellCheckerLocales} = ServerManager.getServerSettings(this.view.server.id);
+        session.setSpellCheckerLanguages(spellCheckerLocales.length ? spellCheckerLocales : systemSpellCheckerLanguages.get(session)!);
+    };
+
+    private applyZoomLevel = () => {
+        const {zoomLevel} = ServerManager.getServerSettings(this.view.server.id);
+        if (typeof zoomLevel !== 'undefined') {
+            this.browserView.webContents.setZoomLevel(zoomLevel);
+        }
+    };
+
     /**
      * ALT key handling for the 3-dot menu (Windows/Linux)
      */
@@ -434,36 +490,15 @@ export class MattermostBrowserView extends EventEmitter {
                 } else {
                     MainWindow.sendToRenderer(LOAD_FAILED, this.id, err.toString(), loadURL.toString());
                     this.emit(LOAD_FAILED, this.id, err.toString(), loadURL.toString());
-                    this.log.info(`Couldn't esviewlish a connection with ${loadURL}, will continue to retry in the background`, err);
+                    this.log.info(`Couldn't esviewlish a connection with ${loadURL}, will reload once the server can be reached again`, err);
                     this.status = Status.ERROR;
-                    this.retryLoad = setTimeout(this.retryInBackground(loadURL), RELOAD_INTERVAL);
+                    this.failedLoadURL = loadURL;
+                    ServerHealth.reportFailure(this.view.server.id);
                 }
             });
         };
     };
 
-    private retryInBackground = (loadURL: string) => {
-        return () => {
-            // window was closed while retrying
-            if (!this.browserView || !this.browserView.webContents) {
-                return;
-            }
-            const parsedURL = parseURL(loadURL);
-            if (!parsedURL) {
-                return;
-            }
-            getServerAPI(
-                parsedURL,
-                false,
-                () => this.reload(loadURL),
-                () => {},
-                (error: Error) => {
-                    this.log.debug(`Cannot reach server: ${error}`);
-                    this.retryLoad = setTimeout(this.retryInBackground(loadURL), RELOAD_INTERVAL);
-                });
-        };
-    };
-
     private loadRetry = (loadURL: string, err: Error) => {
         this.retryLoad = setTimeout(this.retry(loadURL), RELOAD_INTERVAL);
         MainWindow.sendToRenderer(LOAD_RETRY, this.id, Date.now() + RELOAD_INTERVAL, err.toString(), loadURL.toString());
@@ -478,13 +513,14 @@ export class MattermostBrowserView extends EventEmitter {
             if (this.status === Status.LOADING) {
                 this.updateMentionsFromTitle(this.browserView.webContents.getTitle());
                 this.findUnreadState(null);
+                this.applyZoomLevel();
             }
             this.status = Status.WAITING_MM;
             this.removeLoading = setTimeout(this.setInitialized, MAX_LOADING_SCREEN_SECONDS, true);
             this.emit(LOAD_SUCCESS, this.id, loadURL);
             const mainWindow = MainWindow.get();
             if (mainWindow && this.currentURL) {
-                this.setBounds(getWindowBoundaries(mainWindow, shouldHaveBackBar(this.view.url || '', this.currentURL)));
+                this.setBounds(getWindowBoundaries(mainWindow, shouldHaveBackBar(this.view.url || '', this.currentURL), ServerCompatibility.shouldShowBanner(this.view.server.id)));
             }
         };
     };
@@ -506,11 +542,11 @@ export class MattermostBrowserView extends EventEmitter {
         }
 
         if (shouldHaveBackBar(this.view.url || '', parsedURL)) {
-            this.setBounds(getWindowBoundaries(mainWindow, true));
+            this.setBounds(getWindowBoundaries(mainWindow, true, ServerCompatibility.shouldShowBanner(this.view.server.id)));
             MainWindow.sendToRenderer(TOGGLE_BACK_BUTTON, true);
             this.log.debug('show back button');
         } else {
-            this.setBounds(getWindowBoundaries(mainWindow));
+            this.setBounds(getWindowBoundaries(mainWindow, false, ServerCompatibility.shouldShowBanner(this.view.server.id)));
             MainWindow.sendToRenderer(TOGGLE_BACK_BUTTON, false);
             this.log.debug('hide back button');
         }
@@ -528,6 +564,7 @@ export class MattermostBrowserView extends EventEmitter {
 
     private handleServerWasModified = (serverIds: string) => {
         if (serverIds.includes(this.view.server.id)) {
+            clearTimeout(this.retryLoad);
             this.reload();
         }
     };
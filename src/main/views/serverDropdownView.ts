@@ -22,6 +22,8 @@ import Config from 'common/config';
 import {Logger} from 'common/log';
 import ServerManager from 'common/servers/serverManager';
 import {TAB_BAR_HEIGHT, THREE_DOT_MENU_WIDTH, THREE_DOT_MENU_WIDTH_MAC, MENU_SHADOW_WIDTH} from 'common/utils/constants';
+import ServerAvatars from 'main/server/serverAvatars';
+import ServerHealth from 'main/server/serverHealth';
 import {getLocalPreload} from 'main/utils';
 
 import type {UniqueServer} from 'types/config';
@@ -65,6 +67,8 @@ export class ServerDropdownView {
 
         AppState.on(UPDATE_APPSTATE, this.updateMentions);
         ServerManager.on(SERVERS_UPDATE, this.updateServers);
+        ServerAvatars.on('update', this.updateServers);
+        ServerHealth.on('update', this.updateDropdown);
     }
 
     private updateWindowBounds = (newBounds: Electron.Rectangle) => {
@@ -99,12 +103,14 @@ export class ServerDropdownView {
             this.servers,
             Config.darkMode,
             this.windowBounds,
-            ServerManager.hasServers() ? ServerViewState.getCurrentServer().id : undefined,
+            ServerManager.getEnabledServers().length ? ServerViewState.getCurrentServer().id : undefined,
             Config.enableServerManagement,
             this.hasGPOServers,
             this.expired,
             this.mentions,
             this.unreads,
+            ServerManager.getServerGroups(),
+            ServerHealth.getAllHealth(),
         );
     };
 
@@ -185,7 +191,7 @@ export class ServerDropdownView {
     };
 
     private setOrderedServers = () => {
-        this.servers = ServerManager.getOrderedServers().map((server) => server.toUniqueServer());
+        this.servers = ServerManager.getOrderedServers().map(ServerAvatars.toUniqueServer);
         this.hasGPOServers = this.servers.some((srv) => srv.isPredefined);
     };
 }
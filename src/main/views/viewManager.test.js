@@ -8,7 +8,11 @@ import {BROWSER_HISTORY_PUSH, LOAD_SUCCESS, SET_ACTIVE_VIEW} from 'common/commun
 import ServerManager from 'common/servers/serverManager';
 import urlUtils from 'common/utils/url';
 import {TAB_MESSAGING} from 'common/views/View';
+import {getDeeplinkingProtocol} from 'main/app/utils';
 import PermissionsManager from 'main/permissionsManager';
+import ServerCompatibility from 'main/server/serverCompatibility';
+import ServerSessions from 'main/server/serverSessions';
+import ServerImportManager from 'main/serverImport';
 import MainWindow from 'main/windows/mainWindow';
 
 import LoadingScreen from './loadingScreen';
@@ -59,6 +63,7 @@ jest.mock('common/utils/url', () => ({
 
 jest.mock('main/app/utils', () => ({
     flushCookiesStore: jest.fn(),
+    getDeeplinkingProtocol: jest.fn(),
 }));
 
 jest.mock('main/i18nManager', () => ({
@@ -70,6 +75,20 @@ jest.mock('main/permissionsManager', () => ({
     doPermissionRequest: jest.fn(),
 }));
 
+jest.mock('main/server/serverCompatibility', () => ({
+    on: jest.fn(),
+    isFeatureSupported: jest.fn(),
+    shouldShowBanner: jest.fn(),
+}));
+jest.mock('main/server/serverHealth', () => ({
+    on: jest.fn(),
+}));
+jest.mock('main/server/serverSessions', () => ({
+    getSession: jest.fn(),
+}));
+jest.mock('main/serverImport', () => ({
+    importFromDeepLink: jest.fn(),
+}));
 jest.mock('main/server/serverInfo', () => ({
     ServerInfo: jest.fn(),
 }));
@@ -83,8 +102,7 @@ jest.mock('main/windows/mainWindow', () => ({
 }));
 jest.mock('common/servers/serverManager', () => ({
     getOrderedTabsForServer: jest.fn(),
-    getAllServers: jest.fn(),
-    hasServers: jest.fn(),
+    getEnabledServers: jest.fn(),
     getLastActiveServer: jest.fn(),
     getLastActiveTabForServer: jest.fn(),
     lookupViewByURL: jest.fn(),
@@ -214,6 +232,20 @@ describe('main/views/viewManager', () => {
         });
     });
 
+    describe('handleServerUp', () => {
+        const viewManager = new ViewManager();
+        const view1 = {view: {server: {id: 'server-1'}}, reloadAfterOutage: jest.fn()};
+        const view2 = {view: {server: {id: 'server-2'}}, reloadAfterOutage: jest.fn()};
+        viewManager.views.set('view1', view1);
+        viewManager.views.set('view2', view2);
+
+        it('should only reload the views of the server that came back', () => {
+            viewManager.handleServerUp('server-1');
+            expect(view1.reloadAfterOutage).toBeCalled();
+            expect(view2.reloadAfterOutage).not.toBeCalled();
+        });
+    });
+
     describe('handleReloadConfiguration', () => {
         const viewManager = new ViewManager();
 
@@ -258,7 +290,7 @@ describe('main/views/viewManager', () => {
                 },
             });
             viewManager.views.set('view1', view);
-            ServerManager.getAllServers.mockReturnValue([{
+            ServerManager.getEnabledServers.mockReturnValue([{
                 id: 'server1',
                 url: new URL('http://server1.com'),
             }]);
@@ -274,8 +306,36 @@ describe('main/views/viewManager', () => {
             makeSpy.mockRestore();
         });
 
+        it('should make the view again when its server needs another session', () => {
+            const makeSpy = jest.spyOn(viewManager, 'makeView');
+            const view = new MattermostBrowserView({
+                id: 'view1',
+                server: {
+                    id: 'server1',
+                },
+            });
+            view.session = 'default-session';
+            viewManager.views.set('view1', view);
+            ServerManager.getEnabledServers.mockReturnValue([{
+                id: 'server1',
+                url: new URL('http://server1.com'),
+            }]);
+            ServerManager.getOrderedTabsForServer.mockReturnValue([
+                {
+                    id: 'view1',
+                    isOpen: true,
+                },
+            ]);
+            ServerSessions.getSession.mockReturnValue('proxy-session');
+            viewManager.handleReloadConfiguration();
+            expect(view.destroy).toHaveBeenCalled();
+            expect(makeSpy).toHaveBeenCalled();
+            expect(viewManager.views.get('view1')).not.toBe(view);
+            makeSpy.mockRestore();
+        });
+
         it('should close views that arent open', () => {
-            ServerManager.getAllServers.mockReturnValue([{
+            ServerManager.getEnabledServers.mockReturnValue([{
                 id: 'server1',
                 url: new URL('http://server1.com'),
             }]);
@@ -291,7 +351,7 @@ describe('main/views/viewManager', () => {
 
         it('should create new views for new views', () => {
             const makeSpy = jest.spyOn(viewManager, 'makeView');
-            ServerManager.getAllServers.mockReturnValue([{
+            ServerManager.getEnabledServers.mockReturnValue([{
                 id: 'server1',
                 name: 'server1',
                 url: new URL('http://server1.com'),
@@ -334,10 +394,11 @@ describe('main/views/viewManager', () => {
                 destroy: jest.fn(),
                 updateServerInfo: jest.fn(),
                 focus: jest.fn(),
+                isVisible: true,
             };
             viewManager.currentView = 'view1';
             viewManager.views.set('view1', view);
-            ServerManager.getAllServers.mockReturnValue([{
+            ServerManager.getEnabledServers.mockReturnValue([{
                 id: 'server1',
                 url: new URL('http://server1.com'),
             }]);
@@ -363,7 +424,7 @@ describe('main/views/viewManager', () => {
             };
             viewManager.currentView = 'view1';
             viewManager.views.set('view1', view);
-            ServerManager.getAllServers.mockReturnValue([{
+            ServerManager.getEnabledServers.mockReturnValue([{
                 id: 'server2',
                 url: new URL('http://server2.com'),
             }]);
@@ -387,7 +448,7 @@ describe('main/views/viewManager', () => {
                 destroy: jest.fn(),
             };
             viewManager.views.set('view1', view);
-            ServerManager.getAllServers.mockReturnValue([{
+            ServerManager.getEnabledServers.mockReturnValue([{
                 id: 'server2',
                 url: new URL('http://server2.com'),
             }]);
@@ -410,7 +471,7 @@ describe('main/views/viewManager', () => {
         beforeEach(() => {
             viewManager.showById = jest.fn();
             MainWindow.get.mockReturnValue(window);
-            ServerManager.hasServers.mockReturnValue(true);
+            ServerManager.getEnabledServers.mockReturnValue([{id: 'server-0'}]);
             ServerViewState.getCurrentServer.mockReturnValue({id: 'server-0'});
         });
 
@@ -426,7 +487,7 @@ describe('main/views/viewManager', () => {
         });
 
         it('should open new server modal when no servers exist', () => {
-            ServerManager.hasServers.mockReturnValue(false);
+            ServerManager.getEnabledServers.mockReturnValue([]);
             viewManager.showInitial();
             expect(window.webContents.send).toHaveBeenCalledWith(SET_ACTIVE_VIEW);
         });
@@ -504,7 +565,7 @@ describe('main/views/viewManager', () => {
         viewManager.getViewByWebContentsId = (webContentsId) => [...views.values()].find((view) => view.webContentsId === webContentsId);
 
         beforeEach(() => {
-            ServerManager.getAllServers.mockReturnValue(servers);
+            ServerManager.getEnabledServers.mockReturnValue(servers);
             ServerViewState.getCurrentServer.mockReturnValue(servers[0]);
             urlUtils.cleanPathName.mockImplementation((base, path) => path);
         });
@@ -666,11 +727,12 @@ describe('main/views/viewManager', () => {
 
         it('should send the URL to the view if its already loaded on a 6.0 server', () => {
             ServerManager.lookupViewByURL.mockImplementation(() => ({id: 'view1', url: new URL('http://server-1.com/')}));
-            ServerManager.getRemoteInfo.mockReturnValue({serverVersion: '6.0.0'});
+            ServerCompatibility.isFeatureSupported.mockReturnValue(true);
             const view = {
                 ...baseView,
                 view: {
                     server: {
+                        id: 'server-1',
                         url: new URL('http://server-1.com'),
                     },
                 },
@@ -701,5 +763,13 @@ describe('main/views/viewManager', () => {
             viewManager.handleDeepLink('mattermost://server-1.com/deep/link?thing=yes');
             expect(viewManager.openClosedView).toHaveBeenCalledWith('view1', 'http://server-1.com/deep/link?thing=yes');
         });
+
+        it('should import the servers of an add-servers link', () => {
+            getDeeplinkingProtocol.mockReturnValue('mattermost');
+            viewManager.handleDeepLink('mattermost://add-servers?name=Team%20A&url=https://a.example.com');
+            expect(ServerImportManager.importFromDeepLink).toHaveBeenCalledWith(new URL('mattermost://add-servers?name=Team%20A&url=https://a.example.com'));
+            expect(ServerManager.lookupViewByURL).not.toHaveBeenCalled();
+            expect(dialog.showErrorBox).not.toHaveBeenCalled();
+        });
     });
 });
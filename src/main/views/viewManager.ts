@@ -38,15 +38,19 @@ import {
 import Config from 'common/config';
 import {Logger} from 'common/log';
 import type {MattermostServer} from 'common/servers/MattermostServer';
+import {isAddServersDeepLink} from 'common/servers/serverList';
 import ServerManager from 'common/servers/serverManager';
 import {SECOND, TAB_BAR_HEIGHT} from 'common/utils/constants';
 import {getFormattedPathName, parseURL} from 'common/utils/url';
-import Utils from 'common/utils/util';
 import type {MattermostView} from 'common/views/View';
 import {TAB_MESSAGING} from 'common/views/View';
-import {flushCookiesStore} from 'main/app/utils';
+import {flushCookiesStore, getDeeplinkingProtocol} from 'main/app/utils';
 import {localizeMessage} from 'main/i18nManager';
 import PermissionsManager from 'main/permissionsManager';
+import ServerCompatibility from 'main/server/serverCompatibility';
+import ServerHealth from 'main/server/serverHealth';
+import ServerSessions from 'main/server/serverSessions';
+import ServerImportManager from 'main/serverImport';
 import MainWindow from 'main/windows/mainWindow';
 
 import LoadingScreen from './loadingScreen';
@@ -91,11 +95,13 @@ export class ViewManager {
         ipcMain.on(SWITCH_TAB, (event, viewId) => this.showById(viewId));
 
         ServerManager.on(SERVERS_UPDATE, this.handleReloadConfiguration);
+        ServerHealth.on('serverUp', this.handleServerUp);
+        ServerCompatibility.on('update', this.handleServerCompatibilityUpdate);
     }
 
     private init = () => {
         LoadingScreen.show();
-        ServerManager.getAllServers().forEach((server) => this.loadServer(server));
+        ServerManager.getEnabledServers().forEach((server) => this.loadServer(server));
         this.showInitial();
     };
 
@@ -191,6 +197,10 @@ export class ViewManager {
     handleDeepLink = (url: string | URL) => {
         if (url) {
             const parsedURL = parseURL(url)!;
+            if (isAddServersDeepLink(parsedURL, getDeeplinkingProtocol())) {
+                ServerImportManager.importFromDeepLink(parsedURL);
+                return;
+            }
             const view = ServerManager.lookupViewByURL(parsedURL, true);
             if (view) {
                 const urlWithSchema = `${view.url.origin}${getFormattedPathName(parsedURL.pathname)}${parsedURL.search}`;
@@ -203,7 +213,7 @@ export class ViewManager {
                         return;
                     }
 
-                    if (browserView.isReady() && ServerManager.getRemoteInfo(browserView.view.server.id)?.serverVersion && Utils.isVersionGreaterThanOrEqualTo(ServerManager.getRemoteInfo(browserView.view.server.id)?.serverVersion ?? '', '6.0.0')) {
+                    if (browserView.isReady() && ServerCompatibility.isFeatureSupported(browserView.view.server.id, 'historyPush')) {
                         const formattedServerURL = `${browserView.view.server.url.origin}${getFormattedPathName(browserView.view.server.url.pathname)}`;
                         const pathName = `/${urlWithSchema.replace(formattedServerURL, '')}`;
                         browserView.sendToRenderer(BROWSER_HISTORY_PUSH, pathName);
@@ -261,7 +271,7 @@ export class ViewManager {
             throw new Error('Cannot create view, no main window present');
         }
 
-        const browserView = new MattermostBrowserView(view, {webPreferences: {spellcheck: Config.useSpellChecker}});
+        const browserView = new MattermostBrowserView(view, {webPreferences: {spellcheck: Config.useSpellChecker, session: ServerSessions.getSession(srv)}});
         browserView.once(LOAD_SUCCESS, this.activateView);
         browserView.on(LOADSCREEN_END, this.finishLoading);
         browserView.on(LOAD_FAILED, this.failLoading);
@@ -294,7 +304,7 @@ export class ViewManager {
 
         // TODO: This init should be happening elsewhere, future refactor will fix this
         ServerViewState.init();
-        if (ServerManager.hasServers()) {
+        if (ServerManager.getEnabledServers().length) {
             const lastActiveServer = ServerViewState.getCurrentServer();
             const lastActiveView = ServerManager.getLastActiveTabForServer(lastActiveServer.id);
             this.showById(lastActiveView.id);
@@ -424,16 +434,19 @@ export class ViewManager {
         const views: Map<string, MattermostBrowserView> = new Map();
         const closed: Map<string, {srv: MattermostServer; view: MattermostView}> = new Map();
 
-        const sortedViews = ServerManager.getAllServers().flatMap((x) => ServerManager.getOrderedTabsForServer(x.id).
+        // archived servers are left out, so that their views are destroyed and made again once they are enabled
+        const sortedViews = ServerManager.getEnabledServers().flatMap((x) => ServerManager.getOrderedTabsForServer(x.id).
             map((t): [MattermostServer, MattermostView] => [x, t]));
 
         for (const [srv, view] of sortedViews) {
             const recycle = current.get(view.id);
             if (!view.isOpen) {
                 closed.set(view.id, {srv, view});
-            } else if (recycle) {
+            } else if (recycle && recycle.session === ServerSessions.getSession(srv)) {
                 views.set(view.id, recycle);
             } else {
+                // views can't move to another session, so they are made again when the proxy settings of the server call for one
+                recycle?.destroy();
                 views.set(view.id, this.makeView(srv, view));
             }
         }
@@ -453,12 +466,13 @@ export class ViewManager {
         }
 
         // commit closed
+        this.closedViews = new Map();
         for (const x of closed.values()) {
             this.closedViews.set(x.view.id, {srv: x.srv, view: x.view});
         }
 
         if ((currentViewId && closed.has(currentViewId)) || (this.currentView && this.closedViews.has(this.currentView))) {
-            if (ServerManager.hasServers()) {
+            if (ServerManager.getEnabledServers().length) {
                 this.currentView = undefined;
                 this.showInitial();
             } else {
@@ -469,7 +483,7 @@ export class ViewManager {
         // show the focused view (or initial)
         if (currentViewId && views.has(currentViewId)) {
             const view = views.get(currentViewId);
-            if (view && view.id !== this.currentView) {
+            if (view && (view.id !== this.currentView || !view.isVisible)) {
                 this.currentView = view.id;
                 this.showById(view.id);
                 MainWindow.get()?.webContents.send(SET_ACTIVE_VIEW, view.view.server.id, view.view.id);
@@ -481,6 +495,16 @@ export class ViewManager {
         }
     };
 
+    private handleServerUp = (serverId: string) => {
+        log.debug('handleServerUp', serverId);
+
+        for (const view of this.views.values()) {
+            if (view.view.server.id === serverId) {
+                view.reloadAfterOutage();
+            }
+        }
+    };
+
     private handleHistory = (event: IpcMainEvent, offset: number) => {
         this.getCurrentView()?.goToOffset(offset);
     };
@@ -634,11 +658,24 @@ export class ViewManager {
 
         const currentView = this.getCurrentView();
         if (currentView && currentView.currentURL) {
-            const adjustedBounds = getAdjustedWindowBoundaries(newBounds.width, newBounds.height, shouldHaveBackBar(currentView.view.url, currentView.currentURL));
+            const adjustedBounds = getAdjustedWindowBoundaries(
+                newBounds.width,
+                newBounds.height,
+                shouldHaveBackBar(currentView.view.url, currentView.currentURL),
+                ServerCompatibility.shouldShowBanner(currentView.view.server.id),
+            );
             currentView.setBounds(adjustedBounds);
         }
     };
 
+    // the banner shown above the view of an unsupported server takes up some of its space
+    private handleServerCompatibilityUpdate = () => {
+        const mainWindow = MainWindow.get();
+        if (mainWindow) {
+            this.handleSetCurrentViewBounds(mainWindow.getContentBounds());
+        }
+    };
+
     /**
      * Helper functions
      */
@@ -3,11 +3,13 @@
 
 'use strict';
 
-import {shell, BrowserWindow} from 'electron';
+import {dialog, shell, BrowserWindow} from 'electron';
 
 import {getLevel} from 'common/log';
 import ContextMenu from 'main/contextMenu';
+import DesktopPolicy from 'main/server/desktopPolicy';
 import ViewManager from 'main/views/viewManager';
+import MainWindow from 'main/windows/mainWindow';
 
 import {WebContentsEventManager} from './webContentEvents';
 
@@ -19,9 +21,23 @@ jest.mock('electron', () => ({
         openExternal: jest.fn(),
     },
     BrowserWindow: jest.fn(),
+    dialog: {
+        showMessageBox: jest.fn(),
+    },
     session: {},
 }));
 jest.mock('main/contextMenu', () => jest.fn());
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
+jest.mock('main/server/siteURLDecisions', () => ({
+    get: jest.fn(),
+    save: jest.fn(),
+}));
+jest.mock('main/server/desktopPolicy', () => ({
+    getExternalLinks: jest.fn(),
+    areDevToolsAllowed: jest.fn(),
+}));
 jest.mock('main/windows/mainWindow', () => ({
     get: jest.fn(),
 }));
@@ -152,6 +168,7 @@ describe('main/views/webContentsEvents', () => {
 
         beforeEach(() => {
             webContentsEventManager.getServerURLFromWebContentsId = jest.fn().mockImplementation(() => new URL('http://server-1.com'));
+            webContentsEventManager.getServerIdFromWebContentsId = jest.fn();
 
             BrowserWindow.mockImplementation(() => ({
                 once: jest.fn(),
@@ -179,6 +196,12 @@ describe('main/views/webContentsEvents', () => {
             expect(newWindow({url: 'devtools://aaaaaa.com'})).toStrictEqual({action: 'allow'});
         });
 
+        it('should not allow dev tools to open when the server does not allow them', () => {
+            webContentsEventManager.getServerIdFromWebContentsId.mockReturnValue('server-1');
+            DesktopPolicy.areDevToolsAllowed.mockReturnValue(false);
+            expect(newWindow({url: 'devtools://aaaaaa.com'})).toStrictEqual({action: 'deny'});
+        });
+
         it('should open invalid URIs in browser', () => {
             expect(newWindow({url: 'https://google.com/?^'})).toStrictEqual({action: 'deny'});
             expect(shell.openExternal).toBeCalledWith('https://google.com/?^');
@@ -238,6 +261,38 @@ describe('main/views/webContentsEvents', () => {
             expect(newWindow({url: 'https://google.com'})).toStrictEqual({action: 'deny'});
             expect(shell.openExternal).toBeCalledWith('https://google.com');
         });
+
+        it('should not open external URIs when the server blocks them', () => {
+            webContentsEventManager.getServerIdFromWebContentsId.mockReturnValue('server-1');
+            DesktopPolicy.getExternalLinks.mockReturnValue('block');
+            expect(newWindow({url: 'https://google.com'})).toStrictEqual({action: 'deny'});
+            expect(shell.openExternal).not.toBeCalled();
+        });
+
+        it('should not open the links the app sends to the browser when the server blocks external links', () => {
+            webContentsEventManager.getServerIdFromWebContentsId.mockReturnValue('server-1');
+            DesktopPolicy.getExternalLinks.mockReturnValue('block');
+            expect(newWindow({url: 'https://google.com/?^'})).toStrictEqual({action: 'deny'});
+            expect(newWindow({url: 'http://server-1.com/api/v4/public/files/myfile.img'})).toStrictEqual({action: 'deny'});
+            expect(newWindow({url: 'http://server-1.com/help/helplink'})).toStrictEqual({action: 'deny'});
+            expect(shell.openExternal).not.toBeCalled();
+        });
+
+        it('should ask before opening external URIs when the server requires it', async () => {
+            webContentsEventManager.getServerIdFromWebContentsId.mockReturnValue('server-1');
+            DesktopPolicy.getExternalLinks.mockReturnValue('confirm');
+            MainWindow.get.mockReturnValue({});
+            dialog.showMessageBox.mockResolvedValue({response: 1});
+            expect(newWindow({url: 'https://google.com'})).toStrictEqual({action: 'deny'});
+            await new Promise(setImmediate);
+            expect(dialog.showMessageBox).toHaveBeenCalled();
+            expect(shell.openExternal).not.toBeCalled();
+
+            dialog.showMessageBox.mockResolvedValue({response: 0});
+            newWindow({url: 'https://google.com'});
+            await new Promise(setImmediate);
+            expect(shell.openExternal).toBeCalledWith('https://google.com');
+        });
     });
 
     describe('consoleMessage', () => {
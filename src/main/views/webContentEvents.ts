@@ -4,7 +4,7 @@
 import path from 'path';
 
 import type {WebContents, Event} from 'electron';
-import {BrowserWindow, shell} from 'electron';
+import {BrowserWindow, dialog, shell} from 'electron';
 
 import Config from 'common/config';
 import {Logger, getLevel} from 'common/log';
@@ -28,6 +28,8 @@ import {
 } from 'common/utils/url';
 import {flushCookiesStore} from 'main/app/utils';
 import ContextMenu from 'main/contextMenu';
+import {localizeMessage} from 'main/i18nManager';
+import DesktopPolicy from 'main/server/desktopPolicy';
 import ViewManager from 'main/views/viewManager';
 import CallsWidgetWindow from 'main/windows/callsWidgetWindow';
 import MainWindow from 'main/windows/mainWindow';
@@ -92,6 +94,52 @@ export class WebContentsEventManager {
         return ViewManager.getViewByWebContentsId(webContentsId)?.view.server.url;
     };
 
+    private getServerIdFromWebContentsId = (webContentsId: number) => {
+        const serverURL = this.getServerURLFromWebContentsId(webContentsId);
+        return serverURL && ServerManager.lookupServerByURL(serverURL)?.id;
+    };
+
+    // the links leaving the server follow its desktop policy, they are opened in the browser unless the server says otherwise
+    private openExternalLink = async (webContentsId: number, url: string) => {
+        const serverId = this.getServerIdFromWebContentsId(webContentsId);
+        const externalLinks = serverId ? DesktopPolicy.getExternalLinks(serverId) : 'browser';
+        if (externalLinks === 'block') {
+            this.log(webContentsId).info(`Prevented opening an external link as set by the server: ${url}`);
+            return;
+        }
+
+        const mainWindow = MainWindow.get();
+        if (externalLinks === 'confirm' && mainWindow) {
+            const {response} = await dialog.showMessageBox(mainWindow, {
+                title: localizeMessage('main.views.webContentEvents.externalLink.title', 'Open External Link'),
+                message: localizeMessage('main.views.webContentEvents.externalLink.message', 'Do you want to open this link in your browser?'),
+                detail: url,
+                type: 'question',
+                buttons: [
+                    localizeMessage('main.views.webContentEvents.externalLink.open', 'Open Link'),
+                    localizeMessage('label.cancel', 'Cancel'),
+                ],
+                defaultId: 0,
+                cancelId: 1,
+                noLink: true,
+            });
+            if (response !== 0) {
+                return;
+            }
+        }
+        shell.openExternal(url);
+    };
+
+    private generateDevToolsOpened = (contents: WebContents) => {
+        return () => {
+            const serverId = this.getServerIdFromWebContentsId(contents.id);
+            if (serverId && !DesktopPolicy.areDevToolsAllowed(serverId)) {
+                this.log(contents.id).warn('Closing the developer tools, they are not allowed by the server');
+                contents.closeDevTools();
+            }
+        };
+    };
+
     private generateWillNavigate = (webContentsId: number) => {
         return (event: Event, url: string) => {
             this.log(webContentsId).debug('will-navigate', url);
@@ -166,7 +214,8 @@ export class WebContentsEventManager {
 
             // Dev tools case
             if (parsedURL.protocol === 'devtools:') {
-                return {action: 'allow'};
+                const serverId = this.getServerIdFromWebContentsId(webContentsId);
+                return {action: serverId && !DesktopPolicy.areDevToolsAllowed(serverId) ? 'deny' : 'allow'};
             }
 
             // Check for custom protocol
@@ -178,33 +227,33 @@ export class WebContentsEventManager {
             // Check for valid URL
             // Let the browser handle invalid URIs
             if (!isValidURI(details.url)) {
-                shell.openExternal(details.url);
+                this.openExternalLink(webContentsId, details.url);
                 return {action: 'deny'};
             }
 
             const serverURL = this.getServerURLFromWebContentsId(webContentsId);
             if (!serverURL) {
-                shell.openExternal(details.url);
+                this.openExternalLink(webContentsId, details.url);
                 return {action: 'deny'};
             }
 
             // Public download links case
             // we are going to mimic the browser and just pop a new browser window for public links
             if (isPublicFilesUrl(serverURL, parsedURL)) {
-                shell.openExternal(details.url);
+                this.openExternalLink(webContentsId, details.url);
                 return {action: 'deny'};
             }
 
             // Image proxy case
             if (isImageProxyUrl(serverURL, parsedURL)) {
-                shell.openExternal(details.url);
+                this.openExternalLink(webContentsId, details.url);
                 return {action: 'deny'};
             }
 
             if (isHelpUrl(serverURL, parsedURL)) {
                 // Help links case
                 // continue to open special case internal urls in default browser
-                shell.openExternal(details.url);
+                this.openExternalLink(webContentsId, details.url);
                 return {action: 'deny'};
             }
 
@@ -238,6 +287,9 @@ export class WebContentsEventManager {
                             center: true,
                             webPreferences: {
                                 spellcheck: (typeof spellcheck === 'undefined' ? true : spellcheck),
+
+                                // the popup has to be signed in the same way as the server that opened it
+                                session: ViewManager.getViewByWebContentsId(webContentsId)?.session,
                             },
                         }),
                         serverURL,
@@ -285,13 +337,13 @@ export class WebContentsEventManager {
             }
 
             const otherServerURL = ServerManager.lookupViewByURL(parsedURL);
-            if (otherServerURL && isTeamUrl(otherServerURL.server.url, parsedURL, true)) {
+            if (otherServerURL && otherServerURL.server.urls.some((url) => isTeamUrl(url, parsedURL, true))) {
                 ViewManager.handleDeepLink(parsedURL);
                 return {action: 'deny'};
             }
 
             // If all else fails, just open externally
-            shell.openExternal(details.url);
+            this.openExternalLink(webContentsId, details.url);
             return {action: 'deny'};
         };
     };
@@ -355,6 +407,9 @@ export class WebContentsEventManager {
         const consoleMessage = this.generateHandleConsoleMessage(contents.id);
         contents.on('console-message', consoleMessage);
 
+        const devToolsOpened = this.generateDevToolsOpened(contents);
+        contents.on('devtools-opened', devToolsOpened);
+
         addListeners?.(contents);
 
         const removeWebContentsListeners = () => {
@@ -362,6 +417,7 @@ export class WebContentsEventManager {
                 contents.removeListener('will-navigate', willNavigate);
                 contents.removeListener('did-start-navigation', didStartNavigation);
                 contents.removeListener('console-message', consoleMessage);
+                contents.removeListener('devtools-opened', devToolsOpened);
                 removeListeners?.(contents);
             } catch (e) {
                 this.log(contents.id).error(`Error while trying to detach listeners, this might be ok if the process crashed: ${e}`);
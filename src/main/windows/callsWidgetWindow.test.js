@@ -1,7 +1,7 @@
 // Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 
-import {BrowserWindow, desktopCapturer, systemPreferences, ipcMain} from 'electron';
+import {BrowserWindow, desktopCapturer, dialog, systemPreferences, ipcMain} from 'electron';
 
 import ServerViewState from 'app/serverViewState';
 import {
@@ -18,6 +18,7 @@ import {
 } from 'common/utils/constants';
 import urlUtils from 'common/utils/url';
 import PermissionsManager from 'main/permissionsManager';
+import ServerCompatibility from 'main/server/serverCompatibility';
 import {
     resetScreensharePermissionsMacOS,
     openScreensharePermissionsSettingsMacOS,
@@ -33,6 +34,9 @@ jest.mock('electron', () => ({
         getAppPath: () => '/path/to/app',
     },
     BrowserWindow: jest.fn(),
+    dialog: {
+        showErrorBox: jest.fn(),
+    },
     ipcMain: {
         on: jest.fn(),
         off: jest.fn(),
@@ -57,9 +61,15 @@ jest.mock('common/utils/url', () => ({
     getFormattedPathName: jest.fn(),
     parseURL: jest.fn(),
 }));
+jest.mock('main/i18nManager', () => ({
+    localizeMessage: jest.fn(),
+}));
 jest.mock('main/permissionsManager', () => ({
     doPermissionRequest: jest.fn(),
 }));
+jest.mock('main/server/serverCompatibility', () => ({
+    isFeatureUnsupported: jest.fn(),
+}));
 jest.mock('main/windows/mainWindow', () => ({
     get: jest.fn(),
     focus: jest.fn(),
@@ -457,8 +467,10 @@ describe('main/windows/callsWidgetWindow', () => {
         callsWidgetWindow.getWidgetURL = jest.fn();
         const view = {
             name: 'server-1_view-messaging',
-            serverInfo: {
+            view: {
                 server: {
+                    id: 'server-1',
+                    name: 'server-1',
                     url: new URL('http://server-1.com'),
                 },
             },
@@ -516,6 +528,15 @@ describe('main/windows/callsWidgetWindow', () => {
             expect(callsWidgetWindow.win).toBeDefined();
         });
 
+        it('should not create calls widget window when the server is too old for it', async () => {
+            ServerCompatibility.isFeatureUnsupported.mockReturnValue(true);
+            await callsWidgetWindow.handleCreateCallsWidgetWindow({sender: {id: 2}}, {callID: 'test'});
+            expect(ServerCompatibility.isFeatureUnsupported).toHaveBeenCalledWith('server-1', 'callsWidget');
+            expect(dialog.showErrorBox).toHaveBeenCalled();
+            expect(BrowserWindow).not.toHaveBeenCalled();
+            expect(callsWidgetWindow.win).toBeUndefined();
+        });
+
         it('should catch error when failing to load the URL', async () => {
             const error = new Error('failed to load URL');
             const promise = Promise.reject(error);
@@ -2,7 +2,7 @@
 // See LICENSE.txt for license information.
 
 import type {IpcMainEvent, Rectangle, Event, IpcMainInvokeEvent} from 'electron';
-import {BrowserWindow, desktopCapturer, ipcMain, systemPreferences} from 'electron';
+import {BrowserWindow, desktopCapturer, dialog, ipcMain, systemPreferences} from 'electron';
 
 import ServerViewState from 'app/serverViewState';
 import {
@@ -28,7 +28,9 @@ import {Logger} from 'common/log';
 import {CALLS_PLUGIN_ID, MINIMUM_CALLS_WIDGET_HEIGHT, MINIMUM_CALLS_WIDGET_WIDTH} from 'common/utils/constants';
 import {getFormattedPathName, isCallsPopOutURL, parseURL} from 'common/utils/url';
 import Utils from 'common/utils/util';
+import {localizeMessage} from 'main/i18nManager';
 import PermissionsManager from 'main/permissionsManager';
+import ServerCompatibility from 'main/server/serverCompatibility';
 import {
     composeUserAgent,
     getLocalPreload,
@@ -108,6 +110,10 @@ export class CallsWidgetWindow {
         this.win?.webContents.openDevTools({mode: 'detach'});
     };
 
+    getServerId = () => {
+        return this.serverID;
+    };
+
     getViewURL = () => {
         return this.mainView?.view.server.url;
     };
@@ -468,6 +474,15 @@ export class CallsWidgetWindow {
             return Promise.resolve();
         }
 
+        if (ServerCompatibility.isFeatureUnsupported(currentView.view.server.id, 'callsWidget')) {
+            log.warn('unable to create calls widget window: the server is too old for the calls widget');
+            dialog.showErrorBox(
+                localizeMessage('main.windows.callsWidgetWindow.unsupported.title', 'Calls not available'),
+                localizeMessage('main.windows.callsWidgetWindow.unsupported.body', 'The server {name} is running a version of Mattermost that is too old to join calls from the desktop app. Ask your system admin to update the server.', {name: currentView.view.server.name}),
+            );
+            return Promise.resolve();
+        }
+
         const promise = new Promise((resolve) => {
             const connected = (ev: IpcMainEvent, incomingCallId: string, incomingSessionId: string) => {
                 log.debug('onJoinedCall', incomingCallId);
@@ -73,6 +73,10 @@ jest.mock('../utils', () => ({
 jest.mock('main/i18nManager', () => ({
     localizeMessage: jest.fn(),
 }));
+jest.mock('main/server/siteURLDecisions', () => ({
+    get: jest.fn(),
+    save: jest.fn(),
+}));
 
 describe('main/windows/mainWindow', () => {
     describe('init', () => {
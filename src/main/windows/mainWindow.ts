@@ -34,6 +34,7 @@ import Utils from 'common/utils/util';
 import * as Validator from 'common/Validator';
 import {boundsInfoPath} from 'main/constants';
 import {localizeMessage} from 'main/i18nManager';
+import ServerAvatars from 'main/server/serverAvatars';
 
 import type {SavedWindowState} from 'types/mainWindow';
 
@@ -64,6 +65,7 @@ export class MainWindow extends EventEmitter {
         ipcMain.on(EXIT_FULLSCREEN, this.handleExitFullScreen);
 
         ServerManager.on(SERVERS_UPDATE, this.handleUpdateConfig);
+        ServerAvatars.on('update', this.handleUpdateConfig);
 
         AppState.on(UPDATE_APPSTATE_FOR_VIEW_ID, this.handleUpdateAppStateForViewId);
     }
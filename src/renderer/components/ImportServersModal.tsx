@@ -0,0 +1,285 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import classNames from 'classnames';
+import React, {useEffect, useState} from 'react';
+import {Button, FormCheck, Modal, Table} from 'react-bootstrap';
+import {FormattedMessage} from 'react-intl';
+
+import {URLValidationStatus} from 'common/utils/constants';
+
+import type {Server} from 'types/config';
+import type {URLValidationResult} from 'types/server';
+
+import 'renderer/css/components/ImportServersModal.scss';
+
+type ImportStatus = 'validating' | 'valid' | 'redirected' | 'duplicate' | 'unreachable' | 'invalid';
+
+type ImportRow = {
+    server: Server;
+    status: ImportStatus;
+    selected: boolean;
+    validatedURL?: string;
+    detail?: string;
+};
+
+type Props = {
+    show: boolean;
+    servers: Server[];
+    onClose: () => void;
+    onSave: (servers: Server[]) => void;
+};
+
+function getImportStatus(result: URLValidationResult): ImportStatus {
+    switch (result.status) {
+    case URLValidationStatus.OK:
+    case URLValidationStatus.Insecure:
+        return 'valid';
+    case URLValidationStatus.URLUpdated:
+        return 'redirected';
+    case URLValidationStatus.URLExists:
+        return 'duplicate';
+    case URLValidationStatus.NotMattermost:
+    case URLValidationStatus.URLNotMatched:
+        return 'unreachable';
+    default:
+        return 'invalid';
+    }
+}
+
+function getServerName(server: Server, result: URLValidationResult) {
+    if (server.name) {
+        return server.name;
+    }
+    if (result.serverName) {
+        return result.serverName;
+    }
+    try {
+        return new URL(result.validatedURL ?? server.url).host;
+    } catch {
+        return server.url;
+    }
+}
+
+/**
+ * Runs every imported server through the same URL validation as the new server modal,
+ * so that the user can review them all before adding the ones they want
+ */
+function ImportServersModal(props: Props) {
+    const [rows, setRows] = useState<ImportRow[]>([]);
+
+    useEffect(() => {
+        let mounted = true;
+        setRows(props.servers.map((server) => ({server, status: 'validating', selected: false})));
+
+        const validate = async () => {
+            const results = await Promise.all(props.servers.map((server) => window.desktop.validateServerURL(server.url)));
+            if (!mounted) {
+                return;
+            }
+
+            const seenURLs = new Set<string>();
+            setRows(props.servers.map((server, index) => {
+                const result = results[index];
+                let status = getImportStatus(result);
+
+                // the same server may show up more than once in the list, only the first one is imported
+                if (result.validatedURL && status !== 'duplicate' && status !== 'invalid') {
+                    if (seenURLs.has(result.validatedURL)) {
+                        status = 'duplicate';
+                    }
+                    seenURLs.add(result.validatedURL);
+                }
+
+                return {
+                    server: {name: getServerName(server, result), url: server.url},
+                    status,
+                    selected: status === 'valid' || status === 'redirected',
+                    validatedURL: result.validatedURL,
+                    detail: status === 'duplicate' ? result.existingServerName : undefined,
+                };
+            }));
+        };
+        validate();
+
+        return () => {
+            mounted = false;
+        };
+    }, [props.servers]);
+
+    const isValidating = rows.some((row) => row.status === 'validating');
+    const selectedRows = rows.filter((row) => row.selected);
+
+    const toggleRow = (index: number) => {
+        setRows(rows.map((row, rowIndex) => (rowIndex === index ? {...row, selected: !row.selected} : row)));
+    };
+
+    const save = () => {
+        if (isValidating || !selectedRows.length) {
+            return;
+        }
+        props.onSave(selectedRows.map((row) => ({name: row.server.name, url: row.validatedURL ?? row.server.url})));
+    };
+
+    const renderStatus = (row: ImportRow) => {
+        switch (row.status) {
+        case 'validating':
+            return (
+                <FormattedMessage
+                    id='renderer.components.importServersModal.status.validating'
+                    defaultMessage='Checking...'
+                />
+            );
+        case 'valid':
+            return (
+                <FormattedMessage
+                    id='renderer.components.importServersModal.status.valid'
+                    defaultMessage='Valid'
+                />
+            );
+        case 'redirected':
+            return (
+                <FormattedMessage
+                    id='renderer.components.importServersModal.status.redirected'
+                    defaultMessage='Redirected to {url}'
+                    values={{url: row.validatedURL}}
+                />
+            );
+        case 'duplicate':
+            return row.detail ? (
+                <FormattedMessage
+                    id='renderer.components.importServersModal.status.duplicateOf'
+                    defaultMessage='Already added as {serverName}'
+                    values={{serverName: row.detail}}
+                />
+            ) : (
+                <FormattedMessage
+                    id='renderer.components.importServersModal.status.duplicate'
+                    defaultMessage='Duplicate'
+                />
+            );
+        case 'unreachable':
+            return (
+                <FormattedMessage
+                    id='renderer.components.importServersModal.status.unreachable'
+                    defaultMessage='Unreachable'
+                />
+            );
+        default:
+            return (
+                <FormattedMessage
+                    id='renderer.components.importServersModal.status.invalid'
+                    defaultMessage='Invalid URL'
+                />
+            );
+        }
+    };
+
+    return (
+        <Modal
+            bsClass='modal'
+            className='ImportServersModal'
+            show={props.show}
+            id='importServersModal'
+            enforceFocus={true}
+            onHide={props.onClose}
+            onKeyDown={(e: React.KeyboardEvent) => {
+                if (e.key === 'Escape') {
+                    props.onClose();
+                }
+            }}
+        >
+            <Modal.Header>
+                <Modal.Title>
+                    <FormattedMessage
+                        id='renderer.components.importServersModal.title'
+                        defaultMessage='Import Servers'
+                    />
+                </Modal.Title>
+            </Modal.Header>
+
+            <Modal.Body>
+                <p>
+                    <FormattedMessage
+                        id='renderer.components.importServersModal.description'
+                        defaultMessage='Review the servers below and pick the ones to add. Servers that are already added are skipped, and servers that could not be reached are left out unless you select them.'
+                    />
+                </p>
+                <Table
+                    className='ImportServersModal__table'
+                    size='sm'
+                >
+                    <thead>
+                        <tr>
+                            <th/>
+                            <th>
+                                <FormattedMessage
+                                    id='renderer.components.importServersModal.name'
+                                    defaultMessage='Name'
+                                />
+                            </th>
+                            <th>
+                                <FormattedMessage
+                                    id='renderer.components.importServersModal.url'
+                                    defaultMessage='URL'
+                                />
+                            </th>
+                            <th>
+                                <FormattedMessage
+                                    id='renderer.components.importServersModal.status'
+                                    defaultMessage='Status'
+                                />
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, index) => (
+                            <tr key={`${index}-${row.server.url}`}>
+                                <td>
+                                    <FormCheck
+                                        id={`importServersModal-row-${index}`}
+                                        checked={row.selected}
+                                        disabled={row.status === 'validating' || row.status === 'invalid' || row.status === 'duplicate'}
+                                        onChange={() => toggleRow(index)}
+                                    />
+                                </td>
+                                <td>{row.server.name}</td>
+                                <td className='ImportServersModal__url'>{row.server.url}</td>
+                                <td className={classNames('ImportServersModal__status', row.status)}>
+                                    {renderStatus(row)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </Table>
+            </Modal.Body>
+
+            <Modal.Footer>
+                <Button
+                    id='cancelImportServersModal'
+                    onClick={props.onClose}
+                    variant='link'
+                >
+                    <FormattedMessage
+                        id='label.cancel'
+                        defaultMessage='Cancel'
+                    />
+                </Button>
+                <Button
+                    id='saveImportServersModal'
+                    onClick={save}
+                    disabled={isValidating || !selectedRows.length}
+                    variant='primary'
+                >
+                    <FormattedMessage
+                        id='renderer.components.importServersModal.add'
+                        defaultMessage='Add {count, plural, one {# server} other {# servers}}'
+                        values={{count: selectedRows.length}}
+                    />
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+}
+
+export default ImportServersModal;
@@ -11,10 +11,12 @@ import {injectIntl} from 'react-intl';
 
 import type {UniqueView, UniqueServer} from 'types/config';
 import type {DownloadedItems} from 'types/downloads';
+import type {ServerCompatibility} from 'types/server';
 
 import DownloadsDropdownButton from './DownloadsDropdown/DownloadsDropdownButton';
 import ErrorView from './ErrorView';
 import ExtraBar from './ExtraBar';
+import ServerCompatibilityBanner from './ServerCompatibilityBanner';
 import ServerDropdownButton from './ServerDropdownButton';
 import TabBar from './TabBar';
 
@@ -55,6 +57,7 @@ type State = {
     showDownloadsBadge: boolean;
     hasDownloads: boolean;
     threeDotsIsFocused: boolean;
+    serverCompatibility: Record<string, ServerCompatibility>;
 };
 
 type TabViewStatus = {
@@ -88,6 +91,7 @@ class MainPage extends React.PureComponent<Props, State> {
             showDownloadsBadge: false,
             hasDownloads: false,
             threeDotsIsFocused: false,
+            serverCompatibility: {},
         };
     }
 
@@ -115,6 +119,15 @@ class MainPage extends React.PureComponent<Props, State> {
         }
     }
 
+    async requestServerCompatibility() {
+        try {
+            const serverCompatibility = await window.desktop.getServerCompatibility();
+            this.setState({serverCompatibility});
+        } catch (error) {
+            console.error(error);
+        }
+    }
+
     getServersAndTabs = async () => {
         const servers = await window.desktop.getOrderedServers();
         const tabs = new Map();
@@ -152,9 +165,14 @@ class MainPage extends React.PureComponent<Props, State> {
         // request downloads
         await this.requestDownloadsLength();
         await this.updateServers();
+        await this.requestServerCompatibility();
 
         window.desktop.onUpdateServers(this.updateServers);
 
+        window.desktop.onUpdateServerCompatibility((serverCompatibility) => {
+            this.setState({serverCompatibility});
+        });
+
         // set page on retry
         window.desktop.onLoadRetry((viewId, retry, err, loadUrl) => {
             console.error(`${viewId}: failed to load ${err}, but retrying`);
@@ -297,6 +315,12 @@ class MainPage extends React.PureComponent<Props, State> {
         window.desktop.closeView(tabId);
     };
 
+    handleAddTab = () => {
+        if (this.state.activeServerId) {
+            window.desktop.showPluginViewModal(this.state.activeServerId);
+        }
+    };
+
     handleDragAndDrop = async (dropResult: DropResult) => {
         const removedIndex = dropResult.source.index;
         const addedIndex = dropResult.destination?.index;
@@ -360,6 +384,12 @@ class MainPage extends React.PureComponent<Props, State> {
         window.desktop.openDownloadsDropdown();
     }
 
+    dismissServerCompatibility = () => {
+        if (this.state.activeServerId) {
+            window.desktop.dismissServerCompatibility(this.state.activeServerId);
+        }
+    };
+
     focusThreeDotsButton = () => {
         this.threeDotMenu.current?.focus();
         this.setState({
@@ -381,6 +411,9 @@ class MainPage extends React.PureComponent<Props, State> {
             currentTabs = this.state.tabs.get(this.state.activeServerId) ?? [];
         }
 
+        // the views of the predefined servers are never saved, so they can't get plugin views either
+        const canAddTab = Boolean(this.state.servers.find((srv) => srv.id === this.state.activeServerId && !srv.isPredefined));
+
         const tabsRow = (
             <TabBar
                 id='tabBar'
@@ -393,6 +426,7 @@ class MainPage extends React.PureComponent<Props, State> {
                 activeTabId={this.state.activeTabId}
                 onSelect={this.handleSelectTab}
                 onCloseTab={this.handleCloseTab}
+                onAddTab={canAddTab ? this.handleAddTab : undefined}
                 onDrop={this.handleDragAndDrop}
                 tabsDisabled={this.state.modalOpen}
                 isMenuOpen={this.state.isMenuOpen || this.state.isDownloadsDropdownOpen}
@@ -463,7 +497,7 @@ class MainPage extends React.PureComponent<Props, State> {
                     {activeServer && (
                         <ServerDropdownButton
                             isDisabled={this.state.modalOpen}
-                            activeServerName={activeServer.name}
+                            activeServer={activeServer}
                             totalMentionCount={totalMentionCount}
                             hasUnreads={hasAnyUnreads}
                             isMenuOpen={this.state.isMenuOpen}
@@ -518,6 +552,7 @@ class MainPage extends React.PureComponent<Props, State> {
             return component;
         };
 
+        const activeServerCompatibility = activeServer && this.state.serverCompatibility[activeServer.id!];
         const viewsRow = (
             <Fragment>
                 <ExtraBar
@@ -527,6 +562,14 @@ class MainPage extends React.PureComponent<Props, State> {
                         window.desktop.goBack();
                     }}
                 />
+                {activeServer && activeServerCompatibility &&
+                    <ServerCompatibilityBanner
+                        serverName={activeServer.name}
+                        compatibility={activeServerCompatibility}
+                        darkMode={this.props.darkMode}
+                        onDismiss={this.dismissServerCompatibility}
+                    />
+                }
                 <Row>
                     {views()}
                 </Row>
@@ -3,19 +3,34 @@
 // See LICENSE.txt for license information.
 
 import React from 'react';
-import {Modal, Button, FormGroup, FormControl, FormLabel, FormText, Spinner} from 'react-bootstrap';
+import {Modal, Button, FormCheck, FormGroup, FormControl, FormLabel, FormText, Spinner} from 'react-bootstrap';
 import type {IntlShape} from 'react-intl';
 import {FormattedMessage, injectIntl} from 'react-intl';
 
-import {URLValidationStatus} from 'common/utils/constants';
+import {HEADER_NAME_REGEX, URLValidationStatus} from 'common/utils/constants';
+import ServerAvatar from 'renderer/components/ServerAvatar';
 import Toggle from 'renderer/components/Toggle';
 
-import type {UniqueServer} from 'types/config';
+import type {ServerIcon, ServerProxy, ServerProxyMode, UniqueServer, UniqueServerHeader} from 'types/config';
 import type {Permissions} from 'types/permissions';
 import type {URLValidationResult} from 'types/server';
 
 import 'renderer/css/components/NewServerModal.scss';
 
+const SERVER_ICON_SIZE = 64;
+const DEFAULT_SERVER_ICON_COLOR = '#1c58d9';
+
+// custom images are stored in the config, so they are cropped to a small square first
+async function resizeServerIcon(file: Blob) {
+    const bitmap = await createImageBitmap(file);
+    const side = Math.min(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = SERVER_ICON_SIZE;
+    canvas.height = SERVER_ICON_SIZE;
+    canvas.getContext('2d')?.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, SERVER_ICON_SIZE, SERVER_ICON_SIZE);
+    return canvas.toDataURL('image/png');
+}
+
 type Props = {
     onClose?: () => void;
     onSave?: (server: UniqueServer, permissions?: Permissions) => void;
@@ -34,6 +49,11 @@ type State = {
     serverUrl: string;
     serverId?: string;
     serverOrder: number;
+    serverIcon?: ServerIcon;
+    serverProxy?: ServerProxy;
+    serverAlternateURLs: string;
+    isolatedSession: boolean;
+    serverHeaders: UniqueServerHeader[];
     saveStarted: boolean;
     validationStarted: boolean;
     validationResult?: URLValidationResult;
@@ -45,6 +65,7 @@ type State = {
 class NewServerModal extends React.PureComponent<Props, State> {
     wasShown?: boolean;
     serverUrlInputRef?: HTMLInputElement;
+    iconInputRef: React.RefObject<HTMLInputElement>;
     validationTimeout?: NodeJS.Timeout;
     mounted: boolean;
 
@@ -57,10 +78,14 @@ class NewServerModal extends React.PureComponent<Props, State> {
 
         this.wasShown = false;
         this.mounted = false;
+        this.iconInputRef = React.createRef();
         this.state = {
             serverName: '',
             serverUrl: '',
             serverOrder: props.currentOrder || 0,
+            serverAlternateURLs: '',
+            isolatedSession: false,
+            serverHeaders: [],
             saveStarted: false,
             validationStarted: false,
             permissions: {},
@@ -85,6 +110,11 @@ class NewServerModal extends React.PureComponent<Props, State> {
             serverName: this.props.server ? this.props.server.name : '',
             serverUrl: this.props.server ? this.props.server.url : '',
             serverId: this.props.server?.id,
+            serverIcon: this.props.server?.icon,
+            serverProxy: this.props.server?.proxy,
+            serverAlternateURLs: this.props.server?.alternateURLs?.join('\n') ?? '',
+            isolatedSession: Boolean(this.props.server?.isolatedSession),
+            serverHeaders: this.props.server?.headers ?? [],
             saveStarted: false,
             validationStarted: false,
             validationResult: undefined,
@@ -110,6 +140,139 @@ class NewServerModal extends React.PureComponent<Props, State> {
         this.validateServerURL(serverUrl);
     };
 
+    handleServerIconColorChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        this.setState({
+            serverIcon: {color: e.target.value},
+        });
+    };
+
+    handleServerIconImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) {
+            return;
+        }
+
+        try {
+            const image = await resizeServerIcon(file);
+            this.setState({serverIcon: {image}});
+        } catch (error) {
+            console.error(`Could not read the server icon: ${error}`);
+        }
+    };
+
+    resetServerIcon = () => {
+        this.setState({serverIcon: undefined});
+    };
+
+    handleIsolatedSessionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        this.setState({
+            isolatedSession: e.target.checked,
+        });
+    };
+
+    handleServerAlternateURLsChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        this.setState({
+            serverAlternateURLs: e.target.value,
+        });
+    };
+
+    getServerAlternateURLs = () => {
+        return this.state.serverAlternateURLs.split('\n').map((url) => url.trim()).filter((url) => url.length);
+    };
+
+    isServerAlternateURLsErrored = () => {
+        return this.getServerAlternateURLs().some((url) => !(/^https?:\/\/[^\s/]+/i).test(url));
+    };
+
+    handleServerProxyModeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const mode = e.target.value as ServerProxyMode;
+        this.setState({
+            serverProxy: mode === 'system' ? undefined : {...this.state.serverProxy, mode},
+        });
+    };
+
+    handleServerProxyChange = (key: 'host' | 'port' | 'bypass' | 'pacURL') => {
+        return (e: React.ChangeEvent<HTMLInputElement>) => {
+            if (!this.state.serverProxy) {
+                return;
+            }
+            this.setState({
+                serverProxy: {
+                    ...this.state.serverProxy,
+                    [key]: key === 'port' ? (parseInt(e.target.value, 10) || undefined) : e.target.value,
+                },
+            });
+        };
+    };
+
+    isServerProxyErrored = () => {
+        const proxy = this.state.serverProxy;
+        switch (proxy?.mode) {
+        case 'manual':
+            return !proxy.host?.trim() || !proxy.port || proxy.port > 65535;
+        case 'pac':
+            return !(/^(https?|file|data):/i).test(proxy.pacURL?.trim() ?? '');
+        default:
+            return false;
+        }
+    };
+
+    // only the fields used by the picked mode are kept
+    getServerProxy = (): ServerProxy | undefined => {
+        const proxy = this.state.serverProxy;
+        switch (proxy?.mode) {
+        case 'direct':
+            return {mode: 'direct'};
+        case 'manual':
+            return {
+                mode: 'manual',
+                host: proxy.host?.trim(),
+                port: proxy.port,
+                ...(proxy.bypass?.trim() ? {bypass: proxy.bypass.trim()} : {}),
+            };
+        case 'pac':
+            return {mode: 'pac', pacURL: proxy.pacURL?.trim()};
+        default:
+            return undefined;
+        }
+    };
+
+    addServerHeader = () => {
+        this.setState({
+            serverHeaders: [...this.state.serverHeaders, {name: '', value: ''}],
+        });
+    };
+
+    removeServerHeader = (index: number) => {
+        this.setState({
+            serverHeaders: this.state.serverHeaders.filter((header, headerIndex) => headerIndex !== index),
+        });
+    };
+
+    handleServerHeaderChange = (index: number, key: 'name' | 'value' | 'secret') => {
+        return (e: React.ChangeEvent<HTMLInputElement>) => {
+            this.setState({
+                serverHeaders: this.state.serverHeaders.map((header, headerIndex) => {
+                    if (headerIndex !== index) {
+                        return header;
+                    }
+                    return {...header, [key]: key === 'secret' ? e.target.checked : e.target.value};
+                }),
+            });
+        };
+    };
+
+    isServerHeaderNameErrored = (name: string) => {
+        const trimmedName = name.trim().toLowerCase();
+        return !HEADER_NAME_REGEX.test(trimmedName) || this.state.serverHeaders.filter((header) => header.name.trim().toLowerCase() === trimmedName).length > 1;
+    };
+
+    // secret values are never sent to the modal, so the secret headers that were already saved are left empty until they are changed
+    hasSavedSecretValue = (header: UniqueServerHeader) => {
+        return header.secret && !header.value && this.props.server?.headers?.some((serverHeader) => serverHeader.secret && serverHeader.name === header.name);
+    };
+
     handleChangePermission = (permissionKey: string) => {
         return (e: React.ChangeEvent<HTMLInputElement>) => {
             this.setState({
@@ -317,10 +480,17 @@ class NewServerModal extends React.PureComponent<Props, State> {
             return;
         }
 
-        if (this.isServerURLErrored()) {
+        if (this.isServerURLErrored() || this.isServerAlternateURLsErrored() || this.isServerProxyErrored() || this.state.serverHeaders.some((header) => this.isServerHeaderNameErrored(header.name))) {
             return;
         }
 
+        const proxy = this.getServerProxy();
+        const alternateURLs = this.getServerAlternateURLs();
+        const headers = this.state.serverHeaders.map((header) => ({
+            name: header.name.trim(),
+            value: header.value,
+            ...(header.secret ? {secret: true} : {}),
+        }));
         this.setState({
             saveStarted: true,
         }, () => {
@@ -328,6 +498,11 @@ class NewServerModal extends React.PureComponent<Props, State> {
                 url: this.state.serverUrl,
                 name: this.state.serverName,
                 id: this.state.serverId,
+                ...(this.state.serverIcon ? {icon: this.state.serverIcon} : {}),
+                ...(proxy ? {proxy} : {}),
+                ...(alternateURLs.length ? {alternateURLs} : {}),
+                ...(this.state.isolatedSession ? {isolatedSession: true} : {}),
+                ...(headers.length ? {headers} : {}),
             }, this.state.permissions);
         });
     };
@@ -473,6 +648,77 @@ class NewServerModal extends React.PureComponent<Props, State> {
                                 />
                             </FormText>
                         </FormGroup>
+                        <FormGroup className='NewServerModal-icon'>
+                            <FormLabel>
+                                <FormattedMessage
+                                    id='renderer.components.newServerModal.serverIcon'
+                                    defaultMessage='Server Icon'
+                                />
+                            </FormLabel>
+                            <div className='NewServerModal-iconPicker'>
+                                <ServerAvatar
+                                    className='NewServerModal-iconPreview'
+                                    server={{name: this.state.serverName, icon: this.state.serverIcon, favicon: this.props.server?.favicon}}
+                                />
+                                <input
+                                    id='serverIconColorInput'
+                                    type='color'
+                                    value={this.state.serverIcon?.color ?? DEFAULT_SERVER_ICON_COLOR}
+                                    onChange={this.handleServerIconColorChange}
+                                    title={this.props.intl.formatMessage({id: 'renderer.components.newServerModal.serverIcon.color', defaultMessage: 'Pick a color'})}
+                                />
+                                <Button
+                                    id='serverIconImageButton'
+                                    variant='link'
+                                    onClick={() => this.iconInputRef.current?.click()}
+                                >
+                                    <FormattedMessage
+                                        id='renderer.components.newServerModal.serverIcon.image'
+                                        defaultMessage='Choose an image'
+                                    />
+                                </Button>
+                                {this.state.serverIcon &&
+                                    <Button
+                                        id='serverIconResetButton'
+                                        variant='link'
+                                        onClick={this.resetServerIcon}
+                                    >
+                                        <FormattedMessage
+                                            id='renderer.components.newServerModal.serverIcon.reset'
+                                            defaultMessage='Use the server icon'
+                                        />
+                                    </Button>
+                                }
+                                <input
+                                    ref={this.iconInputRef}
+                                    type='file'
+                                    accept='image/png,image/jpeg,image/gif,image/webp'
+                                    hidden={true}
+                                    onChange={this.handleServerIconImageChange}
+                                />
+                            </div>
+                            <FormText>
+                                <FormattedMessage
+                                    id='renderer.components.newServerModal.serverIcon.description'
+                                    defaultMessage='Shown next to the server in the server menu, the tray menu and notifications. The icon of the server is used unless you pick a color or an image.'
+                                />
+                            </FormText>
+                        </FormGroup>
+                        <FormGroup className='NewServerModal-isolatedSession'>
+                            <FormCheck
+                                id='serverIsolatedSessionInput'
+                                type='checkbox'
+                                checked={this.state.isolatedSession}
+                                onChange={this.handleIsolatedSessionChange}
+                                label={this.props.intl.formatMessage({id: 'renderer.components.newServerModal.isolatedSession', defaultMessage: 'Use a separate session'})}
+                            />
+                            <FormText>
+                                <FormattedMessage
+                                    id='renderer.components.newServerModal.isolatedSession.description'
+                                    defaultMessage='Keeps the sign-in and data of this server apart from the other servers, so that the same server can be added again with another account. Changing this signs you out of the server.'
+                                />
+                            </FormText>
+                        </FormGroup>
                     </form>
                     <div
                         className='NewServerModal-validation'
@@ -482,6 +728,165 @@ class NewServerModal extends React.PureComponent<Props, State> {
                     </div>
                     {this.props.editMode &&
                         <>
+                            <hr/>
+                            <h5>
+                                <FormattedMessage
+                                    id='renderer.components.newServerModal.alternateURLs.title'
+                                    defaultMessage='Alternate URLs'
+                                />
+                            </h5>
+                            <FormGroup>
+                                <FormControl
+                                    id='serverAlternateURLsInput'
+                                    as='textarea'
+                                    rows={2}
+                                    value={this.state.serverAlternateURLs}
+                                    placeholder='https://backup.example.com'
+                                    onChange={this.handleServerAlternateURLsChange}
+                                    isInvalid={this.isServerAlternateURLsErrored()}
+                                />
+                                <FormText>
+                                    <FormattedMessage
+                                        id='renderer.components.newServerModal.alternateURLs.description'
+                                        defaultMessage='One URL per line. When the server cannot be reached, these URLs are tried in order.'
+                                    />
+                                </FormText>
+                            </FormGroup>
+                            <hr/>
+                            <h5>
+                                <FormattedMessage
+                                    id='renderer.components.newServerModal.proxy.title'
+                                    defaultMessage='Proxy'
+                                />
+                            </h5>
+                            <FormGroup>
+                                <FormControl
+                                    id='serverProxyModeInput'
+                                    as='select'
+                                    value={this.state.serverProxy?.mode ?? 'system'}
+                                    onChange={this.handleServerProxyModeChange}
+                                >
+                                    <option value='system'>
+                                        {this.props.intl.formatMessage({id: 'renderer.components.newServerModal.proxy.system', defaultMessage: 'Use system proxy settings'})}
+                                    </option>
+                                    <option value='direct'>
+                                        {this.props.intl.formatMessage({id: 'renderer.components.newServerModal.proxy.direct', defaultMessage: 'No proxy'})}
+                                    </option>
+                                    <option value='manual'>
+                                        {this.props.intl.formatMessage({id: 'renderer.components.newServerModal.proxy.manual', defaultMessage: 'Manual proxy configuration'})}
+                                    </option>
+                                    <option value='pac'>
+                                        {this.props.intl.formatMessage({id: 'renderer.components.newServerModal.proxy.pac', defaultMessage: 'Automatic proxy configuration URL'})}
+                                    </option>
+                                </FormControl>
+                                {this.state.serverProxy?.mode === 'manual' &&
+                                    <>
+                                        <div className='NewServerModal-proxyServer'>
+                                            <FormControl
+                                                id='serverProxyHostInput'
+                                                type='text'
+                                                value={this.state.serverProxy.host ?? ''}
+                                                placeholder={this.props.intl.formatMessage({id: 'renderer.components.newServerModal.proxy.host', defaultMessage: 'Proxy host'})}
+                                                onChange={this.handleServerProxyChange('host')}
+                                                isInvalid={!this.state.serverProxy.host?.trim()}
+                                            />
+                                            <FormControl
+                                                id='serverProxyPortInput'
+                                                type='number'
+                                                min={1}
+                                                max={65535}
+                                                value={this.state.serverProxy.port ?? ''}
+                                                placeholder={this.props.intl.formatMessage({id: 'renderer.components.newServerModal.proxy.port', defaultMessage: 'Port'})}
+                                                onChange={this.handleServerProxyChange('port')}
+                                                isInvalid={!this.state.serverProxy.port || this.state.serverProxy.port > 65535}
+                                            />
+                                        </div>
+                                        <FormControl
+                                            id='serverProxyBypassInput'
+                                            type='text'
+                                            value={this.state.serverProxy.bypass ?? ''}
+                                            placeholder={this.props.intl.formatMessage({id: 'renderer.components.newServerModal.proxy.bypass', defaultMessage: 'Bypass proxy for (e.g. localhost, *.example.com)'})}
+                                            onChange={this.handleServerProxyChange('bypass')}
+                                        />
+                                    </>
+                                }
+                                {this.state.serverProxy?.mode === 'pac' &&
+                                    <FormControl
+                                        id='serverProxyPacURLInput'
+                                        className='NewServerModal-proxyPacURL'
+                                        type='text'
+                                        value={this.state.serverProxy.pacURL ?? ''}
+                                        placeholder='https://example.com/proxy.pac'
+                                        onChange={this.handleServerProxyChange('pacURL')}
+                                        isInvalid={this.isServerProxyErrored()}
+                                    />
+                                }
+                                <FormText>
+                                    <FormattedMessage
+                                        id='renderer.components.newServerModal.proxy.description'
+                                        defaultMessage='How the app connects to this server. Servers that do not use the system proxy settings are kept signed in separately.'
+                                    />
+                                </FormText>
+                            </FormGroup>
+                            <hr/>
+                            <h5>
+                                <FormattedMessage
+                                    id='renderer.components.newServerModal.headers.title'
+                                    defaultMessage='Request Headers'
+                                />
+                            </h5>
+                            <FormGroup>
+                                {this.state.serverHeaders.map((header, index) => (
+                                    <div
+                                        key={index}
+                                        className='NewServerModal-header'
+                                    >
+                                        <FormControl
+                                            type='text'
+                                            value={header.name}
+                                            placeholder={this.props.intl.formatMessage({id: 'renderer.components.newServerModal.headers.name', defaultMessage: 'Name'})}
+                                            onChange={this.handleServerHeaderChange(index, 'name')}
+                                            isInvalid={this.isServerHeaderNameErrored(header.name)}
+                                        />
+                                        <FormControl
+                                            type={header.secret ? 'password' : 'text'}
+                                            value={header.value ?? ''}
+                                            placeholder={this.hasSavedSecretValue(header) ? '••••••••' : this.props.intl.formatMessage({id: 'renderer.components.newServerModal.headers.value', defaultMessage: 'Value'})}
+                                            onChange={this.handleServerHeaderChange(index, 'value')}
+                                        />
+                                        <FormCheck
+                                            id={`serverHeaderSecretInput${index}`}
+                                            type='checkbox'
+                                            checked={Boolean(header.secret)}
+                                            onChange={this.handleServerHeaderChange(index, 'secret')}
+                                            label={this.props.intl.formatMessage({id: 'renderer.components.newServerModal.headers.secret', defaultMessage: 'Secret'})}
+                                        />
+                                        <Button
+                                            variant='link'
+                                            onClick={() => this.removeServerHeader(index)}
+                                            title={this.props.intl.formatMessage({id: 'label.remove', defaultMessage: 'Remove'})}
+                                        >
+                                            <i className='icon-close'/>
+                                        </Button>
+                                    </div>
+                                ))}
+                                <Button
+                                    id='addServerHeaderButton'
+                                    variant='link'
+                                    onClick={this.addServerHeader}
+                                >
+                                    <FormattedMessage
+                                        id='renderer.components.newServerModal.headers.add'
+                                        defaultMessage='Add a header'
+                                    />
+                                </Button>
+                                <FormText>
+                                    <FormattedMessage
+                                        id='renderer.components.newServerModal.headers.description'
+                                        defaultMessage='Sent with every request made to this server. Secret values are stored encrypted and are not shown again.'
+                                    />
+                                </FormText>
+                            </FormGroup>
                             <hr/>
                             <h5>
                                 <FormattedMessage
@@ -608,7 +1013,7 @@ class NewServerModal extends React.PureComponent<Props, State> {
                         <Button
                             id='saveNewServerModal'
                             onClick={this.save}
-                            disabled={!this.state.serverName.length || !this.state.validationResult || this.isServerURLErrored()}
+                            disabled={!this.state.serverName.length || !this.state.validationResult || this.isServerURLErrored() || this.isServerAlternateURLsErrored() || this.isServerProxyErrored() || this.state.serverHeaders.some((header) => this.isServerHeaderNameErrored(header.name))}
                             variant='primary'
                         >
                             {this.getSaveButtonLabel()}
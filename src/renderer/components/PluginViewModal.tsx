@@ -0,0 +1,236 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {useEffect, useState} from 'react';
+import {Button, FormControl, FormGroup, FormLabel, FormText, InputGroup, Modal} from 'react-bootstrap';
+import {FormattedMessage, useIntl} from 'react-intl';
+
+import {PLUGIN_VIEW_ICON_REGEX, PLUGIN_VIEW_PATH_REGEX} from 'common/utils/constants';
+import {DEFAULT_PLUGIN_VIEW_ICON, getPluginViewPath} from 'common/views/View';
+
+import type {PluginViewSettings} from 'types/config';
+
+type Props = {
+    show: boolean;
+    serverName: string;
+    paths: string[];
+    onClose: () => void;
+    onSave: (settings: PluginViewSettings) => void;
+};
+
+function PluginViewModal(props: Props) {
+    const intl = useIntl();
+    const [displayName, setDisplayName] = useState('');
+    const [path, setPath] = useState('');
+    const [icon, setIcon] = useState('');
+
+    useEffect(() => {
+        setDisplayName('');
+        setPath('');
+        setIcon('');
+    }, [props.show]);
+
+    const getDisplayNameError = () => {
+        if (!displayName.trim().length) {
+            return (
+                <FormattedMessage
+                    id='renderer.components.pluginViewModal.error.nameRequired'
+                    defaultMessage='Name is required.'
+                />
+            );
+        }
+        return null;
+    };
+
+    const getPathError = () => {
+        const formattedPath = getPluginViewPath(path);
+        if (!formattedPath.length) {
+            return (
+                <FormattedMessage
+                    id='renderer.components.pluginViewModal.error.pathRequired'
+                    defaultMessage='Path is required.'
+                />
+            );
+        }
+        if (!PLUGIN_VIEW_PATH_REGEX.test(formattedPath)) {
+            return (
+                <FormattedMessage
+                    id='renderer.components.pluginViewModal.error.invalidPath'
+                    defaultMessage='Path must be a page of the server, such as plugins/com.example.plugin.'
+                />
+            );
+        }
+        if (props.paths.includes(formattedPath)) {
+            return (
+                <FormattedMessage
+                    id='renderer.components.pluginViewModal.error.pathExists'
+                    defaultMessage='A tab for this page already exists.'
+                />
+            );
+        }
+        return null;
+    };
+
+    const getIconError = () => {
+        if (icon && !PLUGIN_VIEW_ICON_REGEX.test(icon)) {
+            return (
+                <FormattedMessage
+                    id='renderer.components.pluginViewModal.error.invalidIcon'
+                    defaultMessage='Icon must be the name of an icon, such as apps.'
+                />
+            );
+        }
+        return null;
+    };
+
+    const displayNameError = getDisplayNameError();
+    const pathError = getPathError();
+    const iconError = getIconError();
+    const hasError = Boolean(displayNameError || pathError || iconError);
+
+    const save = () => {
+        if (hasError) {
+            return;
+        }
+        props.onSave({
+            displayName: displayName.trim(),
+            path: getPluginViewPath(path),
+            ...(icon ? {icon} : {}),
+        });
+    };
+
+    return (
+        <Modal
+            bsClass='modal'
+            className='PluginViewModal'
+            show={props.show}
+            id='pluginViewModal'
+            enforceFocus={true}
+            onHide={props.onClose}
+            onKeyDown={(e: React.KeyboardEvent) => {
+                switch (e.key) {
+                case 'Enter':
+                    save();
+                    e.preventDefault();
+                    e.stopPropagation();
+                    break;
+                case 'Escape':
+                    props.onClose();
+                    break;
+                }
+            }}
+        >
+            <Modal.Header>
+                <Modal.Title>
+                    <FormattedMessage
+                        id='renderer.components.pluginViewModal.title'
+                        defaultMessage='Add Tab'
+                    />
+                </Modal.Title>
+            </Modal.Header>
+
+            <Modal.Body>
+                <form>
+                    <FormGroup>
+                        <FormLabel>
+                            <FormattedMessage
+                                id='renderer.components.pluginViewModal.name'
+                                defaultMessage='Tab Name'
+                            />
+                        </FormLabel>
+                        <FormControl
+                            id='pluginViewNameInput'
+                            type='text'
+                            value={displayName}
+                            placeholder={intl.formatMessage({id: 'renderer.components.pluginViewModal.name', defaultMessage: 'Tab Name'})}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDisplayName(e.target.value)}
+                            isInvalid={Boolean(displayName && displayNameError)}
+                            autoFocus={true}
+                        />
+                        <FormControl.Feedback type='invalid'>
+                            {displayNameError}
+                        </FormControl.Feedback>
+                    </FormGroup>
+                    <FormGroup>
+                        <FormLabel>
+                            <FormattedMessage
+                                id='renderer.components.pluginViewModal.path'
+                                defaultMessage='Path'
+                            />
+                        </FormLabel>
+                        <FormControl
+                            id='pluginViewPathInput'
+                            type='text'
+                            value={path}
+                            placeholder='plugins/com.example.plugin'
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPath(e.target.value)}
+                            isInvalid={Boolean(path && pathError)}
+                        />
+                        <FormControl.Feedback type='invalid'>
+                            {pathError}
+                        </FormControl.Feedback>
+                        <FormText>
+                            <FormattedMessage
+                                id='renderer.components.pluginViewModal.path.description'
+                                defaultMessage='The page of {serverName} to show in the tab, relative to the URL of the server.'
+                                values={{serverName: props.serverName}}
+                            />
+                        </FormText>
+                    </FormGroup>
+                    <FormGroup>
+                        <FormLabel>
+                            <FormattedMessage
+                                id='renderer.components.pluginViewModal.icon'
+                                defaultMessage='Icon'
+                            />
+                        </FormLabel>
+                        <InputGroup>
+                            <InputGroup.Prepend>
+                                <InputGroup.Text>
+                                    <i className={`icon-${icon && !iconError ? icon : DEFAULT_PLUGIN_VIEW_ICON}`}/>
+                                </InputGroup.Text>
+                            </InputGroup.Prepend>
+                            <FormControl
+                                id='pluginViewIconInput'
+                                type='text'
+                                value={icon}
+                                placeholder={DEFAULT_PLUGIN_VIEW_ICON}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIcon(e.target.value.trim())}
+                                isInvalid={Boolean(iconError)}
+                            />
+                            <FormControl.Feedback type='invalid'>
+                                {iconError}
+                            </FormControl.Feedback>
+                        </InputGroup>
+                    </FormGroup>
+                </form>
+            </Modal.Body>
+
+            <Modal.Footer>
+                <Button
+                    id='cancelPluginViewModal'
+                    onClick={props.onClose}
+                    variant='link'
+                >
+                    <FormattedMessage
+                        id='label.cancel'
+                        defaultMessage='Cancel'
+                    />
+                </Button>
+                <Button
+                    id='savePluginViewModal'
+                    onClick={save}
+                    disabled={hasError}
+                    variant='primary'
+                >
+                    <FormattedMessage
+                        id='label.add'
+                        defaultMessage='Add'
+                    />
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+}
+
+export default PluginViewModal;
@@ -0,0 +1,158 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import React, {useEffect, useState} from 'react';
+import {Button, FormControl, FormGroup, FormLabel, FormText, Modal} from 'react-bootstrap';
+import {FormattedMessage, useIntl} from 'react-intl';
+
+// keep in sync with the profile names accepted by the ProfileManager
+const profileNameRegex = /^[\w][\w -]{0,49}$/;
+
+type Props = {
+    show: boolean;
+    name?: string;
+    profiles: string[];
+    onClose: () => void;
+    onSave: (name: string) => void;
+};
+
+function ProfileNameModal(props: Props) {
+    const intl = useIntl();
+    const [name, setName] = useState(props.name ?? '');
+
+    useEffect(() => {
+        setName(props.name ?? '');
+    }, [props.name]);
+
+    const getError = () => {
+        if (!name.length) {
+            return (
+                <FormattedMessage
+                    id='renderer.components.profileNameModal.error.nameRequired'
+                    defaultMessage='Name is required.'
+                />
+            );
+        }
+        if (!profileNameRegex.test(name)) {
+            return (
+                <FormattedMessage
+                    id='renderer.components.profileNameModal.error.invalidName'
+                    defaultMessage='Name can only contain letters, numbers, spaces, dashes and underscores.'
+                />
+            );
+        }
+        if (name !== props.name && props.profiles.includes(name)) {
+            return (
+                <FormattedMessage
+                    id='renderer.components.profileNameModal.error.nameExists'
+                    defaultMessage='A profile with the same name already exists.'
+                />
+            );
+        }
+        return null;
+    };
+
+    const error = getError();
+    const save = () => {
+        if (error) {
+            return;
+        }
+        props.onSave(name);
+    };
+
+    return (
+        <Modal
+            bsClass='modal'
+            className='ProfileNameModal'
+            show={props.show}
+            id='profileNameModal'
+            enforceFocus={true}
+            onHide={props.onClose}
+            onKeyDown={(e: React.KeyboardEvent) => {
+                switch (e.key) {
+                case 'Enter':
+                    save();
+                    e.preventDefault();
+                    e.stopPropagation();
+                    break;
+                case 'Escape':
+                    props.onClose();
+                    break;
+                }
+            }}
+        >
+            <Modal.Header>
+                <Modal.Title>
+                    {props.name ? (
+                        <FormattedMessage
+                            id='renderer.components.profileNameModal.title.rename'
+                            defaultMessage='Rename Profile'
+                        />
+                    ) : (
+                        <FormattedMessage
+                            id='renderer.components.profileNameModal.title.new'
+                            defaultMessage='New Profile'
+                        />
+                    )}
+                </Modal.Title>
+            </Modal.Header>
+
+            <Modal.Body>
+                <form>
+                    <FormGroup>
+                        <FormLabel>
+                            <FormattedMessage
+                                id='renderer.components.profileNameModal.name'
+                                defaultMessage='Profile Name'
+                            />
+                        </FormLabel>
+                        <FormControl
+                            id='profileNameInput'
+                            type='text'
+                            value={name}
+                            placeholder={intl.formatMessage({id: 'renderer.components.profileNameModal.name', defaultMessage: 'Profile Name'})}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                            isInvalid={Boolean(error)}
+                            autoFocus={true}
+                        />
+                        <FormControl.Feedback type='invalid'>
+                            {error}
+                        </FormControl.Feedback>
+                        <FormText>
+                            <FormattedMessage
+                                id='renderer.components.profileNameModal.description'
+                                defaultMessage='Each profile keeps its own servers, settings and data. The app restarts when switching to another profile.'
+                            />
+                        </FormText>
+                    </FormGroup>
+                </form>
+            </Modal.Body>
+
+            <Modal.Footer>
+                <Button
+                    id='cancelProfileNameModal'
+                    onClick={props.onClose}
+                    variant='link'
+                >
+                    <FormattedMessage
+                        id='label.cancel'
+                        defaultMessage='Cancel'
+                    />
+                </Button>
+                <Button
+                    id='saveProfileNameModal'
+                    onClick={save}
+                    disabled={Boolean(error)}
+                    variant='primary'
+                >
+                    <FormattedMessage
+                        id='label.save'
+                        defaultMessage='Save'
+                    />
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+}
+
+export default ProfileNameModal;
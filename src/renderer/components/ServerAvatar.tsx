@@ -0,0 +1,45 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import classNames from 'classnames';
+import React from 'react';
+
+import type {UniqueServer} from 'types/config';
+
+import 'renderer/css/components/ServerAvatar.scss';
+
+type Props = {
+    server: Pick<UniqueServer, 'name' | 'icon' | 'favicon'>;
+    className?: string;
+};
+
+/**
+ * Shows the icon picked by the user for the server, falling back to the favicon of the server and then to a generic server icon
+ */
+const ServerAvatar: React.FC<Props> = ({server, className}: Props) => {
+    const image = server.icon?.image ?? (server.icon?.color ? undefined : server.favicon);
+    if (image) {
+        return (
+            <img
+                className={classNames('ServerAvatar', className)}
+                src={image}
+                alt=''
+            />
+        );
+    }
+
+    if (server.icon?.color) {
+        return (
+            <div
+                className={classNames('ServerAvatar ServerAvatar__initial', className)}
+                style={{backgroundColor: server.icon.color}}
+            >
+                {server.name.trim().charAt(0).toUpperCase()}
+            </div>
+        );
+    }
+
+    return <i className={classNames('icon-server-variant', className)}/>;
+};
+
+export default ServerAvatar;
@@ -0,0 +1,62 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import classNames from 'classnames';
+import React from 'react';
+import {useIntl} from 'react-intl';
+
+import type {ServerCompatibility, ServerFeature} from 'types/server';
+
+import 'renderer/css/components/ServerCompatibilityBanner.scss';
+
+type Props = {
+    serverName: string;
+    compatibility: ServerCompatibility;
+    darkMode: boolean;
+    onDismiss: () => void;
+};
+
+function ServerCompatibilityBanner({serverName, compatibility, darkMode, onDismiss}: Props) {
+    const intl = useIntl();
+
+    const featureNames: Record<ServerFeature, string> = {
+        historyPush: intl.formatMessage({id: 'renderer.components.serverCompatibilityBanner.feature.historyPush', defaultMessage: 'opening links without reloading'}),
+        callsWidget: intl.formatMessage({id: 'renderer.components.serverCompatibilityBanner.feature.callsWidget', defaultMessage: 'calls'}),
+    };
+
+    let message = intl.formatMessage(
+        {id: 'renderer.components.serverCompatibilityBanner.message', defaultMessage: '{serverName} is running Mattermost {serverVersion}, which is older than the minimum supported version {minimumVersion}.'},
+        {serverName, serverVersion: compatibility.serverVersion, minimumVersion: compatibility.minimumVersion},
+    );
+    if (compatibility.unsupportedFeatures.length) {
+        message += ` ${intl.formatMessage(
+            {id: 'renderer.components.serverCompatibilityBanner.features', defaultMessage: 'Not available: {features}.'},
+            {features: intl.formatList(compatibility.unsupportedFeatures.map((feature) => featureNames[feature]))},
+        )}`;
+    }
+
+    const handleDismiss = (event: React.MouseEvent<HTMLButtonElement>) => {
+        // the click would otherwise go on to the main page, which moves the focus back to the view
+        event.stopPropagation();
+        onDismiss();
+    };
+
+    return (
+        <div
+            className={classNames('ServerCompatibilityBanner', {darkMode})}
+            role='alert'
+        >
+            <i className='icon-alert-outline'/>
+            <span title={message}>{message}</span>
+            <button
+                className='ServerCompatibilityBanner__dismiss'
+                onClick={handleDismiss}
+                aria-label={intl.formatMessage({id: 'renderer.components.serverCompatibilityBanner.dismiss', defaultMessage: 'Dismiss'})}
+            >
+                <i className='icon-close'/>
+            </button>
+        </div>
+    );
+}
+
+export default ServerCompatibilityBanner;
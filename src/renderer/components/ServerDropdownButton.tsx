@@ -5,11 +5,15 @@ import classNames from 'classnames';
 import React, {useEffect} from 'react';
 import {FormattedMessage} from 'react-intl';
 
+import type {UniqueServer} from 'types/config';
+
+import ServerAvatar from './ServerAvatar';
+
 import '../css/components/ServerDropdownButton.scss';
 
 type Props = {
     isDisabled?: boolean;
-    activeServerName?: string;
+    activeServer?: UniqueServer;
     totalMentionCount: number;
     hasUnreads: boolean;
     isMenuOpen: boolean;
@@ -17,7 +21,7 @@ type Props = {
 }
 
 const ServerDropdownButton: React.FC<Props> = (props: Props) => {
-    const {isDisabled, activeServerName, totalMentionCount, hasUnreads, isMenuOpen, darkMode} = props;
+    const {isDisabled, activeServer, totalMentionCount, hasUnreads, isMenuOpen, darkMode} = props;
     const buttonRef: React.RefObject<HTMLButtonElement> = React.createRef();
 
     useEffect(() => {
@@ -64,11 +68,11 @@ const ServerDropdownButton: React.FC<Props> = (props: Props) => {
             }}
         >
             <div className='ServerDropdownButton__badge'>
-                <i className='icon-server-variant'/>
+                {activeServer ? <ServerAvatar server={activeServer}/> : <i className='icon-server-variant'/>}
                 {badgeDiv}
             </div>
-            {activeServerName && <span>{activeServerName}</span>}
-            {!activeServerName &&
+            {activeServer && <span>{activeServer.name}</span>}
+            {!activeServer &&
                 <FormattedMessage
                     id='renderer.components.serverDropdownButton.noServersConfigured'
                     defaultMessage='No servers configured'
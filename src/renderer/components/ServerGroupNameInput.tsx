@@ -0,0 +1,64 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import classNames from 'classnames';
+import React, {useEffect, useRef, useState} from 'react';
+import {useIntl} from 'react-intl';
+
+const MAX_GROUP_NAME_LENGTH = 50;
+
+type Props = {
+    name?: string;
+    groups: string[];
+    onSave: (name: string) => void;
+    onCancel: () => void;
+};
+
+function ServerGroupNameInput(props: Props) {
+    const intl = useIntl();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [name, setName] = useState(props.name ?? '');
+
+    useEffect(() => {
+        inputRef.current?.focus();
+        inputRef.current?.select();
+    }, []);
+
+    const trimmedName = name.trim();
+    const isInvalid = !trimmedName.length || (trimmedName !== props.name && props.groups.includes(trimmedName));
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        // the dropdown uses the arrow, number and escape keys for navigating, none of which should apply while typing
+        event.stopPropagation();
+
+        switch (event.key) {
+        case 'Enter':
+            event.preventDefault();
+            if (!isInvalid) {
+                props.onSave(trimmedName);
+            }
+            break;
+        case 'Escape':
+            props.onCancel();
+            break;
+        }
+    };
+
+    return (
+        <div className='ServerDropdown__group-name'>
+            <i className='icon-folder-outline'/>
+            <input
+                ref={inputRef}
+                className={classNames({invalid: isInvalid && name.length})}
+                value={name}
+                maxLength={MAX_GROUP_NAME_LENGTH}
+                placeholder={intl.formatMessage({id: 'renderer.components.serverGroupNameInput.placeholder', defaultMessage: 'Group name'})}
+                onChange={(event) => setName(event.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={props.onCancel}
+            />
+        </div>
+    );
+}
+
+export default ServerGroupNameInput;
@@ -0,0 +1,43 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import classNames from 'classnames';
+import React from 'react';
+import {useIntl} from 'react-intl';
+
+import type {ServerHealth} from 'types/server';
+
+import 'renderer/css/components/ServerHealthIndicator.scss';
+
+type Props = {
+    health?: ServerHealth;
+};
+
+function ServerHealthIndicator({health}: Props) {
+    const intl = useIntl();
+
+    let title;
+    switch (health?.status) {
+    case 'up':
+        title = intl.formatMessage({id: 'renderer.components.serverHealthIndicator.up', defaultMessage: 'Reachable, responded in {latency} ms'}, {latency: health.latency});
+        break;
+    case 'down':
+        title = intl.formatMessage({id: 'renderer.components.serverHealthIndicator.down', defaultMessage: 'Unreachable since {time}'}, {time: intl.formatTime(health.since)});
+        break;
+    default:
+        title = intl.formatMessage({id: 'renderer.components.serverHealthIndicator.unknown', defaultMessage: 'Checking the connection to the server'});
+    }
+    if (health?.history.length) {
+        const successful = health.history.filter((check) => check.up).length;
+        title += `\n${intl.formatMessage({id: 'renderer.components.serverHealthIndicator.history', defaultMessage: 'Reached on {successful} of the last {total} checks'}, {successful, total: health.history.length})}`;
+    }
+
+    return (
+        <div
+            className={classNames('ServerHealthIndicator', health?.status ?? 'unknown')}
+            title={title}
+        />
+    );
+}
+
+export default ServerHealthIndicator;
@@ -42,6 +42,7 @@ type State = DeepPartial<CombinedConfig> & {
     availableLanguages: Array<{label: string; value: string}>;
     availableSpellcheckerLanguages: Array<{label: string; value: string}>;
     canUpgrade?: boolean;
+    lockedSettings?: LocalConfiguration['lockedSettings'];
     cache?: EmotionCache;
 }
 
@@ -156,6 +157,27 @@ class SettingsPage extends React.PureComponent<Props, State> {
         return newState;
     };
 
+    isLocked = (key: keyof LocalConfiguration) => {
+        return Boolean(this.state.lockedSettings?.includes(key as LocalConfiguration['lockedSettings'][number]));
+    };
+
+    renderManagedNote = (key: keyof LocalConfiguration) => {
+        if (!this.isLocked(key)) {
+            return null;
+        }
+        return (
+            <>
+                <br/>
+                <em>
+                    <FormattedMessage
+                        id='renderer.components.settingsPage.managedByOrganization'
+                        defaultMessage='This setting is managed by your organization.'
+                    />
+                </em>
+            </>
+        );
+    };
+
     saveSetting = (configType: 'updates' | 'appOptions', {key, data}: {key: keyof CombinedConfig; data: CombinedConfig[keyof CombinedConfig]}) => {
         this.saveQueue.push({
             configType,
@@ -531,6 +553,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         key='inputAutoStart'
                         id='inputAutoStart'
                         ref={this.autostartRef}
+                        disabled={this.isLocked('autostart')}
                         checked={this.state.autostart}
                         onChange={this.handleChangeAutoStart}
                     />
@@ -543,6 +566,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             id='renderer.components.settingsPage.startAppOnLogin.description'
                             defaultMessage='If enabled, the app starts automatically when you log in to your machine.'
                         />
+                        {this.renderManagedNote('autostart')}
                     </FormText>
                 </FormCheck>);
 
@@ -553,6 +577,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         key='inputHideOnStart'
                         id='inputHideOnStart'
                         ref={this.hideOnStartRef}
+                        disabled={this.isLocked('hideOnStart')}
                         checked={this.state.hideOnStart}
                         onChange={this.handleChangeHideOnStart}
                     />
@@ -565,6 +590,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             id='renderer.components.settingsPage.launchAppMinimized.description'
                             defaultMessage='If enabled, the app will start in system tray, and will not show the window on launch.'
                         />
+                        {this.renderManagedNote('hideOnStart')}
                     </FormText>
                 </FormCheck>);
         }
@@ -577,6 +603,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         key='inputSpellChecker'
                         id='inputSpellChecker'
                         ref={this.useSpellCheckerRef}
+                        disabled={this.isLocked('useSpellChecker')}
                         checked={this.state.useSpellChecker}
                         onChange={this.handleChangeUseSpellChecker}
                     />
@@ -594,6 +621,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             id='renderer.components.settingsPage.afterRestart'
                             defaultMessage='Setting takes effect after restarting the app.'
                         />
+                        {this.renderManagedNote('useSpellChecker')}
                     </FormText>
                 </FormCheck>
                 {this.state.useSpellChecker &&
@@ -605,6 +633,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             options={this.state.availableSpellcheckerLanguages}
                             isMulti={true}
                             isClearable={false}
+                            isDisabled={this.isLocked('spellCheckerLocales')}
                             onChange={this.handleChangeSpellCheckerLocales}
                             value={this.selectedSpellCheckerLocales}
                             placeholder={
@@ -624,6 +653,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                     <Button
                         id='editSpellcheckerURL'
                         key='editSpellcheckerURL'
+                        disabled={this.isLocked('spellCheckerURL')}
                         onClick={() => this.setState({spellCheckerURL: '', allowSaveSpellCheckerURL: false})}
                         variant='link'
                     >
@@ -640,7 +670,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         key='containerInputSpellcheckerURL'
                     >
                         <FormControl
-                            disabled={!this.state.useSpellChecker}
+                            disabled={this.isLocked('spellCheckerURL') || !this.state.useSpellChecker}
                             style={settingsPage.downloadLocationInput}
                             key='inputSpellCheckerURL'
                             id='inputSpellCheckerURL'
@@ -649,7 +679,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             value={this.state.spellCheckerURL}
                         />
                         <Button
-                            disabled={!this.state.allowSaveSpellCheckerURL}
+                            disabled={this.isLocked('spellCheckerURL') || !this.state.allowSaveSpellCheckerURL}
                             key='saveSpellCheckerURL'
                             style={settingsPage.downloadLocationButton}
                             id='saveSpellCheckerURL'
@@ -665,10 +695,12 @@ class SettingsPage extends React.PureComponent<Props, State> {
                                 id='renderer.components.settingsPage.checkSpelling.specifyURL'
                                 defaultMessage='Specify the url where dictionary definitions can be retrieved'
                             />
+                            {this.renderManagedNote('spellCheckerURL')}
                         </FormText>
                         <Button
                             id='revertSpellcheckerURL'
                             key='revertSpellcheckerURL'
+                            disabled={this.isLocked('spellCheckerURL')}
                             onClick={this.resetSpellCheckerURL}
                             variant='link'
                         >
@@ -691,6 +723,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         key='inputShowUnreadBadge'
                         id='inputShowUnreadBadge'
                         ref={this.showUnreadBadgeRef}
+                        disabled={this.isLocked('showUnreadBadge')}
                         checked={this.state.showUnreadBadge}
                         onChange={this.handleShowUnreadBadge}
                     />
@@ -705,6 +738,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             defaultMessage='Regardless of this setting, mentions are always indicated with a red badge and item count on the {taskbar} icon.'
                             values={{taskbar}}
                         />
+                        {this.renderManagedNote('showUnreadBadge')}
                     </FormText>
                 </FormCheck>);
         }
@@ -717,6 +751,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         key='flashWindow'
                         id='inputflashWindow'
                         ref={this.flashWindowRef}
+                        disabled={this.isLocked('notifications')}
                         checked={!this.state.notifications || this.state.notifications.flashWindow === 2}
                         onChange={this.handleFlashWindow}
                     />
@@ -746,6 +781,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                                 </em>
                             </>
                         )}
+                        {this.renderManagedNote('notifications')}
                     </FormText>
                 </FormCheck>);
         }
@@ -761,6 +797,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         key='bounceIcon'
                         id='inputBounceIcon'
                         ref={this.bounceIconRef}
+                        disabled={this.isLocked('notifications')}
                         checked={this.state.notifications ? this.state.notifications.bounceIcon : false}
                         onChange={this.handleBounceIcon}
                         style={{marginRight: '10px'}}
@@ -776,7 +813,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         inline={true}
                         name='bounceIconType'
                         value='informational'
-                        disabled={!this.state.notifications || !this.state.notifications.bounceIcon}
+                        disabled={this.isLocked('notifications') || !this.state.notifications || !this.state.notifications.bounceIcon}
                         defaultChecked={
                             !this.state.notifications ||
                 !this.state.notifications.bounceIconType ||
@@ -796,7 +833,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         inline={true}
                         name='bounceIconType'
                         value='critical'
-                        disabled={!this.state.notifications || !this.state.notifications.bounceIcon}
+                        disabled={this.isLocked('notifications') || !this.state.notifications || !this.state.notifications.bounceIcon}
                         defaultChecked={this.state.notifications && this.state.notifications.bounceIconType === 'critical'}
                         onChange={this.handleBounceIconType}
                         label={
@@ -813,6 +850,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             id='renderer.components.settingsPage.bounceIcon.description'
                             defaultMessage='If enabled, the Dock icon bounces once or until the user opens the app when a new notification is received.'
                         />
+                        {this.renderManagedNote('notifications')}
                     </FormText>
                 </FormGroup>,
             );
@@ -827,6 +865,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         type='checkbox'
                         id='inputShowTrayIcon'
                         ref={this.showTrayIconRef}
+                        disabled={this.isLocked('showTrayIcon')}
                         checked={this.state.showTrayIcon}
                         onChange={this.handleChangeShowTrayIcon}
                     />
@@ -846,6 +885,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             id='renderer.components.settingsPage.afterRestart'
                             defaultMessage='Setting takes effect after restarting the app.'
                         />
+                        {this.renderManagedNote('showTrayIcon')}
                     </FormText>
                 </FormCheck>);
         }
@@ -868,6 +908,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                                     type='radio'
                                     inline={true}
                                     name='trayIconTheme'
+                                    disabled={this.isLocked('trayIconTheme')}
                                     value='use_system'
                                     defaultChecked={this.state.trayIconTheme === 'use_system' || !this.state.trayIconTheme}
                                     onChange={() => this.handleChangeTrayIconTheme('use_system')}
@@ -885,6 +926,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             type='radio'
                             inline={true}
                             name='trayIconTheme'
+                            disabled={this.isLocked('trayIconTheme')}
                             value='light'
                             defaultChecked={this.state.trayIconTheme === 'light' || !this.state.trayIconTheme}
                             onChange={() => this.handleChangeTrayIconTheme('light')}
@@ -900,6 +942,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             type='radio'
                             inline={true}
                             name='trayIconTheme'
+                            disabled={this.isLocked('trayIconTheme')}
                             value='dark'
                             defaultChecked={this.state.trayIconTheme === 'dark'}
                             onChange={() => this.handleChangeTrayIconTheme('dark')}
@@ -924,7 +967,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         type='checkbox'
                         id='inputMinimizeToTray'
                         ref={this.minimizeToTrayRef}
-                        disabled={process.platform !== 'win32' && !this.state.showTrayIcon}
+                        disabled={this.isLocked('minimizeToTray') || (process.platform !== 'win32' && !this.state.showTrayIcon)}
                         checked={this.state.minimizeToTray}
                         onChange={this.handleChangeMinimizeToTray}
                     />
@@ -946,6 +989,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                                 />
                             </>
                         }
+                        {this.renderManagedNote('minimizeToTray')}
                     </FormText>
                 </FormCheck>);
         }
@@ -958,6 +1002,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                     type='checkbox'
                     id='inputEnableHardwareAcceleration'
                     ref={this.enableHardwareAccelerationRef}
+                    disabled={this.isLocked('enableHardwareAcceleration')}
                     checked={this.state.enableHardwareAcceleration}
                     onChange={this.handleChangeEnableHardwareAcceleration}
                 />
@@ -978,6 +1023,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         id='renderer.components.settingsPage.afterRestart'
                         defaultMessage='Setting takes effect after restarting the app.'
                     />
+                    {this.renderManagedNote('enableHardwareAcceleration')}
                 </FormText>
             </FormCheck>,
         );
@@ -990,6 +1036,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                     type='checkbox'
                     id='inputStartInFullScreen'
                     ref={this.startInFullscreenRef}
+                    disabled={this.isLocked('startInFullscreen')}
                     checked={this.state.startInFullscreen}
                     onChange={this.handleChangeStartInFullscreen}
                 />
@@ -1005,6 +1052,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                             appName: this.state.appName,
                         }}
                     />
+                    {this.renderManagedNote('startInFullscreen')}
                 </FormText>
             </FormCheck>,
         );
@@ -1023,6 +1071,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                     style={settingsPage.appLanguageInput}
                     as='select'
                     id='inputAppLanguage'
+                    disabled={this.isLocked('appLanguage')}
                     ref={this.appLanguageRef}
                     value={this.state.appLanguage}
                     onChange={this.handleChangeAppLanguage}
@@ -1051,6 +1100,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         id='renderer.components.settingsPage.afterRestart'
                         defaultMessage='Setting takes effect after restarting the app.'
                     />
+                    {this.renderManagedNote('appLanguage')}
                 </FormText>
                 <br/>
                 <div>
@@ -1071,6 +1121,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                 <Button
                     style={settingsPage.downloadLocationButton}
                     id='saveDownloadLocation'
+                    disabled={this.isLocked('downloadLocation')}
                     onClick={this.selectDownloadLocation}
                 >
                     <FormattedMessage
@@ -1083,6 +1134,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         id='renderer.components.settingsPage.downloadLocation.description'
                         defaultMessage='Specify the folder where files will download.'
                     />
+                    {this.renderManagedNote('downloadLocation')}
                 </FormText>
                 <br/>
                 <FormattedMessage
@@ -1093,6 +1145,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                     style={settingsPage.logLevelInput}
                     as='select'
                     id='inputLogLevel'
+                    disabled={this.isLocked('logLevel')}
                     ref={this.logLevelRef}
                     value={this.state.logLevel}
                     onChange={this.handleChangeLogLevel}
@@ -1126,6 +1179,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                         id='renderer.components.settingsPage.loggingLevel.description.subtitle'
                         defaultMessage='Increasing the log level increases disk space usage and can impact performance. We recommend only increasing the log level if you are having issues.'
                     />
+                    {this.renderManagedNote('logLevel')}
                 </FormText>
             </div>,
         );
@@ -1196,6 +1250,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                                         key='inputAutoCheckForUpdates'
                                         id='inputAutoCheckForUpdates'
                                         ref={this.autoCheckForUpdatesRef}
+                                        disabled={this.isLocked('autoCheckForUpdates')}
                                         checked={this.state.autoCheckForUpdates}
                                         onChange={this.handleChangeAutoCheckForUpdates}
                                     />
@@ -1208,6 +1263,7 @@ class SettingsPage extends React.PureComponent<Props, State> {
                                             id='renderer.components.settingsPage.updates.automatic.description'
                                             defaultMessage='If enabled, updates to the Desktop App will download automatically and you will be notified when ready to install.'
                                         />
+                                        {this.renderManagedNote('autoCheckForUpdates')}
                                     </FormText>
                                 </FormCheck>
                                 <Button
@@ -11,7 +11,7 @@ import type {IntlShape} from 'react-intl';
 import {FormattedMessage, injectIntl} from 'react-intl';
 
 import type {ViewType} from 'common/views/View';
-import {canCloseView, getViewDisplayName} from 'common/views/View';
+import {TAB_PLUGIN, canCloseView, getViewDisplayName} from 'common/views/View';
 
 import type {UniqueView} from 'types/config';
 
@@ -22,6 +22,9 @@ type Props = {
     isDarkMode: boolean;
     onSelect: (id: string) => void;
     onCloseTab: (id: string) => void;
+
+    // left out when the server can't have plugin views
+    onAddTab?: () => void;
     tabs: UniqueView[];
     sessionsExpired: Record<string, boolean>;
     unreadCounts: Record<string, boolean>;
@@ -82,6 +85,24 @@ class TabBar extends React.PureComponent<Props, State> {
                 mentionCount = this.props.mentionCounts[tab.id!];
             }
 
+            // the plugin views are named by the user, so their name isn't translated
+            let title = tab.displayName;
+            let label: React.ReactNode = (
+                <>
+                    <i className={`TabBar-icon icon-${tab.icon}`}/>
+                    <span>{tab.displayName}</span>
+                </>
+            );
+            if (tab.name !== TAB_PLUGIN) {
+                title = this.props.intl.formatMessage({id: `common.tabs.${tab.name}`, defaultMessage: getViewDisplayName(tab.name as ViewType)});
+                label = (
+                    <FormattedMessage
+                        id={`common.tabs.${tab.name}`}
+                        defaultMessage={getViewDisplayName(tab.name as ViewType)}
+                    />
+                );
+            }
+
             let badgeDiv: React.ReactNode;
             if (sessionExpired) {
                 badgeDiv = (
@@ -124,7 +145,7 @@ class TabBar extends React.PureComponent<Props, State> {
                                 as='li'
                                 id={`serverTabItem${index}`}
                                 draggable={false}
-                                title={this.props.intl.formatMessage({id: `common.tabs.${tab.name}`, defaultMessage: getViewDisplayName(tab.name as ViewType)})}
+                                title={title}
                                 className={classNames('serverTabItem', {
                                     active: this.props.activeTabId === tab.id,
                                     dragging: snapshot.isDragging,
@@ -143,10 +164,7 @@ class TabBar extends React.PureComponent<Props, State> {
                                     }}
                                 >
                                     <div className='TabBar-tabSeperator'>
-                                        <FormattedMessage
-                                            id={`common.tabs.${tab.name}`}
-                                            defaultMessage={getViewDisplayName(tab.name as ViewType)}
-                                        />
+                                        {label}
                                         { badgeDiv }
                                         {canCloseView(tab.name as ViewType) &&
                                             <button
@@ -186,8 +204,21 @@ class TabBar extends React.PureComponent<Props, State> {
                             {...provided.droppableProps}
                         >
                             {tabs}
-                            {this.props.isMenuOpen ? <span className='TabBar-nonDrag'/> : null}
                             {provided.placeholder}
+                            {this.props.onAddTab &&
+                                <li className='TabBar-addTab'>
+                                    <button
+                                        id='addTabButton'
+                                        className='TabBar-addTab__button'
+                                        title={this.props.intl.formatMessage({id: 'renderer.components.tabBar.addTab', defaultMessage: 'Add Tab'})}
+                                        disabled={this.props.tabsDisabled}
+                                        onClick={this.props.onAddTab}
+                                    >
+                                        <i className='icon-plus'/>
+                                    </button>
+                                </li>
+                            }
+                            {this.props.isMenuOpen ? <span className='TabBar-nonDrag'/> : null}
                         </Nav>
                     )}
                 </Droppable>
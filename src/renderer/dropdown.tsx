@@ -10,12 +10,25 @@ import {FormattedMessage} from 'react-intl';
 
 import {TAB_BAR_HEIGHT, THREE_DOT_MENU_WIDTH_MAC} from 'common/utils/constants';
 
-import type {UniqueServer} from 'types/config';
+import type {ConfigServerGroup, UniqueServer} from 'types/config';
+import type {ServerHealth} from 'types/server';
 
 import './css/dropdown.scss';
 
+import ServerAvatar from './components/ServerAvatar';
+import ServerGroupNameInput from './components/ServerGroupNameInput';
+import ServerHealthIndicator from './components/ServerHealthIndicator';
 import IntlProvider from './intl_provider';
 
+const UNGROUPED_DROPPABLE_ID = 'ServerDropdown__droppable';
+const ARCHIVED_SECTION_ID = 'ServerDropdown__archived';
+
+type ServerSection = {
+    droppableId: string;
+    group?: ConfigServerGroup;
+    servers: UniqueServer[];
+};
+
 type State = {
     servers?: UniqueServer[];
     serverOrder?: string[];
@@ -27,6 +40,11 @@ type State = {
     mentions?: Map<string, number>;
     expired?: Map<string, boolean>;
     hasGPOServers?: boolean;
+    serverGroups?: ConfigServerGroup[];
+    serverHealth?: Map<string, ServerHealth>;
+    isAddingGroup: boolean;
+    renamingGroup?: string;
+    showArchived: boolean;
     isAnyDragging: boolean;
     windowBounds?: Electron.Rectangle;
     nonce?: string;
@@ -50,6 +68,8 @@ class ServerDropdown extends React.PureComponent<Record<string, never>, State> {
     constructor(props: Record<string, never>) {
         super(props);
         this.state = {
+            isAddingGroup: false,
+            showArchived: false,
             isAnyDragging: false,
         };
         this.focusedIndex = null;
@@ -70,9 +90,13 @@ class ServerDropdown extends React.PureComponent<Record<string, never>, State> {
         expired?: Map<string, boolean>,
         mentions?: Map<string, number>,
         unreads?: Map<string, boolean>,
+        serverGroups?: ConfigServerGroup[],
+        serverHealth?: Map<string, ServerHealth>,
     ) => {
         this.setState({
             servers,
+            serverGroups,
+            serverHealth,
             activeServer,
             darkMode,
             enableServerManagement,
@@ -119,23 +143,102 @@ class ServerDropdown extends React.PureComponent<Record<string, never>, State> {
     };
 
     onDragEnd = (result: DropResult) => {
-        const removedIndex = result.source.index;
-        const addedIndex = result.destination?.index;
-        if (addedIndex === undefined || removedIndex === addedIndex) {
+        const {source, destination} = result;
+        if (!destination || (source.droppableId === destination.droppableId && source.index === destination.index)) {
             this.setState({isAnyDragging: false});
             return;
         }
         if (!this.state.servers) {
             throw new Error('No config');
         }
-        const serversCopy = this.state.servers.concat();
+        const sections = this.getSections();
+        const sourceSection = sections.find((section) => section.droppableId === source.droppableId);
+        const destinationSection = sections.find((section) => section.droppableId === destination.droppableId);
+        if (!(sourceSection && destinationSection)) {
+            this.setState({isAnyDragging: false});
+            return;
+        }
+
+        const [server] = sourceSection.servers.splice(source.index, 1);
+        destinationSection.servers.splice(destination.index, 0, {...server, group: destinationSection.group?.name});
+
+        // the archived servers can't be dragged, they keep their place at the end
+        const servers = [...sections.flatMap((section) => section.servers), ...this.getArchivedServers()];
+        const serverOrder = servers.map((server) => server.id!);
 
-        const server = serversCopy.splice(removedIndex, 1);
-        const newOrder = addedIndex < this.state.servers.length ? addedIndex : this.state.servers.length - 1;
-        serversCopy.splice(newOrder, 0, server[0]);
+        this.setState({servers, isAnyDragging: false});
+        if (sourceSection === destinationSection) {
+            window.desktop.updateServerOrder(serverOrder);
+        } else {
+            window.desktop.serverDropdown.moveServerToGroup(server.id!, destinationSection.group?.name, serverOrder);
+        }
+    };
+
+    /**
+     * The servers are split up into the ungrouped ones followed by each group, every section being its own drop target
+     */
+    getSections = (): ServerSection[] => {
+        const servers = (this.state.servers ?? []).filter((server) => server.enabled !== false);
+        const serverGroups = this.state.serverGroups ?? [];
+        return [
+            {
+                droppableId: UNGROUPED_DROPPABLE_ID,
+                servers: servers.filter((server) => !server.group || !serverGroups.some((group) => group.name === server.group)),
+            },
+            ...serverGroups.map((group) => ({
+                droppableId: `${UNGROUPED_DROPPABLE_ID}-${group.name}`,
+                group,
+                servers: servers.filter((server) => server.group === group.name),
+            })),
+        ];
+    };
+
+    getArchivedServers = () => {
+        return (this.state.servers ?? []).filter((server) => server.enabled === false);
+    };
 
-        this.setState({servers: serversCopy, isAnyDragging: false});
-        window.desktop.updateServerOrder(serversCopy.map((server) => server.id!));
+    toggleArchived = () => {
+        this.setState({showArchived: !this.state.showArchived});
+    };
+
+    toggleGroup = (group: ConfigServerGroup) => {
+        return () => {
+            window.desktop.serverDropdown.setServerGroupCollapsed(group.name, !group.collapsed);
+        };
+    };
+
+    startAddingGroup = () => {
+        this.setState({isAddingGroup: true, renamingGroup: undefined});
+    };
+
+    addGroup = (name: string) => {
+        window.desktop.serverDropdown.addServerGroup(name);
+        this.setState({isAddingGroup: false});
+    };
+
+    startRenamingGroup = (name: string) => {
+        return (event: React.MouseEvent<HTMLButtonElement>) => {
+            event.stopPropagation();
+            this.setState({isAddingGroup: false, renamingGroup: name});
+        };
+    };
+
+    renameGroup = (name: string) => {
+        return (newName: string) => {
+            window.desktop.serverDropdown.renameServerGroup(name, newName);
+            this.setState({renamingGroup: undefined});
+        };
+    };
+
+    removeGroup = (name: string) => {
+        return (event: React.MouseEvent<HTMLButtonElement>) => {
+            event.stopPropagation();
+            window.desktop.serverDropdown.removeServerGroup(name);
+        };
+    };
+
+    cancelEditingGroup = () => {
+        this.setState({isAddingGroup: false, renamingGroup: undefined});
     };
 
     componentDidMount() {
@@ -172,6 +275,9 @@ class ServerDropdown extends React.PureComponent<Record<string, never>, State> {
             ref.addEventListener('blur', () => {
                 this.focusedIndex = null;
             });
+        } else {
+            // buttons go away when a group is collapsed, so they shouldn't be reachable from the keyboard anymore
+            this.buttonRefs.delete(serverIndex);
         }
     };
 
@@ -230,15 +336,273 @@ class ServerDropdown extends React.PureComponent<Record<string, never>, State> {
         };
     };
 
+    setServerEnabled = (serverId: string, enabled: boolean) => {
+        return (event: React.MouseEvent<HTMLButtonElement>) => {
+            event.stopPropagation();
+            window.desktop.serverDropdown.setServerEnabled(serverId, enabled);
+        };
+    };
+
     serverIsPredefined = (serverId: string) => {
         return this.state.servers?.some((server) => server.id === serverId && server.isPredefined);
     };
 
+    renderBadge = (sessionExpired?: boolean, mentionCount?: number, hasUnreads?: boolean) => {
+        if (sessionExpired) {
+            return (
+                <div className='ServerDropdown__badge-expired'>
+                    <i className='icon-alert-circle-outline'/>
+                </div>
+            );
+        } else if (mentionCount && mentionCount > 0) {
+            return (
+                <div className='ServerDropdown__badge-count'>
+                    <span>{mentionCount > 99 ? '99+' : mentionCount}</span>
+                </div>
+            );
+        } else if (hasUnreads) {
+            return (
+                <div className='ServerDropdown__badge-dot'/>
+            );
+        }
+        return null;
+    };
+
+    renderServer = (server: UniqueServer, orderedIndex: number, buttonIndex: number) => {
+        const badgeDiv = this.renderBadge(
+            this.state.expired?.get(server.id!),
+            this.state.mentions?.get(server.id!),
+            this.state.unreads?.get(server.id!),
+        );
+
+        return (
+            <Draggable
+                key={server.id}
+                draggableId={`ServerDropdown__draggable-${server.id}`}
+                index={orderedIndex}
+                disableInteractiveElementBlocking={true}
+            >
+                {(provided, snapshot) => (
+                    <button
+                        className={classNames('ServerDropdown__button', {
+                            dragging: snapshot.isDragging,
+                            anyDragging: this.state.isAnyDragging,
+                            active: this.isActiveServer(server),
+                        })}
+                        ref={this.setButtonRef(buttonIndex, provided.innerRef)}
+                        {...provided.draggableProps}
+                        onClick={this.selectServer(server)}
+                        style={getStyle(provided.draggableProps.style)}
+                    >
+                        <div
+                            className={classNames('ServerDropdown__draggable-handle', {
+                                dragging: snapshot.isDragging,
+                            })}
+                            {...provided.dragHandleProps}
+                            onClick={this.handleClickOnDragHandle}
+                        >
+                            <i className='icon-drag-vertical'/>
+                            <ServerAvatar server={server}/>
+                            <span>{server.name}</span>
+                            {server.activeURL &&
+                                <span
+                                    className={classNames('ServerDropdown__active-url', {alternate: server.activeURL !== server.url})}
+                                    title={server.activeURL}
+                                >
+                                    {new URL(server.activeURL).host}
+                                </span>
+                            }
+                            <ServerHealthIndicator health={this.state.serverHealth?.get(server.id!)}/>
+                        </div>
+                        {!server.isPredefined && <div className='ServerDropdown__indicators'>
+                            <button
+                                className='ServerDropdown__button-edit'
+                                onClick={this.editServer(server.id!)}
+                            >
+                                <i className='icon-pencil-outline'/>
+                            </button>
+                            <button
+                                className='ServerDropdown__button-archive'
+                                onClick={this.setServerEnabled(server.id!, false)}
+                            >
+                                <i className='icon-archive-outline'/>
+                            </button>
+                            <button
+                                className='ServerDropdown__button-remove'
+                                onClick={this.removeServer(server.id!)}
+                            >
+                                <i className='icon-trash-can-outline'/>
+                            </button>
+                            {badgeDiv && <div className='ServerDropdown__badge'>
+                                {badgeDiv}
+                            </div>}
+                        </div>}
+                    </button>
+                )}
+            </Draggable>
+        );
+    };
+
+    renderArchivedSection = (servers: UniqueServer[], buttonIndexes: Map<string, number>) => {
+        return (
+            <div className='ServerDropdown__section'>
+                <button
+                    className='ServerDropdown__button ServerDropdown__group-header'
+                    ref={(ref) => this.addButtonRef(buttonIndexes.get(ARCHIVED_SECTION_ID)!, ref)}
+                    onClick={this.toggleArchived}
+                    aria-expanded={this.state.showArchived}
+                >
+                    <i className={this.state.showArchived ? 'icon-chevron-down' : 'icon-chevron-right'}/>
+                    <span>
+                        <FormattedMessage
+                            id='renderer.dropdown.archived'
+                            defaultMessage='Archived ({count})'
+                            values={{count: servers.length}}
+                        />
+                    </span>
+                </button>
+                {this.state.showArchived && servers.map((server) => (
+                    <button
+                        key={server.id}
+                        className='ServerDropdown__button ServerDropdown__archived-server'
+                        ref={(ref) => this.addButtonRef(buttonIndexes.get(server.id!)!, ref)}
+                    >
+                        <ServerAvatar server={server}/>
+                        <span>{server.name}</span>
+                        {!server.isPredefined && <div className='ServerDropdown__indicators'>
+                            <button
+                                className='ServerDropdown__button-archive'
+                                onClick={this.setServerEnabled(server.id!, true)}
+                            >
+                                <i className='icon-archive-arrow-up-outline'/>
+                            </button>
+                            <button
+                                className='ServerDropdown__button-remove'
+                                onClick={this.removeServer(server.id!)}
+                            >
+                                <i className='icon-trash-can-outline'/>
+                            </button>
+                        </div>}
+                    </button>
+                ))}
+            </div>
+        );
+    };
+
+    renderGroupHeader = (group: ConfigServerGroup, servers: UniqueServer[], buttonIndex: number) => {
+        if (this.state.renamingGroup === group.name) {
+            return (
+                <ServerGroupNameInput
+                    name={group.name}
+                    groups={this.state.serverGroups?.map((serverGroup) => serverGroup.name) ?? []}
+                    onSave={this.renameGroup(group.name)}
+                    onCancel={this.cancelEditingGroup}
+                />
+            );
+        }
+
+        // the group header shows the totals of every server in it, so that they can still be seen when the group is collapsed
+        const mentionCount = servers.reduce((total, server) => total + (this.state.mentions?.get(server.id!) ?? 0), 0);
+        const hasUnreads = servers.some((server) => this.state.unreads?.get(server.id!));
+        const badgeDiv = this.renderBadge(false, mentionCount, hasUnreads);
+
+        return (
+            <button
+                className={classNames('ServerDropdown__button ServerDropdown__group-header', {
+                    anyDragging: this.state.isAnyDragging,
+                })}
+                ref={(ref) => this.addButtonRef(buttonIndex, ref)}
+                onClick={this.toggleGroup(group)}
+                aria-expanded={!group.collapsed}
+            >
+                <i className={group.collapsed ? 'icon-chevron-right' : 'icon-chevron-down'}/>
+                <span>{group.name}</span>
+                <div className='ServerDropdown__indicators'>
+                    {this.state.enableServerManagement && <>
+                        <button
+                            className='ServerDropdown__button-edit'
+                            onClick={this.startRenamingGroup(group.name)}
+                        >
+                            <i className='icon-pencil-outline'/>
+                        </button>
+                        <button
+                            className='ServerDropdown__button-remove'
+                            onClick={this.removeGroup(group.name)}
+                        >
+                            <i className='icon-trash-can-outline'/>
+                        </button>
+                    </>}
+                    {badgeDiv && <div className='ServerDropdown__badge'>
+                        {badgeDiv}
+                    </div>}
+                </div>
+            </button>
+        );
+    };
+
+    renderSection = (section: ServerSection, buttonIndexes: Map<string, number>) => {
+        const isCollapsed = Boolean(section.group?.collapsed);
+        return (
+            <div
+                key={section.droppableId}
+                className='ServerDropdown__section'
+            >
+                {section.group && this.renderGroupHeader(section.group, section.servers, buttonIndexes.get(section.droppableId)!)}
+                <Droppable
+                    isDropDisabled={this.state.hasGPOServers || isCollapsed}
+                    droppableId={section.droppableId}
+                >
+                    {(provided, snapshot) => (
+                        <div
+                            className={classNames('ServerDropdown__droppable', {
+                                group: Boolean(section.group),
+                                draggingOver: snapshot.isDraggingOver,
+                            })}
+                            ref={provided.innerRef}
+                            {...provided.droppableProps}
+                        >
+                            {!isCollapsed && section.servers.map((server, orderedIndex) => this.renderServer(server, orderedIndex, buttonIndexes.get(server.id!)!))}
+                            {section.group && !isCollapsed && !section.servers.length && !this.state.isAnyDragging &&
+                                <span className='ServerDropdown__group-empty'>
+                                    <FormattedMessage
+                                        id='renderer.dropdown.emptyGroup'
+                                        defaultMessage='Drag servers here'
+                                    />
+                                </span>
+                            }
+                            {provided.placeholder}
+                        </div>
+                    )}
+                </Droppable>
+            </div>
+        );
+    };
+
     render() {
         if (!this.state.nonce) {
             return null;
         }
 
+        // every visible button gets an index in display order, for navigating with the keyboard
+        const sections = this.getSections();
+        const buttonIndexes = new Map<string, number>();
+        sections.forEach((section) => {
+            if (section.group) {
+                buttonIndexes.set(section.droppableId, buttonIndexes.size);
+                if (section.group.collapsed) {
+                    return;
+                }
+            }
+            section.servers.forEach((server) => buttonIndexes.set(server.id!, buttonIndexes.size));
+        });
+        const archivedServers = this.getArchivedServers();
+        if (archivedServers.length) {
+            buttonIndexes.set(ARCHIVED_SECTION_ID, buttonIndexes.size);
+            if (this.state.showArchived) {
+                archivedServers.forEach((server) => buttonIndexes.set(server.id!, buttonIndexes.size));
+            }
+        }
+
         return (
             <IntlProvider>
                 <div
@@ -263,108 +627,21 @@ class ServerDropdown extends React.PureComponent<Record<string, never>, State> {
                         </span>
                     </div>
                     <hr className='ServerDropdown__divider'/>
-                    <DragDropContext
-                        nonce={this.state.nonce}
-                        onDragStart={this.onDragStart}
-                        onDragEnd={this.onDragEnd}
-                    >
-                        <Droppable
-                            isDropDisabled={this.state.hasGPOServers}
-                            droppableId='ServerDropdown__droppable'
+                    <div className='ServerDropdown__list'>
+                        <DragDropContext
+                            nonce={this.state.nonce}
+                            onDragStart={this.onDragStart}
+                            onDragEnd={this.onDragEnd}
                         >
-                            {(provided) => (
-                                <div
-                                    className='ServerDropdown__droppable'
-                                    ref={provided.innerRef}
-                                    {...provided.droppableProps}
-                                >
-                                    {this.state.servers?.map((server, orderedIndex) => {
-                                        const index = this.state.servers?.indexOf(server);
-                                        const sessionExpired = this.state.expired?.get(server.id!);
-                                        const hasUnreads = this.state.unreads?.get(server.id!);
-                                        const mentionCount = this.state.mentions?.get(server.id!);
-
-                                        let badgeDiv: React.ReactNode;
-                                        if (sessionExpired) {
-                                            badgeDiv = (
-                                                <div className='ServerDropdown__badge-expired'>
-                                                    <i className='icon-alert-circle-outline'/>
-                                                </div>
-                                            );
-                                        } else if (mentionCount && mentionCount > 0) {
-                                            badgeDiv = (
-                                                <div className='ServerDropdown__badge-count'>
-                                                    <span>{mentionCount > 99 ? '99+' : mentionCount}</span>
-                                                </div>
-                                            );
-                                        } else if (hasUnreads) {
-                                            badgeDiv = (
-                                                <div className='ServerDropdown__badge-dot'/>
-                                            );
-                                        }
-
-                                        return (
-                                            <Draggable
-                                                key={index}
-                                                draggableId={`ServerDropdown__draggable-${index}`}
-                                                index={orderedIndex}
-                                                disableInteractiveElementBlocking={true}
-                                            >
-                                                {(provided, snapshot) => (
-                                                    <button
-                                                        className={classNames('ServerDropdown__button', {
-                                                            dragging: snapshot.isDragging,
-                                                            anyDragging: this.state.isAnyDragging,
-                                                            active: this.isActiveServer(server),
-                                                        })}
-                                                        ref={this.setButtonRef(orderedIndex, provided.innerRef)}
-                                                        {...provided.draggableProps}
-                                                        onClick={this.selectServer(server)}
-                                                        style={getStyle(provided.draggableProps.style)}
-                                                    >
-                                                        <div
-                                                            className={classNames('ServerDropdown__draggable-handle', {
-                                                                dragging: snapshot.isDragging,
-                                                            })}
-                                                            {...provided.dragHandleProps}
-                                                            onClick={this.handleClickOnDragHandle}
-                                                        >
-                                                            <i className='icon-drag-vertical'/>
-                                                            {this.isActiveServer(server) ? <i className='icon-check'/> : <i className='icon-server-variant'/>}
-                                                            <span>{server.name}</span>
-                                                        </div>
-                                                        {!server.isPredefined && <div className='ServerDropdown__indicators'>
-                                                            <button
-                                                                className='ServerDropdown__button-edit'
-                                                                onClick={this.editServer(server.id!)}
-                                                            >
-                                                                <i className='icon-pencil-outline'/>
-                                                            </button>
-                                                            <button
-                                                                className='ServerDropdown__button-remove'
-                                                                onClick={this.removeServer(server.id!)}
-                                                            >
-                                                                <i className='icon-trash-can-outline'/>
-                                                            </button>
-                                                            {badgeDiv && <div className='ServerDropdown__badge'>
-                                                                {badgeDiv}
-                                                            </div>}
-                                                        </div>}
-                                                    </button>
-                                                )}
-                                            </Draggable>
-                                        );
-                                    })}
-                                    {provided.placeholder}
-                                </div>
-                            )}
-                        </Droppable>
-                    </DragDropContext>
+                            {sections.map((section) => this.renderSection(section, buttonIndexes))}
+                        </DragDropContext>
+                        {archivedServers.length > 0 && this.renderArchivedSection(archivedServers, buttonIndexes)}
+                    </div>
                     <hr className='ServerDropdown__divider'/>
                     {this.state.enableServerManagement &&
                         <button
                             ref={(ref) => {
-                                this.addButtonRef(this.state.servers?.length || 0, ref);
+                                this.addButtonRef(buttonIndexes.size, ref);
                             }}
                             className='ServerDropdown__button addServer'
                             onClick={this.addServer}
@@ -376,6 +653,27 @@ class ServerDropdown extends React.PureComponent<Record<string, never>, State> {
                             />
                         </button>
                     }
+                    {this.state.enableServerManagement && (this.state.isAddingGroup ? (
+                        <ServerGroupNameInput
+                            groups={this.state.serverGroups?.map((serverGroup) => serverGroup.name) ?? []}
+                            onSave={this.addGroup}
+                            onCancel={this.cancelEditingGroup}
+                        />
+                    ) : (
+                        <button
+                            ref={(ref) => {
+                                this.addButtonRef(buttonIndexes.size + 1, ref);
+                            }}
+                            className='ServerDropdown__button addServer'
+                            onClick={this.startAddingGroup}
+                        >
+                            <i className='icon-folder-plus-outline'/>
+                            <FormattedMessage
+                                id='renderer.dropdown.addAGroup'
+                                defaultMessage='Add a group'
+                            />
+                        </button>
+                    ))}
                 </div>
             </IntlProvider>
         );
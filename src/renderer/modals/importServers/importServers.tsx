@@ -0,0 +1,56 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import 'bootstrap/dist/css/bootstrap.min.css';
+import 'renderer/css/modals.css';
+
+import React, {useEffect, useState} from 'react';
+import ReactDOM from 'react-dom';
+
+import IntlProvider from 'renderer/intl_provider';
+
+import type {Server} from 'types/config';
+import type {ImportServersModalInfo} from 'types/modals';
+
+import ImportServersModal from '../../components/ImportServersModal';
+import setupDarkMode from '../darkMode';
+
+setupDarkMode();
+
+const onClose = () => {
+    window.desktop.modals.cancelModal();
+};
+
+const onSave = (data: Server[]) => {
+    window.desktop.modals.finishModal(data);
+};
+
+const ImportServersModalWrapper: React.FC = () => {
+    const [info, setInfo] = useState<ImportServersModalInfo>();
+
+    useEffect(() => {
+        window.desktop.modals.getModalInfo<ImportServersModalInfo>().then((data) => {
+            setInfo(data);
+        });
+    }, []);
+
+    return (
+        <IntlProvider>
+            <ImportServersModal
+                show={Boolean(info)}
+                servers={info?.servers ?? []}
+                onClose={onClose}
+                onSave={onSave}
+            />
+        </IntlProvider>
+    );
+};
+
+const start = async () => {
+    ReactDOM.render(
+        <ImportServersModalWrapper/>,
+        document.getElementById('app'),
+    );
+};
+
+start();
@@ -0,0 +1,57 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import 'bootstrap/dist/css/bootstrap.min.css';
+import 'renderer/css/modals.css';
+
+import React, {useEffect, useState} from 'react';
+import ReactDOM from 'react-dom';
+
+import IntlProvider from 'renderer/intl_provider';
+
+import type {PluginViewSettings} from 'types/config';
+import type {PluginViewModalInfo} from 'types/modals';
+
+import PluginViewModal from '../../components/PluginViewModal';
+import setupDarkMode from '../darkMode';
+
+setupDarkMode();
+
+const onClose = () => {
+    window.desktop.modals.cancelModal();
+};
+
+const onSave = (data: PluginViewSettings) => {
+    window.desktop.modals.finishModal(data);
+};
+
+const PluginViewModalWrapper: React.FC = () => {
+    const [info, setInfo] = useState<PluginViewModalInfo>();
+
+    useEffect(() => {
+        window.desktop.modals.getModalInfo<PluginViewModalInfo>().then((data) => {
+            setInfo(data);
+        });
+    }, []);
+
+    return (
+        <IntlProvider>
+            <PluginViewModal
+                show={Boolean(info)}
+                serverName={info?.serverName ?? ''}
+                paths={info?.paths ?? []}
+                onClose={onClose}
+                onSave={onSave}
+            />
+        </IntlProvider>
+    );
+};
+
+const start = async () => {
+    ReactDOM.render(
+        <PluginViewModalWrapper/>,
+        document.getElementById('app'),
+    );
+};
+
+start();
@@ -0,0 +1,56 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import 'bootstrap/dist/css/bootstrap.min.css';
+import 'renderer/css/modals.css';
+
+import React, {useEffect, useState} from 'react';
+import ReactDOM from 'react-dom';
+
+import IntlProvider from 'renderer/intl_provider';
+
+import type {ProfileNameModalInfo} from 'types/modals';
+
+import ProfileNameModal from '../../components/ProfileNameModal';
+import setupDarkMode from '../darkMode';
+
+setupDarkMode();
+
+const onClose = () => {
+    window.desktop.modals.cancelModal();
+};
+
+const onSave = (data: string) => {
+    window.desktop.modals.finishModal(data);
+};
+
+const ProfileNameModalWrapper: React.FC = () => {
+    const [info, setInfo] = useState<ProfileNameModalInfo>();
+
+    useEffect(() => {
+        window.desktop.modals.getModalInfo<ProfileNameModalInfo>().then((data) => {
+            setInfo(data);
+        });
+    }, []);
+
+    return (
+        <IntlProvider>
+            <ProfileNameModal
+                show={Boolean(info)}
+                name={info?.name}
+                profiles={info?.profiles ?? []}
+                onClose={onClose}
+                onSave={onSave}
+            />
+        </IntlProvider>
+    );
+};
+
+const start = async () => {
+    ReactDOM.render(
+        <ProfileNameModalWrapper/>,
+        document.getElementById('app'),
+    );
+};
+
+start();
@@ -4,6 +4,17 @@
 export type View = {
     name: string;
     isOpen?: boolean;
+
+    // only set for the plugin views, which show a page of the server picked by the user
+    path?: string;
+    displayName?: string;
+    icon?: string;
+}
+
+export type PluginViewSettings = {
+    path: string;
+    displayName: string;
+    icon?: string;
 }
 
 export type Server = {
@@ -15,26 +26,117 @@ export type ConfigView = View & {
     order: number;
 }
 
+export type ConfigServerSettings = {
+    enableNotifications?: boolean;
+    enableNotificationSounds?: boolean;
+    zoomLevel?: number;
+    spellCheckerLocales?: string[];
+    downloadLocation?: string;
+}
+
 export type ConfigServer = Server & {
     order: number;
     lastActiveTab?: number;
     tabs: ConfigView[];
+    settings?: ConfigServerSettings;
+    group?: string;
+    icon?: ServerIcon;
+    siteURLDecision?: SiteURLDecision;
+    proxy?: ServerProxy;
+    partition?: string;
+
+    // the partition used for the proxy of the server, kept once created so that changing the proxy or the URL doesn't sign the user out
+    proxyPartition?: string;
+    headers?: ServerHeader[];
+
+    // archived servers are kept in the config without being loaded, leaving it out is the same as enabled
+    enabled?: boolean;
+
+    // tried in order when the server can't be reached through its URL
+    alternateURLs?: string[];
+
+    // set once the user chose to keep the server even though a predefined server has the same URL
+    allowDuplicate?: boolean;
+}
+
+export type ServerIcon = {
+    color?: string;
+    image?: string;
+}
+
+export type SiteURLDecisionType = 'accepted' | 'rejected' | 'pinned';
+
+export type SiteURLDecision = {
+    siteURL: string;
+    decision: SiteURLDecisionType;
+    time: number;
+}
+
+// what is kept for a predefined server, along with the URL it is on now since accepting a Site URL moves it
+export type PredefinedSiteURLDecision = {
+    url: string;
+    siteURLDecision: SiteURLDecision;
+}
+
+export type ServerProxyMode = 'system' | 'direct' | 'manual' | 'pac';
+
+export type ServerProxy = {
+    mode: ServerProxyMode;
+    host?: string;
+    port?: number;
+    bypass?: string;
+    pacURL?: string;
+}
+
+// secret values are only ever stored encrypted, and are never sent to the renderer
+export type ServerHeader = {
+    name: string;
+    value?: string;
+    encryptedValue?: string;
+}
+
+export type UniqueServerHeader = {
+    name: string;
+    value?: string;
+    secret?: boolean;
 }
 
+export type ConfigServerGroup = {
+    name: string;
+    collapsed: boolean;
+}
+
+export type ServerSettings = Required<Omit<ConfigServerSettings, 'zoomLevel' | 'downloadLocation'>> & Pick<ConfigServerSettings, 'zoomLevel' | 'downloadLocation'>;
+
 export type UniqueServer = Server & {
     id?: string;
     isPredefined?: boolean;
+    group?: string;
+    icon?: ServerIcon;
+    favicon?: string;
+    proxy?: ServerProxy;
+    isolatedSession?: boolean;
+    headers?: UniqueServerHeader[];
+    enabled?: boolean;
+    alternateURLs?: string[];
+    activeURL?: string;
 }
 
 export type UniqueView = View & {
     id?: string;
 }
 
-export type Config = ConfigV3;
+export type Config = ConfigV4;
+
+export type ConfigV4 = Omit<ConfigV3, 'version' | 'teams'> & {
+    version: 4;
+    teams: ConfigServer[];
+    serverGroups?: ConfigServerGroup[];
+}
 
 export type ConfigV3 = {
     version: 3;
-    teams: ConfigServer[];
+    teams: Array<Omit<ConfigServer, 'settings'>>;
     showTrayIcon: boolean;
     trayIconTheme: string;
     minimizeToTray: boolean;
@@ -100,7 +202,7 @@ export type ConfigV1 =
 
 export type ConfigV0 = {version: 0; url: string};
 
-export type AnyConfig = ConfigV3 | ConfigV2 | ConfigV1 | ConfigV0;
+export type AnyConfig = ConfigV4 | ConfigV3 | ConfigV2 | ConfigV1 | ConfigV0;
 
 export type BuildConfig = {
     defaultServers?: Server[];
@@ -109,6 +211,7 @@ export type BuildConfig = {
     enableAutoUpdater: boolean;
     managedResources: string[];
     allowedProtocols: string[];
+    provisioningPublicKey?: string;
 }
 
 export type RegistryConfig = {
@@ -117,6 +220,32 @@ export type RegistryConfig = {
     enableAutoUpdater: boolean;
 }
 
+export type EnvironmentConfig = Pick<ConfigV3, 'logLevel' | 'downloadLocation'> & {
+    servers: Server[];
+}
+
+export type LockableSettings = Omit<ConfigV4, 'version' | 'teams' | 'lastActiveTeam' | 'serverGroups'>;
+
+export type PolicyConfig = {
+    servers: Server[];
+    enableServerManagement: boolean;
+    enableAutoUpdater: boolean;
+    lockedSettings: Partial<LockableSettings>;
+    provisionURL?: string;
+}
+
+export type ProvisioningConfig = {
+    servers: Server[];
+    lockedSettings: Partial<LockableSettings>;
+    allowedProtocols: string[];
+}
+
+// the JSON document served from the provisioning URL, the signature covers the payload string as is
+export type ProvisioningDocument = {
+    payload: string;
+    signature: string;
+}
+
 export type CombinedConfig = Omit<Config, 'teams'> & Omit<BuildConfig, 'defaultServers'> & {
     appName: string;
 }
@@ -125,6 +254,7 @@ export type LocalConfiguration = Config & {
     appName: string;
     enableServerManagement: boolean;
     canUpgrade: boolean;
+    lockedSettings: Array<keyof LockableSettings>;
 }
 
 export type MigrationInfo = {
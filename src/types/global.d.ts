@@ -10,6 +10,8 @@ declare namespace globalThis {
         hidden?: boolean;
         disableDevMode?: boolean;
         dataDir?: string;
+        profile?: string;
+        provisionURL?: string;
         version?: boolean;
         fullscreen?: boolean;
     };
@@ -7,6 +7,7 @@ import type {
     Certificate,
 } from 'electron/common';
 
+import type {Server} from './config';
 import type {PermissionType} from './trustedOrigin';
 
 export type CertificateModalInfo = {
@@ -23,3 +24,17 @@ export type PermissionModalInfo = {
     url: string;
     permission: PermissionType;
 }
+
+export type ProfileNameModalInfo = {
+    name?: string;
+    profiles: string[];
+}
+
+export type PluginViewModalInfo = {
+    serverName: string;
+    paths: string[];
+}
+
+export type ImportServersModalInfo = {
+    servers: Server[];
+}
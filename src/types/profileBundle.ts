@@ -0,0 +1,18 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import type {ComparableCertificate} from './certificate';
+import type {AnyConfig} from './config';
+import type {Permissions} from './permissions';
+import type {TrustedOrigin} from './trustedOrigin';
+
+export type ProfileBundle = {
+    version: 1;
+    config: AnyConfig;
+    certificates: Record<string, ComparableCertificate>;
+    trustedOrigins: Record<string, TrustedOrigin>;
+    permissions: Record<string, Permissions>;
+    allowedProtocols: string[];
+};
+
+export type ProfileBundleImportMode = 'merge' | 'replace';
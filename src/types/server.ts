@@ -7,6 +7,25 @@ export type RemoteInfo = {
     siteURL?: string;
     hasFocalboard?: boolean;
     hasPlaybooks?: boolean;
+    hasCustomBrand?: boolean;
+    desktopPolicy?: ServerDesktopPolicy;
+};
+
+export type ServerDesktopPolicyExternalLinks = 'browser' | 'confirm' | 'block';
+
+// set by the admin of a server for that server only, leaving a setting out keeps the usual behavior of the app
+export type ServerDesktopPolicy = {
+
+    // lowercase and without the dot, any file can be downloaded when left out
+    allowedDownloadExtensions?: string[];
+    externalLinks?: ServerDesktopPolicyExternalLinks;
+    minimumDesktopVersion?: string;
+    allowDevTools?: boolean;
+};
+
+export type CachedRemoteInfo = {
+    remoteInfo: RemoteInfo;
+    time: number;
 };
 
 export type ClientConfig = {
@@ -14,6 +33,10 @@ export type ClientConfig = {
     SiteURL: string;
     SiteName: string;
     BuildBoards: string;
+    EnableCustomBrand: string;
+
+    // a JSON object like every other value of the old format is a string, only sent by the servers that set a desktop policy
+    DesktopPolicy?: string;
 }
 
 export type URLValidationResult = {
@@ -23,3 +46,28 @@ export type URLValidationResult = {
     serverVersion?: string;
     serverName?: string;
 }
+
+export type ServerFeature = 'historyPush' | 'callsWidget';
+
+export type ServerCompatibility = {
+    serverVersion: string;
+    minimumVersion: string;
+    isSupported: boolean;
+    unsupportedFeatures: ServerFeature[];
+};
+
+export type ServerHealthStatus = 'unknown' | 'up' | 'down';
+
+export type ServerHealthCheck = {
+    time: number;
+    up: boolean;
+    latency?: number;
+};
+
+export type ServerHealth = {
+    status: ServerHealthStatus;
+    latency?: number;
+    since?: number;
+    lastChecked?: number;
+    history: ServerHealthCheck[];
+};
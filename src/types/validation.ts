@@ -0,0 +1,9 @@
+// Copyright (c) 2016-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+export type ValidationProblem = {
+
+    // dot separated path to the offending field or entry, eg. teams.0.url
+    path: string;
+    reason: string;
+};
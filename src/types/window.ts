@@ -3,9 +3,9 @@
 
 import type {ipcRenderer, Rectangle} from 'electron/renderer';
 
-import type {CombinedConfig, LocalConfiguration, UniqueView, UniqueServer} from './config';
+import type {CombinedConfig, ConfigServerGroup, LocalConfiguration, UniqueView, UniqueServer} from './config';
 import type {DownloadedItem, DownloadedItems, DownloadsMenuOpenEventPayload} from './downloads';
-import type {URLValidationResult} from './server';
+import type {ServerCompatibility, ServerHealth, URLValidationResult} from './server';
 import type {SaveQueueItem} from './settings';
 
 import type {Language} from '../../i18n/i18n';
@@ -34,6 +34,7 @@ declare global {
             openServersDropdown: () => void;
             switchTab: (viewId: string) => void;
             closeView: (viewId: string) => void;
+            showPluginViewModal: (serverId: string) => void;
             exitFullScreen: () => void;
             doubleClickOnWindow: (windowName?: string) => void;
             focusCurrentView: () => void;
@@ -53,6 +54,9 @@ declare global {
             getOrderedTabsForServer: (serverId: string) => Promise<UniqueView[]>;
             onUpdateServers: (listener: () => void) => void;
             validateServerURL: (url: string, currentId?: string) => Promise<URLValidationResult>;
+            getServerCompatibility: () => Promise<Record<string, ServerCompatibility>>;
+            onUpdateServerCompatibility: (listener: (compatibility: Record<string, ServerCompatibility>) => void) => void;
+            dismissServerCompatibility: (serverId: string) => void;
 
             getConfiguration: () => Promise<CombinedConfig[keyof CombinedConfig] | CombinedConfig>;
             getVersion: () => Promise<{name: string; version: string}>;
@@ -139,6 +143,12 @@ declare global {
                 showNewServerModal: () => void;
                 showEditServerModal: (serverId: string) => void;
                 showRemoveServerModal: (serverId: string) => void;
+                moveServerToGroup: (serverId: string, group: string | undefined, serverOrder: string[]) => void;
+                addServerGroup: (name: string) => void;
+                renameServerGroup: (name: string, newName: string) => void;
+                removeServerGroup: (name: string) => void;
+                setServerGroupCollapsed: (name: string, collapsed: boolean) => void;
+                setServerEnabled: (serverId: string, enabled: boolean) => void;
 
                 onUpdateServerDropdown: (listener: (
                     servers: UniqueServer[],
@@ -150,6 +160,8 @@ declare global {
                     expired?: Map<string, boolean>,
                     mentions?: Map<string, number>,
                     unreads?: Map<string, boolean>,
+                    serverGroups?: ConfigServerGroup[],
+                    serverHealth?: Map<string, ServerHealth>,
                 ) => void) => void;
             };
         };
@@ -26,6 +26,9 @@ module.exports = merge(base, {
         certificateModal: './src/renderer/modals/certificate/certificate.tsx',
         loadingScreen: './src/renderer/modals/loadingScreen/index.tsx',
         welcomeScreen: './src/renderer/modals/welcomeScreen/welcomeScreen.tsx',
+        profileName: './src/renderer/modals/profileName/profileName.tsx',
+        importServers: './src/renderer/modals/importServers/importServers.tsx',
+        pluginView: './src/renderer/modals/pluginView/pluginView.tsx',
     },
     output: {
         path: process.env.NODE_ENV === 'test' ? path.resolve(__dirname, 'e2e/dist/renderer') : path.resolve(__dirname, 'dist/renderer'),
@@ -122,6 +125,24 @@ module.exports = merge(base, {
             chunks: ['welcomeScreen'],
             filename: 'welcomeScreen.html',
         }),
+        new HtmlWebpackPlugin({
+            title: 'Mattermost Desktop Settings',
+            template: 'src/renderer/index.html',
+            chunks: ['profileName'],
+            filename: 'profileName.html',
+        }),
+        new HtmlWebpackPlugin({
+            title: 'Mattermost Desktop Settings',
+            template: 'src/renderer/index.html',
+            chunks: ['importServers'],
+            filename: 'importServers.html',
+        }),
+        new HtmlWebpackPlugin({
+            title: 'Mattermost Desktop Settings',
+            template: 'src/renderer/index.html',
+            chunks: ['pluginView'],
+            filename: 'pluginView.html',
+        }),
         new MiniCssExtractPlugin({
             filename: 'styles.[contenthash].css',
             ignoreOrder: true,